@@ -0,0 +1,39 @@
+import { createClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+import { closeExpiredAttendances } from "@/lib/attendance";
+
+// 出欠回答の締切処理（定期実行のジョブから呼び出す）
+// 全チームの出欠を更新するため、CRON_SECRET で認証して service role のクライアントを使う
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (
+    !secret ||
+    request.headers.get("authorization") !== `Bearer ${secret}`
+  ) {
+    return NextResponse.json({ error: "認証に失敗しました" }, { status: 401 });
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceRoleKey) {
+    return NextResponse.json(
+      { error: "Supabase の設定がありません" },
+      { status: 500 }
+    );
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    const result = await closeExpiredAttendances(supabase);
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("出欠締切処理エラー:", error);
+    return NextResponse.json(
+      { error: "出欠の締切処理に失敗しました" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,13 @@ import { useAuth } from "@/components/auth/AuthProvider";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import PersonalStats from "@/components/stats/PersonalStats";
+import TeamAchievements from "@/components/stats/TeamAchievements";
+import {
+  formatDeadlineCountdown,
+  isAttendanceLocked,
+} from "@/lib/attendance";
+import { resolveGameRules } from "@/lib/game-rules";
+import { evaluateRoster, RosterStatus } from "@/lib/roster";
 
 interface Team {
   id: string;
@@ -58,6 +65,16 @@ interface PendingAttendance {
   game_date: string;
   game_time: string | null;
   team_name: string;
+  attendance_deadline: string | null;
+}
+
+interface RosterShortage {
+  game_id: string;
+  game_name: string;
+  game_date: string;
+  team_name: string;
+  roster: RosterStatus;
+  helper_assignee: string | null; // 助っ人の手配の担当者
 }
 
 export default function DashboardPage() {
@@ -76,6 +93,9 @@ export default function DashboardPage() {
   const [pendingAttendances, setPendingAttendances] = useState<
     PendingAttendance[]
   >([]);
+  const [rosterShortages, setRosterShortages] = useState<RosterShortage[]>(
+    []
+  );
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
   const router = useRouter();
@@ -273,7 +293,9 @@ if (myTeamMembers && myTeamMembers.length > 0) {
     game_time,
     status,
     home_team_id,
-    attendance_check_enabled
+    attendance_check_enabled,
+    attendance_deadline,
+    rules
   `
             )
             .in("home_team_id", teamIds)
@@ -287,6 +309,54 @@ if (myTeamMembers && myTeamMembers.length > 0) {
           if (activeGames && activeGames.length > 0) {
             const gameIds = activeGames.map((g) => g.id);
 
+            // 出席人数が打順の人数に足りない試合（警告期間に入ったもの）
+            const [
+              { data: rosterAttendances },
+              { data: rosterTeams },
+              { data: helperTasks },
+            ] = await Promise.all([
+              supabase
+                .from("game_attendances")
+                .select("game_id, team_member_id, person_name, status")
+                .in("game_id", gameIds),
+              supabase
+                .from("teams")
+                .select("id, name, default_rules")
+                .in("id", teamIds),
+              supabase
+                .from("game_operation_tasks")
+                .select("game_id, person_name")
+                .in("game_id", gameIds)
+                .eq("task_type", "helper"),
+            ]);
+
+            const shortages = activeGames
+              .map((game: any) => {
+                const team = rosterTeams?.find(
+                  (t) => t.id === game.home_team_id
+                );
+                const roster = evaluateRoster(
+                  (rosterAttendances || []).filter(
+                    (a) => a.game_id === game.id
+                  ),
+                  resolveGameRules(game.rules, team?.default_rules),
+                  game.game_date
+                );
+                return {
+                  game_id: game.id,
+                  game_name: game.name,
+                  game_date: game.game_date,
+                  team_name: team?.name || "チーム",
+                  roster,
+                  helper_assignee:
+                    helperTasks?.find((t) => t.game_id === game.id)
+                      ?.person_name || null,
+                };
+              })
+              .filter((shortage) => shortage.roster.shouldWarn)
+              .sort((a, b) => a.game_date.localeCompare(b.game_date));
+            setRosterShortages(shortages);
+
             // 該当試合での自分の出欠状況を確認
             const { data: myAttendances, error: attendanceError } =
               await supabase
@@ -305,8 +375,9 @@ if (myTeamMembers && myTeamMembers.length > 0) {
             console.log("自分の出欠データ:", myAttendances);
             console.log("出欠取得エラー:", attendanceError);
 
-            // 未回答の試合を特定
+            // 未回答の試合を特定（締切を過ぎた試合は回答できないため除く）
             const pendingGames = activeGames.filter((game) => {
+              if (isAttendanceLocked(game.attendance_deadline)) return false;
               const myAttendance = myAttendances?.find(
                 (a) => a.game_id === game.id
               );
@@ -339,6 +410,7 @@ if (myTeamMembers && myTeamMembers.length > 0) {
                   game_date: game.game_date,
                   game_time: game.game_time,
                   team_name: team?.name || "チーム",
+                  attendance_deadline: game.attendance_deadline,
                 };
               });
 
@@ -450,6 +522,14 @@ if (myTeamMembers && myTeamMembers.length > 0) {
                           {" - "}
                           {attendance.game_name}（{attendance.team_name}）
                         </Link>
+                        {attendance.attendance_deadline && (
+                          <span className="ml-2 font-semibold">
+                            締切
+                            {formatDeadlineCountdown(
+                              attendance.attendance_deadline
+                            )}
+                          </span>
+                        )}
                       </li>
                     ))}
                   </ul>
@@ -459,6 +539,41 @@ if (myTeamMembers && myTeamMembers.length > 0) {
           </div>
         )}
 
+        {/* 人数不足の試合 */}
+        {rosterShortages.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <h3 className="text-sm font-medium text-red-800">
+              人数が足りない試合があります
+            </h3>
+            <ul className="mt-2 space-y-1 text-sm text-red-700">
+              {rosterShortages.map((shortage) => (
+                <li key={shortage.game_id}>
+                  <Link
+                    href={`/games/${shortage.game_id}`}
+                    className="underline hover:text-red-900"
+                  >
+                    {new Date(shortage.game_date).toLocaleDateString("ja-JP")}
+                    {" - "}
+                    {shortage.game_name}（{shortage.team_name}）
+                  </Link>
+                  <span className="ml-2">
+                    出席 {shortage.roster.confirmed}/{shortage.roster.required}
+                    人（あと{shortage.roster.shortage}人）
+                    {shortage.roster.daysUntilGame === 0
+                      ? "・本日"
+                      : `・試合まであと${shortage.roster.daysUntilGame}日`}
+                  </span>
+                  <span className="ml-2 text-xs text-gray-600">
+                    {shortage.helper_assignee
+                      ? `助っ人の手配: ${shortage.helper_assignee}さん`
+                      : "助っ人の手配が未着手です"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* 個人成績 */}
         {user && <PersonalStats userId={user.id} />}
 
@@ -632,6 +747,13 @@ if (myTeamMembers && myTeamMembers.length > 0) {
           </div>
         </div>
 
+        {/* 所属チームの記録・達成 */}
+        {teams.length > 0 && (
+          <div className="mt-8">
+            <TeamAchievements teamIds={teams.map((team) => team.id)} />
+          </div>
+        )}
+
         {/* クイックアクション */}
         <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-4">
           <Link
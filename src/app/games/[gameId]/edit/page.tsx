@@ -5,6 +5,16 @@ import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
+import GameRulesForm from "@/components/game/GameRulesForm";
+import { GameRules, normalizeGameRules } from "@/lib/game-rules";
+import { fetchGameRules } from "@/lib/game-logic";
+import { recordGameAchievements } from "@/lib/milestones";
+import {
+  fromDatetimeLocalValue,
+  isAttendanceLocked,
+  isDeadlineBeforeGameStart,
+  toDatetimeLocalValue,
+} from "@/lib/attendance";
 
 interface Game {
   id: string;
@@ -21,6 +31,7 @@ interface Game {
   record_type: string;
   is_public: boolean;
   attendance_check_enabled: boolean;
+  attendance_deadline: string | null;
   category?: "official" | "practice" | "scrimmage";
   created_by: string;
   created_at: string;
@@ -55,12 +66,14 @@ export default function EditGamePage({ params }: PageProps) {
   const [recordType, setRecordType] = useState("team");
   const [isPublic, setIsPublic] = useState(true);
   const [attendanceCheckEnabled, setAttendanceCheckEnabled] = useState(false); // 出欠確認機能の追加
+  const [attendanceDeadline, setAttendanceDeadline] = useState(""); // 回答締切（datetime-local）
   const [category, setCategory] = useState<
     "official" | "practice" | "scrimmage"
   >("practice");
   const [isMyTeamBatFirst, setIsMyTeamBatFirst] = useState<boolean | null>(
     null
   );
+  const [rules, setRules] = useState<GameRules>(normalizeGameRules());
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
@@ -115,7 +128,11 @@ export default function EditGamePage({ params }: PageProps) {
         setRecordType(gameData.record_type);
         setIsPublic(gameData.is_public);
         setAttendanceCheckEnabled(gameData.attendance_check_enabled || false); // 出欠確認設定を読み込み
+        setAttendanceDeadline(
+          toDatetimeLocalValue(gameData.attendance_deadline)
+        );
         setCategory(gameData.category || "practice");
+        setRules(await fetchGameRules(supabase, gameId));
 
         // 先攻/後攻の設定を取得
         const { data: scoreData } = await supabase
@@ -184,6 +201,20 @@ export default function EditGamePage({ params }: PageProps) {
     setSaving(true);
     setError("");
 
+    // 回答締切は試合開始より前にする
+    if (
+      attendanceCheckEnabled &&
+      !isDeadlineBeforeGameStart(
+        fromDatetimeLocalValue(attendanceDeadline),
+        gameDate,
+        gameTime || null
+      )
+    ) {
+      setError("回答締切は試合の開始より前の日時にしてください");
+      setSaving(false);
+      return;
+    }
+
     try {
       const updateData: any = {
         name: gameName,
@@ -197,7 +228,11 @@ export default function EditGamePage({ params }: PageProps) {
         record_type: selectedTeamId ? "team" : "individual",
         is_public: isPublic,
         attendance_check_enabled: attendanceCheckEnabled, // 出欠確認設定を更新
+        attendance_deadline: attendanceCheckEnabled
+          ? fromDatetimeLocalValue(attendanceDeadline)
+          : null,
         category: category,
+        rules: normalizeGameRules(rules),
         updated_at: new Date().toISOString(),
       };
 
@@ -216,6 +251,27 @@ export default function EditGamePage({ params }: PageProps) {
 
       if (error) throw error;
 
+      // 終了済みの試合は記録・達成を再判定（日付の変更も反映）
+      if (status === "completed") {
+        await recordGameAchievements(supabase, gameId);
+      }
+
+      // 締切を延長・解除した場合、締切で欠席扱いになった未回答を未回答に戻す
+      if (
+        game?.attendance_check_enabled &&
+        !isAttendanceLocked(updateData.attendance_deadline)
+      ) {
+        const { error: reopenError } = await supabase
+          .from("game_attendances")
+          .update({ status: "pending", auto_closed: false })
+          .eq("game_id", gameId)
+          .eq("auto_closed", true);
+
+        if (reopenError) {
+          console.error("出欠の再開エラー:", reopenError);
+        }
+      }
+
       // 出欠確認が新たに有効になった場合、出欠レコードを作成
       if (
         attendanceCheckEnabled &&
@@ -508,6 +564,14 @@ export default function EditGamePage({ params }: PageProps) {
               />
             </div>
 
+            {/* 試合ルール */}
+            <div className="border-t pt-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-3">
+                試合ルール
+              </h3>
+              <GameRulesForm rules={rules} onChange={setRules} />
+            </div>
+
             {/* 出欠確認機能（チームが選択されている場合のみ表示） */}
             {selectedTeamId && (
               <div className="border-t pt-4">
@@ -536,6 +600,22 @@ export default function EditGamePage({ params }: PageProps) {
                       )}
                   </div>
                 </label>
+                {attendanceCheckEnabled && (
+                  <div className="mt-3 ml-7">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      回答締切（任意）
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={attendanceDeadline}
+                      onChange={(e) => setAttendanceDeadline(e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      試合の開始より前の日時を設定します。締切を過ぎると試合作成者・チームのオーナー・管理者以外は回答できなくなり、未回答のメンバーは欠席（未回答）扱いになります。締切を延長すると回答を再開できます
+                    </p>
+                  </div>
+                )}
               </div>
             )}
 
@@ -8,6 +8,21 @@ import Link from "next/link";
 import OperationTasksDisplay from "@/components/game/OperationTasksDisplay";
 import InlineScoreInput from "@/components/game/InlineScoreInput";
 import ScoreBoxDisplay from "@/components/game/ScoreBoxDisplay";
+import GameReplay from "@/components/game/GameReplay";
+import {
+  ATTENDANCE_RESPONSE_OPTIONS,
+  ATTENDANCE_STATUS_LABELS,
+  AttendanceStatus,
+  describeAttendance,
+  formatAttendanceTime,
+  formatDeadline,
+  formatDeadlineCountdown,
+  isAttendanceLocked,
+  isAttendanceManager,
+  isParticipatingStatus,
+} from "@/lib/attendance";
+import { GameRules, resolveGameRules } from "@/lib/game-rules";
+import { evaluateRoster, startHelperRecruitment } from "@/lib/roster";
 
 interface Game {
   id: string;
@@ -24,6 +39,7 @@ interface Game {
   record_type: string;
   is_public: boolean;
   attendance_check_enabled: boolean;
+  attendance_deadline: string | null;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -33,6 +49,7 @@ interface Game {
 interface Team {
   id: string;
   name: string;
+  owner_id: string;
 }
 
 interface GamePlayer {
@@ -51,7 +68,12 @@ interface GameAttendance {
   game_id: string;
   team_member_id: string | null;
   person_name: string | null;
-  status: "pending" | "attending" | "absent";
+  status: AttendanceStatus;
+  auto_closed: boolean; // 未回答のまま締切を過ぎて欠席扱いになった
+  comment: string | null;
+  arrival_time: string | null; // 遅刻の到着予定時刻
+  leave_time: string | null; // 早退の退出予定時刻
+  cancelled_at: string | null; // 出席から欠席に変えた日時（直前キャンセルの集計）
   responded_at: string | null;
   team_member?: {
     // オプショナルに変更
@@ -76,15 +98,32 @@ export default function GameDetailPage({
   const [gamePlayers, setGamePlayers] = useState<GamePlayer[]>([]);
   const [loading, setLoading] = useState(true);
   const [canEdit, setCanEdit] = useState(false);
+  // 出欠の管理者（試合作成者・チームのオーナー・管理者）は締切後も出欠を変更できる
+  const [canManageAttendance, setCanManageAttendance] = useState(false);
   const [isTeamMember, setIsTeamMember] = useState(false);
+  const [scoreBoxVersion, setScoreBoxVersion] = useState(0);
   const [attendances, setAttendances] = useState<GameAttendance[]>([]);
   const [currentUserAttendance, setCurrentUserAttendance] =
     useState<GameAttendance | null>(null);
   const [updatingAttendance, setUpdatingAttendance] = useState<string | null>(
     null
   );
+  // 自分の出欠回答の入力内容
+  const [responseDraft, setResponseDraft] = useState({
+    status: "attending" as AttendanceStatus,
+    arrival_time: "",
+    leave_time: "",
+    comment: "",
+  });
   const [guestName, setGuestName] = useState("");
   const [addingGuest, setAddingGuest] = useState(false);
+  const [rules, setRules] = useState<GameRules>(resolveGameRules());
+  // 助っ人の手配（運営タスク helper）の担当者
+  const [helperTask, setHelperTask] = useState<{
+    id: string;
+    person_name: string;
+  } | null>(null);
+  const [startingRecruitment, setStartingRecruitment] = useState(false);
   // const [previousPlayers, setPreviousPlayers] = useState<GamePlayer[]>([]);
 
   const { user, loading: authLoading } = useAuth();
@@ -125,6 +164,20 @@ export default function GameDetailPage({
     fetchGameData();
   }, [gameId, user, authLoading]);
 
+  // 回答済みの内容を入力欄に反映
+  useEffect(() => {
+    if (!currentUserAttendance) return;
+    setResponseDraft({
+      status:
+        currentUserAttendance.status === "pending"
+          ? "attending"
+          : currentUserAttendance.status,
+      arrival_time: formatAttendanceTime(currentUserAttendance.arrival_time),
+      leave_time: formatAttendanceTime(currentUserAttendance.leave_time),
+      comment: currentUserAttendance.comment || "",
+    });
+  }, [currentUserAttendance]);
+
   // // 【新規追加】参加メンバー変更監視用のuseEffect
   // useEffect(() => {
   //   if (gamePlayers.length > 0 && previousPlayers.length >= 0) {
@@ -166,10 +219,12 @@ export default function GameDetailPage({
         if (!teamError && teamData) {
           setTeam(teamData);
         }
+        setRules(resolveGameRules(gameData.rules, teamData?.default_rules));
 
         // 編集権限とチームメンバー判定（ログインユーザーのみ）
         if (user) {
           let userIsTeamMember = false;
+          let memberRole: string | null = null;
 
           // ゲーム作成者か確認
           if (gameData.created_by === user.id) {
@@ -189,9 +244,19 @@ export default function GameDetailPage({
               setCanEdit(true);
               setIsTeamMember(true);
               userIsTeamMember = true;
+              memberRole = memberData.role;
             }
           }
 
+          setCanManageAttendance(
+            isAttendanceManager(
+              user.id,
+              gameData,
+              teamData?.owner_id,
+              memberRole
+            )
+          );
+
           // チームメンバーのみ出欠確認データを取得
           if (
             userIsTeamMember &&
@@ -216,6 +281,15 @@ export default function GameDetailPage({
             console.log("Attendance data:", attendanceData);
             console.log("Attendance error:", attendanceError);
 
+            // 助っ人の手配の担当者
+            const { data: helperTaskData } = await supabase
+              .from("game_operation_tasks")
+              .select("id, person_name")
+              .eq("game_id", gameId)
+              .eq("task_type", "helper")
+              .limit(1);
+            setHelperTask(helperTaskData?.[0] || null);
+
             if (
               !attendanceError &&
               attendanceData &&
@@ -466,11 +540,13 @@ export default function GameDetailPage({
   // 出欠確認データを参加メンバーと連動させる関数
   const syncAttendanceToGamePlayers = async (
     attendance: GameAttendance,
-    newStatus: "attending" | "absent"
+    newStatus: AttendanceStatus
   ) => {
     try {
-      if (newStatus === "attending") {
+      if (isParticipatingStatus(newStatus)) {
         // 出席の場合：スターティングメンバー候補に優先配置
+        // 遅刻は到着まで試合に出られないため控えメンバーにする
+        const benchOnly = newStatus === "late";
         const playerName =
           attendance.person_name ||
           attendance.team_member?.user_profiles?.display_name ||
@@ -510,7 +586,8 @@ export default function GameDetailPage({
           }
 
           // スターティングメンバーに空きがあるか判定
-          const isStarterSlotAvailable = availableBattingOrder !== null;
+          const isStarterSlotAvailable =
+            !benchOnly && availableBattingOrder !== null;
 
           // 参加メンバーに追加
           const { error: insertError } = await supabase
@@ -535,7 +612,7 @@ export default function GameDetailPage({
               : "控えメンバー";
             console.log(`${playerName} を${memberType}に追加しました`);
           }
-        } else if (!existingPlayer.is_starter) {
+        } else if (!existingPlayer.is_starter && !benchOnly) {
           // 既に控えメンバーとして登録されている場合、スターティングメンバーに昇格可能かチェック
           const { data: currentStarters } = await supabase
             .from("game_players")
@@ -632,18 +709,53 @@ export default function GameDetailPage({
   // 出欠を更新する関数
   const handleAttendanceUpdate = async (
     attendanceId: string,
-    newStatus: "attending" | "absent"
+    newStatus: AttendanceStatus,
+    details: {
+      arrival_time?: string;
+      leave_time?: string;
+      comment?: string;
+    } = {}
   ) => {
     if (!user) return;
 
+    // 締切後は管理者のみ変更できる
+    if (
+      isAttendanceLocked(game?.attendance_deadline) &&
+      !canManageAttendance
+    ) {
+      alert("回答の締切を過ぎているため変更できません");
+      return;
+    }
+
     setUpdatingAttendance(attendanceId);
 
+    // 予定時刻は遅刻・早退のときだけ保存（コメントは指定されたときだけ更新）
+    // 出席から欠席に変えたときは直前キャンセルの集計のため日時を残す
+    const previous = attendances.find((a) => a.id === attendanceId);
+    const cancelled =
+      newStatus === "absent" &&
+      !!previous &&
+      isParticipatingStatus(previous.status);
+    const changes = {
+      status: newStatus,
+      auto_closed: false,
+      arrival_time:
+        newStatus === "late" ? details.arrival_time || null : null,
+      leave_time:
+        newStatus === "leave_early" ? details.leave_time || null : null,
+      ...(details.comment !== undefined && {
+        comment: details.comment.trim() || null,
+      }),
+      ...(cancelled && { cancelled_at: new Date().toISOString() }),
+      ...(newStatus !== "absent" && { cancelled_at: null }),
+    };
+
     try {
       // 出欠データを更新
       const { error } = await supabase
         .from("game_attendances")
         .update({
-          status: newStatus,
+          ...changes,
           responded_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
@@ -663,7 +775,7 @@ export default function GameDetailPage({
           a.id === attendanceId
             ? {
                 ...a,
-                status: newStatus,
+                ...changes,
                 responded_at: new Date().toISOString(),
               }
             : a
@@ -674,7 +786,7 @@ export default function GameDetailPage({
       if (currentUserAttendance?.id === attendanceId) {
         setCurrentUserAttendance({
           ...currentUserAttendance,
-          status: newStatus,
+          ...changes,
           responded_at: new Date().toISOString(),
         });
       }
@@ -688,6 +800,42 @@ export default function GameDetailPage({
       setUpdatingAttendance(null);
     }
   };
+  // 人数が足りないときに助っ人の手配を始める（自分を「助っ人の手配」の担当にする）
+  const handleStartHelperRecruitment = async () => {
+    if (!user || !game?.home_team_id) return;
+
+    setStartingRecruitment(true);
+    try {
+      const { data: member } = await supabase
+        .from("team_members")
+        .select("id")
+        .eq("team_id", game.home_team_id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("display_name")
+        .eq("id", user.id)
+        .maybeSingle();
+
+      const task = await startHelperRecruitment(supabase, gameId, {
+        teamMemberId: member?.id || null,
+        personName: profile?.display_name || "名前未設定",
+      });
+      setHelperTask({ id: task.id, person_name: task.person_name });
+
+      if (!task.created) {
+        alert(`助っ人の手配は既に${task.person_name}さんが担当しています`);
+      }
+    } catch (error) {
+      console.error("助っ人手配エラー:", error);
+      alert("助っ人の手配を開始できませんでした");
+    } finally {
+      setStartingRecruitment(false);
+    }
+  };
+
   // ゲスト（助っ人・未登録メンバー）を追加する関数
   const addGuestAttendance = async () => {
     if (!guestName.trim()) {
@@ -798,7 +946,7 @@ export default function GameDetailPage({
 
           if (existingRecord) {
             // 既存レコードがある場合は更新
-            if (existingRecord.status !== "attending") {
+            if (!isParticipatingStatus(existingRecord.status)) {
               const { error: updateError } = await supabase
                 .from("game_attendances")
                 .update({
@@ -843,7 +991,7 @@ export default function GameDetailPage({
 
           if (existingRecord) {
             // 既存レコードがある場合は更新
-            if (existingRecord.status !== "attending") {
+            if (!isParticipatingStatus(existingRecord.status)) {
               const { error: updateError } = await supabase
                 .from("game_attendances")
                 .update({
@@ -979,6 +1127,25 @@ export default function GameDetailPage({
     return `${hours}:${minutes}`;
   };
 
+  // 出欠の回答締切（締切後は管理者のみ変更できる）
+  const attendanceLocked = isAttendanceLocked(game.attendance_deadline);
+  const canRespondAttendance = !attendanceLocked || canManageAttendance;
+
+  // 出席人数と打順の人数（試合ルール）の比較
+  const rosterStatus = evaluateRoster(attendances, rules, game.game_date);
+
+  const getAttendanceLabel = (attendance: GameAttendance) =>
+    describeAttendance(attendance);
+
+  const getAttendanceColor = (status: AttendanceStatus) =>
+    isParticipatingStatus(status)
+      ? "bg-green-50 border-green-200 text-green-700"
+      : status === "absent"
+      ? "bg-gray-50 border-gray-200 text-gray-600"
+      : status === "tentative"
+      ? "bg-blue-50 border-blue-200 text-blue-700"
+      : "bg-yellow-50 border-yellow-200 text-yellow-700";
+
   const getCategoryColor = (category?: string) => {
     switch (category) {
       case "official":
@@ -1204,9 +1371,21 @@ export default function GameDetailPage({
             game.attendance_check_enabled &&
             game.home_team_id && (
               <div className="px-6 py-6 border-t">
-                <h2 className="text-lg font-semibold text-gray-900 mb-4">
-                  出欠確認
-                </h2>
+                <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    出欠確認
+                  </h2>
+                  {game.attendance_deadline && (
+                    <p
+                      className={`text-sm ${
+                        attendanceLocked ? "text-gray-500" : "text-orange-600"
+                      }`}
+                    >
+                      回答締切: {formatDeadline(game.attendance_deadline)}（
+                      {formatDeadlineCountdown(game.attendance_deadline)}）
+                    </p>
+                  )}
+                </div>
 
                 {/* 出欠レコードがない場合の初期化ボタン */}
                 {attendances.length === 0 ? (
@@ -1226,97 +1405,169 @@ export default function GameDetailPage({
                     {/* 現在のユーザーの出欠回答 */}
                     {currentUserAttendance && (
                       <div className="mb-6 p-4 bg-blue-50 rounded-lg">
-                        <div className="flex items-center justify-between">
-                          <div>
-                            <p className="text-sm font-medium text-gray-700">
-                              あなたの出欠回答
-                            </p>
-                            <p className="text-lg font-semibold text-gray-900 mt-1">
-                              {currentUserAttendance.status === "pending" &&
-                                "未回答"}
-                              {currentUserAttendance.status === "attending" &&
-                                "✅ 出席"}
-                              {currentUserAttendance.status === "absent" &&
-                                "❌ 欠席"}
-                            </p>
-                          </div>
-                          {currentUserAttendance.status === "pending" && (
-                            <div className="flex gap-2">
-                              <button
-                                onClick={() =>
-                                  handleAttendanceUpdate(
-                                    currentUserAttendance.id,
-                                    "attending"
-                                  )
-                                }
-                                disabled={
-                                  updatingAttendance ===
-                                  currentUserAttendance.id
-                                }
-                                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
-                              >
-                                出席する
-                              </button>
-                              <button
-                                onClick={() =>
-                                  handleAttendanceUpdate(
-                                    currentUserAttendance.id,
-                                    "absent"
-                                  )
-                                }
-                                disabled={
-                                  updatingAttendance ===
-                                  currentUserAttendance.id
-                                }
-                                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
-                              >
-                                欠席する
-                              </button>
-                            </div>
-                          )}
-                          {currentUserAttendance.status !== "pending" && (
-                            <div className="flex gap-2">
-                              <button
-                                onClick={() =>
-                                  handleAttendanceUpdate(
-                                    currentUserAttendance.id,
-                                    currentUserAttendance.status === "attending"
-                                      ? "absent"
-                                      : "attending"
-                                  )
-                                }
-                                disabled={
-                                  updatingAttendance ===
-                                  currentUserAttendance.id
-                                }
-                                className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
-                              >
-                                {currentUserAttendance.status === "attending"
-                                  ? "欠席に変更"
-                                  : "出席に変更"}
-                              </button>
+                        <p className="text-sm font-medium text-gray-700">
+                          あなたの出欠回答
+                        </p>
+                        <p className="text-lg font-semibold text-gray-900 mt-1">
+                          {currentUserAttendance.status === "pending"
+                            ? "未回答"
+                            : getAttendanceLabel(currentUserAttendance)}
+                        </p>
+                        {currentUserAttendance.comment && (
+                          <p className="text-sm text-gray-600 mt-1">
+                            💬 {currentUserAttendance.comment}
+                          </p>
+                        )}
+                        {!canRespondAttendance && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            回答の締切を過ぎています。変更はチームの管理者に連絡してください
+                          </p>
+                        )}
+
+                        {canRespondAttendance && (
+                          <div className="mt-4 space-y-3">
+                            <div className="flex flex-wrap gap-2">
+                              {ATTENDANCE_RESPONSE_OPTIONS.map((status) => (
+                                <button
+                                  key={status}
+                                  onClick={() =>
+                                    setResponseDraft({
+                                      ...responseDraft,
+                                      status,
+                                    })
+                                  }
+                                  className={`px-4 py-2 rounded-lg border text-sm ${
+                                    responseDraft.status === status
+                                      ? "bg-blue-600 text-white border-blue-600"
+                                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                                  }`}
+                                >
+                                  {ATTENDANCE_STATUS_LABELS[status]}
+                                </button>
+                              ))}
                             </div>
-                          )}
-                        </div>
+                            {responseDraft.status === "late" && (
+                              <label className="flex items-center gap-2 text-sm text-gray-700">
+                                到着予定
+                                <input
+                                  type="time"
+                                  value={responseDraft.arrival_time}
+                                  onChange={(e) =>
+                                    setResponseDraft({
+                                      ...responseDraft,
+                                      arrival_time: e.target.value,
+                                    })
+                                  }
+                                  className="px-3 py-1 border border-gray-300 rounded-lg"
+                                />
+                              </label>
+                            )}
+                            {responseDraft.status === "leave_early" && (
+                              <label className="flex items-center gap-2 text-sm text-gray-700">
+                                退出予定
+                                <input
+                                  type="time"
+                                  value={responseDraft.leave_time}
+                                  onChange={(e) =>
+                                    setResponseDraft({
+                                      ...responseDraft,
+                                      leave_time: e.target.value,
+                                    })
+                                  }
+                                  className="px-3 py-1 border border-gray-300 rounded-lg"
+                                />
+                              </label>
+                            )}
+                            <input
+                              type="text"
+                              value={responseDraft.comment}
+                              onChange={(e) =>
+                                setResponseDraft({
+                                  ...responseDraft,
+                                  comment: e.target.value,
+                                })
+                              }
+                              placeholder="コメント（例: 3回から参加、前半のみ）"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                              onClick={() =>
+                                handleAttendanceUpdate(
+                                  currentUserAttendance.id,
+                                  responseDraft.status,
+                                  responseDraft
+                                )
+                              }
+                              disabled={
+                                updatingAttendance === currentUserAttendance.id
+                              }
+                              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                            >
+                              {currentUserAttendance.status === "pending"
+                                ? "回答する"
+                                : "回答を更新"}
+                            </button>
+                          </div>
+                        )}
                       </div>
                     )}
 
-                    {/* 出席者数の警告 */}
-                    {attendances.filter((a) => a.status === "attending")
-                      .length < 9 && (
-                      <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-                        <p className="text-yellow-800">
+                    {/* 出席者数の警告（打順の人数に満たない場合） */}
+                    {rosterStatus.shortage > 0 && (
+                      <div
+                        className={`mb-4 p-4 rounded-lg border ${
+                          rosterStatus.shouldWarn
+                            ? "bg-red-50 border-red-200"
+                            : "bg-yellow-50 border-yellow-200"
+                        }`}
+                      >
+                        <p
+                          className={
+                            rosterStatus.shouldWarn
+                              ? "text-red-800"
+                              : "text-yellow-800"
+                          }
+                        >
                           ⚠️ 現在の出席者は{" "}
                           <span className="font-bold">
-                            {
-                              attendances.filter(
-                                (a) => a.status === "attending"
-                              ).length
-                            }
-                            人
+                            {rosterStatus.confirmed}人
+                          </span>
+                          です。試合には{rosterStatus.required}
+                          人必要で、あと
+                          <span className="font-bold">
+                            {rosterStatus.shortage}人
                           </span>
-                          です。試合成立には最低9人が必要です。
+                          足りません。
+                          {rosterStatus.pending > 0 &&
+                            `（未回答 ${rosterStatus.pending}人）`}
                         </p>
+                        {helperTask ? (
+                          <p className="text-sm text-gray-700 mt-2">
+                            👥 助っ人の手配: {helperTask.person_name}
+                            さんが担当しています
+                          </p>
+                        ) : (
+                          canEdit &&
+                          rosterStatus.shouldWarn && (
+                            <button
+                              onClick={handleStartHelperRecruitment}
+                              disabled={startingRecruitment}
+                              className="mt-3 px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                            >
+                              {startingRecruitment
+                                ? "開始中..."
+                                : "助っ人の手配を始める"}
+                            </button>
+                          )
+                        )}
+                      </div>
+                    )}
+
+                    {/* 確定した助っ人（ゲストの出席） */}
+                    {rosterStatus.helpers > 0 && (
+                      <div className="mb-4 text-sm text-gray-700">
+                        👥 助っ人 {rosterStatus.helpers}人確定:{" "}
+                        {rosterStatus.helperNames.join("、")}
                       </div>
                     )}
 
@@ -1326,7 +1577,16 @@ export default function GameDetailPage({
                         <span>
                           出席:{" "}
                           {
-                            attendances.filter((a) => a.status === "attending")
+                            attendances.filter((a) =>
+                              isParticipatingStatus(a.status)
+                            ).length
+                          }
+                          人
+                        </span>
+                        <span>
+                          未定:{" "}
+                          {
+                            attendances.filter((a) => a.status === "tentative")
                               .length
                           }
                           人
@@ -1353,35 +1613,56 @@ export default function GameDetailPage({
                         {attendances.map((attendance) => (
                           <div
                             key={attendance.id}
-                            className={`p-3 rounded-lg border ${
-                              attendance.status === "attending"
-                                ? "bg-green-50 border-green-200"
-                                : attendance.status === "absent"
-                                ? "bg-gray-50 border-gray-200"
-                                : "bg-yellow-50 border-yellow-200"
-                            }`}
+                            className={`p-3 rounded-lg border ${getAttendanceColor(
+                              attendance.status
+                            )}`}
                           >
                             <div className="flex items-center justify-between">
-                              <span className="font-medium">
+                              <span className="font-medium text-gray-900">
                                 {attendance.person_name ||
                                   attendance.team_member?.user_profiles
                                     ?.display_name ||
                                   "名前未設定"}
                               </span>
-                              <span
-                                className={`text-sm font-semibold ${
-                                  attendance.status === "attending"
-                                    ? "text-green-700"
-                                    : attendance.status === "absent"
-                                    ? "text-gray-600"
-                                    : "text-yellow-700"
-                                }`}
-                              >
-                                {attendance.status === "attending" && "出席"}
-                                {attendance.status === "absent" && "欠席"}
-                                {attendance.status === "pending" && "未回答"}
+                              <span className="text-sm font-semibold">
+                                {getAttendanceLabel(attendance)}
                               </span>
                             </div>
+                            {attendance.comment && (
+                              <p className="text-xs text-gray-600 mt-1">
+                                💬 {attendance.comment}
+                              </p>
+                            )}
+                            {/* 締切後は管理者が代わりに変更する */}
+                            {canManageAttendance && attendanceLocked && (
+                              <div className="flex justify-end gap-2 mt-2">
+                                {(["attending", "absent"] as const)
+                                  .filter(
+                                    (status) =>
+                                      status !== attendance.status ||
+                                      attendance.auto_closed
+                                  )
+                                  .map((status) => (
+                                    <button
+                                      key={status}
+                                      onClick={() =>
+                                        handleAttendanceUpdate(
+                                          attendance.id,
+                                          status
+                                        )
+                                      }
+                                      disabled={
+                                        updatingAttendance === attendance.id
+                                      }
+                                      className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-white disabled:opacity-50"
+                                    >
+                                      {status === "attending"
+                                        ? "出席にする"
+                                        : "欠席にする"}
+                                    </button>
+                                  ))}
+                              </div>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -1421,13 +1702,25 @@ export default function GameDetailPage({
             <div className="bg-white rounded-lg shadow p-6 mt-6">
               <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-bold">試合スコアボックス</h2>
-                {canEdit && gamePlayers.length === 0 && (
-                  <p className="text-sm text-gray-600">
-                    選手名をクリックして選手を追加してください
-                  </p>
-                )}
+                <div className="flex items-center gap-3">
+                  {canEdit && gamePlayers.length === 0 && (
+                    <p className="text-sm text-gray-600">
+                      選手名をクリックして選手を追加してください
+                    </p>
+                  )}
+                  {/* 試合レポート（印刷・PDF保存用） */}
+                  <a
+                    href={`/games/${gameId}/report`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    試合レポート
+                  </a>
+                </div>
               </div>
               <ScoreBoxDisplay
+                key={scoreBoxVersion}
                 gameId={gameId}
                 isEditable={canEdit}
                 gameStatus={game.status}
@@ -1435,6 +1728,16 @@ export default function GameDetailPage({
             </div>
           )}
 
+          {/* 試合リプレイ（イベントログがある場合のみ表示） */}
+          <GameReplay
+            gameId={gameId}
+            canEdit={canEdit}
+            onRebuilt={async () => {
+              await fetchGameData();
+              setScoreBoxVersion((prev) => prev + 1);
+            }}
+          />
+
           {/* アクションボタン */}
           {canEdit && (
             <div className="px-6 py-4 bg-gray-50 border-t">
@@ -5,6 +5,22 @@ import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
+import { fetchGameRules } from "@/lib/game-logic";
+import { GameRules, normalizeGameRules } from "@/lib/game-rules";
+import OpponentLineupInput from "@/components/game/OpponentLineupInput";
+import {
+  describeAttendance,
+  isBeforeArrival,
+  isParticipatingStatus,
+} from "@/lib/attendance";
+import {
+  fetchRecentBatting,
+  LineupSuggestion,
+  normalizeMemberPositions,
+  PlannedSubstitution,
+  RECENT_GAME_COUNT,
+  suggestLineup,
+} from "@/lib/lineup-generator";
 
 interface PageProps {
   params: Promise<{
@@ -16,10 +32,12 @@ interface Game {
   id: string;
   name: string;
   game_date: string;
+  game_time: string | null;
   home_team_id: string | null;
   opponent_name: string;
   created_by: string;
   status: string;
+  category?: string | null;
   attendance_check_enabled: boolean;
 }
 
@@ -52,6 +70,13 @@ interface StarterSlot {
   existing_id?: string;
 }
 
+interface ParticipatingAttendance {
+  team_member_id: string;
+  status: string;
+  arrival_time: string | null;
+  leave_time: string | null;
+}
+
 interface DefaultLineupPlayer {
   id?: string;
   team_id: string;
@@ -73,8 +98,32 @@ const POSITIONS = [
   { value: "中堅手", label: "中堅手" },
   { value: "右翼手", label: "右翼手" },
   { value: "指名打者", label: "指名打者" },
+  { value: "エキストラヒッター", label: "エキストラヒッター" },
+];
+
+// 打順を持つが守備につかない位置（重複可）
+const NON_FIELDING_POSITIONS = ["指名打者", "エキストラヒッター"];
+
+// スタメンの打順（DHは10番、エキストラヒッターは11番以降）
+const getStarterOrders = (useDH: boolean, rules: GameRules): number[] => [
+  ...Array.from({ length: 9 }, (_, i) => i + 1),
+  ...(useDH ? [10] : []),
+  ...Array.from({ length: rules.extraHitters }, (_, i) => 11 + i),
 ];
 
+// 提案の候補にする直接入力の選手（助っ人など）の仮のID
+const GUEST_CANDIDATE_PREFIX = "guest:";
+const isGuestCandidate = (memberId: string) =>
+  memberId.startsWith(GUEST_CANDIDATE_PREFIX);
+
+// 打順ごとの初期守備位置
+const getDefaultPosition = (battingOrder: number) =>
+  battingOrder === 10
+    ? "指名打者"
+    : battingOrder > 10
+    ? "エキストラヒッター"
+    : "";
+
 export default function MemberManagementPage({ params }: PageProps) {
   const resolvedParams = use(params);
   const gameId = resolvedParams.gameId;
@@ -98,12 +147,29 @@ export default function MemberManagementPage({ params }: PageProps) {
     teamMemberId: "",
   });
   const [useDH, setUseDH] = useState(false);
+  const [rules, setRules] = useState<GameRules>(normalizeGameRules());
   const [canEdit, setCanEdit] = useState(false);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
   const [hasExistingData, setHasExistingData] = useState(false);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  // 遅刻・早退の予定（team_member_id ごとの表示）
+  const [attendanceNotes, setAttendanceNotes] = useState<
+    Record<string, string>
+  >({});
+  // 遅刻の出席者（保存時に到着前の先発を確認する）
+  const [lateAttendances, setLateAttendances] = useState<
+    ParticipatingAttendance[]
+  >([]);
+  // 打順・守備位置の提案（反映するまでは表示のみ）
+  const [suggestion, setSuggestion] = useState<LineupSuggestion | null>(null);
+  const [minInnings, setMinInnings] = useState(0);
+  const [suggesting, setSuggesting] = useState(false);
+  // 反映した提案の交代計画（保存はせず、試合中の選手交代の参考に表示）
+  const [plannedSubstitutions, setPlannedSubstitutions] = useState<
+    PlannedSubstitution[]
+  >([]);
 
   useEffect(() => {
     // 認証状態の読み込み中は何もしない
@@ -122,12 +188,13 @@ export default function MemberManagementPage({ params }: PageProps) {
   // スロットの初期化（デフォルトラインナップまたは既存データから）
   const initializeSlots = (
     existingPlayers: GamePlayer[] = [],
-    defaultLineup: DefaultLineupPlayer[] = []
+    defaultLineup: DefaultLineupPlayer[] = [],
+    dh: boolean = useDH,
+    gameRules: GameRules = rules
   ) => {
     const slots: StarterSlot[] = [];
-    const maxOrder = useDH ? 10 : 9;
 
-    for (let i = 1; i <= maxOrder; i++) {
+    for (const i of getStarterOrders(dh, gameRules)) {
       // まず既存のgame_playersデータを確認
       const existing = existingPlayers.find(
         (p) => p.batting_order === i && p.is_starter
@@ -158,7 +225,7 @@ export default function MemberManagementPage({ params }: PageProps) {
             batting_order: i,
             player_name: "",
             team_member_id: "",
-            position: i === 10 ? "指名打者" : "",
+            position: getDefaultPosition(i),
           });
         }
       }
@@ -182,6 +249,19 @@ export default function MemberManagementPage({ params }: PageProps) {
 
       setGame(gameData);
 
+      const gameRules = await fetchGameRules(supabase, gameId);
+      setRules(gameRules);
+      // 公式戦以外は全員が試合の半分以上出場する交代を既定で計画する
+      setMinInnings(
+        gameData.category === "official"
+          ? 0
+          : Math.floor(gameRules.innings / 2)
+      );
+
+      if (gameData.attendance_check_enabled) {
+        await fetchParticipatingAttendances();
+      }
+
       // 編集権限チェック
       const isOwner = gameData.created_by === user?.id;
       const isTeamOwner = await checkTeamOwnership(gameData.home_team_id);
@@ -243,7 +323,7 @@ export default function MemberManagementPage({ params }: PageProps) {
           setUseDH(hasDH);
 
           // 既存データで初期化
-          initializeSlots(playersData, []);
+          initializeSlots(playersData, [], hasDH, gameRules);
 
           // 控えメンバーをセット
           const subs = playersData.filter((p) => !p.is_starter);
@@ -256,7 +336,7 @@ export default function MemberManagementPage({ params }: PageProps) {
           setUseDH(hasDH);
 
           // デフォルトラインナップで初期化
-          initializeSlots([], defaultLineupData);
+          initializeSlots([], defaultLineupData, hasDH, gameRules);
 
           // デフォルトの控えメンバーもセット
           const defaultSubs = defaultLineupData
@@ -272,12 +352,17 @@ export default function MemberManagementPage({ params }: PageProps) {
             }));
           setSubstitutes(defaultSubs);
         } else {
-          // どちらもない場合は空のスロットを初期化
-          initializeSlots();
+          // どちらもない場合は試合ルールのDH設定で空のスロットを初期化
+          setUseDH(gameRules.designatedHitter);
+          initializeSlots([], [], gameRules.designatedHitter, gameRules);
 
           // 出席者データを取得して自動設定（空のスロット初期化直後）
           if (gameData?.attendance_check_enabled && gameData?.home_team_id) {
-            await loadAttendingMembersOnInit(gameData.home_team_id);
+            await loadAttendingMembersOnInit(
+              gameData.home_team_id,
+              gameRules.designatedHitter,
+              gameRules
+            );
           }
         }
       }
@@ -344,7 +429,7 @@ export default function MemberManagementPage({ params }: PageProps) {
       if (
         slot.position &&
         index !== excludeIndex &&
-        slot.position !== "指名打者"
+        !NON_FIELDING_POSITIONS.includes(slot.position)
       ) {
         positions.push(slot.position);
       }
@@ -397,15 +482,17 @@ export default function MemberManagementPage({ params }: PageProps) {
     if (!useDH) {
       // DH追加
       setUseDH(true);
-      setStarterSlots([
-        ...starterSlots,
-        {
-          batting_order: 10,
-          player_name: "",
-          team_member_id: "",
-          position: "指名打者",
-        },
-      ]);
+      setStarterSlots(
+        [
+          ...starterSlots,
+          {
+            batting_order: 10,
+            player_name: "",
+            team_member_id: "",
+            position: "指名打者",
+          },
+        ].sort((a, b) => a.batting_order - b.batting_order)
+      );
     } else {
       // DH削除
       setUseDH(false);
@@ -452,20 +539,81 @@ export default function MemberManagementPage({ params }: PageProps) {
     setSubstitutes(substitutes.filter((_, i) => i !== index));
   };
 
+  // 出席の回答（遅刻・早退を含む）を取得し、予定の表示を更新
+  const fetchParticipatingAttendances = async (): Promise<
+    ParticipatingAttendance[]
+  > => {
+    const { data, error } = await supabase
+      .from("game_attendances")
+      .select("team_member_id, status, arrival_time, leave_time")
+      .eq("game_id", gameId)
+      .in("status", ["attending", "late", "leave_early"])
+      .not("team_member_id", "is", null);
+
+    if (error) throw error;
+
+    const notes: Record<string, string> = {};
+    (data || []).forEach((a) => {
+      if (a.status !== "attending") {
+        notes[a.team_member_id] = describeAttendance(a);
+      }
+    });
+    setAttendanceNotes(notes);
+    setLateAttendances((data || []).filter((a) => a.status === "late"));
+    return data || [];
+  };
+
+  // 遅刻の出席者は到着まで出られないため控えメンバーにする
+  const splitLateArrivals = <T extends { id: string }>(
+    members: T[],
+    attendances: ParticipatingAttendance[]
+  ) => {
+    const lateIds = new Set(
+      attendances
+        .filter((a) => a.status === "late")
+        .map((a) => a.team_member_id)
+    );
+    return {
+      starters: members.filter((m) => !lateIds.has(m.id)),
+      late: members.filter((m) => lateIds.has(m.id)),
+    };
+  };
+
+  // 遅刻の出席者を控えメンバーに追加（登録済みの選手は除く）
+  const addLateArrivalsToBench = (
+    lateMembers: { id: string; user_id: string }[],
+    profiles: { id: string; display_name: string }[] | null,
+    currentSubs: GamePlayer[]
+  ) => {
+    const newSubs = lateMembers
+      .filter((m) => !currentSubs.some((sub) => sub.team_member_id === m.id))
+      .map((member) => ({
+        game_id: gameId,
+        player_name:
+          profiles?.find((p) => p.id === member.user_id)?.display_name ||
+          "名前未設定",
+        team_member_id: member.id,
+        is_starter: false,
+        batting_order: null,
+        position: null,
+        is_active: true,
+      }));
+    if (newSubs.length > 0) {
+      setSubstitutes([...currentSubs, ...newSubs]);
+    }
+  };
+
   // 初期化時の出席者自動設定
-  const loadAttendingMembersOnInit = async (teamId: string) => {
+  const loadAttendingMembersOnInit = async (
+    teamId: string,
+    dh: boolean = useDH,
+    gameRules: GameRules = rules
+  ) => {
     try {
-      // Step 1: 出席者のteam_member_idを取得
-      const { data: attendances, error } = await supabase
-        .from("game_attendances")
-        .select("team_member_id")
-        .eq("game_id", gameId)
-        .eq("status", "attending")
-        .not("team_member_id", "is", null);
-
-      if (error) throw error;
+      // Step 1: 出席者（遅刻・早退を含む）のteam_member_idを取得
+      const attendances = await fetchParticipatingAttendances();
 
-      if (attendances && attendances.length > 0) {
+      if (attendances.length > 0) {
         const attendingMemberIds = attendances.map((a) => a.team_member_id);
 
         // Step 2: team_membersを取得
@@ -488,21 +636,24 @@ export default function MemberManagementPage({ params }: PageProps) {
           if (profilesError) throw profilesError;
 
           // Step 4: 正しいスロット数で新しい配列を作成
-          const maxOrder = useDH ? 10 : 9;
           const newSlots: StarterSlot[] = [];
 
           // まず空のスロットで初期化
-          for (let i = 1; i <= maxOrder; i++) {
+          for (const i of getStarterOrders(dh, gameRules)) {
             newSlots.push({
               batting_order: i,
               player_name: "",
               team_member_id: "",
-              position: i === 10 ? "指名打者" : "",
+              position: getDefaultPosition(i),
             });
           }
 
-          // Step 5: 出席者をスロットに設定
-          teamMembersData.forEach((member, index) => {
+          // Step 5: 出席者をスロットに設定（遅刻の出席者は控え）
+          const { starters, late } = splitLateArrivals(
+            teamMembersData,
+            attendances
+          );
+          starters.forEach((member, index) => {
             if (index < newSlots.length) {
               const profile = profiles?.find((p) => p.id === member.user_id);
               newSlots[index] = {
@@ -514,6 +665,7 @@ export default function MemberManagementPage({ params }: PageProps) {
           });
 
           setStarterSlots(newSlots);
+          addLateArrivalsToBench(late, profiles, []);
           console.log(`${teamMembersData.length}名の出席者を自動設定しました`);
         }
       }
@@ -527,17 +679,10 @@ export default function MemberManagementPage({ params }: PageProps) {
     if (!game?.home_team_id) return;
 
     try {
-      // Step 1: 出席者のteam_member_idを取得
-      const { data: attendances, error } = await supabase
-        .from("game_attendances")
-        .select("team_member_id")
-        .eq("game_id", gameId)
-        .eq("status", "attending")
-        .not("team_member_id", "is", null);
-
-      if (error) throw error;
+      // Step 1: 出席者（遅刻・早退を含む）のteam_member_idを取得
+      const attendances = await fetchParticipatingAttendances();
 
-      if (attendances && attendances.length > 0) {
+      if (attendances.length > 0) {
         const attendingMemberIds = attendances.map((a) => a.team_member_id);
 
         // Step 2: team_membersを取得
@@ -570,8 +715,12 @@ export default function MemberManagementPage({ params }: PageProps) {
             };
           });
 
-          // Step 5: 出席者を順番に設定
-          teamMembersData.forEach((member, index) => {
+          // Step 5: 出席者を順番に設定（遅刻の出席者は控え）
+          const { starters, late } = splitLateArrivals(
+            teamMembersData,
+            attendances
+          );
+          starters.forEach((member, index) => {
             if (index < newSlots.length) {
               const profile = profiles?.find((p) => p.id === member.user_id);
               newSlots[index] = {
@@ -583,8 +732,12 @@ export default function MemberManagementPage({ params }: PageProps) {
           });
 
           setStarterSlots(newSlots);
+          addLateArrivalsToBench(late, profiles, substitutes);
           alert(
-            `${teamMembersData.length}名の出席者をスターティングメンバーに設定しました`
+            `${starters.length}名の出席者をスターティングメンバーに設定しました` +
+              (late.length > 0
+                ? `（遅刻の${late.length}名は控えメンバー）`
+                : "")
           );
         }
       }
@@ -594,6 +747,146 @@ export default function MemberManagementPage({ params }: PageProps) {
     }
   };
 
+  // 出席者・守備位置の希望・直近の打撃成績から打順と守備位置を提案
+  const handleSuggestLineup = async () => {
+    if (!game?.home_team_id) return;
+
+    setSuggesting(true);
+    try {
+      const attendances = game.attendance_check_enabled
+        ? await fetchParticipatingAttendances()
+        : [];
+
+      // 出欠の回答がなければ、現在登録している選手を対象にする
+      const memberIds =
+        attendances.length > 0
+          ? attendances.map((a) => a.team_member_id)
+          : [
+              ...starterSlots.map((slot) => slot.team_member_id),
+              ...substitutes.map((sub) => sub.team_member_id || ""),
+            ].filter((id) => id);
+
+      // 直接入力の選手（助っ人など）も候補にする
+      // 守備位置の希望と成績がないため、空いている位置と下位の打順になる
+      const guestNames = [
+        ...starterSlots
+          .filter((slot) => slot.player_name && !slot.team_member_id)
+          .map((slot) => slot.player_name),
+        ...substitutes
+          .filter((sub) => !sub.team_member_id)
+          .map((sub) => sub.player_name),
+      ];
+
+      if (memberIds.length + guestNames.length === 0) {
+        alert("提案の対象になる出席者がいません");
+        return;
+      }
+
+      const { data: teamData, error: teamError } = await supabase
+        .from("teams")
+        .select("member_positions")
+        .eq("id", game.home_team_id)
+        .single();
+
+      if (teamError) throw teamError;
+
+      const positions = normalizeMemberPositions(teamData?.member_positions);
+      const batting = await fetchRecentBatting(
+        supabase,
+        game.home_team_id,
+        memberIds
+      );
+
+      setSuggestion(
+        suggestLineup(
+          [
+            ...memberIds.map((memberId) => ({
+              memberId,
+              name:
+                teamMembers.find((m) => m.id === memberId)?.user_profiles
+                  ?.display_name || "名前未設定",
+              positions: positions[memberId] || [],
+              batting: batting.get(memberId) || null,
+              lateArrival: attendances.some(
+                (a) => a.team_member_id === memberId && a.status === "late"
+              ),
+            })),
+            ...guestNames.map((name, index) => ({
+              memberId: `${GUEST_CANDIDATE_PREFIX}${index}`,
+              name,
+              positions: [],
+              batting: null,
+              lateArrival: false,
+            })),
+          ],
+          {
+            starterOrders: getStarterOrders(useDH, rules),
+            innings: rules.innings,
+            minInnings,
+          }
+        )
+      );
+    } catch (error) {
+      console.error("打順提案エラー:", error);
+      alert("打順・守備の提案に失敗しました");
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  // 提案をスターティングメンバー・控えに反映（保存前に編集できる）
+  // 交代の計画は保存せず、参考として表示を残す
+  const applySuggestion = () => {
+    if (!suggestion) return;
+
+    setStarterSlots(
+      getStarterOrders(useDH, rules).map((order) => {
+        const starter = suggestion.starters.find(
+          (s) => s.battingOrder === order
+        );
+        return {
+          batting_order: order,
+          player_name: starter?.name || "",
+          team_member_id:
+            starter && !isGuestCandidate(starter.memberId)
+              ? starter.memberId
+              : "",
+          position: starter?.position || getDefaultPosition(order),
+        };
+      })
+    );
+    setSubstitutes(
+      suggestion.bench.map((player) => ({
+        game_id: gameId,
+        player_name: player.name,
+        team_member_id: isGuestCandidate(player.memberId)
+          ? null
+          : player.memberId,
+        is_starter: false,
+        batting_order: null,
+        position: null,
+        is_active: true,
+      }))
+    );
+    setPlannedSubstitutions(suggestion.substitutions);
+    setSuggestion(null);
+  };
+
+  const renderSubstitutionPlan = (substitutions: PlannedSubstitution[]) => (
+    <>
+      <ul className="space-y-1">
+        {substitutions.map((sub) => (
+          <li key={sub.inMemberId} className="text-gray-700">
+            {sub.inning}回から {sub.outName} → {sub.inName}（{sub.position}）
+          </li>
+        ))}
+      </ul>
+      <p className="mt-1 text-xs text-gray-500">
+        ※ 交代の計画は参考のみで保存されません。試合中の選手交代で入力してください
+      </p>
+    </>
+  );
+
   // ドラッグ&ドロップハンドラー
   const handleDragStart = (e: React.DragEvent, index: number) => {
     setDraggedIndex(index);
@@ -694,7 +987,7 @@ export default function MemberManagementPage({ params }: PageProps) {
         for (const memberId of participatingMemberIds) {
           const { data: existing, error: checkError } = await supabase
             .from("game_attendances")
-            .select("id")
+            .select("id, status")
             .eq("game_id", gameId)
             .eq("team_member_id", memberId)
             .maybeSingle();
@@ -704,7 +997,10 @@ export default function MemberManagementPage({ params }: PageProps) {
             continue;
           }
 
-          if (existing) {
+          if (existing && isParticipatingStatus(existing.status)) {
+            // 遅刻・早退の回答はそのまま残す
+            continue;
+          } else if (existing) {
             // 既存レコードを更新
             const { error: updateError } = await supabase
               .from("game_attendances")
@@ -803,6 +1099,28 @@ export default function MemberManagementPage({ params }: PageProps) {
       return;
     }
 
+    // 試合開始に間に合わない遅刻の出席者を先発にしていないか確認
+    const lateStarters = starterSlots.filter((slot) =>
+      lateAttendances.some(
+        (a) =>
+          a.team_member_id === slot.team_member_id &&
+          isBeforeArrival(a, game.game_time)
+      )
+    );
+    if (
+      lateStarters.length > 0 &&
+      !confirm(
+        `${lateStarters
+          .map(
+            (slot) =>
+              `${slot.player_name}（${attendanceNotes[slot.team_member_id]}）`
+          )
+          .join("、")}は試合開始に間に合わない予定です。スターティングメンバーのまま保存しますか？`
+      )
+    ) {
+      return;
+    }
+
     setSaving(true);
     setError("");
 
@@ -994,15 +1312,139 @@ export default function MemberManagementPage({ params }: PageProps) {
                   スターティングメンバー
                 </h2>
                 {canEdit && (
-                  <button
-                    onClick={loadAttendingMembers}
-                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-                  >
-                    出席者を自動設定
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={loadAttendingMembers}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                      出席者を自動設定
+                    </button>
+                    <button
+                      onClick={handleSuggestLineup}
+                      disabled={suggesting}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                    >
+                      {suggesting ? "提案中..." : "打順・守備を提案"}
+                    </button>
+                  </div>
                 )}
               </div>
 
+              {canEdit && (
+                <div className="mb-4 flex items-center gap-2 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    全員が最低
+                    <input
+                      type="number"
+                      min={0}
+                      max={rules.innings}
+                      value={minInnings}
+                      onChange={(e) =>
+                        setMinInnings(
+                          Math.max(0, parseInt(e.target.value, 10) || 0)
+                        )
+                      }
+                      className="w-16 px-2 py-1 border rounded"
+                    />
+                    イニング出場する交代を計画（0 で計画しない）
+                  </label>
+                </div>
+              )}
+
+              {/* 提案のプレビュー */}
+              {suggestion && (
+                <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded-lg">
+                  <h3 className="font-semibold text-gray-900 mb-1">
+                    打順・守備の提案
+                  </h3>
+                  <p className="mb-3 text-xs text-gray-600">
+                    守備位置はチーム設定の希望、打順は直近{RECENT_GAME_COUNT}
+                    試合の出塁率・長打率・OPS をもとにしています
+                  </p>
+
+                  {suggestion.warnings.length > 0 && (
+                    <ul className="mb-3 space-y-1 text-sm text-red-600">
+                      {suggestion.warnings.map((warning, index) => (
+                        <li key={index}>⚠️ {warning}</li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <ol className="space-y-1 text-sm">
+                    {suggestion.starters.map((starter) => (
+                      <li key={starter.memberId} className="flex gap-2">
+                        <span className="w-6 text-right font-bold text-gray-900">
+                          {starter.battingOrder}
+                        </span>
+                        <span className="w-28 font-medium text-gray-900">
+                          {starter.name}
+                        </span>
+                        <span className="w-28 text-gray-700">
+                          {starter.position || "-"}
+                        </span>
+                        <span className="flex-1 text-xs text-gray-500">
+                          {starter.reasons.join(" / ")}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+
+                  {suggestion.bench.length > 0 && (
+                    <div className="mt-3 text-sm">
+                      <span className="font-medium text-gray-700">控え: </span>
+                      {suggestion.bench
+                        .map(
+                          (player) =>
+                            `${player.name}（${player.reasons.join("・")}）`
+                        )
+                        .join("、")}
+                    </div>
+                  )}
+
+                  {suggestion.substitutions.length > 0 && (
+                    <div className="mt-3 text-sm">
+                      <div className="font-medium text-gray-700">
+                        交代の計画
+                      </div>
+                      {renderSubstitutionPlan(suggestion.substitutions)}
+                    </div>
+                  )}
+
+                  <div className="mt-4 flex justify-end gap-2">
+                    <button
+                      onClick={() => setSuggestion(null)}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                    >
+                      閉じる
+                    </button>
+                    <button
+                      onClick={applySuggestion}
+                      className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                    >
+                      この内容を反映
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* 反映した提案の交代計画（参考） */}
+              {!suggestion && plannedSubstitutions.length > 0 && (
+                <div className="mb-4 p-3 bg-gray-50 border rounded-lg text-sm">
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium text-gray-700">
+                      交代の計画（参考）
+                    </span>
+                    <button
+                      onClick={() => setPlannedSubstitutions([])}
+                      className="text-xs text-gray-500 hover:text-gray-700"
+                    >
+                      閉じる
+                    </button>
+                  </div>
+                  {renderSubstitutionPlan(plannedSubstitutions)}
+                </div>
+              )}
+
               <div className="space-y-2">
                 {starterSlots.map((slot, index) => {
                   const selectedIds = getSelectedMemberIds(index);
@@ -1031,6 +1473,11 @@ export default function MemberManagementPage({ params }: PageProps) {
                             <span className="font-medium">
                               {slot.player_name}
                             </span>
+                            {attendanceNotes[slot.team_member_id] && (
+                              <span className="ml-2 text-xs text-orange-600">
+                                {attendanceNotes[slot.team_member_id]}
+                              </span>
+                            )}
                             {canEdit && (
                               <button
                                 onClick={() => clearSlot(index)}
@@ -1090,7 +1537,11 @@ export default function MemberManagementPage({ params }: PageProps) {
                         >
                           <option value="">守備位置</option>
                           {POSITIONS.filter((pos) =>
-                            pos.value === "指名打者" ? useDH : true
+                            pos.value === "指名打者"
+                              ? useDH
+                              : pos.value === "エキストラヒッター"
+                              ? rules.extraHitters > 0
+                              : true
                           )
                             .filter(
                               (pos) =>
@@ -1130,7 +1581,15 @@ export default function MemberManagementPage({ params }: PageProps) {
                       key={index}
                       className="flex items-center gap-4 p-3 bg-gray-50 rounded"
                     >
-                      <span className="flex-1">{sub.player_name}</span>
+                      <span className="flex-1">
+                        {sub.player_name}
+                        {sub.team_member_id &&
+                          attendanceNotes[sub.team_member_id] && (
+                            <span className="ml-2 text-xs text-orange-600">
+                              {attendanceNotes[sub.team_member_id]}
+                            </span>
+                          )}
+                      </span>
                       {canEdit && (
                         <button
                           onClick={() => removeSubstitute(index)}
@@ -1214,6 +1673,11 @@ export default function MemberManagementPage({ params }: PageProps) {
             )}
           </div>
         </div>
+
+        {/* 相手チームの打順 */}
+        <div className="mt-6">
+          <OpponentLineupInput gameId={gameId} canEdit={canEdit} />
+        </div>
       </div>
     </div>
   );
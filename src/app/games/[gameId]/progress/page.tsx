@@ -1,6 +1,6 @@
 "use client";
 
-import { use, useEffect, useState } from "react";
+import { use, useEffect, useRef, useState } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { useRouter, useSearchParams } from "next/navigation";
@@ -10,13 +10,33 @@ import PlayerSubstitution from "@/components/game/PlayerSubstitution";
 import StatsDisplay from "@/components/game/StatsDisplay";
 import PitchingRecordInput from "@/components/game/PitchingRecordInput";
 import PitchingStatsDisplay from "@/components/game/PitchingStatsDisplay";
+import PitchCountInput from "@/components/game/PitchCountInput";
+import OpponentBattingInput from "@/components/game/OpponentBattingInput";
 import RunnerDisplay from "@/components/game/RunnerDisplay";
+import ScoringHistoryControls from "@/components/game/ScoringHistoryControls";
+import { findHalfInningState, GameEvent, replayGame } from "@/lib/game-events";
+import {
+  fetchGameEvents,
+  fetchGameRules,
+  fetchOutsByInning,
+  fetchTiebreakRuns,
+} from "@/lib/game-logic";
+import {
+  checkGameEnd as checkGameEndByRules,
+  GameRules,
+  getInningCount,
+  HalfInningScore,
+  isTiebreakInning,
+  normalizeGameRules,
+} from "@/lib/game-rules";
+import { recordGameAchievements } from "@/lib/milestones";
 
 // 型定義
 interface Game {
   id: string;
   name: string;
   game_date: string;
+  game_time: string | null;
   status: string;
   home_team_id: string;
   home_score: number;
@@ -58,19 +78,6 @@ interface BattingRecord {
   run_scored: boolean;
 }
 
-// アウトになる結果を定義
-const OUT_RESULTS = [
-  "三振",
-  "ゴロ",
-  "フライ",
-  "ライナー",
-  "犠打",
-  "犠飛",
-  "フィールダースチョイス",
-];
-
-// 草野球の最大イニング数
-const MAX_INNINGS = 7;
 
 export default function GameProgressPage({
   params,
@@ -110,6 +117,25 @@ export default function GameProgressPage({
     null
   );
   const [runnerRefreshTrigger, setRunnerRefreshTrigger] = useState(0);
+  const [battingRefreshTrigger, setBattingRefreshTrigger] = useState(0);
+  const [gameEnded, setGameEnded] = useState(false);
+  const [pitchMode, setPitchMode] = useState(false); // 1球ごとの投球入力
+  const [pitchingRefreshTrigger, setPitchingRefreshTrigger] = useState(0);
+  const [rules, setRules] = useState<GameRules>(normalizeGameRules());
+  // 相手チームの打順が登録されていれば相手の攻撃回も打席ごとに入力する
+  const [opponentPlayerCount, setOpponentPlayerCount] = useState(0);
+  // 球数カウントで四球・三振になった打席（相手の打撃入力に引き継ぐ）
+  const [pitchCountResult, setPitchCountResult] = useState<{
+    result: string;
+  } | null>(null);
+  const [pendingPlay, setPendingPlay] = useState<{
+    result: string;
+    baseReached: number;
+    batterName: string;
+  } | null>(null);
+  const pendingPlayResolver = useRef<
+    ((overrides: Record<string, number> | null) => void) | null
+  >(null);
 
   useEffect(() => {
     // 認証状態の読み込み中は何もしない
@@ -179,8 +205,11 @@ export default function GameProgressPage({
         setIsMyTeamBatFirst(scoreData.is_my_team_bat_first);
       }
 
+      const gameRules = await fetchGameRules(supabase, gameId);
+      setRules(gameRules);
+
       await fetchPlayers();
-      await loadAllInningsData();
+      await loadAllInningsData(gameRules);
     } catch (error) {
       console.error("データ取得エラー:", error);
     } finally {
@@ -205,7 +234,10 @@ export default function GameProgressPage({
     }
   };
 
-  const loadAllInningsData = async () => {
+  const loadAllInningsData = async (
+    gameRules: GameRules = rules,
+    selectCurrentInning: boolean = true
+  ) => {
     try {
       // 打撃記録を取得
       const { data: records } = await supabase
@@ -217,6 +249,14 @@ export default function GameProgressPage({
       if (records) {
         setBattingRecords(records);
       }
+      const tiebreakRuns = await fetchTiebreakRuns(supabase, gameId);
+      // アウト数（走塁死・併殺・盗塁死を含む）
+      const outsByInning = await fetchOutsByInning(supabase, gameId);
+      const { count: opponentCount } = await supabase
+        .from("game_opponent_players")
+        .select("id", { count: "exact", head: true })
+        .eq("game_id", gameId);
+      setOpponentPlayerCount(opponentCount || 0);
 
       // イニングごとのデータを構築
       const inningsMap = new Map<string, InningData>();
@@ -225,28 +265,16 @@ export default function GameProgressPage({
       const myTeamTopBottom = isMyTeamBatFirst ? "top" : "bottom";
 
       // 自チームの攻撃回のみデータを作成
-      for (let inning = 1; inning <= MAX_INNINGS; inning++) {
+      for (let inning = 1; inning <= gameRules.maxInnings; inning++) {
         const key = `${inning}-${myTeamTopBottom}`;
         const inningRecords = records?.filter((r) => r.inning === inning) || [];
-        // アウト数を計算（併殺・三重殺を考慮）
-        let outCount = 0;
-        inningRecords.forEach((r) => {
-          if (OUT_RESULTS.includes(r.result)) {
-            if (r.notes?.includes("併殺（ダブルプレー）")) {
-              outCount += 2;
-            } else if (r.notes?.includes("三重殺（トリプルプレー）")) {
-              outCount += 3;
-            } else {
-              outCount += 1;
-            }
-          }
-        });
+        const outCount = outsByInning[inning] || 0;
         const hitCount = inningRecords.filter((r) =>
           ["安打", "二塁打", "三塁打", "本塁打"].includes(r.result)
         ).length;
-        const runCount = inningRecords
-          .filter((r) => r.run_scored)
-          .reduce((sum) => sum + 1, 0);
+        const runCount =
+          inningRecords.filter((r) => r.run_scored).length +
+          (tiebreakRuns[inning] || 0);
 
         inningsMap.set(key, {
           inning,
@@ -261,38 +289,90 @@ export default function GameProgressPage({
         });
       }
 
+      // 相手チームの攻撃回（イベントログのリプレイから）
+      const opponentTopBottom = myTeamTopBottom === "top" ? "bottom" : "top";
+      const events = opponentCount ? await fetchGameEvents(supabase, gameId) : [];
+      if (opponentCount) {
+        const replay = replayGame(events);
+        for (let inning = 1; inning <= gameRules.maxInnings; inning++) {
+          const state = findHalfInningState(replay, inning, true);
+          const isEnded =
+            state.outs >= 3 ||
+            events.some(
+              (e) =>
+                e.is_opponent &&
+                e.event_type === "inning_end" &&
+                e.inning === inning
+            );
+          inningsMap.set(`${inning}-${opponentTopBottom}`, {
+            inning,
+            topBottom: opponentTopBottom,
+            currentBatter: null,
+            runs: replay.opponentLineScore[inning] || 0,
+            hits: replay.opponentBattingRecords.filter(
+              (r) =>
+                r.inning === inning &&
+                ["安打", "二塁打", "三塁打", "本塁打"].includes(r.result)
+            ).length,
+            errors: 0,
+            outs: state.outs,
+            isCompleted: isEnded,
+            isLocked: isEnded,
+          });
+        }
+      }
+
       setAllInningsData(inningsMap);
+      if (!selectCurrentInning) return;
+
+      // 相手の攻撃回も入力する場合は、最後のイベントから進行中の表裏を判定
+      const lastPlay = events
+        .filter(
+          (e) =>
+            e.event_type !== "pitching_change" &&
+            e.event_type !== "correction"
+        )
+        .pop();
+      if (opponentCount && lastPlay) {
+        const lastTopBottom: "top" | "bottom" =
+          lastPlay.event_type === "inning_end" && lastPlay.payload.isTopBottom
+            ? lastPlay.payload.isTopBottom
+            : lastPlay.is_opponent
+            ? opponentTopBottom
+            : myTeamTopBottom;
+        if (lastPlay.event_type !== "inning_end") {
+          setSelectedInning(lastPlay.inning);
+          setSelectedTopBottom(lastTopBottom);
+        } else if (lastTopBottom === "top") {
+          setSelectedInning(lastPlay.inning);
+          setSelectedTopBottom("bottom");
+        } else {
+          setSelectedInning(
+            Math.min(lastPlay.inning + 1, gameRules.maxInnings)
+          );
+          setSelectedTopBottom("top");
+        }
+        return;
+      }
 
       // 現在進行中のイニングを計算
-      // 現在進行中のイニングを計算
-      if (records && records.length > 0) {
-        const maxRecordedInning = Math.max(...records.map((r) => r.inning));
-        const currentInningRecords = records.filter(
-          (r) => r.inning === maxRecordedInning
-        );
-
-        // アウト数を計算（併殺・三重殺を考慮）
-        let currentOuts = 0;
-        currentInningRecords.forEach((r) => {
-          if (OUT_RESULTS.includes(r.result)) {
-            if (r.notes?.includes("併殺（ダブルプレー）")) {
-              currentOuts += 2;
-            } else if (r.notes?.includes("三重殺（トリプルプレー）")) {
-              currentOuts += 3;
-            } else {
-              currentOuts += 1;
-            }
-          }
-        });
+      // 打撃記録のない回でも盗塁死などのアウトがあれば進行中とみなす
+      const recordedInnings = [
+        ...(records || []).map((r) => r.inning),
+        ...Object.keys(outsByInning).map(Number),
+      ];
+      if (recordedInnings.length > 0) {
+        const maxRecordedInning = Math.max(...recordedInnings);
+        const currentOuts = outsByInning[maxRecordedInning] || 0;
 
         if (currentOuts >= 3) {
           const nextInning = maxRecordedInning + 1;
-          if (nextInning <= MAX_INNINGS) {
+          if (nextInning <= gameRules.maxInnings) {
             setSelectedInning(nextInning);
             setSelectedTopBottom(myTeamTopBottom);
           } else {
-            // 7回を超えたら最終イニングを表示
-            setSelectedInning(MAX_INNINGS);
+            // 最大イニングを超えたら最終イニングを表示
+            setSelectedInning(gameRules.maxInnings);
             setSelectedTopBottom(myTeamTopBottom);
           }
         } else {
@@ -360,18 +440,169 @@ export default function GameProgressPage({
     // loadAllInningsDataは呼ばない（ユーザーが手動でタブを選択した場合は自動遷移しない）
   };
 
-  const checkGameEnd = () => {
-    const completedCount = Array.from(allInningsData.values()).filter(
-      (data) => data.isCompleted
-    ).length;
+  // 3アウトによる自動イニング交代（打席・盗塁死）
+  const handleAutoInningChange = async (
+    newInning: number,
+    newTopBottom: "top" | "bottom"
+  ) => {
+    // 規定回終了・コールドなら次のイニングに進まない
+    if (await checkGameEnd()) return;
+    handleInningChange(newInning, newTopBottom);
+    // 3アウトによる自動イニング交代の場合のみデータを再読み込み
+    // （相手の攻撃回も入力する場合は交代後の表裏を表示したまま）
+    await loadAllInningsData(rules, opponentPlayerCount === 0);
+  };
+
+  // 打席結果の進塁先を RunnerDisplay で確認する
+  const requestRunnerOverrides = (play: {
+    result: string;
+    baseReached: number;
+    batterName: string;
+  }) =>
+    new Promise<Record<string, number> | null>((resolve) => {
+      pendingPlayResolver.current = resolve;
+      setPendingPlay(play);
+    });
+
+  const resolvePendingPlay = (overrides: Record<string, number> | null) => {
+    pendingPlayResolver.current?.(overrides);
+    pendingPlayResolver.current = null;
+    setPendingPlay(null);
+  };
+
+  // 取り消し・やり直し後の再読み込み（攻撃終了を含む場合はイニングも戻す）
+  const handleHistoryChange = async (
+    events: GameEvent[],
+    direction: "undo" | "redo"
+  ) => {
+    const inningEnd = events.find((e) => e.event_type === "inning_end");
+    if (inningEnd) {
+      const topBottom: "top" | "bottom" =
+        inningEnd.payload.isTopBottom || selectedTopBottom;
+      if (direction === "undo") {
+        handleInningChange(inningEnd.inning, topBottom);
+      } else if (
+        !(inningEnd.inning >= rules.maxInnings && topBottom === "bottom")
+      ) {
+        handleInningChange(
+          topBottom === "bottom" ? inningEnd.inning + 1 : inningEnd.inning,
+          topBottom === "top" ? "bottom" : "top"
+        );
+      }
+    } else if (events[0].inning !== selectedInning) {
+      handleInningChange(events[0].inning, selectedTopBottom);
+    }
+
+    await fetchPlayers();
+    await loadAllInningsData();
+    setRunnerRefreshTrigger((prev) => prev + 1);
+    setBattingRefreshTrigger((prev) => prev + 1);
+  };
+
+  // 試合ルール（規定回・コールド・時間制限など）に基づく試合終了の判定
+  const checkGameEnd = async (): Promise<boolean> => {
+    if (gameEnded || isMyTeamBatFirst === null) return gameEnded;
+
+    try {
+      const [{ data: records }, { data: scoreRows }] = await Promise.all([
+        supabase
+          .from("game_batting_records")
+          .select("inning, run_scored")
+          .eq("game_id", gameId),
+        supabase.from("game_scores").select("*").eq("game_id", gameId),
+      ]);
+      const tiebreakRuns = await fetchTiebreakRuns(supabase, gameId);
+      const outsByInning = await fetchOutsByInning(supabase, gameId);
+      // 相手の攻撃回を打席ごとに入力した回は、3アウトまたは攻撃終了で完了
+      const events = await fetchGameEvents(supabase, gameId);
+      const replay = replayGame(events);
+
+      const halves: HalfInningScore[] = [];
+      for (let inning = 1; inning <= rules.maxInnings; inning++) {
+        // 自チームの攻撃（打撃記録から）
+        const inningRecords = records?.filter((r) => r.inning === inning) || [];
+        if (inningRecords.length > 0) {
+          halves.push({
+            inning,
+            isTop: isMyTeamBatFirst,
+            runs:
+              inningRecords.filter((r) => r.run_scored).length +
+              (tiebreakRuns[inning] || 0),
+            isComplete: (outsByInning[inning] || 0) >= 3,
+          });
+        }
+
+        // 相手チームの攻撃（イニングスコアから）
+        const row = scoreRows?.find((r) => r.inning === inning);
+        const opponentRuns = isMyTeamBatFirst
+          ? row?.bottom_score
+          : row?.top_score;
+        if (opponentRuns !== null && opponentRuns !== undefined) {
+          const opponentEvents = events.filter(
+            (e) =>
+              e.is_opponent &&
+              e.inning === inning &&
+              e.event_type !== "pitching_change"
+          );
+          halves.push({
+            inning,
+            isTop: !isMyTeamBatFirst,
+            runs: opponentRuns,
+            isComplete:
+              opponentEvents.length === 0 ||
+              opponentEvents.some((e) => e.event_type === "inning_end") ||
+              findHalfInningState(replay, inning, true).outs >= 3,
+          });
+        }
+      }
+
+      const startedAt =
+        game?.game_date && game.game_time
+          ? new Date(`${game.game_date}T${game.game_time}`)
+          : null;
+      const elapsedMinutes = startedAt
+        ? (Date.now() - startedAt.getTime()) / 60000
+        : null;
+
+      const result = checkGameEndByRules(rules, halves, elapsedMinutes);
+      if (!result.isOver) return false;
 
-    if (completedCount >= MAX_INNINGS) {
-      // 7回完了時の処理
-      alert("試合が終了しました！");
-      // 必要に応じて試合終了処理を実装
+      await supabase
+        .from("games")
+        .update({ status: "completed", updated_at: new Date().toISOString() })
+        .eq("id", gameId);
+
+      // 記録・達成の判定（勝敗の登録後にも再判定する）
+      const achievements = await recordGameAchievements(supabase, gameId);
+      const achievementText = achievements
+        .map((a) => `\n・${a.playerName} ${a.label}`)
+        .join("");
+
+      alert(
+        `試合が終了しました（${result.reason}）。勝敗・セーブの判定を確認してください${achievementText}`
+      );
+      // 投手記録タブで勝敗・セーブの判定を提案
+      setGameEnded(true);
+      setActiveTab("pitching");
+      return true;
+    } catch (error) {
+      console.error("試合終了判定エラー:", error);
+      return false;
     }
   };
 
+  // 表示するイニング数（延長に入ったイニングまで）
+  const inningCount = getInningCount(
+    rules,
+    Math.max(selectedInning, ...battingRecords.map((r) => r.inning))
+  );
+
+  // 選択中の表裏が相手チームの攻撃回か
+  const isOpponentHalfSelected =
+    opponentPlayerCount > 0 &&
+    isMyTeamBatFirst !== null &&
+    (selectedTopBottom === "top") !== isMyTeamBatFirst;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -418,27 +649,42 @@ export default function GameProgressPage({
           </div>
         </div>
 
+        {/* 取り消し・やり直し */}
+        <div className="mb-4 flex justify-end">
+          <ScoringHistoryControls
+            gameId={gameId}
+            canEdit={canEdit}
+            refreshTrigger={runnerRefreshTrigger + battingRefreshTrigger}
+            onChange={handleHistoryChange}
+          />
+        </div>
+
         {/* イニング選択タブ */}
         {isMyTeamBatFirst !== null && (
           <div className="mb-6 bg-white rounded-lg shadow p-4">
             <div className="flex space-x-2 overflow-x-auto">
-              {Array.from({ length: MAX_INNINGS }, (_, i) => i + 1).map(
-                (inning) => {
-                  const key = `${inning}-${
-                    isMyTeamBatFirst ? "top" : "bottom"
-                  }`;
+              {Array.from({ length: inningCount }, (_, i) => i + 1)
+                .flatMap((inning) =>
+                  // 相手の打順が登録されていれば表裏とも表示
+                  (opponentPlayerCount > 0
+                    ? (["top", "bottom"] as const)
+                    : ([isMyTeamBatFirst ? "top" : "bottom"] as const)
+                  ).map((topBottom) => ({ inning, topBottom }))
+                )
+                .map(({ inning, topBottom }) => {
+                  const key = `${inning}-${topBottom}`;
                   const data = allInningsData.get(key);
-                  const isActive = selectedInning === inning;
+                  const isActive =
+                    selectedInning === inning &&
+                    (opponentPlayerCount === 0 ||
+                      selectedTopBottom === topBottom);
+                  const isOpponentHalf =
+                    (topBottom === "top") !== isMyTeamBatFirst;
 
                   return (
                     <button
-                      key={inning}
-                      onClick={() =>
-                        handleInningChange(
-                          inning,
-                          isMyTeamBatFirst ? "top" : "bottom"
-                        )
-                      }
+                      key={key}
+                      onClick={() => handleInningChange(inning, topBottom)}
                       className={`px-4 py-2 rounded-lg whitespace-nowrap ${
                         isActive
                           ? "bg-blue-600 text-white"
@@ -447,12 +693,12 @@ export default function GameProgressPage({
                           : "bg-gray-100 text-gray-700"
                       }`}
                     >
-                      {inning}回{isMyTeamBatFirst ? "表" : "裏"}
+                      {inning}回{topBottom === "top" ? "表" : "裏"}
+                      {isOpponentHalf && "（相手）"}
                       {data?.isCompleted && " ✓"}
                     </button>
                   );
-                }
-              )}
+                })}
             </div>
           </div>
         )}
@@ -506,16 +752,49 @@ export default function GameProgressPage({
 
           {/* タブコンテンツ */}
           <div className="p-6">
-            {activeTab === "batting" && (
+            {activeTab === "batting" && isOpponentHalfSelected && (
+              <OpponentBattingInput
+                gameId={gameId}
+                players={players}
+                currentInning={selectedInning}
+                isTopBottom={selectedTopBottom}
+                canEdit={canEdit}
+                maxInnings={rules.maxInnings}
+                refreshTrigger={battingRefreshTrigger}
+                presetResult={pitchCountResult}
+                onRecordSaved={async () => {
+                  setPitchCountResult(null);
+                  await loadAllInningsData(rules, false);
+                  setPitchingRefreshTrigger((prev) => prev + 1);
+                  setRunnerRefreshTrigger((prev) => prev + 1);
+                  // サヨナラ・コールドの判定
+                  await checkGameEnd();
+                }}
+                onInningChange={async (newInning, newTopBottom) => {
+                  if (await checkGameEnd()) return;
+                  handleInningChange(newInning, newTopBottom);
+                  await loadAllInningsData(rules, false);
+                }}
+                onGameEnd={checkGameEnd}
+              />
+            )}
+
+            {activeTab === "batting" && !isOpponentHalfSelected && (
               <div className="space-y-6">
                 {/* ランナー表示 */}
                 <RunnerDisplay
                   gameId={gameId}
                   currentInning={selectedInning}
+                  isTopBottom={selectedTopBottom}
                   refreshTrigger={runnerRefreshTrigger}
+                  pendingPlay={pendingPlay}
+                  onPlayConfirm={(overrides) => resolvePendingPlay(overrides)}
+                  onPlayCancel={() => resolvePendingPlay(null)}
                   onRunnerUpdate={async () => {
                     await loadAllInningsData();
+                    setBattingRefreshTrigger((prev) => prev + 1);
                   }}
+                  onInningOver={handleAutoInningChange}
                 />
 
                 <BattingRecordInput
@@ -524,16 +803,22 @@ export default function GameProgressPage({
                   currentInning={selectedInning}
                   isTopBottom={selectedTopBottom}
                   canEdit={canEdit}
+                  maxInnings={rules.maxInnings}
+                  tiebreakBases={
+                    isTiebreakInning(rules, selectedInning)
+                      ? rules.tiebreakBases
+                      : []
+                  }
                   onRecordSaved={async () => {
                     await loadAllInningsData();
                     setRunnerRefreshTrigger((prev) => prev + 1);
+                    // サヨナラ・コールドの判定
+                    await checkGameEnd();
                   }}
-                  onInningChange={async (newInning, newTopBottom) => {
-                    handleInningChange(newInning, newTopBottom);
-                    // 3アウトによる自動イニング交代の場合のみデータを再読み込み
-                    await loadAllInningsData();
-                  }}
+                  onInningChange={handleAutoInningChange}
                   onGameEnd={checkGameEnd}
+                  refreshTrigger={battingRefreshTrigger}
+                  requestRunnerOverrides={requestRunnerOverrides}
                 />
               </div>
             )}
@@ -541,21 +826,59 @@ export default function GameProgressPage({
             {activeTab === "substitution" && (
               <PlayerSubstitution
                 gameId={gameId}
-                players={players}
-                onSubstitution={() => fetchPlayers()}
+                currentInning={selectedInning}
+                onSubstitutionComplete={() => {
+                  fetchPlayers();
+                  setBattingRefreshTrigger((prev) => prev + 1);
+                }}
                 canEdit={canEdit}
               />
             )}
 
             {activeTab === "pitching" && (
               <div className="space-y-4">
+                {canEdit && (
+                  <label className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={pitchMode}
+                      onChange={(e) => setPitchMode(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <span>1球ごとに入力する（球数カウント）</span>
+                  </label>
+                )}
+                {pitchMode && (
+                  <PitchCountInput
+                    gameId={gameId}
+                    players={players}
+                    canEdit={canEdit}
+                    pitchCountLimit={rules.pitchCountLimit}
+                    onPitchRecorded={() =>
+                      setPitchingRefreshTrigger((prev) => prev + 1)
+                    }
+                    onPlateAppearanceComplete={
+                      opponentPlayerCount > 0
+                        ? (result) => setPitchCountResult({ result })
+                        : undefined
+                    }
+                  />
+                )}
                 <PitchingRecordInput
                   gameId={gameId}
                   players={players}
                   canEdit={canEdit}
-                  onRecordSaved={fetchPlayers}
+                  currentInning={selectedInning}
+                  gameEnded={gameEnded}
+                  onRecordSaved={() => {
+                    fetchPlayers();
+                    setPitchingRefreshTrigger((prev) => prev + 1);
+                  }}
+                />
+                <PitchingStatsDisplay
+                  gameId={gameId}
+                  refreshTrigger={pitchingRefreshTrigger}
                 />
-                <PitchingStatsDisplay gameId={gameId} />
               </div>
             )}
 
@@ -0,0 +1,119 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { renderGameReportHtml } from "@/lib/game-report";
+
+// 試合レポート（印刷用 HTML、ブラウザの印刷から PDF に保存できる）
+// 閲覧権限は RLS に従う（見られない試合は 404）
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  const { gameId } = await params;
+  const supabase = createRouteHandlerClient({ cookies });
+
+  try {
+    const { data: game, error: gameError } = await supabase
+      .from("games")
+      .select("*")
+      .eq("id", gameId)
+      .single();
+
+    if (gameError || !game) {
+      return NextResponse.json(
+        { error: "試合が見つかりません" },
+        { status: 404 }
+      );
+    }
+
+    const [
+      { data: team },
+      { data: players },
+      { data: battingRecords },
+      { data: scores },
+      { data: pitchingStats },
+      { data: pitchingRecords },
+      { data: substitutions },
+      { data: tasks },
+    ] = await Promise.all([
+      game.home_team_id
+        ? supabase
+            .from("teams")
+            .select("name")
+            .eq("id", game.home_team_id)
+            .single()
+        : Promise.resolve({ data: null }),
+      supabase
+        .from("game_players")
+        .select("id, player_name, batting_order, position")
+        .eq("game_id", gameId)
+        .order("batting_order", { ascending: true }),
+      supabase
+        .from("game_batting_records")
+        .select("player_id, result, rbi, run_scored, stolen_base")
+        .eq("game_id", gameId),
+      supabase
+        .from("game_scores")
+        .select("inning, top_score, bottom_score, is_my_team_bat_first")
+        .eq("game_id", gameId)
+        .order("inning", { ascending: true }),
+      supabase.from("player_pitching_stats").select("*").eq("game_id", gameId),
+      supabase
+        .from("game_pitching_records")
+        .select("player_id, pitches_thrown, strikes_thrown, win, loss, save")
+        .eq("game_id", gameId),
+      supabase
+        .from("game_substitutions")
+        .select(
+          "inning, out_player_id, in_player_id, substitution_type, new_position, description"
+        )
+        .eq("game_id", gameId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("game_operation_tasks")
+        .select("task_type, person_name")
+        .eq("game_id", gameId),
+    ]);
+
+    // 投手成績に球数と勝敗を付加（PitchingStatsDisplay と同じ）
+    const pitchingLines = (pitchingStats || []).map((stats) => {
+      const record = pitchingRecords?.find(
+        (r) => r.player_id === stats.player_id
+      );
+      return {
+        ...stats,
+        pitches_thrown: record?.pitches_thrown || 0,
+        strikes_thrown: record?.strikes_thrown || 0,
+        decision: record?.win
+          ? "勝"
+          : record?.loss
+          ? "敗"
+          : record?.save
+          ? "S"
+          : null,
+      };
+    });
+
+    const html = renderGameReportHtml({
+      game,
+      teamName: team?.name || "自チーム",
+      players: players || [],
+      battingRecords: battingRecords || [],
+      scores: scores || [],
+      pitchingLines,
+      substitutions: substitutions || [],
+      tasks: tasks || [],
+    });
+
+    return new NextResponse(html, {
+      status: 200,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("試合レポート作成エラー:", error);
+    return NextResponse.json(
+      { error: "試合レポートの作成に失敗しました" },
+      { status: 500 }
+    );
+  }
+}
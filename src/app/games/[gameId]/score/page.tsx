@@ -5,6 +5,14 @@ import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { fetchGameRules } from "@/lib/game-logic";
+import {
+  checkGameEnd,
+  GameRules,
+  HalfInningScore,
+  normalizeGameRules,
+} from "@/lib/game-rules";
+import { recordGameAchievements } from "@/lib/milestones";
 
 interface Game {
   id: string;
@@ -48,6 +56,7 @@ export default function ScoreInputPage({ params }: PageProps) {
   const [saving, setSaving] = useState(false);
   const [canEdit, setCanEdit] = useState(false);
   const [isMyTeamBatFirst, setIsMyTeamBatFirst] = useState(true); // マイチームが先攻かどうか
+  const [rules, setRules] = useState<GameRules>(normalizeGameRules());
 
   const { user, loading: authLoading } = useAuth();
   const router = useRouter();
@@ -109,6 +118,9 @@ export default function ScoreInputPage({ params }: PageProps) {
 
       setCanEdit(isOwner || teamOwner?.owner_id === user?.id);
 
+      const gameRules = await fetchGameRules(supabase, gameId);
+      setRules(gameRules);
+
       // 既存のイニングスコアを取得
       const { data: existingScores, error: scoresError } = await supabase
         .from("game_scores")
@@ -118,7 +130,10 @@ export default function ScoreInputPage({ params }: PageProps) {
 
       if (existingScores && existingScores.length > 0) {
         // 既存のスコアがある場合
-        const maxInning = Math.max(...existingScores.map((s) => s.inning), 7);
+        const maxInning = Math.max(
+          ...existingScores.map((s) => s.inning),
+          gameRules.innings
+        );
         const loadedInnings: InningScore[] = [];
 
         // 先攻/後攻の設定を取得
@@ -136,9 +151,9 @@ export default function ScoreInputPage({ params }: PageProps) {
         }
         setInnings(loadedInnings);
       } else {
-        // 新規の場合は7回まで初期化
+        // 新規の場合は規定イニングまで初期化
         const initialInnings: InningScore[] = [];
-        for (let i = 1; i <= 7; i++) {
+        for (let i = 1; i <= gameRules.innings; i++) {
           initialInnings.push({
             inning: i,
             top: null,
@@ -192,8 +207,47 @@ export default function ScoreInputPage({ params }: PageProps) {
     }
 
     setInnings(newInnings);
+
+    // 最終回まで入力して決着していなければ延長回を自動で追加
+    const last = newInnings[newInnings.length - 1];
+    if (
+      last.top !== null &&
+      last.bottom !== null &&
+      newInnings.length < rules.maxInnings &&
+      !checkGameEnd(rules, toHalfInnings(newInnings)).isOver
+    ) {
+      setInnings([
+        ...newInnings,
+        { inning: newInnings.length + 1, top: null, bottom: null },
+      ]);
+    }
   };
 
+  // 入力済みの得点を試合終了判定用の半イニングに変換
+  const toHalfInnings = (data: InningScore[]): HalfInningScore[] =>
+    data.flatMap((inning) => [
+      ...(inning.top !== null
+        ? [
+            {
+              inning: inning.inning,
+              isTop: true,
+              runs: inning.top,
+              isComplete: true,
+            },
+          ]
+        : []),
+      ...(inning.bottom !== null
+        ? [
+            {
+              inning: inning.inning,
+              isTop: false,
+              runs: inning.bottom,
+              isComplete: true,
+            },
+          ]
+        : []),
+    ]);
+
   const calculateTotalScore = (side: "top" | "bottom") => {
     return innings.reduce((total, inning) => {
       const score = side === "top" ? inning.top : inning.bottom;
@@ -266,7 +320,15 @@ export default function ScoreInputPage({ params }: PageProps) {
   };
 
   const handleCompleteGame = async () => {
-    if (!confirm("試合を終了しますか？")) return;
+    const gameEnd = checkGameEnd(rules, toHalfInnings(innings));
+    if (
+      !confirm(
+        gameEnd.isOver
+          ? `試合を終了しますか？（${gameEnd.reason}）`
+          : "試合終了の条件を満たしていませんが、試合を終了しますか？"
+      )
+    )
+      return;
 
     setSaving(true);
     try {
@@ -314,7 +376,13 @@ export default function ScoreInputPage({ params }: PageProps) {
         }
       }
 
-      alert("試合を終了しました");
+      // 記録・達成の判定
+      const achievements = await recordGameAchievements(supabase, gameId);
+      const achievementText = achievements
+        .map((a) => `\n・${a.playerName} ${a.label}`)
+        .join("");
+
+      alert(`試合を終了しました${achievementText}`);
       router.push(`/games/${gameId}`);
     } catch (error) {
       console.error("終了処理エラー:", error);
@@ -572,7 +640,7 @@ export default function ScoreInputPage({ params }: PageProps) {
           </div>
 
           {/* 延長回追加ボタン */}
-          {innings.length < 10 && (
+          {innings.length < rules.maxInnings && (
             <div className="p-4 border-t bg-gray-50">
               <button
                 onClick={addExtraInning}
@@ -602,10 +670,13 @@ export default function ScoreInputPage({ params }: PageProps) {
               <p className="font-semibold mb-1">スコア入力のヒント</p>
               <ul className="list-disc list-inside space-y-1">
                 <li>まず、マイチームが先攻か後攻かを選択してください</li>
-                <li>各イニングの得点を入力してください（基本7回制）</li>
+                <li>
+                  各イニングの得点を入力してください（{rules.innings}回制）
+                </li>
                 <li>途中保存で進行状況を保存できます</li>
                 <li>
-                  延長戦の場合は「延長回を追加」ボタンで回を追加できます（最大10回まで）
+                  同点で最終回を終えると延長回が追加されます（最大
+                  {rules.maxInnings}回まで）
                 </li>
                 <li>試合終了ボタンで試合を完了状態にできます</li>
               </ul>
@@ -5,6 +5,12 @@ import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
+import GameRulesForm from "@/components/game/GameRulesForm";
+import { GameRules, normalizeGameRules } from "@/lib/game-rules";
+import {
+  fromDatetimeLocalValue,
+  isDeadlineBeforeGameStart,
+} from "@/lib/attendance";
 
 interface Team {
   id: string;
@@ -24,6 +30,7 @@ export default function CreateGamePage() {
   const [opponentName, setOpponentName] = useState("");
   const [isPublic, setIsPublic] = useState(true);
   const [attendanceCheckEnabled, setAttendanceCheckEnabled] = useState(false); // 出欠確認機能の追加
+  const [attendanceDeadline, setAttendanceDeadline] = useState(""); // 回答締切（datetime-local）
   const [category, setCategory] = useState<"official" | "practice" | "scrimmage">("practice");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
@@ -35,6 +42,7 @@ export default function CreateGamePage() {
   const [isMyTeamBatFirst, setIsMyTeamBatFirst] = useState<boolean | null>(
     null
   );
+  const [rules, setRules] = useState<GameRules>(normalizeGameRules());
 
   const { user } = useAuth();
   const router = useRouter();
@@ -57,6 +65,27 @@ export default function CreateGamePage() {
     }
   }, [teamIdFromUrl, teams]);
 
+  // チームの既定ルールを試合ルールの初期値にする
+  useEffect(() => {
+    if (selectedTeamId) {
+      fetchTeamDefaultRules(selectedTeamId);
+    }
+  }, [selectedTeamId]);
+
+  const fetchTeamDefaultRules = async (teamId: string) => {
+    const { data, error } = await supabase
+      .from("teams")
+      .select("default_rules")
+      .eq("id", teamId)
+      .single();
+
+    if (error) {
+      console.error("既定ルール取得エラー:", error);
+      return;
+    }
+    setRules(normalizeGameRules(data?.default_rules));
+  };
+
   const fetchUserTeams = async () => {
     try {
       const { data, error } = await supabase
@@ -105,6 +134,20 @@ export default function CreateGamePage() {
       return;
     }
 
+    // 回答締切は試合開始より前にする
+    if (
+      attendanceCheckEnabled &&
+      !isDeadlineBeforeGameStart(
+        fromDatetimeLocalValue(attendanceDeadline),
+        gameDate,
+        gameTime || null
+      )
+    ) {
+      setError("回答締切は試合の開始より前の日時にしてください");
+      setLoading(false);
+      return;
+    }
+
     try {
       const { data, error } = await supabase
         .from("games")
@@ -123,7 +166,11 @@ export default function CreateGamePage() {
               recordType === "team" && selectedTeamId ? "team" : "individual",
             is_public: isPublic,
             attendance_check_enabled: attendanceCheckEnabled, // 出欠確認設定を保存
+            attendance_deadline: attendanceCheckEnabled
+              ? fromDatetimeLocalValue(attendanceDeadline)
+              : null,
             category: category,
+            rules: normalizeGameRules(rules),
             created_by: user!.id,
           },
         ])
@@ -446,6 +493,14 @@ export default function CreateGamePage() {
               />
             </div>
 
+            {/* 試合ルール */}
+            <div className="border-t pt-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-3">
+                試合ルール
+              </h3>
+              <GameRulesForm rules={rules} onChange={setRules} />
+            </div>
+
             {/* 出欠確認機能（チーム記録かつチーム選択時のみ表示） */}
             {recordType === "team" && selectedTeamId && (
               <div className="border-t pt-4">
@@ -467,6 +522,22 @@ export default function CreateGamePage() {
                     </p>
                   </div>
                 </label>
+                {attendanceCheckEnabled && (
+                  <div className="mt-3 ml-7">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      回答締切（任意）
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={attendanceDeadline}
+                      onChange={(e) => setAttendanceDeadline(e.target.value)}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      試合の開始より前の日時を設定します。締切を過ぎると試合作成者・チームのオーナー・管理者以外は回答できなくなり、未回答のメンバーは欠席（未回答）扱いになります
+                    </p>
+                  </div>
+                )}
               </div>
             )}
 
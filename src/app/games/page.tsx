@@ -4,6 +4,10 @@ import { useEffect, useState } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { useAuth } from "@/components/auth/AuthProvider";
 import Link from "next/link";
+import {
+  AttendanceStatus,
+  isParticipatingStatus,
+} from "@/lib/attendance";
 
 interface Game {
   id: string;
@@ -26,7 +30,7 @@ interface Game {
 }
 
 interface MyAttendanceStatus {
-  status: "attending" | "absent" | "pending" | null;
+  status: AttendanceStatus | null;
   teamMemberId: string | null;
 }
 
@@ -177,7 +181,7 @@ export default function GamesPage() {
         const gameAttendances = data?.filter(a => a.game_id === game.id) || [];
         
         counts[game.id] = {
-          attending: gameAttendances.filter(a => a.status === "attending").length,
+          attending: gameAttendances.filter(a => isParticipatingStatus(a.status)).length,
           total: gameAttendances.length
         };
       });
@@ -261,6 +265,19 @@ export default function GamesPage() {
             出席
           </span>
         );
+      case "late":
+      case "leave_early":
+        return (
+          <span className="px-2 py-1 bg-green-100 text-green-800 text-xs font-semibold rounded-full">
+            {myStatus.status === "late" ? "遅刻" : "早退"}
+          </span>
+        );
+      case "tentative":
+        return (
+          <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs font-semibold rounded-full">
+            未定
+          </span>
+        );
       case "absent":
         return (
           <span className="px-2 py-1 bg-gray-100 text-gray-600 text-xs font-semibold rounded-full">
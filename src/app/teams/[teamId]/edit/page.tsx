@@ -6,6 +6,18 @@ import { useAuth } from "@/components/auth/AuthProvider";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { prefectures, cities } from "@/lib/japanData";
+import GameRulesForm from "@/components/game/GameRulesForm";
+import { GameRules, normalizeGameRules } from "@/lib/game-rules";
+import { normalizeTeamSeasons, TeamSeason } from "@/lib/stats-period";
+import {
+  normalizeQualificationRules,
+  QualificationRules,
+} from "@/lib/leaderboards";
+import {
+  FIELDING_POSITIONS,
+  MemberPositions,
+  normalizeMemberPositions,
+} from "@/lib/lineup-generator";
 
 interface Team {
   id: string;
@@ -13,11 +25,20 @@ interface Team {
   description: string;
   prefecture: string | null;
   city: string | null;
+  default_rules: Partial<GameRules> | null;
+  seasons: TeamSeason[] | null;
+  stats_qualification: Partial<QualificationRules> | null;
+  member_positions: MemberPositions | null;
   owner_id: string;
   created_at: string;
   updated_at: string;
 }
 
+interface TeamMemberOption {
+  id: string;
+  name: string;
+}
+
 interface PageProps {
   params: Promise<{
     teamId: string;
@@ -35,6 +56,15 @@ export default function EditTeamPage({ params }: PageProps) {
   const [prefecture, setPrefecture] = useState("");
   const [city, setCity] = useState("");
   const [availableCities, setAvailableCities] = useState<string[]>([]);
+  const [defaultRules, setDefaultRules] = useState<GameRules>(
+    normalizeGameRules()
+  );
+  const [seasons, setSeasons] = useState<TeamSeason[]>([]);
+  const [qualification, setQualification] = useState<QualificationRules>(
+    normalizeQualificationRules()
+  );
+  const [members, setMembers] = useState<TeamMemberOption[]>([]);
+  const [memberPositions, setMemberPositions] = useState<MemberPositions>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
@@ -93,7 +123,12 @@ export default function EditTeamPage({ params }: PageProps) {
       setDescription(data.description || "");
       setPrefecture(data.prefecture || "");
       setCity(data.city || "");
-      
+      setDefaultRules(normalizeGameRules(data.default_rules));
+      setSeasons(normalizeTeamSeasons(data.seasons));
+      setQualification(normalizeQualificationRules(data.stats_qualification));
+      setMemberPositions(normalizeMemberPositions(data.member_positions));
+      await fetchMembers();
+
       // 既存の都道府県がある場合は市区町村リストを設定
       if (data.prefecture) {
         setAvailableCities(cities[data.prefecture] || []);
@@ -106,6 +141,57 @@ export default function EditTeamPage({ params }: PageProps) {
     }
   };
 
+  // 守備位置を設定するメンバー
+  const fetchMembers = async () => {
+    const { data: membersData, error: membersError } = await supabase
+      .from("team_members")
+      .select("id, user_id")
+      .eq("team_id", teamId);
+
+    if (membersError) {
+      console.error("メンバー取得エラー:", membersError);
+      return;
+    }
+
+    const { data: profiles } = await supabase
+      .from("user_profiles")
+      .select("id, display_name")
+      .in(
+        "id",
+        (membersData || []).map((m) => m.user_id)
+      );
+
+    setMembers(
+      (membersData || []).map((member) => ({
+        id: member.id,
+        name:
+          profiles?.find((p) => p.id === member.user_id)?.display_name ||
+          "名前未設定",
+      }))
+    );
+  };
+
+  // 第1希望を先頭にして保存する
+  const setPreferredPosition = (memberId: string, position: string) => {
+    const others = (memberPositions[memberId] || []).filter(
+      (p) => p !== position
+    );
+    setMemberPositions({
+      ...memberPositions,
+      [memberId]: position ? [position, ...others] : others,
+    });
+  };
+
+  const toggleMemberPosition = (memberId: string, position: string) => {
+    const current = memberPositions[memberId] || [];
+    setMemberPositions({
+      ...memberPositions,
+      [memberId]: current.includes(position)
+        ? current.filter((p) => p !== position)
+        : [...current, position],
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -114,6 +200,21 @@ export default function EditTeamPage({ params }: PageProps) {
       return;
     }
 
+    // シーズンは名前と開始日・終了日をすべて入力したもののみ有効
+    const invalidSeason = seasons.find(
+      (s) =>
+        !s.name.trim() ||
+        !s.start_date ||
+        !s.end_date ||
+        s.start_date > s.end_date
+    );
+    if (invalidSeason) {
+      setError(
+        "シーズンは名前・開始日・終了日を入力し、終了日を開始日以降にしてください"
+      );
+      return;
+    }
+
     setSaving(true);
     setError("");
 
@@ -125,6 +226,10 @@ export default function EditTeamPage({ params }: PageProps) {
           description: description.trim() || null,
           prefecture: prefecture || null,
           city: city || null,
+          default_rules: normalizeGameRules(defaultRules),
+          seasons: normalizeTeamSeasons(seasons),
+          stats_qualification: normalizeQualificationRules(qualification),
+          member_positions: normalizeMemberPositions(memberPositions),
           updated_at: new Date().toISOString(),
         })
         .eq("id", teamId);
@@ -306,6 +411,207 @@ export default function EditTeamPage({ params }: PageProps) {
               </p>
             </div>
 
+            {/* 試合ルールの既定値 */}
+            <div className="mb-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                試合ルールの既定値
+              </h3>
+              <p className="mb-3 text-xs text-gray-500">
+                試合作成時に適用されます（試合ごとに変更できます）
+              </p>
+              <GameRulesForm rules={defaultRules} onChange={setDefaultRules} />
+            </div>
+
+            {/* シーズン設定 */}
+            <div className="mb-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                シーズン
+              </h3>
+              <p className="mb-3 text-xs text-gray-500">
+                年をまたぐリーグ戦など、成績を集計する期間を設定できます（未設定の場合は年度ごとに集計）
+              </p>
+              <div className="space-y-2">
+                {seasons.map((season, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      value={season.name}
+                      placeholder="例: 2024年秋季リーグ"
+                      onChange={(e) =>
+                        setSeasons(
+                          seasons.map((s, i) =>
+                            i === index ? { ...s, name: e.target.value } : s
+                          )
+                        )
+                      }
+                      className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    <input
+                      type="date"
+                      value={season.start_date}
+                      onChange={(e) =>
+                        setSeasons(
+                          seasons.map((s, i) =>
+                            i === index
+                              ? { ...s, start_date: e.target.value }
+                              : s
+                          )
+                        )
+                      }
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    <span className="text-sm">〜</span>
+                    <input
+                      type="date"
+                      value={season.end_date}
+                      onChange={(e) =>
+                        setSeasons(
+                          seasons.map((s, i) =>
+                            i === index ? { ...s, end_date: e.target.value } : s
+                          )
+                        )
+                      }
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setSeasons(seasons.filter((_, i) => i !== index))
+                      }
+                      className="px-2 py-1 text-sm text-red-600 hover:text-red-800"
+                    >
+                      削除
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() =>
+                  setSeasons([
+                    ...seasons,
+                    { name: "", start_date: "", end_date: "" },
+                  ])
+                }
+                className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                ＋ シーズンを追加
+              </button>
+            </div>
+
+            {/* 規定打席・規定投球回 */}
+            <div className="mb-6">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">
+                規定打席・規定投球回
+              </h3>
+              <p className="mb-3 text-xs text-gray-500">
+                チーム成績の打率・防御率などの順位は、チームの試合数 × 下の値に達した選手のみが対象になります
+              </p>
+              <div className="flex flex-wrap gap-4">
+                <label className="flex items-center gap-2 text-sm">
+                  1試合あたり
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={qualification.plateAppearancesPerGame}
+                    onChange={(e) =>
+                      setQualification({
+                        ...qualification,
+                        plateAppearancesPerGame:
+                          parseFloat(e.target.value) || 0,
+                      })
+                    }
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  打席
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  1試合あたり
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={qualification.inningsPerGame}
+                    onChange={(e) =>
+                      setQualification({
+                        ...qualification,
+                        inningsPerGame: parseFloat(e.target.value) || 0,
+                      })
+                    }
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  投球回
+                </label>
+              </div>
+            </div>
+
+            {/* メンバーの守備位置 */}
+            {members.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  メンバーの守備位置
+                </h3>
+                <p className="mb-3 text-xs text-gray-500">
+                  メンバー管理の「打順・守備を提案」で、第1希望を優先して守備位置を割り当てます（未設定のメンバーは空いている位置に入ります）
+                </p>
+                <div className="space-y-3">
+                  {members.map((member) => {
+                    const positions = memberPositions[member.id] || [];
+                    return (
+                      <div
+                        key={member.id}
+                        className="p-3 border border-gray-200 rounded-md"
+                      >
+                        <div className="flex flex-wrap items-center gap-3 mb-2">
+                          <span className="text-sm font-medium text-gray-900">
+                            {member.name}
+                          </span>
+                          <label className="flex items-center gap-2 text-sm">
+                            第1希望
+                            <select
+                              value={positions[0] || ""}
+                              onChange={(e) =>
+                                setPreferredPosition(member.id, e.target.value)
+                              }
+                              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                            >
+                              <option value="">未設定</option>
+                              {FIELDING_POSITIONS.map((position) => (
+                                <option key={position} value={position}>
+                                  {position}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                        </div>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1">
+                          {FIELDING_POSITIONS.map((position) => (
+                            <label
+                              key={position}
+                              className="flex items-center gap-1 text-xs text-gray-700"
+                            >
+                              <input
+                                type="checkbox"
+                                checked={positions.includes(position)}
+                                onChange={() =>
+                                  toggleMemberPosition(member.id, position)
+                                }
+                              />
+                              {position}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  ※ チェックした守れる位置は、チェックした順に希望が強いものとして扱います
+                </p>
+              </div>
+            )}
+
             {/* チーム情報 */}
             <div className="mb-6 p-4 bg-gray-50 rounded-lg">
               <h3 className="text-sm font-medium text-gray-700 mb-2">
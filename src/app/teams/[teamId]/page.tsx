@@ -7,6 +7,9 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import TeamMemberStats from "@/components/stats/TeamMemberStats";
 import TeamOperationStats from "@/components/stats/TeamOperationStats";
+import TeamAttendanceStats from "@/components/stats/TeamAttendanceStats";
+import StatsExportImport from "@/components/stats/StatsExportImport";
+import TeamAchievements from "@/components/stats/TeamAchievements";
 
 interface Team {
   id: string;
@@ -624,12 +627,30 @@ export default function TeamDetailPage({ params }: PageProps) {
             <TeamOperationStats teamId={teamId} />
           </div>
         )}
+        {/* 出欠の記録セクション */}
+        {isMember && (
+          <div className="mb-8">
+            <TeamAttendanceStats teamId={teamId} />
+          </div>
+        )}
+        {/* 記録・達成セクション */}
+        {isMember && (
+          <div className="mb-8">
+            <TeamAchievements teamIds={[teamId]} showTeamRecords />
+          </div>
+        )}
         {/* チーム成績セクション */}
         {isMember && (
           <div className="mb-8">
             <TeamMemberStats teamId={teamId} />
           </div>
         )}
+        {/* 成績の書き出し・取り込みセクション */}
+        {isMember && (
+          <div className="mb-8">
+            <StatsExportImport teamId={teamId} canImport={isOwner} />
+          </div>
+        )}
       </div>
     </div>
   );
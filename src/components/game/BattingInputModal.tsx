@@ -2,7 +2,25 @@
 
 import { useState, useEffect } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
-import { calculateBaseReached, isOutResult, advanceRunners } from "@/lib/game-logic";
+import {
+  calculateBaseReached,
+  correctPlateAppearance,
+  isOutResult,
+  recordPlateAppearance,
+} from "@/lib/game-logic";
+import {
+  BATTED_BALL_TYPE_LABELS,
+  BattedBallType,
+  HIT_DEPTH_LABELS,
+  HIT_DIRECTION_LABELS,
+  HitDepth,
+  HitDirection,
+  HitLocation,
+  inferBattedBallType,
+  isBattedBallResult,
+  locateHit,
+} from "@/lib/spray-chart";
+import FieldDiagram from "@/components/game/FieldDiagram";
 
 interface BattingInputModalProps {
   gameId: string;
@@ -17,6 +35,11 @@ interface BattingInputModalProps {
     stolen_base: boolean;
     base_reached?: number;
     notes?: string;
+    hit_x?: number | null;
+    hit_y?: number | null;
+    hit_direction?: string | null;
+    hit_depth?: string | null;
+    batted_ball_type?: string | null;
   };
   onClose: () => void;
   onSave: () => void;
@@ -77,10 +100,26 @@ export default function BattingInputModal({
   const [isError, setIsError] = useState(false);
   const [isDoublePlay, setIsDoublePlay] = useState(false);
   const [isTriplePlay, setIsTriplePlay] = useState(false);
-  const [rbi, setRbi] = useState(existingRecord?.rbi || 0);
+  // null は自動計算（状態エンジンの打点）
+  const [rbi, setRbi] = useState<number | null>(existingRecord?.rbi ?? null);
   const [runScored, setRunScored] = useState(existingRecord?.run_scored || false);
   const [stolenBase, setStolenBase] = useState(existingRecord?.stolen_base || false);
   const [baseReached, setBaseReached] = useState(existingRecord?.base_reached || 0);
+
+  // 打球方向・打球の種類
+  const [hitLocation, setHitLocation] = useState<HitLocation | null>(
+    existingRecord?.hit_x != null && existingRecord?.hit_y != null
+      ? {
+          x: existingRecord.hit_x,
+          y: existingRecord.hit_y,
+          direction: existingRecord.hit_direction as HitDirection,
+          depth: existingRecord.hit_depth as HitDepth,
+        }
+      : null
+  );
+  const [battedBallType, setBattedBallType] = useState<BattedBallType | null>(
+    (existingRecord?.batted_ball_type as BattedBallType) || null
+  );
   
   // 併殺処理用
   const [showDoublePlaySelector, setShowDoublePlaySelector] = useState(false);
@@ -110,6 +149,14 @@ export default function BattingInputModal({
     }
   }, [result, isError, currentRunners]);
 
+  useEffect(() => {
+    // ゴロ・フライなどは打球の種類が結果から決まる
+    const inferred = inferBattedBallType(result);
+    if (inferred) {
+      setBattedBallType(inferred);
+    }
+  }, [result]);
+
   const fetchCurrentRunners = async () => {
     const { data } = await supabase
       .from("game_runners")
@@ -197,23 +244,23 @@ export default function BattingInputModal({
     
     try {
       // 併殺・三重殺の処理
-      if (showDoublePlaySelector && selectedRunners.length > 0) {
-        // 選択されたランナーをアウトに
-        await supabase
-          .from("game_runners")
-          .update({ is_active: false })
-          .in("id", selectedRunners);
-        
-        // notesに併殺情報を追加
-        if (selectedRunners.length === 1) {
-          setIsDoublePlay(true);
-        } else if (selectedRunners.length === 2) {
-          setIsTriplePlay(true);
-        }
+      const runnersOut =
+        showDoublePlaySelector && selectedRunners.length > 0
+          ? selectedRunners
+          : [];
+      if (runnersOut.length === 1) {
+        setIsDoublePlay(true);
+      } else if (runnersOut.length === 2) {
+        setIsTriplePlay(true);
       }
       
       // notesの構築
       const notes = buildNotes();
+
+      // 四死球・三振では打球を記録しない
+      const hasBattedBall = isBattedBallResult(result);
+      const savedHitLocation = hasBattedBall ? hitLocation : null;
+      const savedBattedBallType = hasBattedBall ? battedBallType : null;
       
       // 打撃記録の保存/更新
       const battingData = {
@@ -221,67 +268,76 @@ export default function BattingInputModal({
         player_id: playerId,
         inning,
         result,
-        rbi,
+        rbi: rbi ?? 0,
         run_scored: runScored,
         stolen_base: stolenBase,
         base_reached: baseReached,
         notes,
+        hit_x: savedHitLocation?.x ?? null,
+        hit_y: savedHitLocation?.y ?? null,
+        hit_direction: savedHitLocation?.direction || null,
+        hit_depth: savedHitLocation?.depth || null,
+        batted_ball_type: savedBattedBallType,
       };
 
       if (existingRecord) {
-        await supabase
-          .from("game_batting_records")
-          .update(battingData)
-          .eq("id", existingRecord.id);
+        // 訂正イベントを追記してログから再構築する
+        const corrected = await correctPlateAppearance(
+          supabase,
+          gameId,
+          existingRecord.id,
+          {
+            result,
+            baseReached,
+            isError,
+            notes,
+            rbi: rbi ?? undefined,
+            hitLocation: savedHitLocation,
+            battedBallType: savedBattedBallType,
+          }
+        );
+        if (!corrected) {
+          // ログ導入前の記録はテーブルを直接更新
+          const { error } = await supabase
+            .from("game_batting_records")
+            .update(battingData)
+            .eq("id", existingRecord.id);
+          if (error) throw error;
+        }
       } else {
+        // ランナー進塁・併殺・3アウトのランナークリアを状態エンジンで処理
+        const transition = await recordPlateAppearance(supabase, gameId, inning, {
+          batterId: playerId,
+          batterName: playerName,
+          result,
+          baseReached,
+          runnersOut,
+          isError,
+        }, {
+          notes,
+          rbi: rbi ?? undefined,
+          hitLocation: savedHitLocation,
+          battedBallType: savedBattedBallType,
+        });
+
         await supabase
           .from("game_batting_records")
-          .insert([battingData]);
-      }
+          .insert([
+            {
+              ...battingData,
+              ...transition.context,
+              outs_recorded: transition.outsRecorded,
+              rbi: rbi ?? transition.rbi,
+            },
+          ]);
 
-      // ランナー進塁処理
-      if (!isOutResult(result) || isError) {
-        await advanceRunners(supabase, gameId, inning, baseReached);
-        
-        // 打者をランナーとして追加（ホームイン以外）
-        if (baseReached > 0 && baseReached < 4) {
-          // 既存のランナー記録を削除
-          await supabase
-            .from("game_runners")
-            .delete()
-            .eq("game_id", gameId)
-            .eq("player_id", playerId)
-            .eq("inning", inning);
-
-          // 新規追加
-          await supabase
-            .from("game_runners")
-            .insert([{
-              game_id: gameId,
-              player_id: playerId,
-              player_name: playerName,
-              inning,
-              current_base: baseReached,
-              is_active: true,
-            }]);
+        if (transition.isInningOver) {
+          alert("3アウトチェンジ！");
         }
       }
       
       // イニング得点の更新
       await updateInningScore();
-      
-      // アウトカウントチェック
-      const totalOuts = currentOuts + (isOutResult(result) ? 1 : 0) + selectedRunners.length;
-      if (totalOuts >= 3) {
-        // 3アウトでランナーをクリア
-        await supabase
-          .from("game_runners")
-          .update({ is_active: false })
-          .eq("game_id", gameId)
-          .eq("inning", inning);
-        
-        alert("3アウトチェンジ！");
-      }
 
       onSave();
       onClose();
@@ -387,6 +443,75 @@ export default function BattingInputModal({
           </div>
         )}
 
+        {/* 打球方向（フィールド図をタップ） */}
+        {isBattedBallResult(result) && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">
+              打球方向（任意）
+            </label>
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="w-full sm:w-64">
+                <FieldDiagram
+                  onFieldClick={(x, y) => setHitLocation(locateHit(x, y))}
+                >
+                  {hitLocation && (
+                    <circle
+                      cx={hitLocation.x}
+                      cy={hitLocation.y}
+                      r={2}
+                      fill="#dc2626"
+                      stroke="#ffffff"
+                      strokeWidth={0.6}
+                    />
+                  )}
+                </FieldDiagram>
+              </div>
+              <div className="flex-1 space-y-3">
+                <p className="text-sm">
+                  {hitLocation
+                    ? `${HIT_DIRECTION_LABELS[hitLocation.direction]}方向・${
+                        HIT_DEPTH_LABELS[hitLocation.depth]
+                      }`
+                    : "打球が飛んだ位置をタップしてください"}
+                </p>
+                <div>
+                  <p className="text-sm text-gray-600 mb-1">打球の種類</p>
+                  <div className="flex gap-2">
+                    {(
+                      Object.keys(BATTED_BALL_TYPE_LABELS) as BattedBallType[]
+                    ).map((type) => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => setBattedBallType(type)}
+                        className={`px-3 py-1 rounded border text-sm ${
+                          battedBallType === type
+                            ? "bg-blue-600 text-white border-blue-600"
+                            : "bg-white text-gray-700"
+                        }`}
+                      >
+                        {BATTED_BALL_TYPE_LABELS[type]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {(hitLocation || battedBallType) && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setHitLocation(null);
+                      setBattedBallType(null);
+                    }}
+                    className="text-sm text-gray-500 underline"
+                  >
+                    クリア
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* オプション（アウトの場合のみエラー出塁を表示） */}
         {isOutResult(result) && (
           <div className="mb-4">
@@ -410,8 +535,11 @@ export default function BattingInputModal({
               type="number"
               min="0"
               max="4"
-              value={rbi}
-              onChange={(e) => setRbi(parseInt(e.target.value) || 0)}
+              value={rbi ?? ""}
+              placeholder="自動"
+              onChange={(e) =>
+                setRbi(e.target.value === "" ? null : parseInt(e.target.value))
+              }
               className="w-full p-2 border rounded"
             />
           </div>
@@ -1,8 +1,19 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import DoublePlaySelector from "./DoublePlaySelector";
+import {
+  appendGameEvent,
+  correctPlateAppearance,
+  fetchOutsByInning,
+  fetchTiebreakRuns,
+  recordPlateAppearance,
+  recordTiebreakRunners,
+} from "@/lib/game-logic";
+import { needsRunnerPrompt } from "@/lib/baserunning-rules";
+import { getTiebreakRunnerIndexes } from "@/lib/game-rules";
+import { parseFieldingNotation } from "@/lib/fielding";
 
 interface GamePlayer {
   id: string;
@@ -35,6 +46,14 @@ interface Props {
   onRecordSaved?: () => void;
   onInningChange?: (newInning: number, newTopBottom: "top" | "bottom") => void;
   onGameEnd?: () => void;
+  maxInnings?: number; // 延長を含めた最大イニング数（試合ルール）
+  tiebreakBases?: number[]; // タイブレークで走者を置く塁（タイブレークでない回は空）
+  refreshTrigger?: number;
+  requestRunnerOverrides?: (play: {
+    result: string;
+    baseReached: number;
+    batterName: string;
+  }) => Promise<Record<string, number> | null>;
 }
 
 // 打撃結果の定義
@@ -66,17 +85,6 @@ const BATTING_RESULTS = {
   ],
 };
 
-// アウトになる結果を定義
-const OUT_RESULTS = [
-  "三振",
-  "ゴロ",
-  "フライ",
-  "ライナー",
-  "犠打",
-  "犠飛",
-  "フィールダースチョイス",
-];
-
 // 出塁する結果（到達塁の選択が必要）
 const ON_BASE_RESULTS = [
   "安打",
@@ -89,9 +97,6 @@ const ON_BASE_RESULTS = [
   "野選",
 ];
 
-// 草野球の最大イニング数
-const MAX_INNINGS = 7;
-
 export default function BattingRecordInput({
   gameId,
   players,
@@ -101,16 +106,21 @@ export default function BattingRecordInput({
   onRecordSaved,
   onInningChange,
   onGameEnd,
+  maxInnings = 7,
+  tiebreakBases = [],
+  refreshTrigger,
+  requestRunnerOverrides,
 }: Props) {
   const supabase = createClientComponentClient();
 
   const [selectedPlayer, setSelectedPlayer] = useState<GamePlayer | null>(null);
   const [battingResult, setBattingResult] = useState<string>("");
-  const [rbi, setRbi] = useState<number>(0);
+  const [rbi, setRbi] = useState<number | null>(null); // null は自動計算
   const [runScored, setRunScored] = useState<boolean>(false);
   const [stolenBase, setStolenBase] = useState<boolean>(false);
   const [baseReached, setBaseReached] = useState<number>(0);
   const [notes, setNotes] = useState<string>("");
+  const [fielding, setFielding] = useState<string>(""); // 相手の打球処理（例: 6-3, E5）
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState("");
   const [currentBatterIndex, setCurrentBatterIndex] = useState(0);
@@ -123,105 +133,27 @@ export default function BattingRecordInput({
   );
   const [showDoublePlaySelector, setShowDoublePlaySelector] = useState(false);
   const [pendingBattingData, setPendingBattingData] = useState<any>(null);
+  const placingTiebreakRunners = useRef(false);
 
   // スターティングメンバーのみをフィルタリング
   const battingLineup = players
     .filter((p) => p.batting_order !== null)
     .sort((a, b) => (a.batting_order || 0) - (b.batting_order || 0));
 
-  // ランナーを進塁させる処理（改善版）
-  const advanceRunners = async (
-    batterBaseReached: number,
-    batterId: string
-  ) => {
-    if (batterBaseReached <= 0) return;
-
-    // 現在のランナーを取得（塁の大きい順にソート）
-    const { data: currentRunners } = await supabase
-      .from("game_runners")
-      .select("*")
-      .eq("game_id", gameId)
-      .eq("inning", currentInning)
-      .eq("is_active", true)
-      .order("current_base", { ascending: false });
-
-    if (!currentRunners || currentRunners.length === 0) return;
-
-    // 各塁の占有状況を確認
-    const basesOccupied = new Set(currentRunners.map((r) => r.current_base));
-
-    // 進塁処理（塁の大きい順に処理）
-    for (const runner of currentRunners) {
-      let newBase = runner.current_base;
-
-      // 強制進塁の判定
-      if (batterBaseReached === 1) {
-        // 単打・四球・死球の場合：詰まっている塁のランナーのみ進塁
-        if (runner.current_base === 1) {
-          newBase = 2;
-        } else if (runner.current_base === 2 && basesOccupied.has(1)) {
-          newBase = 3;
-        } else if (
-          runner.current_base === 3 &&
-          basesOccupied.has(2) &&
-          basesOccupied.has(1)
-        ) {
-          newBase = 4;
-        }
-      } else if (batterBaseReached === 2) {
-        // 二塁打の場合：全ランナー2塁進塁
-        newBase = Math.min(runner.current_base + 2, 4);
-      } else if (batterBaseReached === 3) {
-        // 三塁打の場合：全ランナー3塁進塁（実質ホームイン）
-        newBase = 4;
-      } else if (batterBaseReached === 4) {
-        // 本塁打の場合：全ランナーホームイン
-        newBase = 4;
-      }
-
-      // ランナーの位置を更新
-      if (newBase !== runner.current_base) {
-        if (newBase === 4) {
-          // ホームイン（得点）
-          await supabase
-            .from("game_runners")
-            .update({
-              current_base: 4,
-              is_active: false,
-            })
-            .eq("id", runner.id);
-
-          // 得点記録も更新
-          await supabase
-            .from("game_batting_records")
-            .update({ run_scored: true })
-            .eq("game_id", gameId)
-            .eq("player_id", runner.player_id)
-            .eq("inning", currentInning);
-        } else {
-          // 進塁
-          await supabase
-            .from("game_runners")
-            .update({ current_base: newBase })
-            .eq("id", runner.id);
-        }
-      }
-    }
-  };
-
   // useEffectやその他の関数
   useEffect(() => {
     const loadData = async () => {
       if (canEdit) {
         await fetchInningRecords();
-        await calculateNextBatter();
+        const nextIndex = await calculateNextBatter();
+        await placeTiebreakRunners(nextIndex);
       }
     };
     loadData();
-  }, [currentInning, isTopBottom, canEdit, players]);
+  }, [currentInning, isTopBottom, canEdit, players, refreshTrigger]);
 
-  const calculateNextBatter = async () => {
-    if (battingLineup.length === 0) return;
+  const calculateNextBatter = async (): Promise<number> => {
+    if (battingLineup.length === 0) return 0;
 
     // 試合全体の打撃記録を取得して最後の打者を特定
     const { data: allGameRecords } = await supabase
@@ -237,7 +169,7 @@ export default function BattingRecordInput({
       if (!editMode) {
         setSelectedPlayer(battingLineup[0]);
       }
-      return;
+      return 0;
     }
 
     // 最後に打席に立った選手を特定
@@ -261,6 +193,61 @@ export default function BattingRecordInput({
     if (!editMode) {
       setSelectedPlayer(battingLineup[nextIndex]);
     }
+    return nextIndex;
+  };
+
+  // タイブレークの回は攻撃開始時に走者を置く（継続打順で先頭打者の直前の打者から）
+  const placeTiebreakRunners = async (leadoffIndex: number) => {
+    if (
+      tiebreakBases.length === 0 ||
+      battingLineup.length === 0 ||
+      placingTiebreakRunners.current
+    ) {
+      return;
+    }
+    placingTiebreakRunners.current = true;
+
+    try {
+      const [{ count: recordCount }, { count: placedCount }] =
+        await Promise.all([
+          supabase
+            .from("game_batting_records")
+            .select("id", { count: "exact", head: true })
+            .eq("game_id", gameId)
+            .eq("inning", currentInning),
+          supabase
+            .from("game_events")
+            .select("id", { count: "exact", head: true })
+            .eq("game_id", gameId)
+            .eq("inning", currentInning)
+            .eq("event_type", "tiebreak_runners")
+            .eq("is_opponent", false)
+            .is("undone_at", null),
+        ]);
+      if (recordCount || placedCount) return;
+
+      const runners = getTiebreakRunnerIndexes(
+        tiebreakBases,
+        leadoffIndex,
+        battingLineup.length
+      ).map(({ base, lineupIndex }) => ({
+        playerId: battingLineup[lineupIndex].id,
+        playerName: battingLineup[lineupIndex].player_name,
+        base,
+      }));
+      await recordTiebreakRunners(supabase, gameId, currentInning, runners);
+
+      setMessage(
+        `タイブレーク: ${runners
+          .map((r) => `${r.playerName}（${r.base}塁）`)
+          .join("、")}を塁に置きました`
+      );
+      if (onRecordSaved) onRecordSaved();
+    } catch (error) {
+      console.error("タイブレーク走者エラー:", error);
+    } finally {
+      placingTiebreakRunners.current = false;
+    }
   };
 
   const fetchInningRecords = async () => {
@@ -274,23 +261,11 @@ export default function BattingRecordInput({
     if (data) {
       setInningRecords(data);
 
-      // アウト数を計算（併殺・三重殺を考慮）
-      let totalOuts = 0;
-      data.forEach((record) => {
-        if (OUT_RESULTS.includes(record.result)) {
-          // アウトになる結果の場合
-          if (record.notes?.includes("併殺（ダブルプレー）")) {
-            // ダブルプレーの場合は2アウト
-            totalOuts += 2;
-          } else if (record.notes?.includes("三重殺（トリプルプレー）")) {
-            // トリプルプレーの場合は3アウト
-            totalOuts += 3;
-          } else {
-            // 通常のアウトは1アウト
-            totalOuts += 1;
-          }
-        }
-      });
+      // アウト数（走塁死・併殺・盗塁死を含む）
+      const totalOuts =
+        (await fetchOutsByInning(supabase, gameId, currentInning))[
+          currentInning
+        ] || 0;
 
       setCurrentOuts(totalOuts);
       setIsInningLocked(totalOuts >= 3);
@@ -299,11 +274,12 @@ export default function BattingRecordInput({
 
   const resetForm = () => {
     setBattingResult("");
-    setRbi(0);
+    setRbi(null);
     setRunScored(false);
     setStolenBase(false);
     setBaseReached(0);
     setNotes("");
+    setFielding("");
     setEditMode(false);
     setEditingRecord(null);
     setShowDoublePlaySelector(false);
@@ -315,17 +291,6 @@ export default function BattingRecordInput({
     try {
       setSaving(true);
 
-      // 選択されたランナーをアウトにする
-      if (runnerIds.length > 0) {
-        // ランナーを非アクティブにする
-        const { error: runnerError } = await supabase
-          .from("game_runners")
-          .update({ is_active: false })
-          .in("id", runnerIds);
-
-        if (runnerError) throw runnerError;
-      }
-
       // 保留中の打撃記録を保存（併殺情報を含む）
       if (pendingBattingData) {
         let noteText = "";
@@ -335,17 +300,36 @@ export default function BattingRecordInput({
           noteText = "三重殺（トリプルプレー）";
         }
 
+        // 選択されたランナーをアウトにする
+        const transition = await recordPlateAppearance(supabase, gameId, currentInning, {
+          batterId: pendingBattingData.player_id,
+          batterName: selectedPlayer?.player_name || "",
+          result: pendingBattingData.result,
+          baseReached: 0,
+          runnersOut: runnerIds,
+        }, {
+          battingOrder: pendingBattingData.batting_order,
+          notes: runnerIds.length > 0 ? noteText : pendingBattingData.notes,
+          rbi: pendingBattingData.rbi ?? undefined,
+          fielding: fielding || null,
+        });
+
         const { error } = await supabase.from("game_batting_records").insert({
           ...pendingBattingData,
+          ...transition.context,
+          outs_recorded: transition.outsRecorded,
+          rbi: pendingBattingData.rbi ?? transition.rbi,
           notes: runnerIds.length > 0 ? noteText : pendingBattingData.notes,
         });
 
         if (error) throw error;
       }
 
-      // アウトカウントを正しく計算（打者 + ランナー）
-      const additionalOuts = 1 + runnerIds.length; // 打者1 + ランナーの数
-      const newTotalOuts = currentOuts + additionalOuts;
+      // アウトカウント（打者 + ランナー）を保存した記録から再計算
+      const newTotalOuts =
+        (await fetchOutsByInning(supabase, gameId, currentInning))[
+          currentInning
+        ] || 0;
 
       // メッセージを設定
       if (runnerIds.length === 0) {
@@ -397,10 +381,15 @@ export default function BattingRecordInput({
           .eq("game_id", gameId)
           .eq("inning", currentInning);
 
+        await appendGameEvent(supabase, gameId, currentInning, "inning_end", {
+          isTopBottom,
+          auto: true,
+        });
+
         // イニング交代処理
         // 注意: isTopBottomはPropsから受け取っている変数名
-        if (currentInning >= MAX_INNINGS && isTopBottom === "bottom") {
-          // 7回裏終了で試合終了
+        if (currentInning >= maxInnings && isTopBottom === "bottom") {
+          // 最大イニングの裏終了で試合終了
           if (onGameEnd) {
             onGameEnd();
           }
@@ -446,48 +435,33 @@ export default function BattingRecordInput({
       return;
     }
 
+    if (fielding && !parseFieldingNotation(fielding)) {
+      setMessage("守備の表記が正しくありません（例: 6-3, 4-6-3, E5）");
+      return;
+    }
+
     setSaving(true);
 
     try {
-      // 現在のアウト数を計算
-      const isOut = OUT_RESULTS.includes(dbValue);
-
       if (editingRecord && editMode) {
-        // 編集モード
-        const { error } = await supabase
-          .from("game_batting_records")
-          .update({
-            player_id: selectedPlayer.id,
+        // 編集モード（訂正イベントを記録してログから再構築）
+        // 得点・盗塁はリプレイで決まるため打席の内容のみ訂正する
+        const corrected = await correctPlateAppearance(
+          supabase,
+          gameId,
+          editingRecord.id,
+          {
+            batterId: selectedPlayer.id,
+            batterName: selectedPlayer.player_name,
+            battingOrder: selectedPlayer.batting_order || 0,
             result: dbValue,
-            rbi: rbi,
-            run_scored: runScored,
-            stolen_base: stolenBase,
-            base_reached: baseReached,
+            baseReached,
+            rbi: rbi ?? undefined,
             notes: notes || null,
-          })
-          .eq("id", editingRecord.id);
-
-        if (error) throw error;
-
-        // 既存のランナー記録を更新
-        // まず、このプレイヤーの既存のランナー記録を削除
-        await supabase
-          .from("game_runners")
-          .delete()
-          .eq("game_id", gameId)
-          .eq("player_id", selectedPlayer.id)
-          .eq("inning", currentInning);
-
-        // 新しいランナー記録を作成（出塁した場合のみ）
-        if (baseReached > 0 && baseReached < 4) {
-          await supabase.from("game_runners").insert({
-            game_id: gameId,
-            inning: currentInning,
-            player_id: selectedPlayer.id,
-            player_name: selectedPlayer.player_name,
-            current_base: baseReached,
-            is_active: true,
-          });
+          }
+        );
+        if (!corrected) {
+          await updateRecordDirectly(editingRecord.id, dbValue);
         }
 
         setEditMode(false);
@@ -528,34 +502,63 @@ export default function BattingRecordInput({
           }
         }
 
-        // 通常の記録保存
-        const { error } = await supabase
-          .from("game_batting_records")
-          .insert(recordData);
-
-        if (error) throw error;
+        // 進塁先に判断が必要な結果は RunnerDisplay で例外を確認
+        let runnerOverrides: Record<string, number> | undefined;
+        if (needsRunnerPrompt(dbValue) && requestRunnerOverrides) {
+          const { count: runnerCount } = await supabase
+            .from("game_runners")
+            .select("id", { count: "exact", head: true })
+            .eq("game_id", gameId)
+            .eq("inning", currentInning)
+            .eq("is_active", true)
+            .in("current_base", [1, 2, 3]);
 
-        // 出塁した場合、ランナーとして登録
-        if (!error && baseReached > 0 && baseReached < 4) {
-          // まず既存のランナーを進塁させる
-          await advanceRunners(baseReached, selectedPlayer.id);
-
-          // 打者をランナーとして登録
-          await supabase.from("game_runners").insert({
-            game_id: gameId,
-            inning: currentInning,
-            player_id: selectedPlayer.id,
-            player_name: selectedPlayer.player_name,
-            current_base: baseReached,
-            is_active: true,
-          });
-        } else if (!error && baseReached > 0) {
-          // ホームインまたは出塁の場合も既存ランナーを進塁
-          await advanceRunners(baseReached, selectedPlayer.id);
+          if (runnerCount) {
+            const overrides = await requestRunnerOverrides({
+              result: dbValue,
+              baseReached,
+              batterName: selectedPlayer.player_name,
+            });
+            if (!overrides) {
+              setMessage("記録を中止しました");
+              return;
+            }
+            runnerOverrides = overrides;
+          }
         }
 
+        // 既存ランナーの進塁と打者の出塁を状態エンジンで処理
+        const transition = await recordPlateAppearance(
+          supabase,
+          gameId,
+          currentInning,
+          {
+            batterId: selectedPlayer.id,
+            batterName: selectedPlayer.player_name,
+            result: dbValue,
+            baseReached,
+            runnerOverrides,
+          },
+          {
+            battingOrder: recordData.batting_order,
+            notes: recordData.notes,
+            rbi: rbi ?? undefined,
+            fielding: fielding || null,
+          }
+        );
+
+        // 通常の記録保存（打点は未入力ならエンジンの計算値を使用）
+        const { error } = await supabase.from("game_batting_records").insert({
+          ...recordData,
+          ...transition.context,
+          outs_recorded: transition.outsRecorded,
+          rbi: rbi ?? transition.rbi,
+        });
+
+        if (error) throw error;
+
         // アウトカウントを更新
-        const newOuts = isOut ? currentOuts + 1 : currentOuts;
+        const newOuts = transition.state.outs;
         setCurrentOuts(newOuts);
 
         // 保存成功メッセージ
@@ -583,6 +586,47 @@ export default function BattingRecordInput({
     }
   };
 
+  // ログ導入前の記録はテーブルを直接更新
+  const updateRecordDirectly = async (recordId: string, dbValue: string) => {
+    if (!selectedPlayer) return;
+
+    const { error } = await supabase
+      .from("game_batting_records")
+      .update({
+        player_id: selectedPlayer.id,
+        result: dbValue,
+        rbi: rbi ?? 0,
+        run_scored: runScored,
+        stolen_base: stolenBase,
+        base_reached: baseReached,
+        notes: notes || null,
+      })
+      .eq("id", recordId);
+
+    if (error) throw error;
+
+    // 既存のランナー記録を更新
+    // まず、このプレイヤーの既存のランナー記録を削除
+    await supabase
+      .from("game_runners")
+      .delete()
+      .eq("game_id", gameId)
+      .eq("player_id", selectedPlayer.id)
+      .eq("inning", currentInning);
+
+    // 新しいランナー記録を作成（出塁した場合のみ）
+    if (baseReached > 0 && baseReached < 4) {
+      await supabase.from("game_runners").insert({
+        game_id: gameId,
+        inning: currentInning,
+        player_id: selectedPlayer.id,
+        player_name: selectedPlayer.player_name,
+        current_base: baseReached,
+        is_active: true,
+      });
+    }
+  };
+
   const handleInningChange = async () => {
     // ランナーをクリア
     await supabase
@@ -591,11 +635,16 @@ export default function BattingRecordInput({
       .eq("game_id", gameId)
       .eq("inning", currentInning);
 
+    await appendGameEvent(supabase, gameId, currentInning, "inning_end", {
+      isTopBottom,
+      auto: true,
+    });
+
     setCurrentOuts(0);
     setIsInningLocked(false);
 
-    if (currentInning >= MAX_INNINGS && isTopBottom === "bottom") {
-      // 7回裏終了で試合終了
+    if (currentInning >= maxInnings && isTopBottom === "bottom") {
+      // 最大イニングの裏終了で試合終了
       if (onGameEnd) {
         onGameEnd();
       }
@@ -617,7 +666,11 @@ export default function BattingRecordInput({
       .eq("run_scored", true);
 
     if (allRecords) {
-      const totalRuns = allRecords.length;
+      // タイブレークの走者の得点は打撃記録に含まれないため加算する
+      const tiebreakRuns = await fetchTiebreakRuns(supabase, gameId);
+      const totalRuns =
+        allRecords.length +
+        Object.values(tiebreakRuns).reduce((sum, runs) => sum + runs, 0);
 
       await supabase
         .from("games")
@@ -655,15 +708,23 @@ export default function BattingRecordInput({
     if (!confirm("この記録を削除しますか？")) return;
 
     try {
-      // 削除する記録の詳細を取得
-      const { data: recordToDelete } = await supabase
-        .from("game_batting_records")
-        .select("*")
-        .eq("id", recordId)
-        .single();
+      // 削除も訂正イベントとして記録してログから再構築
+      const deleted = await correctPlateAppearance(
+        supabase,
+        gameId,
+        recordId,
+        null
+      );
+
+      if (!deleted) {
+        // ログ導入前の記録はテーブルから直接削除
+        const { data: recordToDelete } = await supabase
+          .from("game_batting_records")
+          .select("*")
+          .eq("id", recordId)
+          .single();
+        if (!recordToDelete) return;
 
-      if (recordToDelete) {
-        // 記録を削除
         const { error } = await supabase
           .from("game_batting_records")
           .delete()
@@ -678,12 +739,14 @@ export default function BattingRecordInput({
           .eq("game_id", gameId)
           .eq("player_id", recordToDelete.player_id)
           .eq("inning", currentInning);
-
-        // アウト数を再計算
-        await fetchInningRecords();
-        await updateGameScore();
-        setMessage("記録を削除しました");
       }
+
+      // アウト数を再計算
+      await fetchInningRecords();
+      await updateGameScore();
+      await calculateNextBatter();
+      setMessage("記録を削除しました");
+      if (onRecordSaved) onRecordSaved();
     } catch (error) {
       console.error("削除エラー:", error);
       setMessage("削除に失敗しました");
@@ -865,8 +928,11 @@ export default function BattingRecordInput({
               type="number"
               min="0"
               max="4"
-              value={rbi}
-              onChange={(e) => setRbi(Number(e.target.value))}
+              value={rbi ?? ""}
+              placeholder="自動"
+              onChange={(e) =>
+                setRbi(e.target.value === "" ? null : Number(e.target.value))
+              }
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               disabled={saving}
             />
@@ -900,6 +966,23 @@ export default function BattingRecordInput({
             </div>
           </div>
 
+          {/* 相手の守備（新規記録のみ、イベントログに保存） */}
+          {!editMode && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                相手の守備（任意）
+              </label>
+              <input
+                type="text"
+                value={fielding}
+                onChange={(e) => setFielding(e.target.value)}
+                placeholder="例: 6-3、4-6-3、E5"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={saving}
+              />
+            </div>
+          )}
+
           {/* メモ */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -0,0 +1,86 @@
+"use client";
+
+import { MouseEvent, ReactNode } from "react";
+import {
+  BASE_DISTANCE,
+  FENCE_RADIUS,
+  HOME_PLATE,
+  INFIELD_RADIUS,
+} from "@/lib/spray-chart";
+
+interface FieldDiagramProps {
+  onFieldClick?: (x: number, y: number) => void;
+  children?: ReactNode;
+  className?: string;
+}
+
+// 本塁から見た角度（度、左翼線 -45°）と距離の点
+const pointAt = (angle: number, distance: number) => {
+  const rad = (angle * Math.PI) / 180;
+  return {
+    x: HOME_PLATE.x + distance * Math.sin(rad),
+    y: HOME_PLATE.y - distance * Math.cos(rad),
+  };
+};
+
+// 本塁を中心とした扇形（フェアゾーン）のパス
+const sectorPath = (radius: number) => {
+  const left = pointAt(-45, radius);
+  const right = pointAt(45, radius);
+  return `M ${HOME_PLATE.x} ${HOME_PLATE.y} L ${left.x} ${left.y} A ${radius} ${radius} 0 0 1 ${right.x} ${right.y} Z`;
+};
+
+// フィールド図（viewBox 0〜100、スプレーチャートと打球方向の入力で共通）
+export default function FieldDiagram({
+  onFieldClick,
+  children,
+  className = "",
+}: FieldDiagramProps) {
+  const first = pointAt(45, BASE_DISTANCE);
+  const second = pointAt(0, BASE_DISTANCE * Math.SQRT2);
+  const third = pointAt(-45, BASE_DISTANCE);
+
+  const handleClick = (e: MouseEvent<SVGSVGElement>) => {
+    if (!onFieldClick) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onFieldClick(
+      ((e.clientX - rect.left) / rect.width) * 100,
+      ((e.clientY - rect.top) / rect.height) * 100
+    );
+  };
+
+  return (
+    <svg
+      viewBox="0 0 100 100"
+      className={`w-full aspect-square bg-green-50 rounded ${
+        onFieldClick ? "cursor-crosshair" : ""
+      } ${className}`}
+      onClick={handleClick}
+    >
+      {/* 外野 */}
+      <path d={sectorPath(FENCE_RADIUS)} fill="#bbf7d0" stroke="#16a34a" />
+      {/* 内野 */}
+      <path d={sectorPath(INFIELD_RADIUS)} fill="#fde68a" stroke="#d97706" />
+      <polygon
+        points={`${HOME_PLATE.x},${HOME_PLATE.y} ${first.x},${first.y} ${second.x},${second.y} ${third.x},${third.y}`}
+        fill="#86efac"
+        stroke="#ffffff"
+        strokeWidth={0.8}
+      />
+      {[first, second, third].map((base, index) => (
+        <rect
+          key={index}
+          x={base.x - 1.2}
+          y={base.y - 1.2}
+          width={2.4}
+          height={2.4}
+          fill="#ffffff"
+          stroke="#6b7280"
+          strokeWidth={0.3}
+        />
+      ))}
+      <circle cx={HOME_PLATE.x} cy={HOME_PLATE.y} r={1.4} fill="#ffffff" />
+      {children}
+    </svg>
+  );
+}
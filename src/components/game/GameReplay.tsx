@@ -0,0 +1,278 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { fetchGameEvents, rebuildFromEvents } from "@/lib/game-logic";
+import { GameEvent, replayGame } from "@/lib/game-events";
+
+interface GameReplayProps {
+  gameId: string;
+  canEdit: boolean;
+  onRebuilt?: () => void;
+}
+
+const BASE_POSITIONS: Record<number, string> = {
+  1: "right-2 top-1/2 -translate-y-1/2",
+  2: "top-2 left-1/2 -translate-x-1/2",
+  3: "left-2 top-1/2 -translate-y-1/2",
+};
+
+export default function GameReplay({
+  gameId,
+  canEdit,
+  onRebuilt,
+}: GameReplayProps) {
+  const supabase = createClientComponentClient();
+  const [events, setEvents] = useState<GameEvent[]>([]);
+  const [step, setStep] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    loadEvents();
+  }, [gameId]);
+
+  const loadEvents = async () => {
+    const data = await fetchGameEvents(supabase, gameId);
+    setEvents(data);
+    setStep(data.length);
+    setLoading(false);
+  };
+
+  const handleRebuild = async () => {
+    if (
+      !confirm(
+        "イベントログから打撃記録・ランナー・イニング得点を再構築します。手動で修正した内容は上書きされます。よろしいですか？"
+      )
+    ) {
+      return;
+    }
+
+    setRebuilding(true);
+    try {
+      await rebuildFromEvents(supabase, gameId);
+      setMessage("イベントログから再構築しました");
+      if (onRebuilt) onRebuilt();
+    } catch (error) {
+      console.error("再構築エラー:", error);
+      setMessage("再構築に失敗しました");
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  if (loading || events.length === 0) {
+    return null; // ログがない試合は表示しない
+  }
+
+  const replay = replayGame(events, step);
+  const current = replay.steps[replay.steps.length - 1];
+  const innings = Array.from(new Set(events.map((e) => e.inning))).sort(
+    (a, b) => a - b
+  );
+  const hasOpponentPlays = events.some(
+    (e) => e.is_opponent && e.event_type !== "pitching_change"
+  );
+  const lineScores = [
+    { label: "自", scores: replay.lineScore },
+    ...(hasOpponentPlays
+      ? [{ label: "相手", scores: replay.opponentLineScore }]
+      : []),
+  ];
+  const boxScores = [
+    { title: "打撃成績", lines: replay.boxScore },
+    ...(hasOpponentPlays
+      ? [{ title: "相手チームの打撃成績", lines: replay.opponentBoxScore }]
+      : []),
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">試合リプレイ</h2>
+        {canEdit && (
+          <button
+            onClick={handleRebuild}
+            disabled={rebuilding}
+            className="px-3 py-1 text-sm bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50"
+          >
+            {rebuilding ? "再構築中..." : "ログから再構築"}
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className="mb-4 p-3 bg-blue-50 text-blue-700 rounded text-sm">
+          {message}
+        </div>
+      )}
+
+      {/* 操作 */}
+      <div className="flex items-center gap-2 mb-4">
+        <button
+          onClick={() => setStep(0)}
+          disabled={step === 0}
+          className="px-2 py-1 border rounded disabled:opacity-50"
+        >
+          ≪
+        </button>
+        <button
+          onClick={() => setStep(step - 1)}
+          disabled={step === 0}
+          className="px-2 py-1 border rounded disabled:opacity-50"
+        >
+          ＜
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={events.length}
+          value={step}
+          onChange={(e) => setStep(Number(e.target.value))}
+          className="flex-1"
+        />
+        <button
+          onClick={() => setStep(step + 1)}
+          disabled={step === events.length}
+          className="px-2 py-1 border rounded disabled:opacity-50"
+        >
+          ＞
+        </button>
+        <button
+          onClick={() => setStep(events.length)}
+          disabled={step === events.length}
+          className="px-2 py-1 border rounded disabled:opacity-50"
+        >
+          ≫
+        </button>
+        <span className="text-sm text-gray-600 w-20 text-right">
+          {step} / {events.length}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* 現在の状況 */}
+        <div>
+          <p className="font-medium mb-2">
+            {current ? current.description : "試合開始"}
+          </p>
+          <div className="relative w-40 h-40 mx-auto">
+            <svg className="absolute inset-0 w-full h-full" viewBox="0 0 160 160">
+              <path
+                d="M 80 140 L 20 80 L 80 20 L 140 80 Z"
+                stroke="#d1d5db"
+                strokeWidth="2"
+                fill="none"
+              />
+            </svg>
+            {[1, 2, 3].map((base) => {
+              const runner = replay.state.runners.find((r) => r.base === base);
+              return (
+                <div
+                  key={base}
+                  className={`absolute transform ${BASE_POSITIONS[base]}`}
+                >
+                  <div
+                    className={`w-5 h-5 border-2 transform rotate-45 ${
+                      runner
+                        ? "bg-blue-600 border-blue-700"
+                        : "bg-white border-gray-400"
+                    }`}
+                    title={runner?.playerName}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-center text-sm text-gray-600 mt-2">
+            {replay.state.inning}回 {Math.min(replay.state.outs, 3)}アウト
+          </p>
+
+          {/* イニング別得点 */}
+          <table className="w-full mt-4 text-sm border">
+            <thead>
+              <tr className="bg-gray-50">
+                {hasOpponentPlays && <th className="border px-2 py-1" />}
+                {innings.map((inning) => (
+                  <th key={inning} className="border px-2 py-1">
+                    {inning}
+                  </th>
+                ))}
+                <th className="border px-2 py-1">計</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lineScores.map(({ label, scores }) => (
+                <tr key={label}>
+                  {hasOpponentPlays && (
+                    <td className="border px-2 py-1 text-center">{label}</td>
+                  )}
+                  {innings.map((inning) => (
+                    <td key={inning} className="border px-2 py-1 text-center">
+                      {scores[inning] ?? 0}
+                    </td>
+                  ))}
+                  <td className="border px-2 py-1 text-center font-bold">
+                    {Object.values(scores).reduce((sum, runs) => sum + runs, 0)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* 打撃成績（相手の打席記録があれば相手チームも） */}
+        <div className="overflow-x-auto space-y-4">
+          {boxScores.map(({ title, lines }) => (
+            <div key={title}>
+              {hasOpponentPlays && (
+                <h3 className="text-sm font-semibold text-gray-700 mb-1">
+                  {title}
+                </h3>
+              )}
+              <table className="w-full text-sm border">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="border px-2 py-1 text-left">選手</th>
+                    <th className="border px-2 py-1">打席</th>
+                    <th className="border px-2 py-1">打数</th>
+                    <th className="border px-2 py-1">安打</th>
+                    <th className="border px-2 py-1">打点</th>
+                    <th className="border px-2 py-1">得点</th>
+                    <th className="border px-2 py-1">盗塁</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line) => (
+                    <tr key={line.playerId}>
+                      <td className="border px-2 py-1">{line.playerName}</td>
+                      <td className="border px-2 py-1 text-center">
+                        {line.plateAppearances}
+                      </td>
+                      <td className="border px-2 py-1 text-center">
+                        {line.atBats}
+                      </td>
+                      <td className="border px-2 py-1 text-center">
+                        {line.hits}
+                      </td>
+                      <td className="border px-2 py-1 text-center">
+                        {line.rbi}
+                      </td>
+                      <td className="border px-2 py-1 text-center">
+                        {line.runs}
+                      </td>
+                      <td className="border px-2 py-1 text-center">
+                        {line.stolenBases}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
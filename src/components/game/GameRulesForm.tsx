@@ -0,0 +1,261 @@
+"use client";
+
+import {
+  GameRules,
+  MercyRule,
+  TIEBREAK_BASE_OPTIONS,
+} from "@/lib/game-rules";
+
+interface GameRulesFormProps {
+  rules: GameRules;
+  onChange: (rules: GameRules) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function GameRulesForm({ rules, onChange }: GameRulesFormProps) {
+  const update = (changes: Partial<GameRules>) =>
+    onChange({ ...rules, ...changes });
+
+  const updateMercyRule = (index: number, changes: Partial<MercyRule>) =>
+    update({
+      mercyRules: rules.mercyRules.map((m, i) =>
+        i === index ? { ...m, ...changes } : m
+      ),
+    });
+
+  const parseOptional = (value: string) =>
+    value === "" ? null : parseInt(value) || null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            イニング数
+          </label>
+          <select
+            value={rules.innings}
+            onChange={(e) => {
+              const innings = parseInt(e.target.value);
+              update({
+                innings,
+                maxInnings: Math.max(rules.maxInnings, innings),
+              });
+            }}
+            className={inputClass}
+          >
+            {[5, 6, 7, 9].map((n) => (
+              <option key={n} value={n}>
+                {n}回制
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            延長の上限
+          </label>
+          <select
+            value={rules.maxInnings}
+            onChange={(e) => update({ maxInnings: parseInt(e.target.value) })}
+            className={inputClass}
+          >
+            {Array.from(
+              { length: 13 - rules.innings },
+              (_, i) => i + rules.innings
+            ).map((n) => (
+              <option key={n} value={n}>
+                {n === rules.innings ? "延長なし" : `${n}回まで`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            制限時間（分）
+          </label>
+          <input
+            type="number"
+            min="0"
+            value={rules.timeLimitMinutes ?? ""}
+            onChange={(e) =>
+              update({ timeLimitMinutes: parseOptional(e.target.value) })
+            }
+            className={inputClass}
+            placeholder="なし"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            タイブレーク開始回
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={rules.tiebreakStartInning ?? ""}
+            onChange={(e) =>
+              update({ tiebreakStartInning: parseOptional(e.target.value) })
+            }
+            className={inputClass}
+            placeholder="なし"
+          />
+        </div>
+        {rules.tiebreakStartInning !== null && (
+          <div className="col-start-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              タイブレークの走者
+            </label>
+            <select
+              value={rules.tiebreakBases.join(",")}
+              onChange={(e) =>
+                update({
+                  tiebreakBases: e.target.value.split(",").map(Number),
+                })
+              }
+              className={inputClass}
+            >
+              {TIEBREAK_BASE_OPTIONS.map((option) => (
+                <option key={option.label} value={option.bases.join(",")}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            球数制限（1試合）
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={rules.pitchCountLimit ?? ""}
+            onChange={(e) =>
+              update({ pitchCountLimit: parseOptional(e.target.value) })
+            }
+            className={inputClass}
+            placeholder="なし"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            人数不足の警告（試合の何日前から）
+          </label>
+          <input
+            type="number"
+            min="0"
+            value={rules.rosterWarningDays}
+            onChange={(e) =>
+              update({ rosterWarningDays: parseInt(e.target.value) || 0 })
+            }
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {/* コールドゲーム */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          コールドゲーム
+        </label>
+        <div className="space-y-2">
+          {rules.mercyRules.map((mercy, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm">
+              <input
+                type="number"
+                min="1"
+                value={mercy.inning}
+                onChange={(e) =>
+                  updateMercyRule(index, {
+                    inning: parseInt(e.target.value) || 0,
+                  })
+                }
+                className="w-16 px-2 py-1 border border-gray-300 rounded"
+              />
+              回以降
+              <input
+                type="number"
+                min="1"
+                value={mercy.runDifference}
+                onChange={(e) =>
+                  updateMercyRule(index, {
+                    runDifference: parseInt(e.target.value) || 0,
+                  })
+                }
+                className="w-16 px-2 py-1 border border-gray-300 rounded"
+              />
+              点差
+              <button
+                type="button"
+                onClick={() =>
+                  update({
+                    mercyRules: rules.mercyRules.filter((_, i) => i !== index),
+                  })
+                }
+                className="text-red-600 hover:text-red-700"
+              >
+                削除
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              update({
+                mercyRules: [
+                  ...rules.mercyRules,
+                  { inning: 5, runDifference: 10 },
+                ],
+              })
+            }
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            + コールド条件を追加
+          </button>
+        </div>
+      </div>
+
+      {/* 打順・交代 */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            エキストラヒッター
+          </label>
+          <select
+            value={rules.extraHitters}
+            onChange={(e) => update({ extraHitters: parseInt(e.target.value) })}
+            className={inputClass}
+          >
+            {[0, 1, 2, 3, 4, 5, 6].map((n) => (
+              <option key={n} value={n}>
+                {n === 0 ? "なし" : `${n}人`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2 pt-7">
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={rules.designatedHitter}
+              onChange={(e) => update({ designatedHitter: e.target.checked })}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>指名打者（DH）</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={rules.freeReentry}
+              onChange={(e) => update({ freeReentry: e.target.checked })}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>再出場自由（リエントリー）</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
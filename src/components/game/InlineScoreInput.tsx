@@ -2,6 +2,14 @@
 
 import { useState, useEffect } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { fetchGameRules } from "@/lib/game-logic";
+import {
+  checkGameEnd,
+  GameRules,
+  HalfInningScore,
+  normalizeGameRules,
+} from "@/lib/game-rules";
+import { recordGameAchievements } from "@/lib/milestones";
 
 interface InlineScoreInputProps {
   gameId: string;
@@ -35,6 +43,7 @@ export default function InlineScoreInput({
   const [saving, setSaving] = useState(false);
   const [editMode, setEditMode] = useState(false);
   const [game, setGame] = useState<Game | null>(null);
+  const [rules, setRules] = useState<GameRules>(normalizeGameRules());
   const supabase = createClientComponentClient();
 
   useEffect(() => {
@@ -54,6 +63,9 @@ export default function InlineScoreInput({
         setGame(gameData);
       }
 
+      const gameRules = await fetchGameRules(supabase, gameId);
+      setRules(gameRules);
+
       // 既存のスコアを取得
       const { data: scoresData } = await supabase
         .from("game_scores")
@@ -70,11 +82,11 @@ export default function InlineScoreInput({
 
         // スコアデータを設定
         const maxInning = Math.max(...scoresData.map((s) => s.inning));
-        setTotalInnings(Math.max(7, maxInning));
+        setTotalInnings(Math.max(gameRules.innings, maxInning));
 
         // 全イニングのデータを作成
         const allScores: ScoreData[] = [];
-        for (let i = 1; i <= Math.max(7, maxInning); i++) {
+        for (let i = 1; i <= Math.max(gameRules.innings, maxInning); i++) {
           const existing = scoresData.find((s) => s.inning === i);
           allScores.push({
             inning: i,
@@ -85,7 +97,7 @@ export default function InlineScoreInput({
         setScores(allScores);
       } else {
         // 初期データを作成
-        initializeScores(7);
+        initializeScores(gameRules.innings);
       }
     } catch (error) {
       console.error("データ取得エラー:", error);
@@ -106,19 +118,53 @@ export default function InlineScoreInput({
     setScores(newScores);
   };
 
+  // 入力済みの得点を試合終了判定用の半イニングに変換
+  const toHalfInnings = (data: ScoreData[]): HalfInningScore[] =>
+    data.flatMap((s) => [
+      ...(s.top_score !== null
+        ? [
+            {
+              inning: s.inning,
+              isTop: true,
+              runs: s.top_score,
+              isComplete: true,
+            },
+          ]
+        : []),
+      ...(s.bottom_score !== null
+        ? [
+            {
+              inning: s.inning,
+              isTop: false,
+              runs: s.bottom_score,
+              isComplete: true,
+            },
+          ]
+        : []),
+    ]);
+
   const handleScoreChange = (inning: number, isTop: boolean, value: string) => {
     const numValue = value === "" ? null : parseInt(value);
-    setScores((prev) =>
-      prev.map((s) =>
-        s.inning === inning
-          ? { ...s, [isTop ? "top_score" : "bottom_score"]: numValue }
-          : s
-      )
+    const updated = scores.map((s) =>
+      s.inning === inning
+        ? { ...s, [isTop ? "top_score" : "bottom_score"]: numValue }
+        : s
     );
+    setScores(updated);
+
+    // 最終回まで入力して決着していなければ延長回を自動で追加
+    const last = updated[updated.length - 1];
+    if (
+      last.top_score !== null &&
+      last.bottom_score !== null &&
+      !checkGameEnd(rules, toHalfInnings(updated)).isOver
+    ) {
+      addInning();
+    }
   };
 
   const addInning = () => {
-    if (totalInnings < 12) {
+    if (totalInnings < rules.maxInnings) {
       setTotalInnings((prev) => prev + 1);
       setScores((prev) => [
         ...prev,
@@ -133,7 +179,7 @@ export default function InlineScoreInput({
 
   const removeLastInning = () => {
     if (
-      totalInnings > 7 &&
+      totalInnings > rules.innings &&
       scores[totalInnings - 1].top_score === null &&
       scores[totalInnings - 1].bottom_score === null
     ) {
@@ -174,6 +220,9 @@ export default function InlineScoreInput({
         if (insertError) throw insertError;
       }
 
+      // 試合ルールで決着していれば試合終了にする
+      const gameEnd = checkGameEnd(rules, toHalfInnings(scores));
+
       // 試合の合計スコアを更新
       const homeTotal = isMyTeamBatFirst
         ? calculateTotal(true)
@@ -187,12 +236,18 @@ export default function InlineScoreInput({
         .update({
           home_score: homeTotal,
           opponent_score: opponentTotal,
+          ...(gameEnd.isOver ? { status: "completed" } : {}),
           updated_at: new Date().toISOString(),
         })
         .eq("id", gameId);
 
       if (updateError) throw updateError;
 
+      // 試合終了なら記録・達成を判定
+      if (gameEnd.isOver) {
+        await recordGameAchievements(supabase, gameId);
+      }
+
       setEditMode(false);
       if (onScoreUpdate) {
         onScoreUpdate();
@@ -359,7 +414,7 @@ export default function InlineScoreInput({
         {/* 延長回の追加/削除 */}
         {editMode && (
           <div className="mt-4 flex justify-end space-x-2">
-            {totalInnings > 7 && (
+            {totalInnings > rules.innings && (
               <button
                 onClick={removeLastInning}
                 className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200"
@@ -367,7 +422,7 @@ export default function InlineScoreInput({
                 最終回を削除
               </button>
             )}
-            {totalInnings < 12 && (
+            {totalInnings < rules.maxInnings && (
               <button
                 onClick={addInning}
                 className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
@@ -0,0 +1,616 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import {
+  appendGameEvent,
+  calculateBaseReached,
+  fetchGameEvents,
+  recordOpponentEvent,
+  recordPitchingChange,
+} from "@/lib/game-logic";
+import {
+  filterPitchingChanges,
+  findHalfInningState,
+  GameEventPayloadMap,
+  PlateAppearancePayload,
+  ReplayedBattingRecord,
+  replayGame,
+  RunnerEventPayload,
+} from "@/lib/game-events";
+import {
+  BaseRunner,
+  createHalfInningState,
+  HalfInningState,
+} from "@/lib/game-engine";
+import { getDefensiveAlignment, parseFieldingNotation } from "@/lib/fielding";
+
+interface GamePlayer {
+  id: string;
+  player_name: string;
+  position: string | null;
+  is_active: boolean;
+}
+
+interface OpponentPlayer {
+  id: string;
+  player_name: string;
+  batting_order: number;
+  position: string | null;
+}
+
+interface Props {
+  gameId: string;
+  players: GamePlayer[]; // 自チームの選手（登板投手の選択・守備位置の記録用）
+  currentInning: number;
+  isTopBottom: "top" | "bottom";
+  canEdit: boolean;
+  maxInnings?: number;
+  refreshTrigger?: number;
+  onRecordSaved?: () => void;
+  onInningChange?: (newInning: number, newTopBottom: "top" | "bottom") => void;
+  onGameEnd?: () => void;
+  presetResult?: { result: string } | null; // 球数カウントで完了した打席の結果
+}
+
+// 打撃結果（自チームの打撃入力と同じ分類）
+const RESULT_GROUPS = [
+  {
+    label: "ヒット",
+    activeClass: "bg-blue-500 text-white border-blue-500",
+    results: ["安打", "二塁打", "三塁打", "本塁打"],
+  },
+  {
+    label: "アウト",
+    activeClass: "bg-red-500 text-white border-red-500",
+    results: [
+      "三振",
+      "ゴロ",
+      "フライ",
+      "ライナー",
+      "犠打",
+      "犠飛",
+      "フィールダースチョイス",
+    ],
+  },
+  {
+    label: "その他",
+    activeClass: "bg-green-500 text-white border-green-500",
+    results: ["四球", "死球", "エラー", "野選"],
+  },
+];
+
+const BASE_NAMES: Record<number, string> = { 1: "一塁", 2: "二塁", 3: "三塁" };
+
+// この画面で記録するイベント（守備位置と打球処理を添えて記録する）
+type OpponentEventType =
+  | "plate_appearance"
+  | "stolen_base"
+  | "caught_stealing"
+  | "runner_advance"
+  | "wild_pitch";
+
+export default function OpponentBattingInput({
+  gameId,
+  players,
+  currentInning,
+  isTopBottom,
+  canEdit,
+  maxInnings = 7,
+  refreshTrigger,
+  onRecordSaved,
+  onInningChange,
+  onGameEnd,
+  presetResult = null,
+}: Props) {
+  const supabase = createClientComponentClient();
+
+  const [opponentPlayers, setOpponentPlayers] = useState<OpponentPlayer[]>([]);
+  const [halfState, setHalfState] = useState<HalfInningState>(
+    createHalfInningState(currentInning)
+  );
+  const [inningRecords, setInningRecords] = useState<ReplayedBattingRecord[]>(
+    []
+  );
+  const [isInningEnded, setIsInningEnded] = useState(false);
+  const [currentPitcherId, setCurrentPitcherId] = useState<string | null>(null);
+  const [startingPitcherId, setStartingPitcherId] = useState("");
+  const [batterId, setBatterId] = useState("");
+  const [result, setResult] = useState("");
+  const [baseReached, setBaseReached] = useState(0);
+  const [runnersOut, setRunnersOut] = useState<string[]>([]);
+  const [notes, setNotes] = useState("");
+  const [fielding, setFielding] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    loadData();
+  }, [gameId, currentInning, refreshTrigger]);
+
+  useEffect(() => {
+    if (presetResult) {
+      selectResult(presetResult.result);
+      setMessage(`球数カウントから「${presetResult.result}」を選択しました`);
+    }
+  }, [presetResult]);
+
+  // イベントログのリプレイから相手の攻撃回の状態を取得
+  const loadData = async () => {
+    try {
+      const [{ data: lineup, error }, events] = await Promise.all([
+        supabase
+          .from("game_opponent_players")
+          .select("*")
+          .eq("game_id", gameId)
+          .order("batting_order"),
+        fetchGameEvents(supabase, gameId),
+      ]);
+      if (error) throw error;
+
+      const opponents = lineup || [];
+      setOpponentPlayers(opponents);
+
+      const replay = replayGame(events);
+      setHalfState(findHalfInningState(replay, currentInning, true));
+      setInningRecords(
+        replay.opponentBattingRecords.filter((r) => r.inning === currentInning)
+      );
+      setIsInningEnded(
+        events.some(
+          (e) =>
+            e.is_opponent &&
+            e.event_type === "inning_end" &&
+            e.inning === currentInning
+        )
+      );
+
+      const changes = filterPitchingChanges(events);
+      setCurrentPitcherId(
+        changes[changes.length - 1]?.payload.pitcherId || null
+      );
+
+      // 次の打者（前の打者の次の打順）
+      const lastRecord =
+        replay.opponentBattingRecords[replay.opponentBattingRecords.length - 1];
+      const lastIndex = lastRecord
+        ? opponents.findIndex(
+            (p) => p.batting_order === lastRecord.batting_order
+          )
+        : -1;
+      setBatterId(opponents[(lastIndex + 1) % opponents.length]?.id || "");
+    } catch (error) {
+      console.error("相手打撃記録取得エラー:", error);
+    }
+  };
+
+  const resetForm = () => {
+    setResult("");
+    setBaseReached(0);
+    setRunnersOut([]);
+    setNotes("");
+    setFielding("");
+  };
+
+  const selectResult = (value: string) => {
+    setResult(value);
+    setBaseReached(calculateBaseReached(value));
+    setRunnersOut([]);
+  };
+
+  // 3アウトで相手の攻撃を終了
+  const handleInningEnd = async () => {
+    await appendGameEvent(
+      supabase,
+      gameId,
+      currentInning,
+      "inning_end",
+      { isTopBottom, auto: true },
+      true
+    );
+
+    if (currentInning >= maxInnings && isTopBottom === "bottom") {
+      if (onGameEnd) onGameEnd();
+    } else if (onInningChange) {
+      onInningChange(
+        isTopBottom === "bottom" ? currentInning + 1 : currentInning,
+        isTopBottom === "top" ? "bottom" : "top"
+      );
+    }
+  };
+
+  const recordEvent = async <T extends OpponentEventType>(
+    eventType: T,
+    payload: GameEventPayloadMap[T],
+    successMessage: string
+  ) => {
+    if (fielding && !parseFieldingNotation(fielding)) {
+      setMessage("守備の表記が正しくありません（例: 6-3, 4-6-3, E5）");
+      return;
+    }
+
+    setSaving(true);
+    setMessage("");
+    try {
+      // 登板投手が未記録なら先に登板を記録（被安打・奪三振などの集計先）
+      if (!currentPitcherId && startingPitcherId) {
+        const pitcher = players.find((p) => p.id === startingPitcherId);
+        await recordPitchingChange(
+          supabase,
+          gameId,
+          currentInning,
+          startingPitcherId,
+          pitcher?.player_name || ""
+        );
+      }
+
+      // 守備成績の集計用に、記録時点の守備位置と打球処理を残す
+      const transition = await recordOpponentEvent(
+        supabase,
+        gameId,
+        currentInning,
+        eventType,
+        {
+          ...payload,
+          fielding: fielding || null,
+          defense: getDefensiveAlignment(players),
+        }
+      );
+
+      setMessage(
+        transition?.isInningOver ? "スリーアウトチェンジ！" : successMessage
+      );
+      resetForm();
+      await loadData();
+      if (onRecordSaved) onRecordSaved();
+
+      if (transition?.isInningOver) {
+        await handleInningEnd();
+      }
+    } catch (error) {
+      console.error("相手打撃記録保存エラー:", error);
+      setMessage("保存に失敗しました");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSavePlateAppearance = async () => {
+    const batter = opponentPlayers.find((p) => p.id === batterId);
+    if (!batter || !result) return;
+
+    const payload: PlateAppearancePayload = {
+      batterId: batter.id,
+      batterName: batter.player_name,
+      battingOrder: batter.batting_order,
+      result,
+      baseReached,
+      runnersOut,
+      notes: notes || null,
+    };
+    await recordEvent("plate_appearance", payload, "記録を保存しました");
+  };
+
+  const handleRunnerEvent = async (
+    eventType: "stolen_base" | "caught_stealing" | "runner_advance",
+    runner: BaseRunner,
+    toBase: number
+  ) => {
+    const payload: RunnerEventPayload = {
+      playerId: runner.playerId,
+      playerName: runner.playerName,
+      toBase,
+    };
+    await recordEvent(eventType, payload, "走塁を記録しました");
+  };
+
+  if (opponentPlayers.length === 0) {
+    return (
+      <div className="bg-white p-4 rounded-lg shadow-sm text-sm text-gray-600">
+        相手チームの打順が登録されていません（メンバー管理から登録できます）
+      </div>
+    );
+  }
+
+  const isOnBase = result !== "" && calculateBaseReached(result) > 0;
+  const needsPitcher = !currentPitcherId && !startingPitcherId;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold">
+          {currentInning}回{isTopBottom === "top" ? "表" : "裏"}
+          （相手チームの攻撃）
+        </h3>
+        <div className="flex items-center space-x-4">
+          <span className="text-sm text-gray-600">
+            アウト: <span className="font-bold text-lg">{halfState.outs}</span>{" "}
+            / 3
+          </span>
+          <span className="text-sm text-gray-600">
+            得点: <span className="font-bold text-lg">{halfState.runs}</span>
+          </span>
+          {isInningEnded && (
+            <span className="text-red-600 font-semibold">イニング終了</span>
+          )}
+        </div>
+      </div>
+
+      {/* ランナー */}
+      {halfState.runners.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {halfState.runners.map((runner) => (
+            <div
+              key={runner.id || runner.playerId}
+              className="flex items-center justify-between p-2 bg-red-50 rounded"
+            >
+              <span className="text-sm">
+                <span className="font-medium">{BASE_NAMES[runner.base]}</span>
+                ：{runner.playerName}
+              </span>
+              {canEdit && !isInningEnded && (
+                <div className="flex space-x-2 text-sm">
+                  <button
+                    onClick={() =>
+                      handleRunnerEvent("runner_advance", runner, runner.base + 1)
+                    }
+                    className="text-blue-600 hover:text-blue-700"
+                    disabled={saving}
+                  >
+                    {runner.base === 3 ? "得点" : "進塁"}
+                  </button>
+                  <button
+                    onClick={() =>
+                      handleRunnerEvent("stolen_base", runner, runner.base + 1)
+                    }
+                    className="text-green-600 hover:text-green-700"
+                    disabled={saving}
+                  >
+                    盗塁
+                  </button>
+                  <button
+                    onClick={() => handleRunnerEvent("caught_stealing", runner, 0)}
+                    className="text-red-600 hover:text-red-700"
+                    disabled={saving}
+                  >
+                    盗塁死
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+          {canEdit && !isInningEnded && (
+            <button
+              onClick={() =>
+                recordEvent("wild_pitch", {}, "暴投・捕逸を記録しました")
+              }
+              className="text-sm text-gray-600 hover:text-gray-800"
+              disabled={saving}
+            >
+              暴投・捕逸（全ランナー進塁）
+            </button>
+          )}
+        </div>
+      )}
+
+      {canEdit && !isInningEnded && (
+        <div className="space-y-4">
+          {/* 登板投手（投手交代の記録がない場合のみ） */}
+          {!currentPitcherId && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                登板中の投手 <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={startingPitcherId}
+                onChange={(e) => setStartingPitcherId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={saving}
+              >
+                <option value="">投手を選択</option>
+                {players.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.player_name}
+                    {player.position === "投手" && "（投手）"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* 打者 */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              打者
+            </label>
+            <select
+              value={batterId}
+              onChange={(e) => setBatterId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              disabled={saving}
+            >
+              <option value="">打者を選択</option>
+              {opponentPlayers.map((player) => (
+                <option key={player.id} value={player.id}>
+                  {player.batting_order}番 - {player.player_name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 打撃結果 */}
+          <div className="space-y-2">
+            {RESULT_GROUPS.map((group) => (
+              <div key={group.label}>
+                <span className="text-sm text-gray-600">{group.label}</span>
+                <div className="grid grid-cols-4 gap-2 mt-1">
+                  {group.results.map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => selectResult(value)}
+                      className={`px-3 py-2 text-sm rounded-lg border ${
+                        result === value
+                          ? group.activeClass
+                          : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                      }`}
+                      disabled={saving}
+                    >
+                      {value}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* 到達塁（出塁時のみ） */}
+          {isOnBase && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                到達塁
+              </label>
+              <select
+                value={baseReached}
+                onChange={(e) => setBaseReached(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                disabled={saving || result === "本塁打"}
+              >
+                <option value={1}>一塁</option>
+                <option value={2}>二塁</option>
+                <option value={3}>三塁</option>
+                <option value={4}>本塁（得点）</option>
+              </select>
+            </div>
+          )}
+
+          {/* 併殺（ゴロでランナーがいる場合） */}
+          {result === "ゴロ" && halfState.runners.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                アウトになったランナー（併殺）
+              </label>
+              <div className="flex flex-wrap gap-4">
+                {halfState.runners.map((runner) => (
+                  <label
+                    key={runner.id || runner.playerId}
+                    className="flex items-center space-x-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={runnersOut.includes(runner.playerId)}
+                      onChange={(e) =>
+                        setRunnersOut(
+                          e.target.checked
+                            ? [...runnersOut, runner.playerId]
+                            : runnersOut.filter((id) => id !== runner.playerId)
+                        )
+                      }
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      disabled={saving}
+                    />
+                    <span>
+                      {BASE_NAMES[runner.base]} {runner.playerName}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 守備（刺殺・補殺・失策の記録） */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              守備（任意）
+            </label>
+            <input
+              type="text"
+              value={fielding}
+              onChange={(e) => setFielding(e.target.value)}
+              placeholder="例: 6-3、4-6-3、E5（盗塁死は 2-6）"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              disabled={saving}
+            />
+          </div>
+
+          {/* メモ */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              メモ（任意）
+            </label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="例: レフト前ヒット"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              disabled={saving}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleSavePlateAppearance}
+              disabled={saving || !batterId || !result || needsPitcher}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "保存中..." : "保存"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`mt-4 text-center py-2 px-4 rounded-lg ${
+            message.includes("失敗")
+              ? "bg-red-100 text-red-700"
+              : "bg-green-100 text-green-700"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {/* イニングの記録（修正は取り消し・やり直しで行う） */}
+      <div className="mt-6">
+        <h4 className="text-sm font-semibold text-gray-700 mb-2">
+          {currentInning}回{isTopBottom === "top" ? "表" : "裏"}の記録
+        </h4>
+        {inningRecords.length === 0 ? (
+          <p className="text-gray-500 text-sm">まだ記録がありません</p>
+        ) : (
+          <div className="space-y-2">
+            {inningRecords.map((record, index) => (
+              <div key={index} className="p-2 bg-gray-50 rounded">
+                <span className="font-medium">{index + 1}. </span>
+                <span>{record.player_name}</span>
+                <span className="ml-2 text-sm text-gray-600">
+                  {record.result}
+                  {record.fielding && `（${record.fielding}）`}
+                </span>
+                {record.rbi > 0 && (
+                  <span className="ml-2 text-sm text-blue-600">
+                    {record.rbi}打点
+                  </span>
+                )}
+                {record.run_scored && (
+                  <span className="ml-2 text-sm text-green-600">得点</span>
+                )}
+                {record.stolen_base && (
+                  <span className="ml-2 text-sm text-green-600">盗塁</span>
+                )}
+                {record.notes && (
+                  <span className="ml-2 text-sm text-gray-500">
+                    ({record.notes})
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
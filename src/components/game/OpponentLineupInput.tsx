@@ -0,0 +1,198 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Plus, Trash2 } from "lucide-react";
+
+interface OpponentPlayer {
+  id?: string;
+  player_name: string;
+  batting_order: number;
+  position: string;
+}
+
+interface Props {
+  gameId: string;
+  canEdit: boolean;
+}
+
+const DEFAULT_LINEUP_SIZE = 9;
+
+export default function OpponentLineupInput({ gameId, canEdit }: Props) {
+  const supabase = createClientComponentClient();
+  const [players, setPlayers] = useState<OpponentPlayer[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    fetchOpponentPlayers();
+  }, [gameId]);
+
+  const fetchOpponentPlayers = async () => {
+    const { data, error } = await supabase
+      .from("game_opponent_players")
+      .select("*")
+      .eq("game_id", gameId)
+      .order("batting_order");
+
+    if (error) {
+      console.error("相手メンバー取得エラー:", error);
+      return;
+    }
+
+    if (data && data.length > 0) {
+      setPlayers(
+        data.map((p) => ({
+          id: p.id,
+          player_name: p.player_name,
+          batting_order: p.batting_order,
+          position: p.position || "",
+        }))
+      );
+    } else {
+      // 未登録なら空の打順を用意
+      setPlayers(
+        Array.from({ length: DEFAULT_LINEUP_SIZE }, (_, i) => ({
+          player_name: "",
+          batting_order: i + 1,
+          position: "",
+        }))
+      );
+    }
+  };
+
+  const updatePlayer = (
+    index: number,
+    field: "player_name" | "position",
+    value: string
+  ) => {
+    const updated = [...players];
+    updated[index] = { ...updated[index], [field]: value };
+    setPlayers(updated);
+  };
+
+  const addPlayer = () => {
+    setPlayers([
+      ...players,
+      { player_name: "", batting_order: players.length + 1, position: "" },
+    ]);
+  };
+
+  const removePlayer = (index: number) => {
+    setPlayers(
+      players
+        .filter((_, i) => i !== index)
+        .map((p, i) => ({ ...p, batting_order: i + 1 }))
+    );
+  };
+
+  // 既存の選手は更新（打席記録が参照するIDを維持）、新規は追加、外した選手は削除
+  const saveLineup = async () => {
+    setSaving(true);
+    setMessage("");
+    try {
+      const named = players.filter((p) => p.player_name.trim());
+      const { data: existing } = await supabase
+        .from("game_opponent_players")
+        .select("id")
+        .eq("game_id", gameId);
+
+      const keptIds = named.filter((p) => p.id).map((p) => p.id);
+      const removedIds = (existing || [])
+        .map((p) => p.id)
+        .filter((id) => !keptIds.includes(id));
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from("game_opponent_players")
+          .delete()
+          .in("id", removedIds);
+        if (error) throw error;
+      }
+
+      for (const [index, player] of named.entries()) {
+        const values = {
+          player_name: player.player_name.trim(),
+          batting_order: index + 1,
+          position: player.position.trim() || null,
+        };
+        const { error } = player.id
+          ? await supabase
+              .from("game_opponent_players")
+              .update(values)
+              .eq("id", player.id)
+          : await supabase
+              .from("game_opponent_players")
+              .insert({ game_id: gameId, ...values });
+        if (error) throw error;
+      }
+
+      await fetchOpponentPlayers();
+      setMessage("相手チームのメンバーを保存しました");
+    } catch (error) {
+      console.error("相手メンバー保存エラー:", error);
+      setMessage("相手チームのメンバーの保存に失敗しました");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>相手チームの打順</CardTitle>
+        <p className="text-sm text-gray-600">
+          登録すると相手の攻撃回も打席ごとに記録でき、投手成績に反映されます
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {players.map((player, index) => (
+          <div key={player.id || `new-${index}`} className="flex items-center gap-2">
+            <div className="w-8 h-8 bg-red-600 text-white rounded-full flex items-center justify-center font-bold shrink-0">
+              {index + 1}
+            </div>
+            <Input
+              value={player.player_name}
+              onChange={(e) => updatePlayer(index, "player_name", e.target.value)}
+              placeholder="選手名"
+              disabled={!canEdit}
+            />
+            <Input
+              value={player.position}
+              onChange={(e) => updatePlayer(index, "position", e.target.value)}
+              placeholder="守備位置"
+              disabled={!canEdit}
+              className="w-32"
+            />
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removePlayer(index)}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {canEdit && (
+          <div className="flex items-center justify-between pt-2">
+            <Button variant="outline" onClick={addPlayer}>
+              <Plus className="h-4 w-4 mr-1" />
+              打者を追加
+            </Button>
+            <div className="flex items-center gap-3">
+              {message && <span className="text-sm text-gray-600">{message}</span>}
+              <Button onClick={saveLineup} disabled={saving}>
+                {saving ? "保存中..." : "相手の打順を保存"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Undo2 } from "lucide-react";
+import { addPitchTotals, fetchGameEvents } from "@/lib/game-logic";
+import { filterPitchingChanges } from "@/lib/game-events";
+import {
+  applyPitch,
+  countPitches,
+  getStrikePercentage,
+  isStrikeThrown,
+  PITCH_LABELS,
+  PitchType,
+} from "@/lib/pitch-count";
+
+interface GamePlayer {
+  id: string;
+  player_name: string;
+  position: string | null;
+}
+
+interface Props {
+  gameId: string;
+  players: GamePlayer[];
+  canEdit: boolean;
+  pitchCountLimit?: number | null; // 試合ルールの球数制限
+  onPitchRecorded?: () => void;
+  // 四球・三振で打席が完了したとき（打席結果の入力に引き継ぐ）
+  onPlateAppearanceComplete?: (result: "四球" | "三振") => void;
+}
+
+// 完了した打席（1球戻すで打席をやり直せるように保持）
+interface CompletedPlateAppearance {
+  pitches: PitchType[];
+}
+
+const PITCH_BUTTONS: { pitch: PitchType; className: string }[] = [
+  { pitch: "ball", className: "bg-green-600 hover:bg-green-700" },
+  { pitch: "strike", className: "bg-yellow-500 hover:bg-yellow-600" },
+  { pitch: "foul", className: "bg-orange-500 hover:bg-orange-600" },
+  { pitch: "in_play", className: "bg-blue-600 hover:bg-blue-700" },
+];
+
+export default function PitchCountInput({
+  gameId,
+  players,
+  canEdit,
+  pitchCountLimit = null,
+  onPitchRecorded,
+  onPlateAppearanceComplete,
+}: Props) {
+  const supabase = createClientComponentClient();
+
+  const [pitcherId, setPitcherId] = useState("");
+  const [pitches, setPitches] = useState<PitchType[]>([]);
+  const [lastPlateAppearance, setLastPlateAppearance] =
+    useState<CompletedPlateAppearance | null>(null);
+  const [totals, setTotals] = useState({ pitches: 0, strikes: 0 });
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const count = countPitches(pitches);
+
+  // 登板中の投手を初期選択
+  useEffect(() => {
+    const loadCurrentPitcher = async () => {
+      const events = await fetchGameEvents(supabase, gameId);
+      const changes = filterPitchingChanges(events);
+      const current =
+        changes[changes.length - 1]?.payload.pitcherId ||
+        players.find((p) => p.position === "投手")?.id;
+      if (current) setPitcherId(current);
+    };
+    loadCurrentPitcher();
+  }, [gameId, players]);
+
+  useEffect(() => {
+    setPitches([]);
+    setLastPlateAppearance(null);
+    if (pitcherId) fetchTotals();
+  }, [pitcherId]);
+
+  const fetchTotals = async () => {
+    const { data, error } = await supabase
+      .from("game_pitching_records")
+      .select("pitches_thrown, strikes_thrown")
+      .eq("game_id", gameId)
+      .eq("player_id", pitcherId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("球数取得エラー:", error);
+      return;
+    }
+    setTotals({
+      pitches: data?.pitches_thrown || 0,
+      strikes: data?.strikes_thrown || 0,
+    });
+  };
+
+  const handlePitch = async (pitch: PitchType) => {
+    if (!pitcherId || saving) return;
+
+    const result = applyPitch(count, pitch);
+    setSaving(true);
+    try {
+      const values = await addPitchTotals(supabase, gameId, pitcherId, {
+        pitches: 1,
+        strikes: isStrikeThrown(pitch) ? 1 : 0,
+      });
+      setTotals({
+        pitches: values.pitches_thrown,
+        strikes: values.strikes_thrown,
+      });
+
+      if (result.isPlateAppearanceOver) {
+        // 打席完了（四球・三振も打席結果として記録し、投手成績はそこから集計）
+        setLastPlateAppearance({ pitches: [...pitches, pitch] });
+        setPitches([]);
+        const completed = result.completedResult;
+        if (completed && onPlateAppearanceComplete) {
+          onPlateAppearanceComplete(completed);
+        }
+        const pitchLabel = `（${pitches.length + 1}球）`;
+        setMessage(
+          !completed
+            ? `インプレー${pitchLabel}: 打席結果を記録してください`
+            : onPlateAppearanceComplete
+            ? `${completed}${pitchLabel}: 打撃入力で打席結果を保存してください`
+            : `${completed}${pitchLabel}: 投手記録に与四球・奪三振を入力してください`
+        );
+      } else {
+        setPitches([...pitches, pitch]);
+        setMessage("");
+      }
+
+      if (onPitchRecorded) onPitchRecorded();
+    } catch (error) {
+      console.error("投球記録エラー:", error);
+      setMessage("投球の記録に失敗しました");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 1球戻す（打席完了直後なら完了を取り消して打席に戻る）
+  const handleUndoPitch = async () => {
+    if (!pitcherId || saving) return;
+
+    const restoring = pitches.length === 0 ? lastPlateAppearance : null;
+    const current = restoring ? restoring.pitches : pitches;
+    const pitch = current[current.length - 1];
+    if (!pitch) return;
+
+    setSaving(true);
+    try {
+      const values = await addPitchTotals(supabase, gameId, pitcherId, {
+        pitches: -1,
+        strikes: isStrikeThrown(pitch) ? -1 : 0,
+      });
+      setTotals({
+        pitches: values.pitches_thrown,
+        strikes: values.strikes_thrown,
+      });
+      setPitches(current.slice(0, -1));
+      if (restoring) setLastPlateAppearance(null);
+      setMessage(`${PITCH_LABELS[pitch]}を取り消しました`);
+
+      if (onPitchRecorded) onPitchRecorded();
+    } catch (error) {
+      console.error("投球取り消しエラー:", error);
+      setMessage("投球の取り消しに失敗しました");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!canEdit) return null;
+
+  const isOverLimit =
+    pitchCountLimit !== null && totals.pitches >= pitchCountLimit;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>投球数カウント</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="pitch-count-pitcher">投手</Label>
+          <Select value={pitcherId} onValueChange={setPitcherId}>
+            <SelectTrigger id="pitch-count-pitcher">
+              <SelectValue placeholder="投手を選択" />
+            </SelectTrigger>
+            <SelectContent>
+              {players.map((player) => (
+                <SelectItem key={player.id} value={player.id}>
+                  {player.player_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* カウント表示 */}
+        <div className="flex items-center justify-between p-3 bg-gray-900 text-white rounded">
+          <div className="space-y-1 font-mono">
+            <div className="flex items-center gap-2">
+              <span className="w-4">B</span>
+              {[0, 1, 2].map((i) => (
+                <span
+                  key={i}
+                  className={`w-3 h-3 rounded-full ${
+                    i < count.balls ? "bg-green-400" : "bg-gray-600"
+                  }`}
+                />
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-4">S</span>
+              {[0, 1].map((i) => (
+                <span
+                  key={i}
+                  className={`w-3 h-3 rounded-full ${
+                    i < count.strikes ? "bg-yellow-400" : "bg-gray-600"
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-2xl font-bold">{totals.pitches}球</div>
+            <div className="text-xs text-gray-300">
+              ストライク {totals.strikes}（
+              {getStrikePercentage(totals.pitches, totals.strikes)}%）
+            </div>
+          </div>
+        </div>
+
+        {isOverLimit && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              球数制限（{pitchCountLimit}球）に達しました
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* 投球入力 */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {PITCH_BUTTONS.map(({ pitch, className }) => (
+            <button
+              key={pitch}
+              onClick={() => handlePitch(pitch)}
+              disabled={!pitcherId || saving}
+              className={`${className} text-white py-3 rounded font-medium disabled:opacity-50`}
+            >
+              {PITCH_LABELS[pitch]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">{message}</p>
+          <Button
+            variant="ghost"
+            onClick={handleUndoPitch}
+            disabled={
+              saving || (pitches.length === 0 && !lastPlateAppearance)
+            }
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            1球戻す
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,6 +16,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertCircle, Save, Trophy, Edit2 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  applyPitchingDecisions,
+  fetchGameEvents,
+  proposePitchingDecisions,
+  recordPitchingChange,
+  syncPitchingRunsFromEvents,
+} from "@/lib/game-logic";
+import { filterPitchingChanges, replayGame } from "@/lib/game-events";
+import { PitchingDecision } from "@/lib/pitching-decisions";
+import { recordGameAchievements } from "@/lib/milestones";
 
 interface GamePlayer {
   id: string;
@@ -48,6 +58,8 @@ interface Props {
   gameId: string;
   players: GamePlayer[];
   canEdit: boolean;
+  currentInning?: number;
+  gameEnded?: boolean; // 試合終了時に勝敗・セーブの判定を提案する
   onRecordSaved?: () => void;
 }
 
@@ -55,6 +67,8 @@ export default function PitchingRecordInput({
   gameId,
   players,
   canEdit,
+  currentInning,
+  gameEnded,
   onRecordSaved,
 }: Props) {
   const supabase = createClientComponentClient();
@@ -77,6 +91,12 @@ export default function PitchingRecordInput({
   const [existingRecords, setExistingRecords] = useState<PitchingRecord[]>([]);
   const [loading, setLoading] = useState(false);
   const [editingRecord, setEditingRecord] = useState<string | null>(null);
+  // 投手交代の記録がある場合、失点・自責点はイベントログから自動計算する
+  const [currentPitcherId, setCurrentPitcherId] = useState<string | null>(null);
+  const [hasPitchingLog, setHasPitchingLog] = useState(false);
+  // 相手打席の記録がある投手は、投球回・被安打・奪三振・与四球・被本塁打も自動計算する
+  const [derivedPitcherIds, setDerivedPitcherIds] = useState<string[]>([]);
+  const [decision, setDecision] = useState<PitchingDecision | null>(null);
   const [message, setMessage] = useState<{
     type: "success" | "error";
     text: string;
@@ -89,6 +109,12 @@ export default function PitchingRecordInput({
     fetchExistingRecords();
   }, [gameId]);
 
+  useEffect(() => {
+    if (gameEnded && canEdit) {
+      handleProposeDecisions();
+    }
+  }, [gameEnded, canEdit]);
+
   const fetchExistingRecords = async () => {
     try {
       const { data, error } = await supabase
@@ -100,11 +126,99 @@ export default function PitchingRecordInput({
       if (data) {
         setExistingRecords(data);
       }
+
+      const events = await fetchGameEvents(supabase, gameId);
+      const changes = filterPitchingChanges(events);
+      setHasPitchingLog(changes.length > 0);
+      setCurrentPitcherId(changes[changes.length - 1]?.payload.pitcherId || null);
+      setDerivedPitcherIds(Object.keys(replayGame(events).pitcherStats));
     } catch (error) {
       console.error("投手記録取得エラー:", error);
     }
   };
 
+  // 選択した投手を登板させる（投手交代を記録）
+  const handlePitchingChange = async () => {
+    const pitcher = players.find((p) => p.id === selectedPitcher);
+    if (!pitcher || !currentInning) return;
+
+    setLoading(true);
+    setMessage(null);
+    try {
+      await recordPitchingChange(
+        supabase,
+        gameId,
+        currentInning,
+        pitcher.id,
+        pitcher.player_name
+      );
+      await syncPitchingRunsFromEvents(supabase, gameId);
+      setMessage({
+        type: "success",
+        text: `${currentInning}回から${pitcher.player_name}が登板しました`,
+      });
+      setSelectedPitcher("");
+      await fetchExistingRecords();
+      if (onRecordSaved) onRecordSaved();
+    } catch (error) {
+      console.error("投手交代エラー:", error);
+      setMessage({ type: "error", text: "投手交代の記録に失敗しました" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // イベントログから失点・自責点を再計算
+  const handleSyncRuns = async () => {
+    setLoading(true);
+    try {
+      await syncPitchingRunsFromEvents(supabase, gameId);
+      setMessage({ type: "success", text: "失点・自責点を再計算しました" });
+      await fetchExistingRecords();
+      if (onRecordSaved) onRecordSaved();
+    } catch (error) {
+      console.error("失点計算エラー:", error);
+      setMessage({ type: "error", text: "失点・自責点の計算に失敗しました" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 勝敗・セーブの自動判定
+  const handleProposeDecisions = async () => {
+    try {
+      setDecision(await proposePitchingDecisions(supabase, gameId));
+    } catch (error) {
+      console.error("勝敗判定エラー:", error);
+      setMessage({ type: "error", text: "勝敗・セーブの判定に失敗しました" });
+    }
+  };
+
+  const handleApplyDecisions = async () => {
+    if (!decision) return;
+
+    setLoading(true);
+    try {
+      await applyPitchingDecisions(supabase, gameId, decision);
+      // 勝利・セーブの記録を再判定（試合終了後のみ）
+      await recordGameAchievements(supabase, gameId);
+      setMessage({ type: "success", text: "勝敗・セーブを登録しました" });
+      setDecision(null);
+      await fetchExistingRecords();
+      if (onRecordSaved) onRecordSaved();
+    } catch (error) {
+      console.error("勝敗登録エラー:", error);
+      setMessage({ type: "error", text: "勝敗・セーブの登録に失敗しました" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isDerivedPitcher = derivedPitcherIds.includes(selectedPitcher);
+
+  const getPlayerName = (playerId: string | null) =>
+    players.find((p) => p.id === playerId)?.player_name || "－";
+
   const handleInningsPitchedChange = (value: string) => {
     const floatValue = parseFloat(value);
     if (isNaN(floatValue) || floatValue < 0) return;
@@ -159,6 +273,11 @@ export default function PitchingRecordInput({
         setMessage({ type: "success", text: "投手記録を保存しました" });
       }
 
+      // 手入力より自動計算の失点・自責点（相手打席の記録があれば被安打なども）を優先
+      if (hasPitchingLog) {
+        await syncPitchingRunsFromEvents(supabase, gameId);
+      }
+
       // リセット
       setSelectedPitcher("");
       setPitchingData({
@@ -245,6 +364,41 @@ export default function PitchingRecordInput({
           </Alert>
         )}
 
+        {/* 勝敗・セーブの判定結果（確認後に登録） */}
+        {decision && (
+          <div className="p-3 border border-blue-200 bg-blue-50 rounded space-y-2">
+            <h4 className="font-medium">勝敗・セーブの判定</h4>
+            <div className="text-sm flex gap-4">
+              <span>勝: {getPlayerName(decision.winPitcherId)}</span>
+              <span>負: {getPlayerName(decision.lossPitcherId)}</span>
+              <span>S: {getPlayerName(decision.savePitcherId)}</span>
+            </div>
+            <ul className="text-xs text-gray-600 list-disc pl-4">
+              {decision.reasons.map((reason, i) => (
+                <li key={i}>{reason}</li>
+              ))}
+            </ul>
+            {canEdit && (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={handleApplyDecisions}
+                  disabled={loading}
+                >
+                  この内容で登録
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setDecision(null)}
+                >
+                  閉じる
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* 既存記録の表示 */}
         {existingRecords.length > 0 && (
           <div className="space-y-2 mb-4">
@@ -258,6 +412,9 @@ export default function PitchingRecordInput({
                 >
                   <div className="text-sm">
                     <span className="font-medium">{player?.player_name}</span>
+                    {record.player_id === currentPitcherId && (
+                      <span className="ml-2 text-xs text-blue-600">登板中</span>
+                    )}
                     <span className="ml-2 text-gray-600">
                       {formatInningsPitched(record.innings_pitched)}回 被安打
                       {record.hits_allowed} 失点{record.runs_allowed}
@@ -331,6 +488,34 @@ export default function PitchingRecordInput({
               </Select>
             </div>
 
+            {/* 登板・投手交代 */}
+            {currentInning && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handlePitchingChange}
+                  disabled={
+                    loading ||
+                    !selectedPitcher ||
+                    selectedPitcher === currentPitcherId
+                  }
+                >
+                  {currentPitcherId
+                    ? `${currentInning}回から投手交代`
+                    : `${currentInning}回から登板`}
+                </Button>
+                {hasPitchingLog && (
+                  <Button
+                    variant="ghost"
+                    onClick={handleSyncRuns}
+                    disabled={loading}
+                  >
+                    失点を再計算
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* 成績入力フォーム */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div>
@@ -338,6 +523,7 @@ export default function PitchingRecordInput({
                 <Input
                   id="innings"
                   type="number"
+                  disabled={isDerivedPitcher}
                   step="0.1"
                   min="0"
                   value={pitchingData.innings_pitched}
@@ -345,7 +531,9 @@ export default function PitchingRecordInput({
                   placeholder="0.0"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  小数点以下: .1=1アウト、.2=2アウト（3アウトで次の回へ）
+                  {isDerivedPitcher
+                    ? "相手チームの打席記録から自動計算"
+                    : "小数点以下: .1=1アウト、.2=2アウト（3アウトで次の回へ）"}
                 </p>
               </div>
               <div>
@@ -353,6 +541,7 @@ export default function PitchingRecordInput({
                 <Input
                   id="hits"
                   type="number"
+                  disabled={isDerivedPitcher}
                   min="0"
                   value={pitchingData.hits_allowed}
                   onChange={(e) =>
@@ -370,6 +559,7 @@ export default function PitchingRecordInput({
                   type="number"
                   min="0"
                   value={pitchingData.runs_allowed}
+                  disabled={hasPitchingLog}
                   onChange={(e) =>
                     setPitchingData((prev) => ({
                       ...prev,
@@ -385,6 +575,7 @@ export default function PitchingRecordInput({
                   type="number"
                   min="0"
                   value={pitchingData.earned_runs}
+                  disabled={hasPitchingLog}
                   onChange={(e) =>
                     setPitchingData((prev) => ({
                       ...prev,
@@ -392,12 +583,18 @@ export default function PitchingRecordInput({
                     }))
                   }
                 />
+                {hasPitchingLog && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    投手交代の記録から自動計算
+                  </p>
+                )}
               </div>
               <div>
                 <Label htmlFor="strikeouts">奪三振</Label>
                 <Input
                   id="strikeouts"
                   type="number"
+                  disabled={isDerivedPitcher}
                   min="0"
                   value={pitchingData.strikeouts}
                   onChange={(e) =>
@@ -413,6 +610,7 @@ export default function PitchingRecordInput({
                 <Input
                   id="walks"
                   type="number"
+                  disabled={isDerivedPitcher}
                   min="0"
                   value={pitchingData.walks}
                   onChange={(e) =>
@@ -428,6 +626,7 @@ export default function PitchingRecordInput({
                 <Input
                   id="home_runs"
                   type="number"
+                  disabled={isDerivedPitcher}
                   min="0"
                   value={pitchingData.home_runs_allowed}
                   onChange={(e) =>
@@ -442,7 +641,16 @@ export default function PitchingRecordInput({
 
             {/* 勝敗・セーブ選択UI（追加） */}
             <div className="mt-4">
-              <Label>勝敗・セーブ</Label>
+              <div className="flex items-center justify-between">
+                <Label>勝敗・セーブ</Label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleProposeDecisions}
+                >
+                  自動判定
+                </Button>
+              </div>
               <div className="flex gap-4 mt-2">
                 <label className="flex items-center">
                   <input
@@ -4,6 +4,12 @@ import { useState, useEffect } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Trophy } from "lucide-react";
+import { getStrikePercentage } from "@/lib/pitch-count";
+import {
+  calculatePitchingMetrics,
+  formatDecimal,
+  sumPitchingRows,
+} from "@/lib/sabermetrics";
 
 interface PitchingStats {
   player_id: string;
@@ -16,24 +22,23 @@ interface PitchingStats {
   strikeouts: number;
   walks: number;
   home_runs_allowed: number;
-  era: number;
-  whip: number;
-  k_per_nine: number;
-  bb_per_nine: number;
+  pitches_thrown?: number;
+  strikes_thrown?: number;
 }
 
 interface Props {
   gameId: string;
+  refreshTrigger?: number;
 }
 
-export default function PitchingStatsDisplay({ gameId }: Props) {
+export default function PitchingStatsDisplay({ gameId, refreshTrigger }: Props) {
   const supabase = createClientComponentClient();
   const [pitchingStats, setPitchingStats] = useState<PitchingStats[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchPitchingStats();
-  }, [gameId]);
+  }, [gameId, refreshTrigger]);
 
   const fetchPitchingStats = async () => {
     try {
@@ -43,8 +48,26 @@ export default function PitchingStatsDisplay({ gameId }: Props) {
         .eq("game_id", gameId);
 
       if (error) throw error;
+
+      // 球数は投手記録から取得（1球ごとの入力をした場合のみ）
+      const { data: pitchCounts } = await supabase
+        .from("game_pitching_records")
+        .select("player_id, pitches_thrown, strikes_thrown")
+        .eq("game_id", gameId);
+
       if (data) {
-        setPitchingStats(data);
+        setPitchingStats(
+          data.map((stats) => {
+            const counts = pitchCounts?.find(
+              (c) => c.player_id === stats.player_id
+            );
+            return {
+              ...stats,
+              pitches_thrown: counts?.pitches_thrown || 0,
+              strikes_thrown: counts?.strikes_thrown || 0,
+            };
+          })
+        );
       }
     } catch (error) {
       console.error("投手成績取得エラー:", error);
@@ -81,6 +104,8 @@ export default function PitchingStatsDisplay({ gameId }: Props) {
     );
   }
 
+  const hasPitchCounts = pitchingStats.some((s) => (s.pitches_thrown || 0) > 0);
+
   return (
     <Card>
       <CardHeader>
@@ -102,12 +127,25 @@ export default function PitchingStatsDisplay({ gameId }: Props) {
                 <th className="text-center py-2 px-2 font-medium">奪三振</th>
                 <th className="text-center py-2 px-2 font-medium">与四球</th>
                 <th className="text-center py-2 px-2 font-medium">被本塁打</th>
+                {hasPitchCounts && (
+                  <>
+                    <th className="text-center py-2 px-2 font-medium">球数</th>
+                    <th className="text-center py-2 px-2 font-medium">
+                      ストライク率
+                    </th>
+                  </>
+                )}
                 <th className="text-center py-2 px-2 font-medium">防御率</th>
                 <th className="text-center py-2 px-2 font-medium">WHIP</th>
               </tr>
             </thead>
             <tbody>
-              {pitchingStats.map((stats, index) => (
+              {pitchingStats.map((stats, index) => {
+                // 防御率・WHIP はビューの値ではなく計数から計算
+                const metrics = calculatePitchingMetrics(
+                  sumPitchingRows([stats])
+                );
+                return (
   <tr key={`${stats.player_id}-${index}`} className="border-b hover:bg-gray-50">
                   <td className="py-2 px-2 font-medium">{stats.player_name}</td>
                   <td className="text-center py-2 px-2">
@@ -119,14 +157,29 @@ export default function PitchingStatsDisplay({ gameId }: Props) {
                   <td className="text-center py-2 px-2">{stats.strikeouts}</td>
                   <td className="text-center py-2 px-2">{stats.walks}</td>
                   <td className="text-center py-2 px-2">{stats.home_runs_allowed}</td>
+                  {hasPitchCounts && (
+                    <>
+                      <td className="text-center py-2 px-2">
+                        {stats.pitches_thrown}
+                      </td>
+                      <td className="text-center py-2 px-2">
+                        {getStrikePercentage(
+                          stats.pitches_thrown || 0,
+                          stats.strikes_thrown || 0
+                        )}
+                        %
+                      </td>
+                    </>
+                  )}
                   <td className="text-center py-2 px-2 font-semibold">
-                    {stats.era.toFixed(2)}
+                    {formatDecimal(metrics.era)}
                   </td>
                   <td className="text-center py-2 px-2">
-                    {stats.whip.toFixed(2)}
+                    {formatDecimal(metrics.whip)}
                   </td>
                 </tr>
-              ))}
+                );
+              })}
             </tbody>
           </table>
         </div>
@@ -136,7 +189,7 @@ export default function PitchingStatsDisplay({ gameId }: Props) {
           <div className="space-y-1">
             <div>
               <span className="font-medium">防御率 (ERA)</span>: 
-              9イニングあたりの自責点 (低いほど良い)
+              7イニング（規定の試合回数）あたりの自責点 (低いほど良い)
             </div>
             <div>
               <span className="font-medium">WHIP</span>: 
@@ -188,6 +241,17 @@ export default function PitchingStatsDisplay({ gameId }: Props) {
                   {pitchingStats.reduce((sum, s) => sum + s.runs_allowed, 0)}
                 </span>
               </div>
+              {hasPitchCounts && (
+                <div>
+                  <span className="text-gray-600">球数: </span>
+                  <span className="font-medium">
+                    {pitchingStats.reduce(
+                      (sum, s) => sum + (s.pitches_thrown || 0),
+                      0
+                    )}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -2,6 +2,13 @@
 
 import { useState, useEffect } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { appendGameEvent, fetchGameRules } from "@/lib/game-logic";
+import {
+  GameRules,
+  normalizeGameRules,
+  validateSubstitution,
+} from "@/lib/game-rules";
+import { describeAttendance, isBeforeArrival } from "@/lib/attendance";
 
 interface GamePlayer {
   id: string;
@@ -26,6 +33,12 @@ interface Substitution {
   description: string;
 }
 
+interface LateArrival {
+  team_member_id: string;
+  status: string;
+  arrival_time: string | null;
+}
+
 interface Props {
   gameId: string;
   currentInning: number;
@@ -64,14 +77,24 @@ export default function PlayerSubstitution({
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState("");
   const [showHistory, setShowHistory] = useState(false);
+  const [rules, setRules] = useState<GameRules>(normalizeGameRules());
+  const [gameDate, setGameDate] = useState<string | null>(null);
+  const [lateArrivals, setLateArrivals] = useState<LateArrival[]>([]);
 
   // 選手データの取得
   useEffect(() => {
-    fetchPlayers();
-    fetchSubstitutions();
+    loadData();
   }, [gameId]);
 
-  const fetchPlayers = async () => {
+  const loadData = async () => {
+    const gameRules = await fetchGameRules(supabase, gameId);
+    setRules(gameRules);
+    await fetchPlayers(gameRules);
+    await fetchSubstitutions();
+    await fetchLateArrivals();
+  };
+
+  const fetchPlayers = async (gameRules: GameRules = rules) => {
     try {
       const { data, error } = await supabase
         .from("game_players")
@@ -84,9 +107,11 @@ export default function PlayerSubstitution({
       }
 
       if (data) {
-        // 出場中の選手と控え選手を分ける
+        // 出場中の選手と控え選手を分ける（再出場自由なら退いた先発も控えに含める）
         const active = data.filter(p => p.is_active);
-        const bench = data.filter(p => !p.is_active && !p.is_starter);
+        const bench = data.filter(
+          p => !p.is_active && (!p.is_starter || gameRules.freeReentry)
+        );
         
         setActivePlayers(active.sort((a, b) => (a.batting_order || 99) - (b.batting_order || 99)));
         setBenchPlayers(bench);
@@ -112,6 +137,56 @@ export default function PlayerSubstitution({
     }
   };
 
+  // 遅刻の出席者の到着予定（到着前に交代で入れるときに確認する）
+  const fetchLateArrivals = async () => {
+    try {
+      const { data: game } = await supabase
+        .from("games")
+        .select("game_date")
+        .eq("id", gameId)
+        .single();
+      setGameDate(game?.game_date || null);
+
+      const { data, error } = await supabase
+        .from("game_attendances")
+        .select("team_member_id, status, arrival_time")
+        .eq("game_id", gameId)
+        .eq("status", "late")
+        .not("team_member_id", "is", null);
+
+      if (error) {
+        console.error("出欠取得エラー:", error);
+        return;
+      }
+
+      setLateArrivals(data || []);
+    } catch (error) {
+      console.error("出欠取得エラー:", error);
+    }
+  };
+
+  // まだ到着していない遅刻の出席者か（試合当日のみ現在時刻で判定）
+  const findPendingArrival = (player: GamePlayer) => {
+    const attendance = lateArrivals.find(
+      a => a.team_member_id === player.team_member_id
+    );
+    if (!attendance || !gameDate) return null;
+
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const today = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(
+      now.getDate()
+    )}`;
+    if (gameDate !== today) return null;
+
+    return isBeforeArrival(
+      attendance,
+      `${pad(now.getHours())}:${pad(now.getMinutes())}`
+    )
+      ? attendance
+      : null;
+  };
+
   // 選手交代の実行
   const handleSubstitution = async () => {
     if (!selectedOutPlayer || !selectedInPlayer || !canEdit) return;
@@ -128,6 +203,30 @@ export default function PlayerSubstitution({
         return;
       }
 
+      // 再出場の可否をルールで確認
+      const reentryError = validateSubstitution(
+        rules,
+        inPlayer.id,
+        substitutions.map(s => s.out_player_id)
+      );
+      if (reentryError) {
+        setMessage(reentryError);
+        return;
+      }
+
+      // 到着予定より前の遅刻の選手を入れる場合は確認する
+      const pendingArrival = findPendingArrival(inPlayer);
+      if (
+        pendingArrival &&
+        !confirm(
+          `${inPlayer.player_name}さんは${describeAttendance(
+            pendingArrival
+          )}です。交代で入れますか？`
+        )
+      ) {
+        return;
+      }
+
       // 交代記録を保存
       const substitutionRecord: Omit<Substitution, 'id'> = {
         game_id: gameId,
@@ -182,6 +281,16 @@ export default function PlayerSubstitution({
         return;
       }
 
+      await appendGameEvent(supabase, gameId, currentInning, "substitution", {
+        outPlayerId: outPlayer.id,
+        outPlayerName: outPlayer.player_name,
+        inPlayerId: inPlayer.id,
+        inPlayerName: inPlayer.player_name,
+        battingOrder: outPlayer.batting_order,
+        position: newPosition || outPlayer.position,
+        substitutionType,
+      });
+
       // 成功メッセージ
       setMessage("選手交代を完了しました");
       resetForm();
@@ -352,11 +461,17 @@ export default function PlayerSubstitution({
                 disabled={benchPlayers.length === 0}
               >
                 <option value="">選択してください</option>
-                {benchPlayers.map((player) => (
-                  <option key={player.id} value={player.id}>
-                    {player.player_name}
-                  </option>
-                ))}
+                {benchPlayers.map((player) => {
+                  const pendingArrival = findPendingArrival(player);
+                  return (
+                    <option key={player.id} value={player.id}>
+                      {player.player_name}
+                      {pendingArrival
+                        ? ` (${describeAttendance(pendingArrival)})`
+                        : ""}
+                    </option>
+                  );
+                })}
               </select>
             </div>
           </div>
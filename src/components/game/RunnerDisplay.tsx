@@ -2,6 +2,17 @@
 
 import { useEffect, useState } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import {
+  appendGameEvent,
+  recordRunnerAdvance,
+  recordWildPitch,
+} from "@/lib/game-logic";
+import {
+  getBatterBase,
+  getDefaultAdvances,
+  RunnerOverrides,
+  validateRunnerMoves,
+} from "@/lib/baserunning-rules";
 
 interface Runner {
   id: string;
@@ -11,31 +22,116 @@ interface Runner {
   player_name: string;
   current_base: number;
   is_active: boolean;
+  is_tiebreak_runner?: boolean; // タイブレークで置かれた走者
   created_at?: string;
   updated_at?: string;
 }
 
+// 進塁先の確認待ちの打席結果
+interface PendingPlay {
+  result: string;
+  baseReached: number;
+  batterName: string;
+  isError?: boolean;
+}
+
 interface Props {
   gameId: string;
   currentInning: number;
+  isTopBottom: "top" | "bottom";
   onRunnerUpdate?: () => void;
+  // 盗塁死で3アウトになったとき（BattingRecordInput の onInningChange と同じ）
+  onInningOver?: (newInning: number, newTopBottom: "top" | "bottom") => void;
   refreshTrigger?: number;
+  pendingPlay?: PendingPlay | null;
+  onPlayConfirm?: (overrides: RunnerOverrides) => void;
+  onPlayCancel?: () => void;
 }
 
+const BASE_LABELS: Record<number, string> = {
+  0: "アウト",
+  1: "一塁",
+  2: "二塁",
+  3: "三塁",
+  4: "本塁（得点）",
+};
+
 export default function RunnerDisplay({
   gameId,
   currentInning,
+  isTopBottom,
   onRunnerUpdate,
+  onInningOver,
   refreshTrigger,
+  pendingPlay,
+  onPlayConfirm,
+  onPlayCancel,
 }: Props) {
   const supabase = createClientComponentClient();
   const [runners, setRunners] = useState<Runner[]>([]);
   const [loading, setLoading] = useState(true);
+  const [playSelections, setPlaySelections] = useState<RunnerOverrides>({});
+  const [playError, setPlayError] = useState("");
 
   useEffect(() => {
     fetchRunners();
   }, [gameId, currentInning, refreshTrigger]);
 
+  // 確認待ちの打席結果が来たら既定の進塁先をセット
+  useEffect(() => {
+    if (!pendingPlay) return;
+
+    const baseRunners = toBaseRunners();
+    const defaults = getDefaultAdvances(
+      baseRunners,
+      pendingPlay.result,
+      getBatterBase(
+        pendingPlay.result,
+        pendingPlay.baseReached,
+        pendingPlay.isError
+      ),
+      pendingPlay.isError
+    );
+    const selections: RunnerOverrides = {};
+    baseRunners.forEach((runner) => {
+      selections[runner.id!] = defaults.get(runner) ?? runner.base;
+    });
+    setPlaySelections(selections);
+    setPlayError("");
+  }, [pendingPlay, runners]);
+
+  const toBaseRunners = () =>
+    runners.map((r) => ({
+      id: r.id,
+      playerId: r.player_id,
+      playerName: r.player_name,
+      base: r.current_base,
+      isUnearned: !!r.is_tiebreak_runner,
+      isTiebreakRunner: !!r.is_tiebreak_runner,
+    }));
+
+  const handlePlayConfirm = () => {
+    if (!pendingPlay) return;
+
+    const error = validateRunnerMoves(
+      toBaseRunners(),
+      playSelections,
+      pendingPlay.result,
+      getBatterBase(
+        pendingPlay.result,
+        pendingPlay.baseReached,
+        pendingPlay.isError
+      ),
+      pendingPlay.isError
+    );
+    if (error) {
+      setPlayError(error);
+      return;
+    }
+
+    if (onPlayConfirm) onPlayConfirm(playSelections);
+  };
+
   const fetchRunners = async () => {
     try {
       // アクティブなランナーを取得
@@ -89,15 +185,14 @@ export default function RunnerDisplay({
   ) => {
     try {
       // ランナーの位置を更新
-      const { error: updateError } = await supabase
-        .from("game_runners")
-        .update({
-          current_base: toBase,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", runnerId);
-
-      if (updateError) throw updateError;
+      await recordRunnerAdvance(
+        supabase,
+        gameId,
+        currentInning,
+        runnerId,
+        toBase,
+        "stolen_base"
+      );
 
       // 盗塁記録を更新（該当選手の最新打撃記録を更新）
       const runner = runners.find((r) => r.id === runnerId);
@@ -133,6 +228,52 @@ export default function RunnerDisplay({
     }
   };
 
+  const handleCaughtStealing = async (runnerId: string) => {
+    try {
+      const transition = await recordRunnerAdvance(
+        supabase,
+        gameId,
+        currentInning,
+        runnerId,
+        0,
+        "caught_stealing"
+      );
+
+      await fetchRunners();
+      if (onRunnerUpdate) onRunnerUpdate();
+
+      // 3アウトの場合はイニング交代（打席での3アウトと同じく自動の攻撃終了を記録）
+      if (transition.isInningOver) {
+        await appendGameEvent(supabase, gameId, currentInning, "inning_end", {
+          isTopBottom,
+          auto: true,
+        });
+        alert("スリーアウトチェンジ！");
+
+        if (onInningOver) {
+          const nextTopBottom = isTopBottom === "top" ? "bottom" : "top";
+          const nextInning =
+            isTopBottom === "bottom" ? currentInning + 1 : currentInning;
+          onInningOver(nextInning, nextTopBottom);
+        }
+      }
+    } catch (error) {
+      console.error("盗塁死記録エラー:", error);
+    }
+  };
+
+  const handleWildPitch = async () => {
+    try {
+      // 全ランナーが1つ進塁
+      await recordWildPitch(supabase, gameId, currentInning);
+
+      await fetchRunners();
+      if (onRunnerUpdate) onRunnerUpdate();
+    } catch (error) {
+      console.error("暴投記録エラー:", error);
+    }
+  };
+
   const handleAdvanceBase = async (
     runnerId: string,
     fromBase: number,
@@ -147,15 +288,7 @@ export default function RunnerDisplay({
       }
 
       // ランナーの位置を更新（盗塁記録なし）
-      const { error: updateError } = await supabase
-        .from("game_runners")
-        .update({
-          current_base: toBase,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", runnerId);
-
-      if (updateError) throw updateError;
+      await recordRunnerAdvance(supabase, gameId, currentInning, runnerId, toBase);
 
       await fetchRunners();
       if (onRunnerUpdate) onRunnerUpdate();
@@ -166,30 +299,8 @@ export default function RunnerDisplay({
 
   const handleScoreRun = async (runnerId: string) => {
     try {
-      // ランナーをホーム（得点）に更新
-      const { error: updateError } = await supabase
-        .from("game_runners")
-        .update({
-          current_base: 4,
-          is_active: false,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", runnerId);
-
-      if (updateError) throw updateError;
-
-      // 得点記録を更新
-      const runner = runners.find((r) => r.id === runnerId);
-      if (runner) {
-        const { error: recordError } = await supabase
-          .from("game_batting_records")
-          .update({ run_scored: true })
-          .eq("game_id", gameId)
-          .eq("player_id", runner.player_id)
-          .eq("inning", currentInning);
-
-        if (recordError) throw recordError;
-      }
+      // ランナーをホーム（得点）に更新（得点記録も更新される）
+      await recordRunnerAdvance(supabase, gameId, currentInning, runnerId, 4);
 
       await fetchRunners();
       if (onRunnerUpdate) onRunnerUpdate();
@@ -202,6 +313,14 @@ export default function RunnerDisplay({
     return runners.find((r) => r.current_base === base);
   };
 
+  // タイブレークで置かれた走者は色を変えて表示
+  const getRunnerBadgeClass = (base: number) =>
+    `${
+      getRunnerAtBase(base)?.is_tiebreak_runner
+        ? "bg-orange-500"
+        : "bg-blue-600"
+    } text-white px-3 py-1 rounded-full text-sm whitespace-nowrap mb-2`;
+
   if (loading) {
     return <div className="text-center py-4">読み込み中...</div>;
   }
@@ -210,6 +329,68 @@ export default function RunnerDisplay({
     <div className="bg-white p-6 rounded-lg shadow-sm">
       <h3 className="text-lg font-semibold mb-4">塁上のランナー</h3>
 
+      {/* 進塁先の確認（例外の入力） */}
+      {pendingPlay && (
+        <div className="mb-6 p-4 border-2 border-yellow-400 bg-yellow-50 rounded-lg">
+          <h4 className="font-semibold mb-1">
+            進塁先の確認：{pendingPlay.batterName} {pendingPlay.result}
+          </h4>
+          <p className="text-sm text-gray-600 mb-3">
+            既定の進塁先と異なる場合（本塁突入・走塁死など）は変更してください
+          </p>
+          {[...runners]
+            .sort((a, b) => b.current_base - a.current_base)
+            .map((runner) => (
+              <div key={runner.id} className="flex items-center gap-3 mb-2">
+                <span className="w-28 font-medium">{runner.player_name}</span>
+                <span className="text-sm text-gray-600">
+                  {BASE_LABELS[runner.current_base]} →
+                </span>
+                <select
+                  value={playSelections[runner.id] ?? runner.current_base}
+                  onChange={(e) =>
+                    setPlaySelections((prev) => ({
+                      ...prev,
+                      [runner.id]: Number(e.target.value),
+                    }))
+                  }
+                  className="px-2 py-1 border border-gray-300 rounded"
+                >
+                  {[runner.current_base, 1, 2, 3, 4, 0]
+                    .filter(
+                      (base, i, bases) =>
+                        bases.indexOf(base) === i &&
+                        (base === 0 || base >= runner.current_base)
+                    )
+                    .map((base) => (
+                      <option key={base} value={base}>
+                        {BASE_LABELS[base]}
+                        {base === runner.current_base && "（留まる）"}
+                      </option>
+                    ))}
+                </select>
+              </div>
+            ))}
+          {playError && (
+            <p className="text-sm text-red-600 mb-2">{playError}</p>
+          )}
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={handlePlayConfirm}
+              className="px-4 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              確定
+            </button>
+            <button
+              onClick={onPlayCancel}
+              className="px-4 py-1 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              キャンセル
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* ダイヤモンド型の塁表示 */}
       <div className="relative w-80 h-80 mx-auto">
         {/* ベースパス（線） */}
@@ -236,7 +417,7 @@ export default function RunnerDisplay({
           </div>
           {getRunnerAtBase(1) && (
             <div className="absolute -top-16 left-1/2 transform -translate-x-1/2">
-              <div className="bg-blue-600 text-white px-3 py-1 rounded-full text-sm whitespace-nowrap mb-2">
+              <div className={getRunnerBadgeClass(1)}>
                 {getRunnerAtBase(1)?.player_name}
               </div>
               <div className="flex flex-col gap-1">
@@ -256,6 +437,13 @@ export default function RunnerDisplay({
                 >
                   盗塁→二塁
                 </button>
+                <button
+                  onClick={() => handleCaughtStealing(getRunnerAtBase(1)!.id)}
+                  className="text-xs bg-gray-500 text-white px-2 py-1 rounded hover:bg-gray-600"
+                  title="盗塁失敗によるアウト"
+                >
+                  盗塁死
+                </button>
                 <button
                   onClick={() => handleScoreRun(getRunnerAtBase(1)!.id)}
                   className="text-xs bg-red-500 text-white px-2 py-1 rounded hover:bg-red-600"
@@ -275,7 +463,7 @@ export default function RunnerDisplay({
           </div>
           {getRunnerAtBase(2) && (
             <div className="absolute -top-20 left-1/2 transform -translate-x-1/2">
-              <div className="bg-blue-600 text-white px-3 py-1 rounded-full text-sm whitespace-nowrap mb-2">
+              <div className={getRunnerBadgeClass(2)}>
                 {getRunnerAtBase(2)?.player_name}
               </div>
               <div className="flex flex-col gap-1">
@@ -295,6 +483,13 @@ export default function RunnerDisplay({
                 >
                   盗塁→三塁
                 </button>
+                <button
+                  onClick={() => handleCaughtStealing(getRunnerAtBase(2)!.id)}
+                  className="text-xs bg-gray-500 text-white px-2 py-1 rounded hover:bg-gray-600"
+                  title="盗塁失敗によるアウト"
+                >
+                  盗塁死
+                </button>
                 <button
                   onClick={() => handleScoreRun(getRunnerAtBase(2)!.id)}
                   className="text-xs bg-red-500 text-white px-2 py-1 rounded hover:bg-red-600"
@@ -314,7 +509,7 @@ export default function RunnerDisplay({
           </div>
           {getRunnerAtBase(3) && (
             <div className="absolute -top-16 right-12">
-              <div className="bg-blue-600 text-white px-3 py-1 rounded-full text-sm whitespace-nowrap mb-2">
+              <div className={getRunnerBadgeClass(3)}>
                 {getRunnerAtBase(3)?.player_name}
               </div>
               <div className="flex flex-col gap-1">
@@ -331,6 +526,19 @@ export default function RunnerDisplay({
         </div>
       </div>
 
+      {/* 暴投・捕逸 */}
+      {runners.length > 0 && (
+        <div className="mt-6 text-center">
+          <button
+            onClick={handleWildPitch}
+            className="text-sm bg-yellow-500 text-white px-3 py-1 rounded hover:bg-yellow-600"
+            title="全ランナーが1つ進塁"
+          >
+            暴投・捕逸
+          </button>
+        </div>
+      )}
+
       {/* ランナー一覧（リスト形式） */}
       <div className="mt-6">
         <h4 className="text-sm font-medium text-gray-700 mb-2">現在の塁上</h4>
@@ -348,6 +556,11 @@ export default function RunnerDisplay({
                     {runner.current_base === 2 && "二塁"}
                     {runner.current_base === 3 && "三塁"}
                   </span>
+                  {runner.is_tiebreak_runner && (
+                    <span className="ml-2 text-xs text-orange-600">
+                      タイブレーク
+                    </span>
+                  )}
                 </li>
               ))}
           </ul>
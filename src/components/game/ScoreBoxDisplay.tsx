@@ -3,6 +3,14 @@
 import { useState, useEffect } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 import BattingInputModal from "@/components/game/BattingInputModal";
+import ScorebookSheet from "@/components/game/ScorebookSheet";
+import {
+  calculateBaseReached,
+  correctPlateAppearance,
+  fetchGameEvents,
+  syncPitchingRunsFromEvents,
+} from "@/lib/game-logic";
+import { ReplayedTiebreakRunner, replayGame } from "@/lib/game-events";
 
 interface GamePlayer {
   id: string;
@@ -23,6 +31,12 @@ interface BattingRecord {
   stolen_base: boolean;
   base_reached?: number;
   notes?: string;
+  hit_x?: number | null;
+  hit_y?: number | null;
+  hit_direction?: string | null;
+  hit_depth?: string | null;
+  batted_ball_type?: string | null;
+  created_at?: string;
 }
 
 interface PitchingRecord {
@@ -46,6 +60,7 @@ interface PitchingRecord {
 interface PlayerBattingBoxScore {
   player: GamePlayer;
   battingRecords: BattingRecord[];
+  tiebreakRunners: ReplayedTiebreakRunner[]; // タイブレークで置かれた回
   totalRbi: number;
   totalRuns: number;
   totalStolenBases: number;
@@ -206,9 +221,13 @@ export default function ScoreBoxDisplay({
   const [maxInnings, setMaxInnings] = useState(7);
   const [editingCell, setEditingCell] = useState<string | null>(null);
   const [editValue, setEditValue] = useState("");
+  // イベントログのある試合は打席の追加を打席結果の入力に限る
+  const [hasEventLog, setHasEventLog] = useState(false);
   const [loading, setLoading] = useState(true);
   // 入力モード管理
   const [inputMode, setInputMode] = useState<InputMode>("simple");
+  // スコアブック形式の表示（紙のスコアブックへの転記・印刷用）
+  const [showScorebook, setShowScorebook] = useState(false);
   const [showDetailedInput, setShowDetailedInput] = useState(false);
   const [detailedInputData, setDetailedInputData] =
     useState<DetailedInputData | null>(null);
@@ -485,92 +504,6 @@ export default function ScoreBoxDisplay({
     setShowDetailedInput(true);
   };
 
-  // 打撃結果保存（整合性維持付き）
-  const saveBattingWithIntegrity = async (
-    playerId: string,
-    inning: number,
-    result: string,
-    rbi: number,
-    baseReached: number,
-    runScored: boolean = false,
-    stolenBase: boolean = false,
-    notes: string = ""
-  ) => {
-    try {
-      // 既存レコードの確認
-      const existingRecord = battingRecords.find(
-        (r) => r.player_id === playerId && r.inning === inning
-      );
-
-      const battingData = {
-        game_id: gameId,
-        player_id: playerId,
-        inning,
-        result,
-        rbi,
-        run_scored: runScored,
-        stolen_base: stolenBase,
-        base_reached: baseReached,
-        notes: notes || null,
-      };
-
-      if (existingRecord) {
-        // 更新処理
-        await supabase
-          .from("game_batting_records")
-          .update(battingData)
-          .eq("id", existingRecord.id);
-      } else {
-        // 新規作成
-        await supabase.from("game_batting_records").insert([battingData]);
-      }
-
-      // ランナー管理（アウトでない場合）
-      const { isOutResult } = await import("@/lib/game-logic");
-
-      if (!isOutResult(result) || notes.includes("失策")) {
-        // 既存ランナーの進塁処理
-        const { advanceRunners } = await import("@/lib/game-logic");
-        await advanceRunners(supabase, gameId, inning, baseReached);
-
-        // 打者をランナーとして追加（ホームイン以外）
-        if (baseReached > 0 && baseReached < 4) {
-          // 既存の同じ選手のランナー記録を削除
-          await supabase
-            .from("game_runners")
-            .delete()
-            .eq("game_id", gameId)
-            .eq("player_id", playerId)
-            .eq("inning", inning);
-
-          // 新しいランナーとして追加
-          const player = players.find((p) => p.id === playerId);
-          await supabase.from("game_runners").insert([
-            {
-              game_id: gameId,
-              player_id: playerId,
-              player_name: player?.player_name || "",
-              inning,
-              current_base: baseReached,
-              is_active: true,
-            },
-          ]);
-        }
-      }
-
-      // 得点の更新
-      await updateGameScore();
-
-      // データ再取得
-      await fetchData();
-
-      return true;
-    } catch (error) {
-      console.error("保存エラー:", error);
-      return false;
-    }
-  };
-
   const handleSavePitching = async () => {
     if (!selectedPitcherId && !editingPitching) {
       alert("投手を選択してください");
@@ -641,6 +574,9 @@ export default function ScoreBoxDisplay({
         console.log("追加成功:", data);
       }
 
+      // 投手交代の記録があれば失点・自責点は自動計算で上書き
+      await syncPitchingRunsFromEvents(supabase, gameId);
+
       await fetchData();
       setShowPitchingModal(false);
       setEditingPitching(null);
@@ -704,69 +640,6 @@ export default function ScoreBoxDisplay({
     setNewPitchingData((prev) => ({ ...prev, innings_pitched: finalValue }));
   };
 
-  // 打点の自動計算
-  const calculateAutoRbi = async (
-    result: string,
-    inning: number
-  ): Promise<number> => {
-    if (!["安打", "二塁打", "三塁打", "本塁打", "犠飛"].includes(result)) {
-      return 0;
-    }
-
-    // 現在のランナーで得点圏（2塁・3塁）にいる人数を取得
-    const { data: runners } = await supabase
-      .from("game_runners")
-      .select("*")
-      .eq("game_id", gameId)
-      .eq("inning", inning)
-      .eq("is_active", true)
-      .in("current_base", [2, 3]);
-
-    const scoringPositionRunners = runners?.length || 0;
-
-    // 打撃結果に応じた打点計算
-    switch (result) {
-      case "本塁打":
-        // 本塁打は全ランナー+打者
-        const { data: allRunners } = await supabase
-          .from("game_runners")
-          .select("*")
-          .eq("game_id", gameId)
-          .eq("inning", inning)
-          .eq("is_active", true);
-        return (allRunners?.length || 0) + 1;
-
-      case "三塁打":
-        // 三塁打は全ランナーがホームイン
-        const { data: allRunnersForTriple } = await supabase
-          .from("game_runners")
-          .select("*")
-          .eq("game_id", gameId)
-          .eq("inning", inning)
-          .eq("is_active", true);
-        return allRunnersForTriple?.length || 0;
-
-      case "二塁打":
-        // 二塁打は2塁・3塁のランナーがホームイン
-        return scoringPositionRunners;
-
-      case "安打":
-      case "犠飛":
-        // 安打・犠飛は3塁ランナーのみホームイン
-        const { data: thirdBaseRunner } = await supabase
-          .from("game_runners")
-          .select("*")
-          .eq("game_id", gameId)
-          .eq("inning", inning)
-          .eq("is_active", true)
-          .eq("current_base", 3);
-        return thirdBaseRunner ? 1 : 0;
-
-      default:
-        return 0;
-    }
-  };
-
   // 得点の自動計算と反映
   const updateTeamScores = async () => {
     try {
@@ -877,39 +750,6 @@ export default function ScoreBoxDisplay({
     }
   };
 
-  // ゲームスコアの更新
-  const updateGameScore = async () => {
-    try {
-      // 全イニングの得点を集計
-      const { data: allScores } = await supabase
-        .from("game_scores")
-        .select("*")
-        .eq("game_id", gameId);
-
-      if (allScores) {
-        const homeTotal = allScores.reduce(
-          (sum, s) => sum + (s.top_score || 0),
-          0
-        );
-        const opponentTotal = allScores.reduce(
-          (sum, s) => sum + (s.bottom_score || 0),
-          0
-        );
-
-        await supabase
-          .from("games")
-          .update({
-            home_score: homeTotal,
-            opponent_score: opponentTotal,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", gameId);
-      }
-    } catch (error) {
-      console.error("スコア更新エラー:", error);
-    }
-  };
-
   useEffect(() => {
     fetchData();
     fetchTeamMembers(); // チームメンバー取得を追加
@@ -1026,9 +866,16 @@ export default function ScoreBoxDisplay({
         setPitchingRecords(pitchingData);
       }
 
+      // タイブレークで置かれた走者（打撃記録がないためイベントログから取得）
+      const events = await fetchGameEvents(supabase, gameId);
+      setHasEventLog(events.length > 0);
+      const tiebreakRunners = replayGame(events).tiebreakRunners.filter(
+        (r) => !r.isOpponent
+      );
+
       // ボックススコアを生成
       if (playersData && battingData) {
-        generateBoxScores(playersData, battingData);
+        generateBoxScores(playersData, battingData, tiebreakRunners);
       }
     } catch (error) {
       console.error("データ取得エラー:", error);
@@ -1039,7 +886,8 @@ export default function ScoreBoxDisplay({
 
   const generateBoxScores = (
     playersData: GamePlayer[],
-    battingData: BattingRecord[]
+    battingData: BattingRecord[],
+    tiebreakRunners: ReplayedTiebreakRunner[] = []
   ) => {
     // 空の選手データも含めて処理
     const processedPlayers = playersData.length > 0 ? playersData : players; // 既にセットされた空の選手データを使用
@@ -1051,12 +899,18 @@ export default function ScoreBoxDisplay({
         const playerRecords = battingData.filter(
           (r) => r.player_id === player.id
         );
+        const placedRunners = tiebreakRunners.filter(
+          (r) => r.playerId === player.id
+        );
 
         return {
           player,
           battingRecords: playerRecords,
+          tiebreakRunners: placedRunners,
           totalRbi: playerRecords.reduce((sum, r) => sum + r.rbi, 0),
-          totalRuns: playerRecords.filter((r) => r.run_scored).length,
+          totalRuns:
+            playerRecords.filter((r) => r.run_scored).length +
+            placedRunners.filter((r) => r.runScored).length,
           totalStolenBases: playerRecords.filter((r) => r.stolen_base).length,
           totalErrors: calculateErrors(playerRecords), // エラー数を自動計算
         };
@@ -1127,10 +981,25 @@ export default function ScoreBoxDisplay({
         if (field === "result") updateData.result = editValue;
         if (field === "rbi") updateData.rbi = parseInt(editValue) || 0;
 
-        await supabase
-          .from("game_batting_records")
-          .update(updateData)
-          .eq("id", existingRecord.id);
+        // 訂正イベントを追記してログから再構築する
+        const corrected = await correctPlateAppearance(
+          supabase,
+          gameId,
+          existingRecord.id,
+          field === "result"
+            ? { result: editValue, baseReached: calculateBaseReached(editValue) }
+            : { rbi: updateData.rbi }
+        );
+        if (!corrected) {
+          // ログ導入前の記録はテーブルを直接更新
+          await supabase
+            .from("game_batting_records")
+            .update(updateData)
+            .eq("id", existingRecord.id);
+        }
+      } else if (editValue && hasEventLog) {
+        // ログに対応する打席がない記録は再構築で消えるため追加しない
+        alert("打席の追加は詳細入力から行ってください");
       } else if (editValue) {
         const newRecord: any = {
           game_id: gameId,
@@ -1190,8 +1059,14 @@ export default function ScoreBoxDisplay({
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="bg-gray-100 px-4 py-2 border-b flex justify-between items-center">
           <h3 className="font-bold text-lg">打撃成績</h3>
-          {isEditable && (
-            <div className="flex gap-2">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowScorebook(!showScorebook)}
+              className="px-3 py-1 text-sm bg-gray-600 text-white rounded hover:bg-gray-700"
+            >
+              {showScorebook ? "成績表に戻る" : "スコアブック"}
+            </button>
+            {isEditable && !showScorebook && (
               <button
                 onClick={() =>
                   setInputMode(inputMode === "detailed" ? "simple" : "detailed")
@@ -1200,200 +1075,223 @@ export default function ScoreBoxDisplay({
               >
                 {inputMode === "detailed" ? "簡易編集" : "詳細入力"}
               </button>
-            </div>
-          )}
+            )}
+          </div>
         </div>
-        <div className="overflow-x-auto">
-          <table className="min-w-full">
-            <thead>
-              <tr className="bg-gray-50 border-b">
-                <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
-                  打順
-                </th>
-                <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
-                  守備
-                </th>
-                <th className="px-3 py-2 text-xs font-medium text-gray-700 text-left">
-                  選手名
-                </th>
-                {[...Array(maxInnings)].map((_, i) => (
-                  <th
-                    key={i}
-                    className="px-2 py-2 text-xs font-medium text-gray-700 text-center min-w-[3rem]"
-                  >
-                    {i + 1}
+        {showScorebook ? (
+          <ScorebookSheet
+            gameId={gameId}
+            players={players}
+            battingRecords={battingRecords}
+            minInnings={maxInnings}
+          />
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full">
+              <thead>
+                <tr className="bg-gray-50 border-b">
+                  <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
+                    打順
                   </th>
-                ))}
-                <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
-                  打点
-                </th>
-                <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
-                  盗塁
-                </th>
-                <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
-                  得点
-                </th>
-                <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
-                  失策
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {boxScores.map((boxScore, idx) => (
-                <tr
-                  key={boxScore.player.id}
-                  className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
-                >
-                  <td className="px-2 py-2 text-center font-medium text-sm">
-                    {boxScore.player.batting_order}
-                  </td>
-                  {/* 守備位置 - 編集可能 */}
-                  <td
-                    className={`px-2 py-2 text-center text-sm ${
-                      isEditable ? "cursor-pointer hover:bg-gray-100" : ""
-                    }`}
-                    onClick={() =>
-                      isEditable &&
-                      handleCellEdit(boxScore.player.id, 0, "position")
-                    }
+                  <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
+                    守備
+                  </th>
+                  <th className="px-3 py-2 text-xs font-medium text-gray-700 text-left">
+                    選手名
+                  </th>
+                  {[...Array(maxInnings)].map((_, i) => (
+                    <th
+                      key={i}
+                      className="px-2 py-2 text-xs font-medium text-gray-700 text-center min-w-[3rem]"
+                    >
+                      {i + 1}
+                    </th>
+                  ))}
+                  <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
+                    打点
+                  </th>
+                  <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
+                    盗塁
+                  </th>
+                  <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
+                    得点
+                  </th>
+                  <th className="px-2 py-2 text-xs font-medium text-gray-700 text-center">
+                    失策
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {boxScores.map((boxScore, idx) => (
+                  <tr
+                    key={boxScore.player.id}
+                    className={idx % 2 === 0 ? "bg-white" : "bg-gray-50"}
                   >
-                    {editingCell === `${boxScore.player.id}-0-position` ? (
-                      <select
-                        value={editValue}
-                        onChange={(e) => setEditValue(e.target.value)}
-                        onBlur={saveEdit}
-                        onClick={(e) => e.stopPropagation()}
-                        onKeyPress={(e) => {
-                          if (e.key === "Enter") {
-                            e.preventDefault();
-                            saveEdit();
-                          }
-                        }}
-                        className="w-full px-1 text-center text-sm border border-gray-300 rounded"
-                        autoFocus
-                      >
-                        <option value="">-</option>
-                        <option value="pitcher">投</option>
-                        <option value="catcher">捕</option>
-                        <option value="first">一</option>
-                        <option value="second">二</option>
-                        <option value="third">三</option>
-                        <option value="shortstop">遊</option>
-                        <option value="left">左</option>
-                        <option value="center">中</option>
-                        <option value="right">右</option>
-                        <option value="dh">DH</option>
-                      </select>
-                    ) : boxScore.player.position ? (
-                      POSITION_MAP[boxScore.player.position] ||
-                      boxScore.player.position
-                    ) : (
-                      "-"
-                    )}
-                  </td>
-                  <td
-                    className={`px-3 py-2 text-sm font-medium ${
-                      !boxScore.player.player_name && isEditable
-                        ? "cursor-pointer hover:bg-gray-100"
-                        : ""
-                    }`}
-                    onClick={() => {
-                      if (isEditable && !boxScore.player.player_name) {
-                        setEditingPlayer(boxScore.player);
-                        setShowPlayerAddModal(true);
+                    <td className="px-2 py-2 text-center font-medium text-sm">
+                      {boxScore.player.batting_order}
+                    </td>
+                    {/* 守備位置 - 編集可能 */}
+                    <td
+                      className={`px-2 py-2 text-center text-sm ${
+                        isEditable ? "cursor-pointer hover:bg-gray-100" : ""
+                      }`}
+                      onClick={() =>
+                        isEditable &&
+                        handleCellEdit(boxScore.player.id, 0, "position")
                       }
-                    }}
-                  >
-                    {boxScore.player.player_name ||
-                      (isEditable ? (
-                        <span className="text-gray-400">
-                          クリックして選手追加
-                        </span>
+                    >
+                      {editingCell === `${boxScore.player.id}-0-position` ? (
+                        <select
+                          value={editValue}
+                          onChange={(e) => setEditValue(e.target.value)}
+                          onBlur={saveEdit}
+                          onClick={(e) => e.stopPropagation()}
+                          onKeyPress={(e) => {
+                            if (e.key === "Enter") {
+                              e.preventDefault();
+                              saveEdit();
+                            }
+                          }}
+                          className="w-full px-1 text-center text-sm border border-gray-300 rounded"
+                          autoFocus
+                        >
+                          <option value="">-</option>
+                          <option value="pitcher">投</option>
+                          <option value="catcher">捕</option>
+                          <option value="first">一</option>
+                          <option value="second">二</option>
+                          <option value="third">三</option>
+                          <option value="shortstop">遊</option>
+                          <option value="left">左</option>
+                          <option value="center">中</option>
+                          <option value="right">右</option>
+                          <option value="dh">DH</option>
+                        </select>
+                      ) : boxScore.player.position ? (
+                        POSITION_MAP[boxScore.player.position] ||
+                        boxScore.player.position
                       ) : (
                         "-"
-                      ))}
-                  </td>
-                  {[...Array(maxInnings)].map((_, inning) => {
-                    const record = boxScore.battingRecords.find(
-                      (r) => r.inning === inning + 1
-                    );
-                    const cellKey = `${boxScore.player.id}-${
-                      inning + 1
-                    }-result`;
-                    const isEditing = editingCell === cellKey;
-
-                    return (
-                      <td
-                        key={inning}
-                        className={`px-1 py-1 text-center text-xs border-l cursor-pointer hover:bg-gray-100 ${
-                          record
-                            ? getResultStyle(record.result, record.notes)
-                            : ""
-                        }`}
-                        onClick={() => {
-                          if (inputMode === "detailed") {
-                            openDetailedInput(boxScore.player.id, inning + 1);
-                          } else {
-                            handleCellEdit(
-                              boxScore.player.id,
-                              inning + 1,
-                              "result"
-                            );
-                          }
-                        }}
-                      >
-                        {isEditing ? (
-                          <select
-                            value={editValue}
-                            onChange={(e) => setEditValue(e.target.value)}
-                            onBlur={saveEdit}
-                            onKeyPress={(e) => {
-                              if (e.key === "Enter") {
-                                e.preventDefault();
-                                saveEdit();
-                              }
-                            }}
-                            onClick={(e) => e.stopPropagation()}
-                            className="w-full px-1 text-center text-xs border border-gray-300 rounded"
-                            autoFocus
-                          >
-                            {BATTING_RESULTS.map((result) => (
-                              <option key={result.value} value={result.value}>
-                                {result.label}
-                              </option>
-                            ))}
-                          </select>
+                      )}
+                    </td>
+                    <td
+                      className={`px-3 py-2 text-sm font-medium ${
+                        !boxScore.player.player_name && isEditable
+                          ? "cursor-pointer hover:bg-gray-100"
+                          : ""
+                      }`}
+                      onClick={() => {
+                        if (isEditable && !boxScore.player.player_name) {
+                          setEditingPlayer(boxScore.player);
+                          setShowPlayerAddModal(true);
+                        }
+                      }}
+                    >
+                      {boxScore.player.player_name ||
+                        (isEditable ? (
+                          <span className="text-gray-400">
+                            クリックして選手追加
+                          </span>
                         ) : (
-                          <span className="block px-1 py-1">
-                            {record
-                              ? getShortResult(
+                          "-"
+                        ))}
+                    </td>
+                    {[...Array(maxInnings)].map((_, inning) => {
+                      const record = boxScore.battingRecords.find(
+                        (r) => r.inning === inning + 1
+                      );
+                      const placedRunner = boxScore.tiebreakRunners.find(
+                        (r) => r.inning === inning + 1
+                      );
+                      const cellKey = `${boxScore.player.id}-${
+                        inning + 1
+                      }-result`;
+                      const isEditing = editingCell === cellKey;
+
+                      return (
+                        <td
+                          key={inning}
+                          className={`px-1 py-1 text-center text-xs border-l cursor-pointer hover:bg-gray-100 ${
+                            record
+                              ? getResultStyle(record.result, record.notes)
+                              : ""
+                          }`}
+                          onClick={() => {
+                            if (inputMode === "detailed") {
+                              openDetailedInput(boxScore.player.id, inning + 1);
+                            } else {
+                              handleCellEdit(
+                                boxScore.player.id,
+                                inning + 1,
+                                "result"
+                              );
+                            }
+                          }}
+                        >
+                          {isEditing ? (
+                            <select
+                              value={editValue}
+                              onChange={(e) => setEditValue(e.target.value)}
+                              onBlur={saveEdit}
+                              onKeyPress={(e) => {
+                                if (e.key === "Enter") {
+                                  e.preventDefault();
+                                  saveEdit();
+                                }
+                              }}
+                              onClick={(e) => e.stopPropagation()}
+                              className="w-full px-1 text-center text-xs border border-gray-300 rounded"
+                              autoFocus
+                            >
+                              {BATTING_RESULTS.map((result) => (
+                                <option key={result.value} value={result.value}>
+                                  {result.label}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="block px-1 py-1">
+                              {record ? (
+                                getShortResult(
                                   record.result,
                                   record.rbi,
                                   record.notes
                                 )
-                              : ""}
-                          </span>
-                        )}
-                      </td>
-                    );
-                  })}
-                  <td className="px-2 py-2 text-center text-sm font-medium border-l">
-                    {boxScore.totalRbi}
-                  </td>
-                  <td className="px-2 py-2 text-center text-sm">
-                    {boxScore.totalStolenBases}
-                  </td>
-                  <td className="px-2 py-2 text-center text-sm">
-                    {boxScore.totalRuns}
-                  </td>
-                  <td className="px-2 py-2 text-center text-sm">
-                    {boxScore.totalErrors}
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
+                              ) : placedRunner ? (
+                                <span
+                                  className="text-orange-600"
+                                  title={`タイブレークの走者（${
+                                    placedRunner.base
+                                  }塁${placedRunner.runScored ? "・生還" : ""}）`}
+                                >
+                                  {placedRunner.runScored ? "走◎" : "走"}
+                                </span>
+                              ) : (
+                                ""
+                              )}
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                    <td className="px-2 py-2 text-center text-sm font-medium border-l">
+                      {boxScore.totalRbi}
+                    </td>
+                    <td className="px-2 py-2 text-center text-sm">
+                      {boxScore.totalStolenBases}
+                    </td>
+                    <td className="px-2 py-2 text-center text-sm">
+                      {boxScore.totalRuns}
+                    </td>
+                    <td className="px-2 py-2 text-center text-sm">
+                      {boxScore.totalErrors}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
 
       {/* 投手成績表 */}
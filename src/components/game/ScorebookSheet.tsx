@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import {
+  buildScorebook,
+  formatOutNumber,
+  ScorebookBattingRecord,
+  ScorebookCell,
+  ScorebookPlayer,
+  ScorebookRunner,
+} from "@/lib/scorebook";
+
+interface GameInfo {
+  name: string;
+  game_date: string;
+  location: string | null;
+  opponent_name: string;
+  home_score: number;
+  opponent_score: number;
+}
+
+interface ScorebookSheetProps {
+  gameId: string;
+  players: ScorebookPlayer[];
+  battingRecords: ScorebookBattingRecord[];
+  minInnings: number;
+}
+
+// ダイヤモンドの各塁の座標（本塁→一塁→二塁→三塁→本塁）
+const DIAMOND_POINTS = [
+  { x: 20, y: 36 },
+  { x: 36, y: 20 },
+  { x: 20, y: 4 },
+  { x: 4, y: 20 },
+  { x: 20, y: 36 },
+];
+
+// 守備位置の略記
+const POSITION_SHORT: Record<string, string> = {
+  投手: "1",
+  捕手: "2",
+  一塁手: "3",
+  二塁手: "4",
+  三塁手: "5",
+  遊撃手: "6",
+  左翼手: "7",
+  中堅手: "8",
+  右翼手: "9",
+  指名打者: "DH",
+  エキストラヒッター: "EH",
+};
+
+// 1打席分のダイヤモンド（進塁を太線、生還は塗りつぶし）
+function DiamondCell({ cell }: { cell: ScorebookCell }) {
+  const path = DIAMOND_POINTS.slice(0, cell.reachedBase + 1)
+    .map((p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`)
+    .join(" ");
+  const outline = DIAMOND_POINTS.map(
+    (p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`
+  ).join(" ");
+
+  return (
+    <svg viewBox="0 0 40 40" className="w-12 h-12">
+      <path
+        d={outline}
+        fill={cell.reachedBase === 4 ? "#fde68a" : "none"}
+        stroke="#d1d5db"
+        strokeWidth={0.8}
+      />
+      {cell.reachedBase > 0 && (
+        <path d={path} fill="none" stroke="#111827" strokeWidth={2} />
+      )}
+      {cell.outNumber && (
+        <text x={2} y={8} fontSize={8} fill="#dc2626" fontWeight="bold">
+          {formatOutNumber(cell.outNumber)}
+        </text>
+      )}
+      {cell.stolenBase && (
+        <text x={38} y={8} fontSize={6} textAnchor="end" fill="#2563eb">
+          SB
+        </text>
+      )}
+      <text
+        x={20}
+        y={23}
+        fontSize={cell.code.length > 3 ? 7 : 9}
+        textAnchor="middle"
+        fontWeight={cell.isHit ? "bold" : "normal"}
+        fill={cell.isHit ? "#1d4ed8" : "#111827"}
+      >
+        {cell.code}
+      </text>
+      {cell.rbi > 0 && (
+        <text x={38} y={38} fontSize={6} textAnchor="end">
+          {"●".repeat(cell.rbi)}
+        </text>
+      )}
+    </svg>
+  );
+}
+
+// 紙のスコアブック形式の記入表（A4横で印刷）
+export default function ScorebookSheet({
+  gameId,
+  players,
+  battingRecords,
+  minInnings,
+}: ScorebookSheetProps) {
+  const supabase = createClientComponentClient();
+  const [game, setGame] = useState<GameInfo | null>(null);
+  const [runners, setRunners] = useState<ScorebookRunner[]>([]);
+
+  useEffect(() => {
+    fetchSheetData();
+  }, [gameId, battingRecords]);
+
+  const fetchSheetData = async () => {
+    const [gameResult, runnersResult] = await Promise.all([
+      supabase
+        .from("games")
+        .select(
+          "name, game_date, location, opponent_name, home_score, opponent_score"
+        )
+        .eq("id", gameId)
+        .single(),
+      supabase
+        .from("game_runners")
+        .select("player_id, inning, current_base")
+        .eq("game_id", gameId),
+    ]);
+
+    if (gameResult.error) {
+      console.error("試合情報取得エラー:", gameResult.error);
+    } else {
+      setGame(gameResult.data);
+    }
+
+    if (runnersResult.error) {
+      console.error("ランナー取得エラー:", runnersResult.error);
+    } else {
+      setRunners(runnersResult.data || []);
+    }
+  };
+
+  const scorebook = buildScorebook(
+    players,
+    battingRecords,
+    runners,
+    minInnings
+  );
+  const inningNumbers = Array.from(
+    { length: scorebook.innings },
+    (_, i) => i + 1
+  );
+
+  return (
+    <div>
+      {/* 印刷時はスコアブックのみを A4 横で出力 */}
+      <style>{`
+        @media print {
+          @page { size: A4 landscape; margin: 8mm; }
+          body * { visibility: hidden; }
+          #scorebook-sheet, #scorebook-sheet * { visibility: visible; }
+          #scorebook-sheet { position: absolute; left: 0; top: 0; width: 100%; }
+        }
+      `}</style>
+
+      <div className="flex justify-end px-4 py-2">
+        <button
+          onClick={() => window.print()}
+          className="px-3 py-1 text-sm bg-gray-700 text-white rounded hover:bg-gray-800"
+        >
+          印刷（A4横）
+        </button>
+      </div>
+
+      <div id="scorebook-sheet" className="p-4 bg-white">
+        {game && (
+          <div className="flex flex-wrap justify-between items-end mb-2 text-sm">
+            <div>
+              <p className="text-lg font-bold">{game.name}</p>
+              <p className="text-gray-600">
+                {new Date(game.game_date).toLocaleDateString("ja-JP")}
+                {game.location && `　${game.location}`}
+              </p>
+            </div>
+            <p className="font-semibold">
+              自チーム {game.home_score} - {game.opponent_score}{" "}
+              {game.opponent_name}
+            </p>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="border-collapse text-xs w-full">
+            <thead>
+              <tr>
+                <th className="border border-gray-800 px-1 py-1 w-8">打順</th>
+                <th className="border border-gray-800 px-1 py-1 w-8">守備</th>
+                <th className="border border-gray-800 px-2 py-1 text-left min-w-[6rem]">
+                  選手名
+                </th>
+                {inningNumbers.map((inning) => (
+                  <th
+                    key={inning}
+                    className="border border-gray-800 px-1 py-1 w-14"
+                  >
+                    {inning}
+                  </th>
+                ))}
+                <th className="border border-gray-800 px-1 py-1 w-8">打数</th>
+                <th className="border border-gray-800 px-1 py-1 w-8">安打</th>
+                <th className="border border-gray-800 px-1 py-1 w-8">打点</th>
+                <th className="border border-gray-800 px-1 py-1 w-8">得点</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scorebook.rows.map((row) => (
+                <tr key={row.battingOrder}>
+                  <td className="border border-gray-800 text-center font-bold">
+                    {row.battingOrder}
+                  </td>
+                  <td className="border border-gray-800 text-center">
+                    {row.players.map((p) => (
+                      <div key={p.id}>
+                        {(p.position && POSITION_SHORT[p.position]) ||
+                          p.position ||
+                          "-"}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="border border-gray-800 px-2">
+                    {row.players.map((p) => (
+                      <div key={p.id}>{p.player_name}</div>
+                    ))}
+                  </td>
+                  {inningNumbers.map((inning) => (
+                    <td
+                      key={inning}
+                      className="border border-gray-800 p-0 align-top"
+                    >
+                      <div className="flex flex-col items-center">
+                        {(row.cells[inning] || []).map((cell) => (
+                          <DiamondCell key={cell.recordId} cell={cell} />
+                        ))}
+                      </div>
+                    </td>
+                  ))}
+                  <td className="border border-gray-800 text-center">
+                    {row.atBats}
+                  </td>
+                  <td className="border border-gray-800 text-center">
+                    {row.hits}
+                  </td>
+                  <td className="border border-gray-800 text-center">
+                    {row.rbi}
+                  </td>
+                  <td className="border border-gray-800 text-center">
+                    {row.runs}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              {(
+                [
+                  { key: "runs", label: "得点" },
+                  { key: "hits", label: "安打" },
+                  { key: "walks", label: "四死球" },
+                  { key: "errors", label: "失策" },
+                ] as const
+              ).map(({ key, label }) => (
+                <tr key={key} className="bg-gray-50">
+                  <td
+                    colSpan={3}
+                    className="border border-gray-800 px-2 text-right font-semibold"
+                  >
+                    {label}
+                  </td>
+                  {inningNumbers.map((inning) => (
+                    <td
+                      key={inning}
+                      className="border border-gray-800 text-center"
+                    >
+                      {scorebook.inningTotals[inning]?.[key] || 0}
+                    </td>
+                  ))}
+                  <td colSpan={4} className="border border-gray-800" />
+                </tr>
+              ))}
+            </tfoot>
+          </table>
+        </div>
+
+        <p className="mt-2 text-xs text-gray-500">
+          記号: H 安打 / 2B 二塁打 / 3B 三塁打 / HR 本塁打 / BB 四球 / HP 死球 /
+          K 三振 / G ゴロ / F フライ / L ライナー / SH 犠打 / SF 犠飛 / FC 野選 /
+          E 失策（数字は守備番号）　Ⅰ〜Ⅲ アウト番号　● 打点
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import {
+  getUndoRedoState,
+  redoLastAction,
+  undoLastAction,
+  UndoRedoState,
+} from "@/lib/game-logic";
+import { GameEvent } from "@/lib/game-events";
+
+interface Props {
+  gameId: string;
+  canEdit: boolean;
+  refreshTrigger?: number;
+  onChange?: (
+    events: GameEvent[],
+    direction: "undo" | "redo"
+  ) => void | Promise<void>;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  plate_appearance: "打席結果",
+  stolen_base: "盗塁",
+  caught_stealing: "盗塁死",
+  wild_pitch: "暴投・捕逸",
+  runner_advance: "進塁",
+  substitution: "選手交代",
+  pitching_change: "投手交代",
+  inning_end: "攻撃終了",
+  correction: "記録の訂正",
+};
+
+// 取り消し・やり直し対象の表示名
+const describeEvents = (events: GameEvent[]) =>
+  events
+    .map((e) =>
+      e.event_type === "plate_appearance"
+        ? `${e.payload.batterName} ${e.payload.result}`
+        : EVENT_LABELS[e.event_type]
+    )
+    .join(" + ");
+
+export default function ScoringHistoryControls({
+  gameId,
+  canEdit,
+  refreshTrigger,
+  onChange,
+}: Props) {
+  const supabase = createClientComponentClient();
+  const [history, setHistory] = useState<UndoRedoState | null>(null);
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    if (canEdit) {
+      fetchHistory();
+    }
+  }, [gameId, canEdit, refreshTrigger]);
+
+  const fetchHistory = async () => {
+    const state = await getUndoRedoState(supabase, gameId);
+    setHistory(state);
+  };
+
+  const handleUndo = async () => {
+    setProcessing(true);
+    try {
+      const events = await undoLastAction(supabase, gameId);
+      if (events.length > 0 && onChange) await onChange(events, "undo");
+      await fetchHistory();
+    } catch (error) {
+      console.error("取り消しエラー:", error);
+      alert("取り消しに失敗しました");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleRedo = async () => {
+    setProcessing(true);
+    try {
+      const events = await redoLastAction(supabase, gameId);
+      if (events.length > 0 && onChange) await onChange(events, "redo");
+      await fetchHistory();
+    } catch (error) {
+      console.error("やり直しエラー:", error);
+      alert("やり直しに失敗しました");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  if (!canEdit || !history) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={handleUndo}
+        disabled={!history.canUndo || processing}
+        className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+        title={
+          history.canUndo ? `取り消し: ${describeEvents(history.undoTarget)}` : ""
+        }
+      >
+        ↶ 取り消し
+      </button>
+      <button
+        onClick={handleRedo}
+        disabled={!history.canRedo || processing}
+        className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+        title={
+          history.canRedo ? `やり直し: ${describeEvents(history.redoTarget)}` : ""
+        }
+      >
+        ↷ やり直し
+      </button>
+      {!history.isLogComplete && (
+        <span className="text-xs text-gray-500">
+          ログ導入前の記録があるため取り消しできません
+        </span>
+      )}
+    </div>
+  );
+}
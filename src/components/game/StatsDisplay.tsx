@@ -2,6 +2,12 @@
 
 import { useState, useEffect } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import {
+  calculateBattingMetrics,
+  countBattingResults,
+  formatRate,
+  sumBattingStatsRows,
+} from "@/lib/sabermetrics";
 
 interface GamePlayer {
   id: string;
@@ -69,9 +75,6 @@ interface PlayerBattingStatsView {
   rbi: number;
   runs: number;
   stolen_bases: number;
-  batting_average: number;
-  on_base_percentage: number;
-  slugging_percentage: number;
 }
 
 interface PlayerPitchingStatsView {
@@ -85,10 +88,6 @@ interface PlayerPitchingStatsView {
   strikeouts: number;
   walks: number;
   home_runs_allowed: number;
-  era: number;
-  whip: number;
-  k_per_nine: number;
-  bb_per_nine: number;
 }
 
 interface InningScore {
@@ -178,24 +177,30 @@ export default function StatsDisplay({ gameId, players }: Props) {
 
       if (battingData) {
         // ビューのデータをStatsDisplay用の形式に変換
+        // 打率などの率はビューの値ではなく計数から計算
         const convertedStats = battingData.map(
-          (stat: PlayerBattingStatsView) => ({
-            player_id: stat.player_id,
-            player_name: stat.player_name,
-            at_bats: stat.at_bats,
-            hits: stat.hits,
-            doubles: stat.doubles,
-            triples: stat.triples,
-            homeruns: stat.home_runs,
-            rbi: stat.rbi,
-            runs: stat.runs,
-            walks: stat.walks,
-            strikeouts: 0, // ビューには三振数がないため、別途取得が必要
-            stolen_bases: stat.stolen_bases,
-            batting_average: stat.batting_average.toFixed(3),
-            on_base_percentage: stat.on_base_percentage.toFixed(3),
-            slugging_percentage: stat.slugging_percentage.toFixed(3),
-          })
+          (stat: PlayerBattingStatsView) => {
+            const metrics = calculateBattingMetrics(
+              sumBattingStatsRows([stat])
+            );
+            return {
+              player_id: stat.player_id,
+              player_name: stat.player_name,
+              at_bats: stat.at_bats,
+              hits: stat.hits,
+              doubles: stat.doubles,
+              triples: stat.triples,
+              homeruns: stat.home_runs,
+              rbi: stat.rbi,
+              runs: stat.runs,
+              walks: stat.walks,
+              strikeouts: 0, // ビューには三振数がないため、別途取得が必要
+              stolen_bases: stat.stolen_bases,
+              batting_average: formatRate(metrics.battingAverage),
+              on_base_percentage: formatRate(metrics.onBasePercentage),
+              slugging_percentage: formatRate(metrics.sluggingPercentage),
+            };
+          }
         );
 
         // 三振数を別途取得
@@ -230,13 +235,10 @@ export default function StatsDisplay({ gameId, players }: Props) {
           totalRuns: convertedStats.reduce((sum, s) => sum + s.runs, 0),
           totalRBI: convertedStats.reduce((sum, s) => sum + s.rbi, 0),
           totalErrors: 0, // エラー数は別途取得が必要
-          teamBattingAverage: (
-            convertedStats.reduce((sum, s) => sum + s.hits, 0) /
-            Math.max(
-              1,
-              convertedStats.reduce((sum, s) => sum + s.at_bats, 0)
-            )
-          ).toFixed(3),
+          teamBattingAverage: formatRate(
+            calculateBattingMetrics(sumBattingStatsRows(battingData))
+              .battingAverage
+          ),
         };
         setTeamStats(teamTotals);
       }
@@ -391,23 +393,14 @@ export default function StatsDisplay({ gameId, players }: Props) {
 
     // 打率・出塁率・長打率を計算
     const statsArray = Array.from(statsMap.values()).map((stats) => {
-      // 打率 = 安打数 / 打数
-      const avg = stats.at_bats > 0 ? stats.hits / stats.at_bats : 0;
-      stats.batting_average = avg.toFixed(3);
-
-      // 出塁率 = (安打 + 四球) / (打数 + 四球 + 犠飛)
-      const plateAppearances = stats.at_bats + stats.walks;
-      const obp =
-        plateAppearances > 0
-          ? (stats.hits + stats.walks) / plateAppearances
-          : 0;
-      stats.on_base_percentage = obp.toFixed(3);
-
-      // 長打率 = 塁打数 / 打数
-      const totalBases =
-        stats.hits + stats.doubles + stats.triples * 2 + stats.homeruns * 3;
-      const slg = stats.at_bats > 0 ? totalBases / stats.at_bats : 0;
-      stats.slugging_percentage = slg.toFixed(3);
+      const metrics = calculateBattingMetrics(
+        countBattingResults(
+          records.filter((r) => r.player_id === stats.player_id)
+        )
+      );
+      stats.batting_average = formatRate(metrics.battingAverage);
+      stats.on_base_percentage = formatRate(metrics.onBasePercentage);
+      stats.slugging_percentage = formatRate(metrics.sluggingPercentage);
 
       return stats;
     });
@@ -426,24 +419,18 @@ export default function StatsDisplay({ gameId, players }: Props) {
 
   const calculateTeamStats = (records: BattingRecord[]) => {
     let totalHits = 0;
-    let totalAtBats = 0;
     let totalRuns = 0;
     let totalRBI = 0;
 
     records.forEach((record) => {
       if (HIT_RESULTS.includes(record.result)) totalHits++;
-      if (
-        !WALK_RESULTS.includes(record.result) &&
-        !SACRIFICE_RESULTS.includes(record.result)
-      ) {
-        totalAtBats++;
-      }
       if (record.run_scored) totalRuns++;
       totalRBI += record.rbi;
     });
 
-    const teamAvg =
-      totalAtBats > 0 ? (totalHits / totalAtBats).toFixed(3) : "0.000";
+    const teamAvg = formatRate(
+      calculateBattingMetrics(countBattingResults(records)).battingAverage
+    );
 
     setTeamStats({
       totalRuns,
@@ -0,0 +1,152 @@
+"use client";
+
+import {
+  LEADER_CATEGORIES,
+  Leaderboard,
+  SeasonLeaders,
+} from "@/lib/leaderboards";
+
+interface LeaderboardsProps {
+  leaderboards: Leaderboard[];
+  seasonLeaders: SeasonLeaders[];
+  thresholds: { teamGames: number; plateAppearances: number; outs: number };
+}
+
+// 表示する順位（同順位は全員表示）
+const TOP_RANKS = 5;
+
+// 部門別リーダーと歴代のシーズンリーダー
+export default function Leaderboards({
+  leaderboards,
+  seasonLeaders,
+  thresholds,
+}: LeaderboardsProps) {
+  const inningsLabel = `${Math.floor(thresholds.outs / 3)}回${
+    thresholds.outs % 3 ? `${thresholds.outs % 3}/3` : ""
+  }`;
+
+  const renderBoard = (board: Leaderboard) => {
+    const top = board.qualified.filter(
+      (entry) => entry.rank !== null && entry.rank <= TOP_RANKS
+    );
+    return (
+      <div key={board.key} className="border rounded-lg p-3">
+        <h5 className="text-sm font-semibold text-gray-900 mb-2">
+          {board.label}
+        </h5>
+        {top.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            {board.rate ? "規定到達者がいません" : "記録がありません"}
+          </p>
+        ) : (
+          <ol className="space-y-1 text-sm">
+            {top.map((entry) => (
+              <li key={entry.memberId} className="flex justify-between">
+                <span>
+                  <span className="inline-block w-6 text-gray-500">
+                    {entry.rank}
+                  </span>
+                  {entry.name}
+                </span>
+                <span className="font-semibold">{entry.display}</span>
+              </li>
+            ))}
+          </ol>
+        )}
+        {board.rate && board.unqualified.length > 0 && (
+          <div className="mt-2 pt-2 border-t text-xs text-gray-400">
+            <div className="mb-1">規定未到達</div>
+            {board.unqualified.slice(0, 3).map((entry) => (
+              <div key={entry.memberId} className="flex justify-between">
+                <span>
+                  {entry.name}（{entry.detail}）
+                </span>
+                <span>{entry.display}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-gray-500">
+        規定打席 {thresholds.plateAppearances}打席・規定投球回 {inningsLabel}
+        （チーム{thresholds.teamGames}
+        試合）。率の部門は規定到達者のみ順位を付けます（同じ値は同順位）
+      </p>
+
+      {(["batting", "pitching"] as const).map((kind) => (
+        <div key={kind}>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">
+            {kind === "batting" ? "打撃部門" : "投手部門"}
+          </h4>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+            {leaderboards.filter((b) => b.kind === kind).map(renderBoard)}
+          </div>
+        </div>
+      ))}
+
+      {seasonLeaders.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">
+            歴代のシーズンリーダー
+          </h4>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">
+                    シーズン
+                  </th>
+                  {LEADER_CATEGORIES.map((category) => (
+                    <th
+                      key={category.key}
+                      className="px-3 py-2 text-left text-xs font-medium text-gray-500 whitespace-nowrap"
+                    >
+                      {category.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {seasonLeaders.map((season) => (
+                  <tr key={season.label}>
+                    <td className="px-3 py-2 font-medium whitespace-nowrap">
+                      {season.label}
+                      <span className="ml-1 text-xs text-gray-500">
+                        （{season.teamGames}試合）
+                      </span>
+                    </td>
+                    {LEADER_CATEGORIES.map((category) => {
+                      const leaders = season.leaders[category.key];
+                      return (
+                        <td
+                          key={category.key}
+                          className="px-3 py-2 whitespace-nowrap"
+                        >
+                          {leaders ? (
+                            <>
+                              {leaders.map((l) => l.name).join("・")}
+                              <span className="ml-1 text-gray-500">
+                                {leaders[0].display}
+                              </span>
+                            </>
+                          ) : (
+                            "-"
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
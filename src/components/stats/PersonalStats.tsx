@@ -2,6 +2,42 @@
 
 import { useState, useEffect } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import {
+  FIELDING_POSITIONS,
+  FieldingSummary,
+  formatFieldingPercentage,
+  formatOutsAsInnings,
+  summarizeFielding,
+} from "@/lib/fielding";
+import SprayChart from "@/components/stats/SprayChart";
+import {
+  createDefaultStatsFilter,
+  describeStatsFilter,
+  filterGamesByPeriod,
+  listGameYears,
+  normalizeTeamSeasons,
+  StatsFilter,
+  TeamSeason,
+} from "@/lib/stats-period";
+import StatsPeriodSelector from "@/components/stats/StatsPeriodSelector";
+import SplitStats from "@/components/stats/SplitStats";
+import { SplitRecord, toSplitRecords } from "@/lib/splits";
+import {
+  calculateBattingMetrics,
+  calculatePitchingMetrics,
+  formatDecimal,
+  formatPercent,
+  formatRate,
+  sumBattingStatsRows,
+  sumPitchingRows,
+} from "@/lib/sabermetrics";
+import { outsToInnings } from "@/lib/pitching-decisions";
+import {
+  AttendanceReliability,
+  isAttendanceHistoryGame,
+  LATE_CANCELLATION_HOURS,
+  summarizeAttendance,
+} from "@/lib/attendance-stats";
 
 interface BattingStats {
   player_id: string;
@@ -19,6 +55,11 @@ interface BattingStats {
   on_base_percentage: string;
   slugging_percentage: string;
   ops: string;
+  woba: string;
+  iso: string;
+  babip: string;
+  bb_per_k: string;
+  runs_created: string;
 }
 
 interface PitchingStats {
@@ -40,6 +81,17 @@ interface PitchingStats {
   k_per_nine: string;
   bb_per_nine: string;
   win_percentage: string;
+  fip: string;
+  k_bb_rate: string;
+}
+
+interface SprayRecord {
+  result: string;
+  hit_x: number | null;
+  hit_y: number | null;
+  hit_direction: string | null;
+  hit_depth: string | null;
+  batted_ball_type: string | null;
 }
 
 interface PersonalStatsProps {
@@ -51,23 +103,125 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
   const [pitchingStats, setPitchingStats] = useState<PitchingStats | null>(
     null
   );
+  const [fieldingStats, setFieldingStats] = useState<FieldingSummary | null>(
+    null
+  );
+  const [sprayRecords, setSprayRecords] = useState<SprayRecord[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<"batting" | "pitching">("batting");
+  const [activeTab, setActiveTab] = useState<
+    "batting" | "pitching" | "fielding" | "spray" | "splits" | "attendance"
+  >("batting");
+  const [splitRecords, setSplitRecords] = useState<SplitRecord[]>([]);
+  const [filter, setFilter] = useState<StatsFilter>(createDefaultStatsFilter);
+  const [gameYears, setGameYears] = useState<number[]>([]);
+  const [seasons, setSeasons] = useState<TeamSeason[]>([]);
+  const [attendanceSummary, setAttendanceSummary] =
+    useState<AttendanceReliability | null>(null);
+  const [attendanceYears, setAttendanceYears] = useState<number[]>([]);
   const supabase = createClientComponentClient();
 
   useEffect(() => {
     if (userId) {
       fetchStats();
+      fetchAttendanceSummary();
+    }
+  }, [userId, filter]);
+
+  // 所属チームのシーズン設定（同じ名前のシーズンは新しい方を使う）
+  const fetchTeamSeasons = async (
+    teamIds: string[]
+  ): Promise<TeamSeason[]> => {
+    const { data: teamsData, error } = await supabase
+      .from("teams")
+      .select("seasons")
+      .in("id", teamIds);
+
+    if (error) {
+      console.error("シーズン取得エラー:", error);
+      return [];
+    }
+
+    const teamSeasons = normalizeTeamSeasons(
+      (teamsData || []).flatMap((team) =>
+        Array.isArray(team.seasons) ? team.seasons : []
+      )
+    ).filter(
+      (season, index, all) =>
+        all.findIndex((s) => s.name === season.name) === index
+    );
+    setSeasons(teamSeasons);
+    return teamSeasons;
+  };
+
+  // 出欠の記録（回答率・出席率・直前キャンセル）
+  const fetchAttendanceSummary = async () => {
+    try {
+      const { data: teamMemberData } = await supabase
+        .from("team_members")
+        .select("id, team_id")
+        .eq("user_id", userId);
+
+      if (!teamMemberData || teamMemberData.length === 0) {
+        setAttendanceSummary(null);
+        return;
+      }
+
+      const teamSeasons = await fetchTeamSeasons(
+        teamMemberData.map((tm) => tm.team_id)
+      );
+
+      const { data: attendanceData, error: attendanceError } = await supabase
+        .from("game_attendances")
+        .select("game_id, team_member_id, status, auto_closed, cancelled_at")
+        .in(
+          "team_member_id",
+          teamMemberData.map((tm) => tm.id)
+        );
+
+      if (attendanceError) throw attendanceError;
+
+      const { data: gamesData, error: gamesError } = await supabase
+        .from("games")
+        .select("id, game_date, game_time, category, status")
+        .in(
+          "id",
+          (attendanceData || []).map((a) => a.game_id)
+        );
+
+      if (gamesError) throw gamesError;
+
+      const historyGames = (gamesData || []).filter((game) =>
+        isAttendanceHistoryGame(game)
+      );
+      setAttendanceYears(listGameYears(historyGames));
+
+      const summary = summarizeAttendance(
+        attendanceData || [],
+        new Map(
+          filterGamesByPeriod(historyGames, filter, teamSeasons).map((g) => [
+            g.id,
+            g,
+          ])
+        )
+      );
+      setAttendanceSummary(summary.games > 0 ? summary : null);
+    } catch (error) {
+      console.error("出欠記録取得エラー:", error);
     }
-  }, [userId]);
+  };
 
   const fetchStats = async () => {
     setLoading(true);
+    setBattingStats(null);
+    setPitchingStats(null);
+    setFieldingStats(null);
+    setSprayRecords([]);
+    setSplitRecords([]);
     try {
       // まず、ユーザーが所属するチームメンバーIDを取得
       const { data: teamMemberData, error: teamMemberError } = await supabase
         .from("team_members")
-        .select("id")
+        .select("id, team_id")
         .eq("user_id", userId);
 
       if (teamMemberError) {
@@ -82,11 +236,14 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
       }
 
       const teamMemberIds = teamMemberData.map((tm) => tm.id);
+      const teamSeasons = await fetchTeamSeasons(
+        teamMemberData.map((tm) => tm.team_id)
+      );
 
       // team_member_idに基づいてgame_playersを取得
       const { data: gamePlayerData, error: gamePlayerError } = await supabase
         .from("game_players")
-        .select("id")
+        .select("id, game_id")
         .in("team_member_id", teamMemberIds);
 
       if (gamePlayerError) {
@@ -100,7 +257,33 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
         return;
       }
 
-      const gamePlayerIds = gamePlayerData.map((gp) => gp.id);
+      // 集計期間・試合種別に当てはまる試合の出場分のみを集計
+      const { data: gamesData, error: gamesError } = await supabase
+        .from("games")
+        .select("id, game_date, category, opponent_name, location")
+        .in(
+          "id",
+          gamePlayerData.map((gp) => gp.game_id)
+        );
+
+      if (gamesError) {
+        console.error("試合取得エラー:", gamesError);
+      }
+
+      setGameYears(listGameYears(gamesData || []));
+      const periodGameIds = new Set(
+        filterGamesByPeriod(gamesData || [], filter, teamSeasons).map(
+          (g) => g.id
+        )
+      );
+      const gamePlayerIds = gamePlayerData
+        .filter((gp) => periodGameIds.has(gp.game_id))
+        .map((gp) => gp.id);
+
+      if (gamePlayerIds.length === 0) {
+        setLoading(false);
+        return;
+      }
 
       // 打撃成績の集計
       const { data: battingData, error: battingError } = await supabase
@@ -123,6 +306,65 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
         const stats = calculatePitchingTotals(pitchingData);
         setPitchingStats(stats);
       }
+
+      // 守備成績の集計
+      const { data: fieldingData, error: fieldingError } = await supabase
+        .from("game_fielding_records")
+        .select("*")
+        .in("player_id", gamePlayerIds);
+
+      if (fieldingError) {
+        console.error("守備成績取得エラー:", fieldingError);
+      }
+
+      if (fieldingData && fieldingData.length > 0) {
+        setFieldingStats(summarizeFielding(fieldingData));
+      }
+
+      // 打球方向（スプレーチャート）
+      const { data: sprayData, error: sprayError } = await supabase
+        .from("game_batting_records")
+        .select(
+          "result, hit_x, hit_y, hit_direction, hit_depth, batted_ball_type"
+        )
+        .in("player_id", gamePlayerIds)
+        .not("hit_direction", "is", null);
+
+      if (sprayError) {
+        console.error("打球方向取得エラー:", sprayError);
+      }
+
+      setSprayRecords(sprayData || []);
+
+      // 状況別成績（打席ごとの状況と試合情報）
+      const { data: splitData, error: splitError } = await supabase
+        .from("game_batting_records")
+        .select(
+          "game_id, result, rbi, inning, batting_order, runners_before, outs_before, notes"
+        )
+        .in("player_id", gamePlayerIds);
+
+      if (splitError) {
+        console.error("状況別成績取得エラー:", splitError);
+      }
+
+      const splitGameIds = Array.from(
+        new Set((splitData || []).map((r) => r.game_id))
+      );
+      const { data: scoreData } = await supabase
+        .from("game_scores")
+        .select("game_id, is_my_team_bat_first")
+        .in("game_id", splitGameIds);
+
+      setSplitRecords(
+        toSplitRecords(
+          splitData || [],
+          new Map((gamesData || []).map((g) => [g.id, g])),
+          new Map(
+            (scoreData || []).map((s) => [s.game_id, s.is_my_team_bat_first])
+          )
+        )
+      );
     } catch (error) {
       console.error("成績取得エラー:", error);
     } finally {
@@ -131,155 +373,68 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
   };
 
   const calculateBattingTotals = (data: any[]): BattingStats => {
+    const counts = sumBattingStatsRows(data);
+    const metrics = calculateBattingMetrics(counts);
     const totals = data.reduce(
       (acc, game) => ({
-        total_games: acc.total_games + 1,
-        total_at_bats: acc.total_at_bats + (game.at_bats || 0),
-        total_hits: acc.total_hits + (game.hits || 0),
-        total_home_runs: acc.total_home_runs + (game.home_runs || 0),
-        total_doubles: acc.total_doubles + (game.doubles || 0),
-        total_triples: acc.total_triples + (game.triples || 0),
         total_rbi: acc.total_rbi + (game.rbi || 0),
         total_runs: acc.total_runs + (game.runs || 0),
-        total_walks: acc.total_walks + (game.walks || 0),
-        total_stolen_bases: acc.total_stolen_bases + (game.stolen_bases || 0),
       }),
-      {
-        total_games: 0,
-        total_at_bats: 0,
-        total_hits: 0,
-        total_home_runs: 0,
-        total_doubles: 0,
-        total_triples: 0,
-        total_rbi: 0,
-        total_runs: 0,
-        total_walks: 0,
-        total_stolen_bases: 0,
-      }
+      { total_rbi: 0, total_runs: 0 }
     );
 
-    // 打率計算
-    const avg =
-      totals.total_at_bats > 0
-        ? (totals.total_hits / totals.total_at_bats).toFixed(3)
-        : ".000";
-
-    // 出塁率計算
-    const plateAppearances = totals.total_at_bats + totals.total_walks;
-    const obp =
-      plateAppearances > 0
-        ? ((totals.total_hits + totals.total_walks) / plateAppearances).toFixed(
-            3
-          )
-        : ".000";
-
-    // 長打率計算
-    const totalBases =
-      totals.total_hits +
-      totals.total_doubles +
-      totals.total_triples * 2 +
-      totals.total_home_runs * 3;
-    const slg =
-      totals.total_at_bats > 0
-        ? (totalBases / totals.total_at_bats).toFixed(3)
-        : ".000";
-
-    // OPS計算
-    const ops = (parseFloat(obp) + parseFloat(slg)).toFixed(3);
-
+    // 率の計算は src/lib/sabermetrics.ts に集約
     return {
       player_id: userId,
-      ...totals,
-      batting_average: avg,
-      on_base_percentage: obp,
-      slugging_percentage: slg,
-      ops: ops,
+      total_games: data.length,
+      total_at_bats: counts.atBats,
+      total_hits: counts.hits,
+      total_home_runs: counts.homeRuns,
+      total_doubles: counts.doubles,
+      total_triples: counts.triples,
+      total_rbi: totals.total_rbi,
+      total_runs: totals.total_runs,
+      total_walks: counts.walks,
+      total_stolen_bases: counts.stolenBases,
+      batting_average: formatRate(metrics.battingAverage),
+      on_base_percentage: formatRate(metrics.onBasePercentage),
+      slugging_percentage: formatRate(metrics.sluggingPercentage),
+      ops: formatRate(metrics.ops),
+      woba: formatRate(metrics.woba),
+      iso: formatRate(metrics.iso),
+      babip: formatRate(metrics.babip),
+      bb_per_k: formatDecimal(metrics.walksPerStrikeout),
+      runs_created: formatDecimal(metrics.runsCreated, 1),
     };
   };
 
   const calculatePitchingTotals = (data: any[]): PitchingStats => {
-    console.log("取得した投手データ:", data);
-    console.log("最初のゲームデータ:", data[0]);
-    const totals = data.reduce(
-      (acc, game) => ({
-        total_games: acc.total_games + 1,
-        total_innings: acc.total_innings + (game.innings_pitched || 0),
-        total_hits_allowed: acc.total_hits_allowed + (game.hits_allowed || 0),
-        total_runs_allowed: acc.total_runs_allowed + (game.runs_allowed || 0),
-        total_earned_runs: acc.total_earned_runs + (game.earned_runs || 0),
-        total_strikeouts: acc.total_strikeouts + (game.strikeouts || 0),
-        total_walks: acc.total_walks + (game.walks || 0),
-        total_home_runs_allowed:
-          acc.total_home_runs_allowed + (game.home_runs_allowed || 0),
-        total_wins: acc.total_wins + (game.win ? 1 : 0),
-        total_losses: acc.total_losses + (game.loss ? 1 : 0),
-        total_saves: acc.total_saves + (game.save ? 1 : 0),
-      }),
-      {
-        total_games: 0,
-        total_innings: 0,
-        total_hits_allowed: 0,
-        total_runs_allowed: 0,
-        total_earned_runs: 0,
-        total_strikeouts: 0,
-        total_walks: 0,
-        total_home_runs_allowed: 0,
-        total_wins: 0,
-        total_losses: 0,
-        total_saves: 0,
-      }
-    );
-
-    // 投球回の表示形式変換
-    const inningsDisplay = formatInnings(totals.total_innings);
-
-    // 実際のイニング数に変換（計算用）
-    const actualInnings =
-      Math.floor(totals.total_innings) + ((totals.total_innings % 1) * 10) / 3;
-
-    // 防御率計算（7回換算）
-    const era =
-      actualInnings > 0
-        ? ((totals.total_earned_runs * 7) / actualInnings).toFixed(2)
-        : "0.00";
-
-    // WHIP計算
-    const whip =
-      actualInnings > 0
-        ? (
-            (totals.total_walks + totals.total_hits_allowed) /
-            actualInnings
-          ).toFixed(2)
-        : "0.00";
-
-    // K/7計算（7回換算）
-    const kPerNine =
-      actualInnings > 0
-        ? ((totals.total_strikeouts * 7) / actualInnings).toFixed(2)
-        : "0.00";
-
-    // BB/7計算（7回換算）
-    const bbPerNine =
-      actualInnings > 0
-        ? ((totals.total_walks * 7) / actualInnings).toFixed(2)
-        : "0.00";
-
-    // 勝率計算を追加
-    const decisions = totals.total_wins + totals.total_losses;
-    const winPercentage =
-      decisions > 0
-        ? ((totals.total_wins / decisions) * 100).toFixed(1)
-        : "0.0";
+    const counts = sumPitchingRows(data);
+    // 個人成績ではチーム基準がないため、FIP 定数は標準値を使う
+    const metrics = calculatePitchingMetrics(counts);
+    const totalInnings = outsToInnings(counts.outs);
 
     return {
       player_id: userId,
-      ...totals,
-      total_innings_display: inningsDisplay,
-      era: era,
-      whip: whip,
-      k_per_nine: kPerNine,
-      bb_per_nine: bbPerNine,
-      win_percentage: winPercentage,
+      total_games: counts.appearances,
+      total_innings: totalInnings,
+      total_innings_display: formatInnings(totalInnings),
+      total_hits_allowed: counts.hitsAllowed,
+      total_runs_allowed: counts.runsAllowed,
+      total_earned_runs: counts.earnedRuns,
+      total_strikeouts: counts.strikeouts,
+      total_walks: counts.walks,
+      total_home_runs_allowed: counts.homeRunsAllowed,
+      total_wins: counts.wins,
+      total_losses: counts.losses,
+      total_saves: counts.saves,
+      era: formatDecimal(metrics.era),
+      whip: formatDecimal(metrics.whip),
+      k_per_nine: formatDecimal(metrics.strikeoutsPerGame),
+      bb_per_nine: formatDecimal(metrics.walksPerGame),
+      win_percentage: formatPercent(metrics.winPercentage),
+      fip: formatDecimal(metrics.fip),
+      k_bb_rate: formatPercent(metrics.strikeoutMinusWalkRate),
     };
   };
 
@@ -308,12 +463,32 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
     );
   }
 
-  if (!battingStats && !pitchingStats) {
+  // 成績または出欠の記録がある年
+  const years = Array.from(new Set([...gameYears, ...attendanceYears])).sort(
+    (a, b) => b - a
+  );
+
+  if (
+    !battingStats &&
+    !pitchingStats &&
+    !fieldingStats &&
+    !attendanceSummary
+  ) {
     return (
       <div className="bg-white rounded-lg shadow p-6 mb-8">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">個人成績</h3>
+        {years.length > 0 && (
+          <StatsPeriodSelector
+            filter={filter}
+            onChange={setFilter}
+            years={years}
+            seasons={seasons}
+          />
+        )}
         <p className="text-gray-500 text-center py-8">
-          まだ成績データがありません
+          {years.length > 0
+            ? `${describeStatsFilter(filter, seasons)}の成績データがありません`
+            : "まだ成績データがありません"}
         </p>
       </div>
     );
@@ -321,8 +496,19 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
 
   return (
     <div className="bg-white rounded-lg shadow mb-8">
-      <div className="px-6 py-4 border-b">
-        <h3 className="text-lg font-semibold text-gray-900">個人成績</h3>
+      <div className="px-6 py-4 border-b space-y-3">
+        <h3 className="text-lg font-semibold text-gray-900">
+          個人成績
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            {describeStatsFilter(filter, seasons)}
+          </span>
+        </h3>
+        <StatsPeriodSelector
+          filter={filter}
+          onChange={setFilter}
+          years={years}
+          seasons={seasons}
+        />
       </div>
 
       {/* タブ */}
@@ -352,6 +538,54 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
               投手成績
             </button>
           )}
+          {fieldingStats && (
+            <button
+              onClick={() => setActiveTab("fielding")}
+              className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === "fielding"
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              守備成績
+            </button>
+          )}
+          {sprayRecords.length > 0 && (
+            <button
+              onClick={() => setActiveTab("spray")}
+              className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === "spray"
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              打球方向
+            </button>
+          )}
+          {splitRecords.length > 0 && (
+            <button
+              onClick={() => setActiveTab("splits")}
+              className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === "splits"
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              状況別
+            </button>
+          )}
+          {attendanceSummary && (
+            <button
+              onClick={() => setActiveTab("attendance")}
+              className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === "attendance"
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              出欠
+            </button>
+          )}
         </div>
       </div>
 
@@ -405,6 +639,28 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
               <dt className="text-sm text-gray-500">OPS</dt>
               <dd className="text-xl font-semibold">{battingStats.ops}</dd>
             </div>
+            <div>
+              <dt className="text-sm text-gray-500">wOBA</dt>
+              <dd className="text-xl font-semibold">{battingStats.woba}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">ISO</dt>
+              <dd className="text-xl font-semibold">{battingStats.iso}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">BABIP</dt>
+              <dd className="text-xl font-semibold">{battingStats.babip}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">BB/K</dt>
+              <dd className="text-xl font-semibold">{battingStats.bb_per_k}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">RC</dt>
+              <dd className="text-xl font-semibold">
+                {battingStats.runs_created}
+              </dd>
+            </div>
           </div>
         )}
 
@@ -448,6 +704,16 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
                 {pitchingStats.bb_per_nine}
               </dd>
             </div>
+            <div>
+              <dt className="text-sm text-gray-500">FIP</dt>
+              <dd className="text-xl font-semibold">{pitchingStats.fip}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">K-BB%</dt>
+              <dd className="text-xl font-semibold">
+                {pitchingStats.k_bb_rate}
+              </dd>
+            </div>
             <div>
               <dt className="text-sm text-gray-500">被安打</dt>
               <dd className="text-xl font-semibold">
@@ -469,11 +735,125 @@ export default function PersonalStats({ userId }: PersonalStatsProps) {
             <div>
               <dt className="text-sm text-gray-500">勝率</dt>
               <dd className="text-xl font-semibold">
-                {pitchingStats.win_percentage}%
+                {pitchingStats.win_percentage}
               </dd>
             </div>
           </div>
         )}
+
+        {activeTab === "fielding" && fieldingStats && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
+              <div>
+                <dt className="text-sm text-gray-500">試合数</dt>
+                <dd className="text-xl font-semibold">{fieldingStats.games}</dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">守備率</dt>
+                <dd className="text-xl font-semibold">
+                  {formatFieldingPercentage(fieldingStats.fieldingPercentage)}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">刺殺</dt>
+                <dd className="text-xl font-semibold">
+                  {fieldingStats.putouts}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">補殺</dt>
+                <dd className="text-xl font-semibold">
+                  {fieldingStats.assists}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm text-gray-500">失策</dt>
+                <dd className="text-xl font-semibold">
+                  {fieldingStats.errors}
+                </dd>
+              </div>
+            </div>
+
+            {/* 守備位置別イニング */}
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                守備位置別イニング
+              </h4>
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">
+                      守備位置
+                    </th>
+                    <th className="px-3 py-2 text-center font-medium text-gray-500">
+                      イニング
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {Object.values(FIELDING_POSITIONS)
+                    .filter((position) => fieldingStats.outsByPosition[position])
+                    .map((position) => (
+                      <tr key={position}>
+                        <td className="px-3 py-2">{position}</td>
+                        <td className="px-3 py-2 text-center">
+                          {formatOutsAsInnings(
+                            fieldingStats.outsByPosition[position]
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {activeTab === "spray" && sprayRecords.length > 0 && (
+          <SprayChart records={sprayRecords} />
+        )}
+
+        {activeTab === "splits" && splitRecords.length > 0 && (
+          <SplitStats records={splitRecords} />
+        )}
+
+        {activeTab === "attendance" && attendanceSummary && (
+          <div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-4">
+              {[
+                { label: "対象試合", value: attendanceSummary.games },
+                {
+                  label: "回答率",
+                  value: formatPercent(attendanceSummary.responseRate, 0),
+                },
+                {
+                  label: "出席率",
+                  value: formatPercent(attendanceSummary.attendanceRate, 0),
+                },
+                { label: "出席", value: attendanceSummary.participated },
+                { label: "遅刻", value: attendanceSummary.late },
+                { label: "早退", value: attendanceSummary.leaveEarly },
+                { label: "未定", value: attendanceSummary.tentative },
+                { label: "欠席", value: attendanceSummary.absent },
+                { label: "未回答", value: attendanceSummary.noResponse },
+                {
+                  label: "直前キャンセル",
+                  value: attendanceSummary.lateCancellations,
+                },
+              ].map((item) => (
+                <div key={item.label}>
+                  <dt className="text-sm text-gray-500">{item.label}</dt>
+                  <dd className="text-xl font-semibold">{item.value}</dd>
+                </div>
+              ))}
+            </div>
+            <p className="mt-4 text-xs text-gray-500">
+              ※ 出席率は遅刻・早退を含みます。直前キャンセルは試合開始の
+              {LATE_CANCELLATION_HOURS}
+              時間前以降に出席から欠席へ変更した回数です
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { buildSplits, SplitGroupKey, SplitRecord } from "@/lib/splits";
+import { formatRate } from "@/lib/sabermetrics";
+
+interface SplitStatsProps {
+  records: SplitRecord[];
+}
+
+// 状況別の打撃成績（走者状況・イニング・打順・対戦相手など）
+export default function SplitStats({ records }: SplitStatsProps) {
+  const [groupKey, setGroupKey] = useState<SplitGroupKey>("runners");
+
+  if (records.length === 0) {
+    return (
+      <p className="text-gray-500 text-center py-8">打席の記録がありません</p>
+    );
+  }
+
+  const groups = buildSplits(records);
+  const group = groups.find((g) => g.key === groupKey) || groups[0];
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-1 mb-4">
+        {groups.map((g) => (
+          <button
+            key={g.key}
+            onClick={() => setGroupKey(g.key)}
+            className={`px-3 py-1 rounded-full text-xs border ${
+              g.key === group.key
+                ? "bg-blue-600 text-white border-blue-600"
+                : "bg-white text-gray-600 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            {g.label}
+          </button>
+        ))}
+      </div>
+
+      {group.lines.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">
+          この分類で集計できる打席がありません
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">
+                  {group.label}
+                </th>
+                {[
+                  "打席",
+                  "打数",
+                  "安打",
+                  "本塁打",
+                  "打点",
+                  "四死球",
+                  "三振",
+                  "打率",
+                  "出塁率",
+                  "長打率",
+                  "OPS",
+                ].map((header) => (
+                  <th
+                    key={header}
+                    className="px-3 py-2 text-center text-xs font-medium text-gray-500"
+                  >
+                    {header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {group.lines.map((line) => (
+                <tr key={line.key} className="hover:bg-gray-50">
+                  <td className="px-3 py-2 font-medium">{line.label}</td>
+                  <td className="px-3 py-2 text-center">
+                    {line.plateAppearances}
+                  </td>
+                  <td className="px-3 py-2 text-center">{line.atBats}</td>
+                  <td className="px-3 py-2 text-center">{line.hits}</td>
+                  <td className="px-3 py-2 text-center">{line.homeRuns}</td>
+                  <td className="px-3 py-2 text-center">{line.rbi}</td>
+                  <td className="px-3 py-2 text-center">{line.walks}</td>
+                  <td className="px-3 py-2 text-center">{line.strikeouts}</td>
+                  <td className="px-3 py-2 text-center font-semibold">
+                    {formatRate(line.battingAverage)}
+                  </td>
+                  <td className="px-3 py-2 text-center">
+                    {formatRate(line.onBasePercentage)}
+                  </td>
+                  <td className="px-3 py-2 text-center">
+                    {formatRate(line.sluggingPercentage)}
+                  </td>
+                  <td className="px-3 py-2 text-center">
+                    {formatRate(line.ops)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {group.untracked > 0 && (
+        <p className="mt-2 text-xs text-gray-500">
+          ※ 状況の記録がない打席（{group.untracked}打席）は集計に含まれていません
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import FieldDiagram from "@/components/game/FieldDiagram";
+import {
+  BATTED_BALL_TYPE_LABELS,
+  BattedBallType,
+  formatShare,
+  HIT_DIRECTION_LABELS,
+  HitDirection,
+  summarizeHitTendency,
+} from "@/lib/spray-chart";
+
+interface SprayPoint {
+  result: string;
+  hit_x: number | null;
+  hit_y: number | null;
+  hit_direction: string | null;
+  hit_depth: string | null;
+  batted_ball_type: string | null;
+}
+
+interface SprayChartProps {
+  records: SprayPoint[];
+}
+
+const HIT_RESULTS = ["安打", "二塁打", "三塁打", "本塁打"];
+
+// 打球の種類ごとの色
+const BALL_TYPE_COLORS: Record<BattedBallType, string> = {
+  ground: "#92400e",
+  line: "#dc2626",
+  fly: "#2563eb",
+};
+
+// 打球方向のスプレーチャート（安打は塗りつぶし、凡打は白抜き）
+export default function SprayChart({ records }: SprayChartProps) {
+  const points = records.filter((r) => r.hit_x !== null && r.hit_y !== null);
+  const tendency = summarizeHitTendency(records);
+
+  if (points.length === 0) {
+    return (
+      <p className="text-gray-500 text-center py-8">
+        打球方向の記録がありません
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <div className="max-w-sm">
+        <FieldDiagram>
+          {points.map((point, index) => {
+            const color = point.batted_ball_type
+              ? BALL_TYPE_COLORS[point.batted_ball_type as BattedBallType]
+              : "#374151";
+            const isHit = HIT_RESULTS.includes(point.result);
+            return (
+              <circle
+                key={index}
+                cx={point.hit_x!}
+                cy={point.hit_y!}
+                r={1.8}
+                fill={isHit ? color : "#ffffff"}
+                stroke={color}
+                strokeWidth={0.7}
+              >
+                <title>{point.result}</title>
+              </circle>
+            );
+          })}
+        </FieldDiagram>
+        <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-600">
+          {(Object.keys(BALL_TYPE_COLORS) as BattedBallType[]).map((type) => (
+            <span key={type} className="flex items-center gap-1">
+              <span
+                className="inline-block w-3 h-3 rounded-full"
+                style={{ backgroundColor: BALL_TYPE_COLORS[type] }}
+              />
+              {BATTED_BALL_TYPE_LABELS[type]}
+            </span>
+          ))}
+          <span>●安打 ○凡打</span>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">
+            方向別（{tendency.total}球）
+          </h4>
+          <div className="grid grid-cols-3 gap-4">
+            {(Object.keys(HIT_DIRECTION_LABELS) as HitDirection[]).map(
+              (direction) => (
+                <div key={direction}>
+                  <dt className="text-sm text-gray-500">
+                    {HIT_DIRECTION_LABELS[direction]}方向
+                  </dt>
+                  <dd className="text-xl font-semibold">
+                    {formatShare(
+                      tendency.byDirection[direction],
+                      tendency.total
+                    )}
+                  </dd>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">
+            打球の種類
+          </h4>
+          <div className="grid grid-cols-3 gap-4">
+            {(Object.keys(BATTED_BALL_TYPE_LABELS) as BattedBallType[]).map(
+              (type) => (
+                <div key={type}>
+                  <dt className="text-sm text-gray-500">
+                    {BATTED_BALL_TYPE_LABELS[type]}
+                  </dt>
+                  <dd className="text-xl font-semibold">
+                    {tendency.byType[type]}
+                  </dd>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
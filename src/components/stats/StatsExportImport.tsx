@@ -0,0 +1,501 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { useAuth } from "@/components/auth/AuthProvider";
+import {
+  buildXlsx,
+  CellValue,
+  parseCsv,
+  readXlsx,
+  toCsv,
+} from "@/lib/spreadsheet";
+import {
+  buildBattingExportRows,
+  buildPitchingExportRows,
+  buildTaskExportRows,
+  ExportGame,
+} from "@/lib/stats-export";
+import {
+  createDefaultStatsFilter,
+  describeStatsFilter,
+  filterGamesByPeriod,
+  GAME_CATEGORY_LABELS,
+  listGameYears,
+  normalizeTeamSeasons,
+  StatsFilter,
+  TeamSeason,
+} from "@/lib/stats-period";
+import StatsPeriodSelector from "@/components/stats/StatsPeriodSelector";
+import {
+  buildImportPreview,
+  buildImportTemplate,
+  executeImport,
+  formatImportIssue,
+  ImportMember,
+  ImportPreview,
+  ImportSheetKind,
+  parseBattingSheet,
+  parsePitchingSheet,
+} from "@/lib/stats-import";
+
+interface StatsExportImportProps {
+  teamId: string;
+  canImport: boolean;
+}
+
+interface TeamGame extends ExportGame {
+  opponent_name: string;
+  category: string | null;
+}
+
+const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+function downloadFile(data: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// CSV・XLSX ファイルの最初のシートを読み込む
+async function readSpreadsheetFile(file: File): Promise<CellValue[][]> {
+  if (file.name.toLowerCase().endsWith(".xlsx")) {
+    const sheets = await readXlsx(await file.arrayBuffer());
+    return sheets[0]?.rows || [];
+  }
+  return parseCsv(await file.text());
+}
+
+// チーム成績のエクスポートと過去成績の取り込み
+export default function StatsExportImport({
+  teamId,
+  canImport,
+}: StatsExportImportProps) {
+  const supabase = createClientComponentClient();
+  const { user } = useAuth();
+  const [games, setGames] = useState<TeamGame[]>([]);
+  const [members, setMembers] = useState<ImportMember[]>([]);
+  const [seasons, setSeasons] = useState<TeamSeason[]>([]);
+  const [filter, setFilter] = useState<StatsFilter>(createDefaultStatsFilter);
+  const [exporting, setExporting] = useState(false);
+  const [battingFile, setBattingFile] = useState<File | null>(null);
+  const [pitchingFile, setPitchingFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [message, setMessage] = useState<{
+    type: "success" | "error";
+    text: string;
+  } | null>(null);
+
+  useEffect(() => {
+    if (teamId) {
+      fetchTeamData();
+    }
+  }, [teamId]);
+
+  const fetchTeamData = async () => {
+    try {
+      const { data: gamesData, error: gamesError } = await supabase
+        .from("games")
+        .select("id, game_date, opponent_name, category")
+        .eq("home_team_id", teamId);
+
+      if (gamesError) throw gamesError;
+      setGames(gamesData || []);
+
+      const { data: teamData } = await supabase
+        .from("teams")
+        .select("seasons")
+        .eq("id", teamId)
+        .single();
+      setSeasons(normalizeTeamSeasons(teamData?.seasons));
+
+      const { data: teamMembers, error: memberError } = await supabase
+        .from("team_members")
+        .select("id, user_id")
+        .eq("team_id", teamId);
+
+      if (memberError) throw memberError;
+
+      const { data: userProfiles } = await supabase
+        .from("user_profiles")
+        .select("id, display_name")
+        .in(
+          "id",
+          (teamMembers || []).map((m) => m.user_id)
+        );
+
+      const profileNames = new Map(
+        userProfiles?.map((p) => [p.id, p.display_name]) || []
+      );
+      setMembers(
+        (teamMembers || [])
+          .filter((m) => profileNames.get(m.user_id))
+          .map((m) => ({ id: m.id, name: profileNames.get(m.user_id)! }))
+      );
+    } catch (error) {
+      console.error("チームデータ取得エラー:", error);
+    }
+  };
+
+  const periodGames = filterGamesByPeriod(games, filter, seasons);
+  const periodLabel = describeStatsFilter(filter, seasons);
+  const fileSuffix = periodLabel.replace(/[\\/:*?"<>|]/g, "_");
+
+  // 打撃・投手・運営タスクの表データを作成
+  const buildExportSheets = async () => {
+    const gameIds = periodGames.map((g) => g.id);
+    const [playersResult, battingResult, pitchingResult, tasksResult] =
+      await Promise.all([
+        supabase
+          .from("game_players")
+          .select("id, game_id, player_name, team_member_id")
+          .in("game_id", gameIds),
+        supabase
+          .from("player_batting_stats")
+          .select("*")
+          .in("game_id", gameIds),
+        supabase
+          .from("game_pitching_records")
+          .select("*")
+          .in("game_id", gameIds),
+        supabase
+          .from("game_operation_tasks")
+          .select("game_id, task_type, person_name")
+          .in("game_id", gameIds),
+      ]);
+
+    for (const result of [
+      playersResult,
+      battingResult,
+      pitchingResult,
+      tasksResult,
+    ]) {
+      if (result.error) throw result.error;
+    }
+
+    const memberNames = new Map(members.map((m) => [m.id, m.name]));
+    const players = playersResult.data || [];
+
+    return [
+      {
+        name: "打撃成績",
+        rows: buildBattingExportRows(
+          periodLabel,
+          periodGames,
+          players,
+          memberNames,
+          battingResult.data || []
+        ),
+      },
+      {
+        name: "投手成績",
+        rows: buildPitchingExportRows(
+          periodLabel,
+          periodGames,
+          players,
+          memberNames,
+          pitchingResult.data || []
+        ),
+      },
+      {
+        name: "運営タスク",
+        rows: buildTaskExportRows(
+          periodLabel,
+          periodGames,
+          tasksResult.data || []
+        ),
+      },
+    ];
+  };
+
+  const handleExport = async (format: "csv" | "xlsx", sheetIndex = 0) => {
+    setExporting(true);
+    setMessage(null);
+    try {
+      const sheets = await buildExportSheets();
+      if (format === "xlsx") {
+        downloadFile(
+          buildXlsx(sheets) as BlobPart,
+          `チーム成績_${fileSuffix}.xlsx`,
+          XLSX_MIME_TYPE
+        );
+      } else {
+        const sheet = sheets[sheetIndex];
+        downloadFile(
+          toCsv(sheet.rows),
+          `${sheet.name}_${fileSuffix}.csv`,
+          "text/csv;charset=utf-8"
+        );
+      }
+    } catch (error) {
+      console.error("成績エクスポートエラー:", error);
+      setMessage({ type: "error", text: "成績の書き出しに失敗しました" });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleTemplateDownload = (kind: ImportSheetKind) => {
+    downloadFile(
+      toCsv(buildImportTemplate(kind)),
+      kind === "batting" ? "打撃成績テンプレート.csv" : "投手成績テンプレート.csv",
+      "text/csv;charset=utf-8"
+    );
+  };
+
+  // 取り込み前の確認（まだ登録しない）
+  const handlePreview = async () => {
+    if (!battingFile && !pitchingFile) {
+      setMessage({ type: "error", text: "取り込むファイルを選択してください" });
+      return;
+    }
+
+    setMessage(null);
+    try {
+      const battingRows = battingFile
+        ? await readSpreadsheetFile(battingFile)
+        : null;
+      const pitchingRows = pitchingFile
+        ? await readSpreadsheetFile(pitchingFile)
+        : null;
+      const empty = { lines: [], errors: [] };
+
+      setPreview(
+        buildImportPreview(
+          battingRows ? parseBattingSheet(battingRows, members) : empty,
+          pitchingRows ? parsePitchingSheet(pitchingRows, members) : empty,
+          games
+        )
+      );
+    } catch (error) {
+      console.error("取り込みファイル読み込みエラー:", error);
+      setPreview(null);
+      setMessage({ type: "error", text: "ファイルを読み込めませんでした" });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || !user) return;
+    if (
+      !confirm(`${preview.games.length}試合分の成績を取り込みます。よろしいですか？`)
+    ) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const count = await executeImport(supabase, teamId, user.id, preview);
+      setMessage({ type: "success", text: `${count}試合分を取り込みました` });
+      setPreview(null);
+      setBattingFile(null);
+      setPitchingFile(null);
+      fetchTeamData();
+    } catch (error) {
+      console.error("成績取り込みエラー:", error);
+      setMessage({
+        type: "error",
+        text: "取り込みに失敗しました。途中までの試合は登録されています",
+      });
+      fetchTeamData();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b">
+        <h3 className="text-lg font-semibold text-gray-900">
+          成績の書き出し・取り込み
+        </h3>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {message && (
+          <div
+            className={`px-4 py-3 rounded text-sm ${
+              message.type === "success"
+                ? "bg-green-50 text-green-800"
+                : "bg-red-50 text-red-800"
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {/* エクスポート */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">書き出し</h4>
+          <div className="mb-3">
+            <StatsPeriodSelector
+              filter={filter}
+              onChange={setFilter}
+              years={listGameYears(games)}
+              seasons={seasons}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              対象: {periodLabel}（{periodGames.length}試合）
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {["打撃", "投手", "運営"].map((label, index) => (
+              <button
+                key={label}
+                onClick={() => handleExport("csv", index)}
+                disabled={exporting || periodGames.length === 0}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                {label}CSV
+              </button>
+            ))}
+            <button
+              onClick={() => handleExport("xlsx")}
+              disabled={exporting || periodGames.length === 0}
+              className="px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+            >
+              Excel（3シート）
+            </button>
+          </div>
+        </div>
+
+        {/* インポート（チーム管理者のみ） */}
+        {canImport && (
+          <div className="border-t pt-6">
+            <h4 className="text-sm font-semibold text-gray-700 mb-1">
+              過去成績の取り込み
+            </h4>
+            <p className="text-xs text-gray-500 mb-3">
+              試合ごとの成績を1行ずつ入力した CSV・Excel
+              ファイルを取り込めます。日付と対戦相手が同じ行は1試合にまとめ、
+              選手名はメンバーの表示名と照合します。
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(
+                [
+                  {
+                    kind: "batting",
+                    label: "打撃成績",
+                    file: battingFile,
+                    setFile: setBattingFile,
+                  },
+                  {
+                    kind: "pitching",
+                    label: "投手成績",
+                    file: pitchingFile,
+                    setFile: setPitchingFile,
+                  },
+                ] as const
+              ).map(({ kind, label, file, setFile }) => (
+                <div key={kind} className="border rounded-md p-3">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm font-medium">{label}</span>
+                    <button
+                      onClick={() => handleTemplateDownload(kind)}
+                      className="text-xs text-blue-600 hover:underline"
+                    >
+                      テンプレート
+                    </button>
+                  </div>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx"
+                    onChange={(e) => {
+                      setFile(e.target.files?.[0] || null);
+                      setPreview(null);
+                    }}
+                    className="text-sm w-full"
+                  />
+                  {file && (
+                    <p className="text-xs text-gray-500 mt-1">{file.name}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={handlePreview}
+              disabled={!battingFile && !pitchingFile}
+              className="mt-3 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              内容を確認
+            </button>
+
+            {preview && (
+              <div className="mt-4">
+                {preview.errors.length > 0 ? (
+                  <div className="bg-red-50 border border-red-200 rounded p-3 mb-3">
+                    <p className="text-sm font-semibold text-red-800 mb-1">
+                      {preview.errors.length}件のエラーがあります。修正して再度確認してください
+                    </p>
+                    <ul className="text-xs text-red-700 space-y-0.5 max-h-48 overflow-y-auto">
+                      {preview.errors.map((issue, index) => (
+                        <li key={index}>{formatImportIssue(issue)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <p className="text-sm text-green-700 mb-3">
+                    エラーはありません。以下の内容で取り込みます
+                  </p>
+                )}
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left">日付</th>
+                        <th className="px-3 py-2 text-left">対戦相手</th>
+                        <th className="px-3 py-2 text-left">種別</th>
+                        <th className="px-3 py-2 text-center">スコア</th>
+                        <th className="px-3 py-2 text-center">打者</th>
+                        <th className="px-3 py-2 text-center">投手</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {preview.games.map((game) => (
+                        <tr key={`${game.date}-${game.opponent}`}>
+                          <td className="px-3 py-2">{game.date}</td>
+                          <td className="px-3 py-2">{game.opponent}</td>
+                          <td className="px-3 py-2">
+                            {GAME_CATEGORY_LABELS[game.category]}
+                          </td>
+                          <td className="px-3 py-2 text-center">
+                            {game.teamScore} - {game.opponentScore}
+                          </td>
+                          <td className="px-3 py-2 text-center">
+                            {game.batting.length}名
+                          </td>
+                          <td className="px-3 py-2 text-center">
+                            {game.pitching.length}名
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <button
+                  onClick={handleImport}
+                  disabled={
+                    importing ||
+                    preview.errors.length > 0 ||
+                    preview.games.length === 0
+                  }
+                  className="mt-3 px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {importing ? "取り込み中..." : "取り込む"}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
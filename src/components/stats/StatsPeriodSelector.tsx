@@ -0,0 +1,134 @@
+"use client";
+
+import {
+  GAME_CATEGORIES,
+  GAME_CATEGORY_LABELS,
+  GameCategory,
+  StatsFilter,
+  StatsPeriodMode,
+  TeamSeason,
+} from "@/lib/stats-period";
+
+interface StatsPeriodSelectorProps {
+  filter: StatsFilter;
+  onChange: (filter: StatsFilter) => void;
+  years: number[];
+  seasons?: TeamSeason[];
+}
+
+// 成績の集計期間と試合種別の選択
+export default function StatsPeriodSelector({
+  filter,
+  onChange,
+  years,
+  seasons = [],
+}: StatsPeriodSelectorProps) {
+  const modes: { value: StatsPeriodMode; label: string }[] = [
+    { value: "all", label: "全期間" },
+    { value: "year", label: "年度" },
+    ...(seasons.length > 0
+      ? [{ value: "season" as const, label: "シーズン" }]
+      : []),
+    { value: "range", label: "期間指定" },
+  ];
+
+  const handleModeChange = (mode: StatsPeriodMode) => {
+    onChange({
+      ...filter,
+      mode,
+      year: mode === "year" && years.length > 0 ? years[0] : filter.year,
+      seasonName:
+        mode === "season" && !filter.seasonName
+          ? seasons[0]?.name || ""
+          : filter.seasonName,
+    });
+  };
+
+  const toggleCategory = (category: GameCategory) => {
+    const categories = filter.categories.includes(category)
+      ? filter.categories.filter((c) => c !== category)
+      : [...filter.categories, category];
+    onChange({ ...filter, categories });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={filter.mode}
+        onChange={(e) => handleModeChange(e.target.value as StatsPeriodMode)}
+        className="px-2 py-1 border border-gray-300 rounded-md"
+      >
+        {modes.map((mode) => (
+          <option key={mode.value} value={mode.value}>
+            {mode.label}
+          </option>
+        ))}
+      </select>
+
+      {filter.mode === "year" && (
+        <select
+          value={filter.year}
+          onChange={(e) => onChange({ ...filter, year: Number(e.target.value) })}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+        >
+          {(years.includes(filter.year) ? years : [filter.year, ...years]).map(
+            (year) => (
+              <option key={year} value={year}>
+                {year}年
+              </option>
+            )
+          )}
+        </select>
+      )}
+
+      {filter.mode === "season" && (
+        <select
+          value={filter.seasonName}
+          onChange={(e) => onChange({ ...filter, seasonName: e.target.value })}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+        >
+          {seasons.map((season) => (
+            <option key={season.name} value={season.name}>
+              {season.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {filter.mode === "range" && (
+        <div className="flex items-center gap-1">
+          <input
+            type="date"
+            value={filter.startDate}
+            onChange={(e) => onChange({ ...filter, startDate: e.target.value })}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+          <span>〜</span>
+          <input
+            type="date"
+            value={filter.endDate}
+            onChange={(e) => onChange({ ...filter, endDate: e.target.value })}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+        </div>
+      )}
+
+      <div className="flex gap-1">
+        {GAME_CATEGORIES.map((category) => (
+          <button
+            key={category}
+            type="button"
+            onClick={() => toggleCategory(category)}
+            className={`px-2 py-1 rounded-full border text-xs ${
+              filter.categories.includes(category)
+                ? "bg-blue-600 text-white border-blue-600"
+                : "bg-white text-gray-500 border-gray-300"
+            }`}
+          >
+            {GAME_CATEGORY_LABELS[category]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
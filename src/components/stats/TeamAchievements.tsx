@@ -0,0 +1,188 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import { isTeamRecord } from "@/lib/milestones";
+
+interface Achievement {
+  id: string;
+  team_id: string;
+  game_id: string;
+  player_name: string;
+  achievement_type: string;
+  value: number;
+  label: string;
+  achieved_on: string;
+}
+
+interface TeamAchievementsProps {
+  teamIds: string[];
+  showTeamRecords?: boolean; // チーム記録（1試合の最高記録）の一覧も表示
+  limit?: number;
+}
+
+const TEAM_RECORD_LABELS: { [key: string]: string } = {
+  team_record_hits: "1試合最多安打",
+  team_record_home_runs: "1試合最多本塁打",
+  team_record_rbi: "1試合最多打点",
+  team_record_strikeouts: "1試合最多奪三振",
+};
+
+// 記録・達成（初安打・通算記録・サイクルヒットなど）
+export default function TeamAchievements({
+  teamIds,
+  showTeamRecords = false,
+  limit = 10,
+}: TeamAchievementsProps) {
+  const [recent, setRecent] = useState<Achievement[]>([]);
+  const [teamRecords, setTeamRecords] = useState<Achievement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const supabase = createClientComponentClient();
+
+  const teamKey = teamIds.join(",");
+
+  useEffect(() => {
+    if (teamIds.length > 0) {
+      fetchAchievements();
+    } else {
+      setLoading(false);
+    }
+  }, [teamKey]);
+
+  const fetchAchievements = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("achievements")
+        .select(
+          "id, team_id, game_id, player_name, achievement_type, value, label, achieved_on"
+        )
+        .in("team_id", teamIds)
+        .order("achieved_on", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      setRecent(data || []);
+
+      if (showTeamRecords) {
+        const { data: records, error: recordsError } = await supabase
+          .from("achievements")
+          .select(
+            "id, team_id, game_id, player_name, achievement_type, value, label, achieved_on"
+          )
+          .in("team_id", teamIds)
+          .like("achievement_type", "team_record_%");
+
+        if (recordsError) throw recordsError;
+
+        // 種類ごとに最高の記録（同じ値なら先に達成した選手）
+        const best = new Map<string, Achievement>();
+        for (const record of records || []) {
+          const current = best.get(record.achievement_type);
+          if (
+            !current ||
+            record.value > current.value ||
+            (record.value === current.value &&
+              record.achieved_on < current.achieved_on)
+          ) {
+            best.set(record.achievement_type, record);
+          }
+        }
+        setTeamRecords(
+          Object.keys(TEAM_RECORD_LABELS)
+            .map((type) => best.get(type))
+            .filter((r): r is Achievement => !!r)
+        );
+      }
+    } catch (error) {
+      console.error("記録取得エラー:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b">
+        <h2 className="text-xl font-semibold text-gray-900">記録・達成</h2>
+      </div>
+      <div className="p-6 space-y-6">
+        {loading ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-3 bg-gray-200 rounded"></div>
+            <div className="h-3 bg-gray-200 rounded"></div>
+          </div>
+        ) : (
+          <>
+            {showTeamRecords && teamRecords.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  チーム記録
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {teamRecords.map((record) => (
+                    <div
+                      key={record.achievement_type}
+                      className="border rounded-lg p-3"
+                    >
+                      <div className="text-xs text-gray-500">
+                        {TEAM_RECORD_LABELS[record.achievement_type]}
+                      </div>
+                      <div className="text-xl font-bold text-gray-900">
+                        {record.value}
+                      </div>
+                      <div className="text-xs text-gray-600">
+                        {record.player_name}（
+                        {new Date(record.achieved_on).toLocaleDateString(
+                          "ja-JP"
+                        )}
+                        ）
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {recent.length > 0 ? (
+              <ul className="space-y-2">
+                {recent.map((achievement) => (
+                  <li
+                    key={achievement.id}
+                    className="flex items-center justify-between border rounded-lg px-4 py-2"
+                  >
+                    <div>
+                      <span className="mr-2">
+                        {isTeamRecord(achievement.achievement_type)
+                          ? "🏆"
+                          : "🎉"}
+                      </span>
+                      <span className="font-medium">
+                        {achievement.player_name}
+                      </span>
+                      <span className="ml-2 text-gray-700">
+                        {achievement.label}
+                      </span>
+                    </div>
+                    <Link
+                      href={`/games/${achievement.game_id}`}
+                      className="text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      {new Date(achievement.achieved_on).toLocaleDateString(
+                        "ja-JP"
+                      )}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500">まだ記録の達成はありません</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
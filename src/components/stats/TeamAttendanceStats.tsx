@@ -0,0 +1,271 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import StatsPeriodSelector from "@/components/stats/StatsPeriodSelector";
+import {
+  AttendanceHistoryGame,
+  AttendanceHistoryRecord,
+  AttendanceReliability,
+  isAttendanceHistoryGame,
+  LATE_CANCELLATION_HOURS,
+  summarizeAttendanceByMember,
+} from "@/lib/attendance-stats";
+import { formatPercent } from "@/lib/sabermetrics";
+import {
+  createDefaultStatsFilter,
+  describeStatsFilter,
+  filterGamesByPeriod,
+  listGameYears,
+  normalizeTeamSeasons,
+  StatsFilter,
+  TeamSeason,
+} from "@/lib/stats-period";
+
+interface TeamAttendanceStatsProps {
+  teamId: string;
+}
+
+interface MemberAttendance {
+  memberId: string;
+  name: string;
+  summary: AttendanceReliability;
+}
+
+// メンバーごとの出欠の信頼度（回答率・出席率・遅刻・直前キャンセル）
+export default function TeamAttendanceStats({
+  teamId,
+}: TeamAttendanceStatsProps) {
+  const [games, setGames] = useState<AttendanceHistoryGame[]>([]);
+  const [records, setRecords] = useState<AttendanceHistoryRecord[]>([]);
+  const [memberNames, setMemberNames] = useState<Map<string, string>>(
+    new Map()
+  );
+  const [seasons, setSeasons] = useState<TeamSeason[]>([]);
+  const [filter, setFilter] = useState<StatsFilter>(createDefaultStatsFilter);
+  const [loading, setLoading] = useState(true);
+  const supabase = createClientComponentClient();
+
+  useEffect(() => {
+    if (teamId) {
+      fetchAttendanceHistory();
+    }
+  }, [teamId]);
+
+  const fetchAttendanceHistory = async () => {
+    try {
+      const [{ data: teamData }, { data: gamesData, error: gamesError }] =
+        await Promise.all([
+          supabase.from("teams").select("seasons").eq("id", teamId).single(),
+          supabase
+            .from("games")
+            .select("id, game_date, game_time, category, status")
+            .eq("home_team_id", teamId)
+            .eq("attendance_check_enabled", true),
+        ]);
+
+      if (gamesError) throw gamesError;
+      setSeasons(normalizeTeamSeasons(teamData?.seasons));
+
+      const historyGames = (gamesData || []).filter((game) =>
+        isAttendanceHistoryGame(game)
+      );
+      setGames(historyGames);
+      if (historyGames.length === 0) return;
+
+      const { data: attendanceData, error: attendanceError } = await supabase
+        .from("game_attendances")
+        .select("game_id, team_member_id, status, auto_closed, cancelled_at")
+        .in(
+          "game_id",
+          historyGames.map((g) => g.id)
+        )
+        .not("team_member_id", "is", null);
+
+      if (attendanceError) throw attendanceError;
+      setRecords(attendanceData || []);
+
+      // メンバーの表示名
+      const { data: members } = await supabase
+        .from("team_members")
+        .select("id, user_id")
+        .eq("team_id", teamId);
+
+      const { data: profiles } = await supabase
+        .from("user_profiles")
+        .select("id, display_name")
+        .in(
+          "id",
+          (members || []).map((m) => m.user_id)
+        );
+
+      setMemberNames(
+        new Map(
+          (members || []).map((member) => [
+            member.id,
+            profiles?.find((p) => p.id === member.user_id)?.display_name ||
+              "名前未設定",
+          ])
+        )
+      );
+    } catch (error) {
+      console.error("出欠履歴取得エラー:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/4 mb-4"></div>
+          <div className="space-y-3">
+            <div className="h-3 bg-gray-200 rounded"></div>
+            <div className="h-3 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (games.length === 0) {
+    return null; // 出欠確認を行った試合がない場合は表示しない
+  }
+
+  const periodGames = filterGamesByPeriod(games, filter, seasons);
+  const gameMap = new Map(periodGames.map((game) => [game.id, game]));
+  const members: MemberAttendance[] = Array.from(
+    summarizeAttendanceByMember(records, gameMap).entries()
+  )
+    // 退団したメンバーは除く
+    .filter(([memberId]) => memberNames.has(memberId))
+    .map(([memberId, summary]) => ({
+      memberId,
+      name: memberNames.get(memberId) || "名前未設定",
+      summary,
+    }))
+    .sort(
+      (a, b) =>
+        (b.summary.attendanceRate ?? 0) - (a.summary.attendanceRate ?? 0) ||
+        b.summary.games - a.summary.games
+    );
+
+  // チーム全体の平均出席人数（ロースター計画の目安）
+  const averageAttendance =
+    periodGames.length > 0
+      ? members.reduce((sum, m) => sum + m.summary.participated, 0) /
+        periodGames.length
+      : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b space-y-3">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-900">
+            出欠の記録
+            <span className="ml-2 text-sm font-normal text-gray-500">
+              {describeStatsFilter(filter, seasons)}
+            </span>
+          </h3>
+          <span className="text-sm text-gray-600">
+            {periodGames.length}試合
+            {averageAttendance !== null &&
+              `・平均出席 ${averageAttendance.toFixed(1)}人`}
+          </span>
+        </div>
+        <StatsPeriodSelector
+          filter={filter}
+          onChange={setFilter}
+          years={listGameYears(games)}
+          seasons={seasons}
+        />
+      </div>
+
+      <div className="p-6">
+        {members.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">
+            この期間の出欠の記録がありません
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">
+                      名前
+                    </th>
+                    {[
+                      "対象",
+                      "回答率",
+                      "出席率",
+                      "出席",
+                      "遅刻",
+                      "早退",
+                      "未定",
+                      "欠席",
+                      "未回答",
+                      "直前キャンセル",
+                    ].map((header) => (
+                      <th
+                        key={header}
+                        className="px-3 py-2 text-center text-xs font-medium text-gray-500 whitespace-nowrap"
+                      >
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {members.map(({ memberId, name, summary }) => (
+                    <tr key={memberId} className="hover:bg-gray-50">
+                      <td className="px-3 py-2 font-medium whitespace-nowrap">
+                        {name}
+                      </td>
+                      <td className="px-3 py-2 text-center">{summary.games}</td>
+                      <td className="px-3 py-2 text-center">
+                        {formatPercent(summary.responseRate, 0)}
+                      </td>
+                      <td className="px-3 py-2 text-center font-semibold">
+                        {formatPercent(summary.attendanceRate, 0)}
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        {summary.participated}
+                      </td>
+                      <td className="px-3 py-2 text-center">{summary.late}</td>
+                      <td className="px-3 py-2 text-center">
+                        {summary.leaveEarly}
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        {summary.tentative}
+                      </td>
+                      <td className="px-3 py-2 text-center">{summary.absent}</td>
+                      <td className="px-3 py-2 text-center">
+                        {summary.noResponse}
+                      </td>
+                      <td
+                        className={`px-3 py-2 text-center ${
+                          summary.lateCancellations > 0
+                            ? "text-red-600 font-semibold"
+                            : ""
+                        }`}
+                      >
+                        {summary.lateCancellations}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              ※ 出席率は遅刻・早退を含みます。直前キャンセルは試合開始の
+              {LATE_CANCELLATION_HOURS}
+              時間前以降に出席から欠席へ変更した回数です
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
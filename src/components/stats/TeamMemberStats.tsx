@@ -2,6 +2,61 @@
 
 import { useState, useEffect } from "react";
 import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+import {
+  FIELDING_POSITIONS,
+  FieldingSummary,
+  formatFieldingPercentage,
+  formatOutsAsInnings,
+  summarizeFielding,
+} from "@/lib/fielding";
+import {
+  BATTED_BALL_TYPE_LABELS,
+  BattedBallType,
+  formatShare,
+  getPositioningTendency,
+  HIT_DIRECTION_LABELS,
+  HitDirection,
+  HitTendency,
+  summarizeHitTendency,
+} from "@/lib/spray-chart";
+import {
+  createDefaultStatsFilter,
+  describeStatsFilter,
+  filterGamesByPeriod,
+  listGameYears,
+  normalizeTeamSeasons,
+  StatsFilter,
+  TeamSeason,
+} from "@/lib/stats-period";
+import StatsPeriodSelector from "@/components/stats/StatsPeriodSelector";
+import SplitStats from "@/components/stats/SplitStats";
+import { SplitRecord, toSplitRecords } from "@/lib/splits";
+import {
+  BattingMetrics,
+  calculateBattingMetrics,
+  calculateFipConstant,
+  calculateOpsPlus,
+  calculatePitchingMetrics,
+  formatDecimal,
+  formatPercent,
+  formatRate,
+  sumBattingStatsRows,
+  sumPitchingRows,
+} from "@/lib/sabermetrics";
+import { outsToInnings } from "@/lib/pitching-decisions";
+import {
+  buildLeaderboards,
+  buildSeasonLeaders,
+  countTeamGamesPlayed,
+  LeaderCandidate,
+  Leaderboard,
+  normalizeQualificationRules,
+  QualificationRules,
+  requiredOuts,
+  requiredPlateAppearances,
+  SeasonLeaders,
+} from "@/lib/leaderboards";
+import Leaderboards from "@/components/stats/Leaderboards";
 
 interface MemberBattingStats {
   member_id: string;
@@ -20,6 +75,14 @@ interface MemberBattingStats {
   on_base_percentage: string;
   slugging_percentage: string;
   ops: string;
+  woba: string;
+  iso: string;
+  babip: string;
+  bb_per_k: string;
+  runs_created: string;
+  ops_plus: string; // チーム全体を 100 とした OPS+
+  plate_appearances: number;
+  qualified: boolean; // 規定打席に到達
 }
 
 interface MemberPitchingStats {
@@ -42,8 +105,63 @@ interface MemberPitchingStats {
   k_per_nine: string;
   bb_per_nine: string;
   win_percentage: string;
+  fip: string;
+  k_bb_rate: string;
+  qualified: boolean; // 規定投球回に到達
 }
 
+interface MemberFieldingStats extends FieldingSummary {
+  member_id: string;
+  member_name: string;
+  fielding_percentage: number; // 並び替え用（守備機会なしは -1）
+}
+
+interface MemberHitTendency extends HitTendency {
+  member_id: string;
+  member_name: string;
+  positioning: string | null; // 相手に取られそうな守備位置の傾向
+}
+
+interface MemberSplitRecords {
+  member_id: string;
+  member_name: string;
+  records: SplitRecord[];
+}
+
+// メンバーごとの試合ごとの成績（ビューの行）
+interface MemberStatRows {
+  memberId: string;
+  name: string;
+  data: any[];
+}
+
+// 規定打席・規定投球回
+interface QualificationThresholds {
+  teamGames: number;
+  plateAppearances: number;
+  outs: number;
+}
+
+// 率の列（並び替えでは規定到達者を上位にする）
+const RATE_SORT_FIELDS = new Set([
+  "batting_average",
+  "on_base_percentage",
+  "slugging_percentage",
+  "ops",
+  "woba",
+  "iso",
+  "babip",
+  "bb_per_k",
+  "ops_plus",
+  "era",
+  "whip",
+  "k_per_nine",
+  "bb_per_nine",
+  "win_percentage",
+  "fip",
+  "k_bb_rate",
+]);
+
 interface TeamMemberStatsProps {
   teamId: string;
 }
@@ -51,17 +169,33 @@ interface TeamMemberStatsProps {
 export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
   const [battingStats, setBattingStats] = useState<MemberBattingStats[]>([]);
   const [pitchingStats, setPitchingStats] = useState<MemberPitchingStats[]>([]);
+  const [fieldingStats, setFieldingStats] = useState<MemberFieldingStats[]>([]);
+  const [hitTendencies, setHitTendencies] = useState<MemberHitTendency[]>([]);
+  const [memberSplits, setMemberSplits] = useState<MemberSplitRecords[]>([]);
+  const [splitMemberId, setSplitMemberId] = useState("");
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<"batting" | "pitching">("batting");
+  const [activeTab, setActiveTab] = useState<
+    "batting" | "pitching" | "fielding" | "spray" | "splits" | "leaders"
+  >("batting");
   const [sortField, setSortField] = useState<string>("batting_average");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+  const [filter, setFilter] = useState<StatsFilter>(createDefaultStatsFilter);
+  const [seasons, setSeasons] = useState<TeamSeason[]>([]);
+  const [gameYears, setGameYears] = useState<number[]>([]);
+  const [leaderboards, setLeaderboards] = useState<Leaderboard[]>([]);
+  const [seasonLeaders, setSeasonLeaders] = useState<SeasonLeaders[]>([]);
+  const [thresholds, setThresholds] = useState<QualificationThresholds>({
+    teamGames: 0,
+    plateAppearances: 0,
+    outs: 0,
+  });
   const supabase = createClientComponentClient();
 
   useEffect(() => {
     if (teamId) {
       fetchTeamStats();
     }
-  }, [teamId]);
+  }, [teamId, filter]);
 
   const fetchTeamStats = async () => {
     setLoading(true);
@@ -125,12 +259,36 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
 
       console.log("memberGamePlayerMap:", memberGamePlayerMap);
 
+      // チームのシーズン設定
+      const { data: teamData } = await supabase
+        .from("teams")
+        .select("seasons, stats_qualification")
+        .eq("id", teamId)
+        .single();
+      const teamSeasons = normalizeTeamSeasons(teamData?.seasons);
+      setSeasons(teamSeasons);
+      const qualificationRules = normalizeQualificationRules(
+        teamData?.stats_qualification
+      );
+
       // また、チームの試合からgame_playersを直接取得（team_member_idがnullの場合も考慮）
       const { data: teamGames } = await supabase
         .from("games")
-        .select("id")
+        .select("id, game_date, category, opponent_name, location, status")
         .eq("home_team_id", teamId);
 
+      // 集計期間・試合種別に当てはまる試合のみを集計対象にする
+      setGameYears(listGameYears(teamGames || []));
+      const periodGames = filterGamesByPeriod(
+        teamGames || [],
+        filter,
+        teamSeasons
+      );
+      const periodGameIds = periodGames.map((g) => g.id);
+      const periodGameIdSet = new Set(periodGameIds);
+      // 打撃・投手成績は歴代リーダーの集計のため全期間分を取得する
+      const allGameIds = (teamGames || []).map((g) => g.id);
+
       if (teamGames && teamGames.length > 0) {
         const gameIds = teamGames.map((g) => g.id);
         console.log("チームの試合ID:", gameIds);
@@ -175,14 +333,15 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
         }
       }
 
-      // 打撃成績を集計
-      const battingStatsList: MemberBattingStats[] = [];
+      // 打撃成績を集計（OPS+ の基準にするため、先に全員分を取得する）
+      const battingRows: MemberStatRows[] = [];
 
       for (const [memberId, playerInfo] of memberGamePlayerMap) {
         const { data: battingData, error: battingError } = await supabase
           .from("player_batting_stats")
           .select("*")
-          .in("player_id", playerInfo.ids);
+          .in("player_id", playerInfo.ids)
+          .in("game_id", allGameIds);
 
         console.log(`メンバー ${playerInfo.name} の打撃データ:`, battingData);
         if (battingError) {
@@ -190,23 +349,28 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
         }
 
         if (battingData && battingData.length > 0) {
-          const stats = calculateMemberBattingTotals(
+          battingRows.push({
             memberId,
-            playerInfo.name,
-            battingData
-          );
-          battingStatsList.push(stats);
+            name: playerInfo.name,
+            data: battingData,
+          });
         }
       }
 
-      // 投手成績を集計
-      const pitchingStatsList: MemberPitchingStats[] = [];
+      const periodBattingRows = filterRowsByGames(
+        battingRows,
+        periodGameIdSet
+      );
+
+      // 投手成績を集計（FIP 定数をチーム全体から求めるため、先に全員分を取得する）
+      const pitchingRows: MemberStatRows[] = [];
 
       for (const [memberId, playerInfo] of memberGamePlayerMap) {
         const { data: pitchingData, error: pitchingError } = await supabase
           .from("player_pitching_stats")
           .select("*")
-          .in("player_id", playerInfo.ids);
+          .in("player_id", playerInfo.ids)
+          .in("game_id", allGameIds);
 
         console.log(`メンバー ${playerInfo.name} の投手データ:`, pitchingData);
         if (pitchingError) {
@@ -214,12 +378,179 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
         }
 
         if (pitchingData && pitchingData.length > 0) {
-          const stats = calculateMemberPitchingTotals(
+          pitchingRows.push({
             memberId,
-            playerInfo.name,
-            pitchingData
+            name: playerInfo.name,
+            data: pitchingData,
+          });
+        }
+      }
+
+      const periodPitchingRows = filterRowsByGames(
+        pitchingRows,
+        periodGameIdSet
+      );
+
+      // 規定打席・規定投球回（期間内のチームの試合数から）
+      const periodThresholds = calculateThresholds(
+        periodGames,
+        [...periodBattingRows, ...periodPitchingRows],
+        qualificationRules
+      );
+
+      const teamBatting = calculateBattingMetrics(
+        sumBattingStatsRows(periodBattingRows.flatMap((row) => row.data))
+      );
+      const battingStatsList: MemberBattingStats[] = periodBattingRows.map(
+        (row) =>
+          calculateMemberBattingTotals(
+            row.memberId,
+            row.name,
+            row.data,
+            teamBatting,
+            periodThresholds
+          )
+      );
+
+      const fipConstant = calculateFipConstant(
+        sumPitchingRows(periodPitchingRows.flatMap((row) => row.data))
+      );
+      const pitchingStatsList: MemberPitchingStats[] = periodPitchingRows.map(
+        (row) =>
+          calculateMemberPitchingTotals(
+            row.memberId,
+            row.name,
+            row.data,
+            fipConstant,
+            periodThresholds
+          )
+      );
+
+      // 部門別リーダーと、シーズン（未設定なら年度）ごとの歴代リーダー
+      const periodLeaderboards = buildLeaderboards(
+        buildLeaderCandidates(periodBattingRows, periodPitchingRows),
+        periodThresholds.teamGames,
+        qualificationRules
+      );
+      const historyPeriods: { label: string; periodFilter: StatsFilter }[] =
+        teamSeasons.length > 0
+          ? teamSeasons.map((season) => ({
+              label: season.name,
+              periodFilter: {
+                ...filter,
+                mode: "season",
+                seasonName: season.name,
+              },
+            }))
+          : listGameYears(teamGames || []).map((year) => ({
+              label: `${year}年`,
+              periodFilter: { ...filter, mode: "year", year },
+            }));
+      const history = buildSeasonLeaders(
+        historyPeriods.map(({ label, periodFilter }) => {
+          const games = filterGamesByPeriod(
+            teamGames || [],
+            periodFilter,
+            teamSeasons
           );
-          pitchingStatsList.push(stats);
+          const gameIdSet = new Set(games.map((g) => g.id));
+          const seasonBatting = filterRowsByGames(battingRows, gameIdSet);
+          const seasonPitching = filterRowsByGames(pitchingRows, gameIdSet);
+          return {
+            label,
+            teamGames: calculateThresholds(
+              games,
+              [...seasonBatting, ...seasonPitching],
+              qualificationRules
+            ).teamGames,
+            candidates: buildLeaderCandidates(seasonBatting, seasonPitching),
+          };
+        }),
+        qualificationRules
+      );
+
+      // 守備成績を集計
+      const fieldingStatsList: MemberFieldingStats[] = [];
+
+      for (const [memberId, playerInfo] of memberGamePlayerMap) {
+        const { data: fieldingData, error: fieldingError } = await supabase
+          .from("game_fielding_records")
+          .select("*")
+          .in("player_id", playerInfo.ids)
+          .in("game_id", periodGameIds);
+
+        if (fieldingError) {
+          console.error("守備データ取得エラー:", fieldingError);
+        }
+
+        if (fieldingData && fieldingData.length > 0) {
+          const summary = summarizeFielding(fieldingData);
+          fieldingStatsList.push({
+            member_id: memberId,
+            member_name: playerInfo.name,
+            ...summary,
+            fielding_percentage: summary.fieldingPercentage ?? -1,
+          });
+        }
+      }
+
+      // 打球方向の傾向を集計
+      const hitTendencyList: MemberHitTendency[] = [];
+
+      for (const [memberId, playerInfo] of memberGamePlayerMap) {
+        const { data: sprayData, error: sprayError } = await supabase
+          .from("game_batting_records")
+          .select("hit_direction, hit_depth, batted_ball_type")
+          .in("player_id", playerInfo.ids)
+          .in("game_id", periodGameIds)
+          .not("hit_direction", "is", null);
+
+        if (sprayError) {
+          console.error("打球方向取得エラー:", sprayError);
+        }
+
+        if (sprayData && sprayData.length > 0) {
+          const tendency = summarizeHitTendency(sprayData);
+          hitTendencyList.push({
+            member_id: memberId,
+            member_name: playerInfo.name,
+            ...tendency,
+            positioning: getPositioningTendency(tendency),
+          });
+        }
+      }
+
+      // 状況別成績（打席ごとの状況と試合情報）
+      const { data: scoreData } = await supabase
+        .from("game_scores")
+        .select("game_id, is_my_team_bat_first")
+        .in("game_id", periodGameIds);
+
+      const gameInfoMap = new Map((teamGames || []).map((g) => [g.id, g]));
+      const batFirstMap = new Map(
+        (scoreData || []).map((s) => [s.game_id, s.is_my_team_bat_first])
+      );
+      const splitList: MemberSplitRecords[] = [];
+
+      for (const [memberId, playerInfo] of memberGamePlayerMap) {
+        const { data: splitData, error: splitError } = await supabase
+          .from("game_batting_records")
+          .select(
+            "game_id, result, rbi, inning, batting_order, runners_before, outs_before, notes"
+          )
+          .in("player_id", playerInfo.ids)
+          .in("game_id", periodGameIds);
+
+        if (splitError) {
+          console.error("状況別成績取得エラー:", splitError);
+        }
+
+        if (splitData && splitData.length > 0) {
+          splitList.push({
+            member_id: memberId,
+            member_name: playerInfo.name,
+            records: toSplitRecords(splitData, gameInfoMap, batFirstMap),
+          });
         }
       }
 
@@ -228,6 +559,12 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
 
       setBattingStats(battingStatsList);
       setPitchingStats(pitchingStatsList);
+      setThresholds(periodThresholds);
+      setLeaderboards(periodLeaderboards);
+      setSeasonLeaders(history);
+      setFieldingStats(fieldingStatsList);
+      setHitTendencies(hitTendencyList);
+      setMemberSplits(splitList);
     } catch (error) {
       console.error("成績取得エラー:", error);
     } finally {
@@ -235,150 +572,138 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
     }
   };
 
-  const calculateMemberBattingTotals = (
-    memberId: string,
-    memberName: string,
-    data: any[]
-  ): MemberBattingStats => {
-    const totals = data.reduce(
-      (acc, game) => ({
-        games: acc.games + 1,
-        at_bats: acc.at_bats + (game.at_bats || 0),
-        hits: acc.hits + (game.hits || 0),
-        doubles: acc.doubles + (game.doubles || 0),
-        triples: acc.triples + (game.triples || 0),
-        home_runs: acc.home_runs + (game.home_runs || 0),
-        rbi: acc.rbi + (game.rbi || 0),
-        runs: acc.runs + (game.runs || 0),
-        walks: acc.walks + (game.walks || 0),
-        stolen_bases: acc.stolen_bases + (game.stolen_bases || 0),
-      }),
-      {
-        games: 0,
-        at_bats: 0,
-        hits: 0,
-        doubles: 0,
-        triples: 0,
-        home_runs: 0,
-        rbi: 0,
-        runs: 0,
-        walks: 0,
-        stolen_bases: 0,
-      }
-    );
+  // 指定した試合の行のみに絞る（行のなくなったメンバーは除く）
+  const filterRowsByGames = (
+    rows: MemberStatRows[],
+    gameIds: Set<string>
+  ): MemberStatRows[] =>
+    rows
+      .map((row) => ({
+        ...row,
+        data: row.data.filter((d) => gameIds.has(d.game_id)),
+      }))
+      .filter((row) => row.data.length > 0);
 
-    // 打率計算
-    const avg =
-      totals.at_bats > 0 ? (totals.hits / totals.at_bats).toFixed(3) : ".000";
+  const calculateThresholds = (
+    games: { id: string; status?: string | null }[],
+    rows: MemberStatRows[],
+    rules: QualificationRules
+  ): QualificationThresholds => {
+    const teamGames = countTeamGamesPlayed(
+      games,
+      new Set(rows.flatMap((row) => row.data.map((d) => d.game_id)))
+    );
+    return {
+      teamGames,
+      plateAppearances: requiredPlateAppearances(teamGames, rules),
+      outs: requiredOuts(teamGames, rules),
+    };
+  };
 
-    // 出塁率計算
-    const plateAppearances = totals.at_bats + totals.walks;
-    const obp =
-      plateAppearances > 0
-        ? ((totals.hits + totals.walks) / plateAppearances).toFixed(3)
-        : ".000";
+  const buildLeaderCandidates = (
+    batting: MemberStatRows[],
+    pitching: MemberStatRows[]
+  ): LeaderCandidate[] => {
+    const candidates = new Map<string, LeaderCandidate>();
+    const getCandidate = (row: MemberStatRows): LeaderCandidate =>
+      candidates.get(row.memberId) || {
+        memberId: row.memberId,
+        name: row.name,
+        batting: null,
+        rbi: 0,
+        pitching: null,
+      };
 
-    // 長打率計算
-    const totalBases =
-      totals.hits + totals.doubles + totals.triples * 2 + totals.home_runs * 3;
-    const slg =
-      totals.at_bats > 0 ? (totalBases / totals.at_bats).toFixed(3) : ".000";
+    for (const row of batting) {
+      candidates.set(row.memberId, {
+        ...getCandidate(row),
+        batting: sumBattingStatsRows(row.data),
+        rbi: row.data.reduce((sum, game) => sum + (game.rbi || 0), 0),
+      });
+    }
+    for (const row of pitching) {
+      candidates.set(row.memberId, {
+        ...getCandidate(row),
+        pitching: sumPitchingRows(row.data),
+      });
+    }
+    return Array.from(candidates.values());
+  };
 
-    // OPS計算
-    const ops = (parseFloat(obp) + parseFloat(slg)).toFixed(3);
+  const calculateMemberBattingTotals = (
+    memberId: string,
+    memberName: string,
+    data: any[],
+    teamMetrics: BattingMetrics,
+    qualification: QualificationThresholds
+  ): MemberBattingStats => {
+    const counts = sumBattingStatsRows(data);
+    const metrics = calculateBattingMetrics(counts);
+    const opsPlus = calculateOpsPlus(metrics, teamMetrics);
 
+    // 率の計算は src/lib/sabermetrics.ts に集約
     return {
       member_id: memberId,
       member_name: memberName,
-      ...totals,
-      batting_average: avg,
-      on_base_percentage: obp,
-      slugging_percentage: slg,
-      ops: ops,
+      games: data.length,
+      at_bats: counts.atBats,
+      hits: counts.hits,
+      doubles: counts.doubles,
+      triples: counts.triples,
+      home_runs: counts.homeRuns,
+      rbi: data.reduce((sum, game) => sum + (game.rbi || 0), 0),
+      runs: data.reduce((sum, game) => sum + (game.runs || 0), 0),
+      walks: counts.walks,
+      stolen_bases: counts.stolenBases,
+      batting_average: formatRate(metrics.battingAverage),
+      on_base_percentage: formatRate(metrics.onBasePercentage),
+      slugging_percentage: formatRate(metrics.sluggingPercentage),
+      ops: formatRate(metrics.ops),
+      woba: formatRate(metrics.woba),
+      iso: formatRate(metrics.iso),
+      babip: formatRate(metrics.babip),
+      bb_per_k: formatDecimal(metrics.walksPerStrikeout),
+      runs_created: formatDecimal(metrics.runsCreated, 1),
+      ops_plus: opsPlus === null ? "-" : String(opsPlus),
+      plate_appearances: metrics.plateAppearances,
+      qualified: metrics.plateAppearances >= qualification.plateAppearances,
     };
   };
 
   const calculateMemberPitchingTotals = (
     memberId: string,
     memberName: string,
-    data: any[]
+    data: any[],
+    fipConstant: number,
+    qualification: QualificationThresholds
   ): MemberPitchingStats => {
-    const totals = data.reduce(
-      (acc, game) => ({
-        games: acc.games + 1,
-        innings_pitched: acc.innings_pitched + (game.innings_pitched || 0),
-        hits_allowed: acc.hits_allowed + (game.hits_allowed || 0),
-        runs_allowed: acc.runs_allowed + (game.runs_allowed || 0),
-        earned_runs: acc.earned_runs + (game.earned_runs || 0),
-        strikeouts: acc.strikeouts + (game.strikeouts || 0),
-        walks: acc.walks + (game.walks || 0),
-        home_runs_allowed:
-          acc.home_runs_allowed + (game.home_runs_allowed || 0),
-        wins: acc.wins + (game.win ? 1 : 0), // ← 実際の勝利数を集計
-        losses: acc.losses + (game.loss ? 1 : 0), // ← 実際の敗戦数を集計
-        saves: acc.saves + (game.save ? 1 : 0), // ← セーブ数を集計
-      }),
-      {
-        games: 0,
-        innings_pitched: 0,
-        hits_allowed: 0,
-        runs_allowed: 0,
-        earned_runs: 0,
-        strikeouts: 0,
-        walks: 0,
-        home_runs_allowed: 0,
-        wins: 0,
-        losses: 0,
-        saves: 0, // ← 追加
-      }
-    );
-
-    // 勝率の計算を追加
-    const decisions = totals.wins + totals.losses;
-    const winPercentage =
-      decisions > 0 ? ((totals.wins / decisions) * 100).toFixed(1) : "0.0";
-
-    // 投球回を実際のイニング数に変換
-    const actualInnings =
-      Math.floor(totals.innings_pitched) +
-      ((totals.innings_pitched % 1) * 10) / 3;
-
-    // 投球回の表示形式
-    const inningsDisplay = formatInnings(totals.innings_pitched);
-
-    // 防御率計算（7回換算）
-    const era =
-      actualInnings > 0
-        ? ((totals.earned_runs * 7) / actualInnings).toFixed(2)
-        : "0.00";
-
-    // WHIP計算
-    const whip =
-      actualInnings > 0
-        ? ((totals.walks + totals.hits_allowed) / actualInnings).toFixed(2)
-        : "0.00";
-
-    // K/7計算
-    const kPerNine =
-      actualInnings > 0
-        ? ((totals.strikeouts * 7) / actualInnings).toFixed(2)
-        : "0.00";
-
-    // BB/7計算
-    const bbPerNine =
-      actualInnings > 0
-        ? ((totals.walks * 7) / actualInnings).toFixed(2)
-        : "0.00";
+    const counts = sumPitchingRows(data);
+    const metrics = calculatePitchingMetrics(counts, fipConstant);
+    const inningsPitched = outsToInnings(counts.outs);
 
     return {
       member_id: memberId,
       member_name: memberName,
-      ...totals,
-      innings_display: inningsDisplay,
-      era: era,
-      whip: whip,
-      k_per_nine: kPerNine,
-      bb_per_nine: bbPerNine,
+      games: counts.appearances,
+      innings_pitched: inningsPitched,
+      innings_display: formatInnings(inningsPitched),
+      hits_allowed: counts.hitsAllowed,
+      runs_allowed: counts.runsAllowed,
+      earned_runs: counts.earnedRuns,
+      strikeouts: counts.strikeouts,
+      walks: counts.walks,
+      home_runs_allowed: counts.homeRunsAllowed,
+      wins: counts.wins,
+      losses: counts.losses,
+      saves: counts.saves,
+      era: formatDecimal(metrics.era),
+      whip: formatDecimal(metrics.whip),
+      k_per_nine: formatDecimal(metrics.strikeoutsPerGame),
+      bb_per_nine: formatDecimal(metrics.walksPerGame),
+      win_percentage: formatPercent(metrics.winPercentage),
+      fip: formatDecimal(metrics.fip),
+      k_bb_rate: formatPercent(metrics.strikeoutMinusWalkRate),
+      qualified: counts.outs >= qualification.outs,
     };
   };
 
@@ -403,13 +728,22 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
 
   const sortStats = (stats: any[], field: string) => {
     return [...stats].sort((a, b) => {
+      // 率の並び替えでは規定到達者を上位にする
+      if (RATE_SORT_FIELDS.has(field) && a.qualified !== b.qualified) {
+        return a.qualified ? -1 : 1;
+      }
+
       let aVal = a[field];
       let bVal = b[field];
 
-      // 文字列の数値を数値に変換
-      if (typeof aVal === "string" && aVal.startsWith(".")) {
-        aVal = parseFloat(aVal);
-        bVal = parseFloat(bVal);
+      // 文字列の数値を数値に変換（算出できない "-" は最下位）
+      if (typeof aVal === "string" && typeof bVal === "string") {
+        const aNum = aVal === "-" ? -Infinity : parseFloat(aVal);
+        const bNum = bVal === "-" ? -Infinity : parseFloat(bVal);
+        if (!isNaN(aNum) && !isNaN(bNum)) {
+          aVal = aNum;
+          bVal = bNum;
+        }
       }
 
       if (sortDirection === "asc") {
@@ -435,12 +769,22 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
     );
   }
 
-  if (battingStats.length === 0 && pitchingStats.length === 0) {
+  if (
+    battingStats.length === 0 &&
+    pitchingStats.length === 0 &&
+    fieldingStats.length === 0
+  ) {
     return (
       <div className="bg-white rounded-lg shadow p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">チーム成績</h3>
+        <StatsPeriodSelector
+          filter={filter}
+          onChange={setFilter}
+          years={gameYears}
+          seasons={seasons}
+        />
         <p className="text-gray-500 text-center py-8">
-          まだ成績データがありません
+          {describeStatsFilter(filter, seasons)}の成績データがありません
         </p>
       </div>
     );
@@ -448,11 +792,24 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
 
   const sortedBattingStats = sortStats(battingStats, sortField);
   const sortedPitchingStats = sortStats(pitchingStats, sortField);
+  const sortedFieldingStats = sortStats(fieldingStats, sortField);
+  const sortedHitTendencies = sortStats(hitTendencies, sortField);
 
   return (
     <div className="bg-white rounded-lg shadow">
-      <div className="px-6 py-4 border-b">
-        <h3 className="text-lg font-semibold text-gray-900">チーム成績</h3>
+      <div className="px-6 py-4 border-b space-y-3">
+        <h3 className="text-lg font-semibold text-gray-900">
+          チーム成績
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            {describeStatsFilter(filter, seasons)}
+          </span>
+        </h3>
+        <StatsPeriodSelector
+          filter={filter}
+          onChange={setFilter}
+          years={gameYears}
+          seasons={seasons}
+        />
       </div>
 
       {/* タブ */}
@@ -486,6 +843,54 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
           >
             投手成績 ({pitchingStats.length}名)
           </button>
+          <button
+            onClick={() => {
+              setActiveTab("fielding");
+              setSortField("fielding_percentage");
+              setSortDirection("desc");
+            }}
+            className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === "fielding"
+                ? "text-blue-600 border-blue-600"
+                : "text-gray-500 border-transparent hover:text-gray-700"
+            }`}
+          >
+            守備成績 ({fieldingStats.length}名)
+          </button>
+          <button
+            onClick={() => {
+              setActiveTab("spray");
+              setSortField("total");
+              setSortDirection("desc");
+            }}
+            className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === "spray"
+                ? "text-blue-600 border-blue-600"
+                : "text-gray-500 border-transparent hover:text-gray-700"
+            }`}
+          >
+            打球傾向 ({hitTendencies.length}名)
+          </button>
+          <button
+            onClick={() => setActiveTab("splits")}
+            className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === "splits"
+                ? "text-blue-600 border-blue-600"
+                : "text-gray-500 border-transparent hover:text-gray-700"
+            }`}
+          >
+            状況別
+          </button>
+          <button
+            onClick={() => setActiveTab("leaders")}
+            className={`px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === "leaders"
+                ? "text-blue-600 border-blue-600"
+                : "text-gray-500 border-transparent hover:text-gray-700"
+            }`}
+          >
+            リーダー
+          </button>
         </div>
       </div>
 
@@ -557,6 +962,42 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
                 <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   長打率
                 </th>
+                <th
+                  className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort("woba")}
+                >
+                  wOBA
+                </th>
+                <th
+                  className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort("ops_plus")}
+                >
+                  OPS+
+                </th>
+                <th
+                  className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort("iso")}
+                >
+                  ISO
+                </th>
+                <th
+                  className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort("babip")}
+                >
+                  BABIP
+                </th>
+                <th
+                  className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort("bb_per_k")}
+                >
+                  BB/K
+                </th>
+                <th
+                  className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort("runs_created")}
+                >
+                  RC
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -567,6 +1008,9 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
                 >
                   <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
                     {stats.member_name}
+                    {!stats.qualified && (
+                      <span className="ml-1 text-gray-400">*</span>
+                    )}
                   </td>
                   <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
                     {stats.games}
@@ -610,12 +1054,37 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
                   <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
                     {stats.slugging_percentage}
                   </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                    {stats.woba}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                    {stats.ops_plus}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                    {stats.iso}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                    {stats.babip}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                    {stats.bb_per_k}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                    {stats.runs_created}
+                  </td>
                 </tr>
               ))}
             </tbody>
           </table>
         )}
 
+        {activeTab === "batting" && battingStats.length > 0 && (
+          <p className="px-4 py-3 text-xs text-gray-500">
+            * 規定打席（{thresholds.plateAppearances}打席 = チーム
+            {thresholds.teamGames}試合）未到達。率で並び替えると規定到達者を上位に表示します
+          </p>
+        )}
+
         {activeTab === "pitching" && pitchingStats.length > 0 && (
           <table className="min-w-full">
             <thead className="bg-gray-50">
@@ -675,6 +1144,18 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
                 <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   BB/7
                 </th>
+                <th
+                  className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort("fip")}
+                >
+                  FIP
+                </th>
+                <th
+                  className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => handleSort("k_bb_rate")}
+                >
+                  K-BB%
+                </th>
                 <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   勝敗
                 </th>
@@ -694,6 +1175,9 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
                 >
                   <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
                     {stats.member_name}
+                    {!stats.qualified && (
+                      <span className="ml-1 text-gray-400">*</span>
+                    )}
                   </td>
                   <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
                     {stats.games}
@@ -731,6 +1215,12 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
                   <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
                     {stats.bb_per_nine}
                   </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                    {stats.fip}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                    {stats.k_bb_rate}
+                  </td>
                   <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
                     {stats.wins}-{stats.losses}
                   </td>
@@ -738,13 +1228,290 @@ export default function TeamMemberStats({ teamId }: TeamMemberStatsProps) {
                     {stats.saves}
                   </td>
                   <td className="px-4 py-3 whitespace-nowrap text-sm text-center font-semibold text-gray-900">
-                    {stats.win_percentage}%
+                    {stats.win_percentage}
                   </td>
                 </tr>
               ))}
             </tbody>
           </table>
         )}
+
+        {activeTab === "pitching" && pitchingStats.length > 0 && (
+          <p className="px-4 py-3 text-xs text-gray-500">
+            * 規定投球回（{formatInnings(outsToInnings(thresholds.outs))}回 =
+            チーム{thresholds.teamGames}
+            試合）未到達。率で並び替えると規定到達者を上位に表示します
+          </p>
+        )}
+
+        {activeTab === "fielding" && fieldingStats.length === 0 && (
+          <p className="text-gray-500 text-center py-8">
+            守備記録がありません（相手の攻撃回を打席ごとに入力すると集計されます）
+          </p>
+        )}
+
+        {activeTab === "fielding" && fieldingStats.length > 0 && (
+          <>
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    選手名
+                  </th>
+                  <th
+                    className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                    onClick={() => handleSort("games")}
+                  >
+                    試合
+                  </th>
+                  <th
+                    className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                    onClick={() => handleSort("fielding_percentage")}
+                  >
+                    守備率{" "}
+                    {sortField === "fielding_percentage" &&
+                      (sortDirection === "desc" ? "↓" : "↑")}
+                  </th>
+                  <th
+                    className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                    onClick={() => handleSort("putouts")}
+                  >
+                    刺殺
+                  </th>
+                  <th
+                    className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                    onClick={() => handleSort("assists")}
+                  >
+                    補殺
+                  </th>
+                  <th
+                    className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                    onClick={() => handleSort("errors")}
+                  >
+                    失策
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sortedFieldingStats.map((stats, index) => (
+                  <tr
+                    key={stats.member_id}
+                    className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {stats.member_name}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                      {stats.games}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-center font-semibold text-gray-900">
+                      {formatFieldingPercentage(stats.fieldingPercentage)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                      {stats.putouts}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                      {stats.assists}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                      {stats.errors}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {/* 守備位置別イニング */}
+            <h4 className="px-4 pt-6 pb-2 text-sm font-semibold text-gray-700">
+              守備位置別イニング
+            </h4>
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    選手名
+                  </th>
+                  {Object.values(FIELDING_POSITIONS).map((position) => (
+                    <th
+                      key={position}
+                      className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {position}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sortedFieldingStats.map((stats, index) => (
+                  <tr
+                    key={stats.member_id}
+                    className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {stats.member_name}
+                    </td>
+                    {Object.values(FIELDING_POSITIONS).map((position) => (
+                      <td
+                        key={position}
+                        className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500"
+                      >
+                        {stats.outsByPosition[position]
+                          ? formatOutsAsInnings(stats.outsByPosition[position])
+                          : "-"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {activeTab === "splits" && (
+          <div className="p-4">
+            {memberSplits.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">
+                打席の記録がありません
+              </p>
+            ) : (
+              <>
+                <select
+                  value={splitMemberId || memberSplits[0].member_id}
+                  onChange={(e) => setSplitMemberId(e.target.value)}
+                  className="mb-4 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  {memberSplits.map((member) => (
+                    <option key={member.member_id} value={member.member_id}>
+                      {member.member_name}（{member.records.length}打席）
+                    </option>
+                  ))}
+                </select>
+                <SplitStats
+                  records={
+                    (
+                      memberSplits.find(
+                        (m) => m.member_id === splitMemberId
+                      ) || memberSplits[0]
+                    ).records
+                  }
+                />
+              </>
+            )}
+          </div>
+        )}
+
+        {activeTab === "leaders" && (
+          <div className="p-4">
+            <Leaderboards
+              leaderboards={leaderboards}
+              seasonLeaders={seasonLeaders}
+              thresholds={thresholds}
+            />
+          </div>
+        )}
+
+        {activeTab === "spray" && hitTendencies.length === 0 && (
+          <p className="text-gray-500 text-center py-8">
+            打球方向の記録がありません（打席の詳細入力でフィールド図をタップすると集計されます）
+          </p>
+        )}
+
+        {activeTab === "spray" && hitTendencies.length > 0 && (
+          <>
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    選手名
+                  </th>
+                  <th
+                    className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                    onClick={() => handleSort("total")}
+                  >
+                    打球数{" "}
+                    {sortField === "total" &&
+                      (sortDirection === "desc" ? "↓" : "↑")}
+                  </th>
+                  {(Object.keys(HIT_DIRECTION_LABELS) as HitDirection[]).map(
+                    (direction) => (
+                      <th
+                        key={direction}
+                        className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {HIT_DIRECTION_LABELS[direction]}
+                      </th>
+                    )
+                  )}
+                  {(
+                    Object.keys(BATTED_BALL_TYPE_LABELS) as BattedBallType[]
+                  ).map((type) => (
+                    <th
+                      key={type}
+                      className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {BATTED_BALL_TYPE_LABELS[type]}
+                    </th>
+                  ))}
+                  <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    外野
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    守備位置の傾向
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sortedHitTendencies.map((stats, index) => (
+                  <tr
+                    key={stats.member_id}
+                    className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {stats.member_name}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                      {stats.total}
+                    </td>
+                    {(Object.keys(HIT_DIRECTION_LABELS) as HitDirection[]).map(
+                      (direction) => (
+                        <td
+                          key={direction}
+                          className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-900"
+                        >
+                          {formatShare(
+                            stats.byDirection[direction],
+                            stats.total
+                          )}
+                        </td>
+                      )
+                    )}
+                    {(
+                      Object.keys(BATTED_BALL_TYPE_LABELS) as BattedBallType[]
+                    ).map((type) => (
+                      <td
+                        key={type}
+                        className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500"
+                      >
+                        {stats.byType[type]}
+                      </td>
+                    ))}
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-center text-gray-500">
+                      {stats.outfieldRate === null
+                        ? "-"
+                        : `${Math.round(stats.outfieldRate * 100)}%`}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900">
+                      {stats.positioning || "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-4 py-3 text-xs text-gray-500">
+              守備位置の傾向は打球が5球以上ある選手のみ表示（一方向に半数以上なら寄り、外野への打球が6割以上なら深め）
+            </p>
+          </>
+        )}
       </div>
     </div>
   );
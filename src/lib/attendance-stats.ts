@@ -0,0 +1,133 @@
+// 出欠の履歴と信頼度（回答率・出席率・直前キャンセル）
+// 集計対象は出欠確認を行った試合のうち、中止を除いて試合日を迎えたもの
+
+import { isParticipatingStatus } from "./attendance";
+
+// 試合開始の何時間前以降に出席から欠席へ変えたら直前キャンセルとするか
+export const LATE_CANCELLATION_HOURS = 48;
+
+export interface AttendanceHistoryGame {
+  id: string;
+  game_date: string;
+  game_time: string | null;
+  category?: string | null;
+  status: string;
+}
+
+export interface AttendanceHistoryRecord {
+  game_id: string;
+  team_member_id: string | null;
+  status: string;
+  auto_closed?: boolean | null;
+  cancelled_at?: string | null; // 出席（遅刻・早退を含む）から欠席に変えた日時
+}
+
+export interface AttendanceReliability {
+  games: number; // 出欠確認の対象になった試合
+  responded: number; // 回答した試合（未定を含む、締切で欠席扱いになったものを除く）
+  participated: number; // 出席（遅刻・早退を含む）
+  late: number;
+  leaveEarly: number;
+  tentative: number;
+  absent: number; // 本人が回答した欠席
+  noResponse: number; // 未回答のまま試合日・締切を迎えた
+  lateCancellations: number;
+  responseRate: number | null;
+  attendanceRate: number | null;
+}
+
+// 試合開始日時（時刻が未設定なら試合日の 0 時）
+function gameStart(game: AttendanceHistoryGame): Date {
+  const [year, month, day] = game.game_date.split("-").map(Number);
+  const [hours, minutes] = (game.game_time || "00:00")
+    .split(":")
+    .map(Number);
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+}
+
+// 集計の対象になる試合（中止を除き、試合日を迎えたもの）
+export function isAttendanceHistoryGame(
+  game: AttendanceHistoryGame,
+  now: Date = new Date()
+): boolean {
+  if (game.status === "cancelled") return false;
+  return game.status === "completed" || gameStart(game) <= now;
+}
+
+export function isLateCancellation(
+  record: AttendanceHistoryRecord,
+  game: AttendanceHistoryGame
+): boolean {
+  if (record.status !== "absent" || !record.cancelled_at) return false;
+  const hoursBefore =
+    (gameStart(game).getTime() - new Date(record.cancelled_at).getTime()) /
+    (60 * 60 * 1000);
+  return hoursBefore <= LATE_CANCELLATION_HOURS;
+}
+
+export function summarizeAttendance(
+  records: AttendanceHistoryRecord[],
+  games: Map<string, AttendanceHistoryGame>
+): AttendanceReliability {
+  const summary: AttendanceReliability = {
+    games: 0,
+    responded: 0,
+    participated: 0,
+    late: 0,
+    leaveEarly: 0,
+    tentative: 0,
+    absent: 0,
+    noResponse: 0,
+    lateCancellations: 0,
+    responseRate: null,
+    attendanceRate: null,
+  };
+
+  for (const record of records) {
+    const game = games.get(record.game_id);
+    if (!game) continue;
+
+    summary.games++;
+    if (record.status === "pending" || record.auto_closed) {
+      summary.noResponse++;
+      continue;
+    }
+
+    summary.responded++;
+    if (isParticipatingStatus(record.status)) summary.participated++;
+    if (record.status === "late") summary.late++;
+    if (record.status === "leave_early") summary.leaveEarly++;
+    if (record.status === "tentative") summary.tentative++;
+    if (record.status === "absent") {
+      summary.absent++;
+      if (isLateCancellation(record, game)) summary.lateCancellations++;
+    }
+  }
+
+  if (summary.games > 0) {
+    summary.responseRate = summary.responded / summary.games;
+    summary.attendanceRate = summary.participated / summary.games;
+  }
+  return summary;
+}
+
+// メンバーごとの集計（ゲストの回答は含めない）
+export function summarizeAttendanceByMember(
+  records: AttendanceHistoryRecord[],
+  games: Map<string, AttendanceHistoryGame>
+): Map<string, AttendanceReliability> {
+  const byMember = new Map<string, AttendanceHistoryRecord[]>();
+  for (const record of records) {
+    if (!record.team_member_id) continue;
+    const list = byMember.get(record.team_member_id) || [];
+    list.push(record);
+    byMember.set(record.team_member_id, list);
+  }
+
+  const result = new Map<string, AttendanceReliability>();
+  byMember.forEach((memberRecords, memberId) => {
+    const summary = summarizeAttendance(memberRecords, games);
+    if (summary.games > 0) result.set(memberId, summary);
+  });
+  return result;
+}
@@ -0,0 +1,202 @@
+// 出欠確認（回答の種類と回答締切）
+// 締切を過ぎた試合は回答を締め切り、未回答（pending）は欠席扱い（auto_closed = 未回答のまま締切）にする
+
+import { SupabaseClient } from "@supabase/supabase-js";
+
+// 出欠の回答（遅刻・早退は到着・退出の予定時刻、未定はコメントで補足する）
+export type AttendanceStatus =
+  | "pending"
+  | "attending"
+  | "late"
+  | "leave_early"
+  | "tentative"
+  | "absent";
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  pending: "未回答",
+  attending: "出席",
+  late: "遅刻",
+  leave_early: "早退",
+  tentative: "未定",
+  absent: "欠席",
+};
+
+// 本人が選べる回答（表示順）
+export const ATTENDANCE_RESPONSE_OPTIONS: AttendanceStatus[] = [
+  "attending",
+  "late",
+  "leave_early",
+  "tentative",
+  "absent",
+];
+
+// 試合に参加する回答（遅刻・早退を含む）
+export function isParticipatingStatus(status: string): boolean {
+  return (
+    status === "attending" || status === "late" || status === "leave_early"
+  );
+}
+
+// time 型（"HH:MM:SS"）の表示
+export function formatAttendanceTime(
+  time: string | null | undefined
+): string {
+  return time ? time.slice(0, 5) : "";
+}
+
+// 「遅刻（10:30 到着予定）」のような表示
+export function describeAttendance(attendance: {
+  status: string;
+  arrival_time?: string | null;
+  leave_time?: string | null;
+  auto_closed?: boolean;
+}): string {
+  const label =
+    ATTENDANCE_STATUS_LABELS[attendance.status as AttendanceStatus] ||
+    attendance.status;
+  if (attendance.status === "absent" && attendance.auto_closed) {
+    return "欠席（未回答）";
+  }
+  if (attendance.status === "late" && attendance.arrival_time) {
+    return `${label}（${formatAttendanceTime(
+      attendance.arrival_time
+    )} 到着予定）`;
+  }
+  if (attendance.status === "leave_early" && attendance.leave_time) {
+    return `${label}（${formatAttendanceTime(attendance.leave_time)} まで）`;
+  }
+  return label;
+}
+
+// 遅刻の出席者がその時刻（試合当日の "HH:MM"）にまだ到着していないか
+// 到着予定や比べる時刻が未定のときは到着前として扱う
+export function isBeforeArrival(
+  attendance: { status: string; arrival_time?: string | null },
+  time: string | null | undefined
+): boolean {
+  if (attendance.status !== "late") return false;
+  if (!attendance.arrival_time || !time) return true;
+  return (
+    formatAttendanceTime(time) < formatAttendanceTime(attendance.arrival_time)
+  );
+}
+
+// 締切後も出欠を変更できる管理者の役割（team_members.role）
+// データベースのトリガー enforce_attendance_deadline() と同じ定義にする
+export const ATTENDANCE_MANAGER_ROLES = ["owner", "admin"];
+
+// 出欠の管理者か（試合作成者・チームのオーナー・管理者の役割のメンバー）
+export function isAttendanceManager(
+  userId: string,
+  game: { created_by: string },
+  teamOwnerId: string | null | undefined,
+  memberRole: string | null | undefined
+): boolean {
+  return (
+    game.created_by === userId ||
+    teamOwnerId === userId ||
+    (!!memberRole && ATTENDANCE_MANAGER_ROLES.includes(memberRole))
+  );
+}
+
+// 締切を過ぎているか（締切が未設定なら常に回答できる）
+export function isAttendanceLocked(
+  deadline: string | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!deadline) return false;
+  const time = new Date(deadline).getTime();
+  return Number.isFinite(time) && time <= now.getTime();
+}
+
+// 締切までの残り時間（「あと2日3時間」「締切済み」など）
+export function formatDeadlineCountdown(
+  deadline: string,
+  now: Date = new Date()
+): string {
+  const remaining = new Date(deadline).getTime() - now.getTime();
+  if (!Number.isFinite(remaining)) return "";
+  if (remaining <= 0) return "締切済み";
+
+  const minutes = Math.floor(remaining / 60000);
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  if (days > 0) return `あと${days}日${hours > 0 ? `${hours}時間` : ""}`;
+  if (hours > 0) return `あと${hours}時間${minutes % 60}分`;
+  return `あと${Math.max(minutes, 1)}分`;
+}
+
+export function formatDeadline(deadline: string): string {
+  return new Date(deadline).toLocaleString("ja-JP", {
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// datetime-local の入力値（ローカル時刻）と ISO 文字列の相互変換
+export function toDatetimeLocalValue(deadline: string | null): string {
+  if (!deadline) return "";
+  const date = new Date(deadline);
+  if (!Number.isFinite(date.getTime())) return "";
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function fromDatetimeLocalValue(value: string): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isFinite(date.getTime()) ? date.toISOString() : null;
+}
+
+// 締切が試合開始より前か（開始時刻が未定なら試合日の終わりまで）
+// 日時はどちらもローカル時刻として比べる
+export function isDeadlineBeforeGameStart(
+  deadline: string | null,
+  gameDate: string,
+  gameTime: string | null
+): boolean {
+  if (!deadline || !gameDate) return true;
+  const start = new Date(`${gameDate}T${gameTime || "23:59"}`);
+  if (!Number.isFinite(start.getTime())) return true;
+  return new Date(deadline).getTime() < start.getTime();
+}
+
+// 締切を過ぎた試合の未回答を欠席（未回答のまま締切）に切り替える
+// 定期実行のジョブから呼ばれる（全チームの試合を更新するため service role のクライアントを渡す）
+export async function closeExpiredAttendances(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ games: number; closed: number }> {
+  const { data: games, error: gamesError } = await supabase
+    .from("games")
+    .select("id")
+    .eq("attendance_check_enabled", true)
+    .not("attendance_deadline", "is", null)
+    .lte("attendance_deadline", now.toISOString())
+    .not("status", "in", "(completed,cancelled)");
+
+  if (gamesError) throw gamesError;
+  if (!games || games.length === 0) return { games: 0, closed: 0 };
+
+  const { data: closed, error: updateError } = await supabase
+    .from("game_attendances")
+    .update({
+      status: "absent",
+      auto_closed: true,
+      updated_at: now.toISOString(),
+    })
+    .in(
+      "game_id",
+      games.map((game) => game.id)
+    )
+    .eq("status", "pending")
+    .select("id");
+
+  if (updateError) throw updateError;
+  return { games: games.length, closed: closed?.length || 0 };
+}
@@ -0,0 +1,200 @@
+// 走塁ルール（打撃結果ごとの強制進塁・既定の進塁先・例外の検証）
+// game-engine.ts から利用される純粋な関数のみで構成する
+
+import type { BaseRunner, RunnerMove } from "./game-engine";
+
+// アウトになる打撃結果
+export const OUT_RESULTS = [
+  "三振",
+  "ゴロ",
+  "フライ",
+  "ライナー",
+  "犠打",
+  "犠飛",
+  "フィールダースチョイス",
+];
+
+// 押し出し（強制進塁）のみでランナーが動く結果
+const FORCE_ONLY_RESULTS = ["四球", "死球", "野選"];
+
+// ランナーの進塁先に判断が必要な結果（RunnerDisplay で例外を確認する）
+const PROMPT_RESULTS = [
+  "安打",
+  "二塁打",
+  "三塁打",
+  "エラー",
+  "野選",
+  "犠打",
+  "犠飛",
+  "フィールダースチョイス",
+];
+
+// 進塁先の指定（game_runners.id → 進塁先。0=アウト, 4=ホームイン）
+export type RunnerOverrides = Record<string, number>;
+
+// 打者の到達塁（アウトなら0）
+export function getBatterBase(
+  result: string,
+  baseReached: number,
+  isError: boolean = false
+): number {
+  if (isError) return Math.max(baseReached, 1);
+  // フィールダースチョイス：ランナーがアウトになり打者は一塁へ
+  if (result === "フィールダースチョイス") return 1;
+  if (OUT_RESULTS.includes(result)) return 0;
+  return baseReached;
+}
+
+// 打者アウトが記録されるか
+export function isBatterOut(result: string, isError: boolean = false) {
+  return (
+    OUT_RESULTS.includes(result) &&
+    !isError &&
+    result !== "フィールダースチョイス"
+  );
+}
+
+// ランナーごとの最低到達塁（打者や後続ランナーに押し出される塁）
+export function getForcedBases(
+  runners: BaseRunner[],
+  batterBase: number
+): Map<BaseRunner, number> {
+  const forced = new Map<BaseRunner, number>();
+  let occupied = batterBase;
+
+  for (const runner of [...runners].sort((a, b) => a.base - b.base)) {
+    if (runner.base <= occupied) {
+      forced.set(runner, Math.min(occupied + 1, 4));
+      occupied = occupied + 1;
+    } else {
+      forced.set(runner, runner.base);
+      occupied = runner.base;
+    }
+  }
+
+  return forced;
+}
+
+// 打撃結果ごとの既定の進塁先
+export function getDefaultAdvances(
+  runners: BaseRunner[],
+  result: string,
+  batterBase: number,
+  isError: boolean = false
+): Map<BaseRunner, number> {
+  const forced = getForcedBases(runners, batterBase);
+  const destinations = new Map<BaseRunner, number>();
+
+  // 犠打：空いている次の塁へ1つ進塁（前のランナーから判定）
+  // 三塁ランナーは留まり、生還させる場合（スクイズ）は例外入力で指定する
+  if (result === "犠打" && !isError) {
+    const occupied = new Set(runners.map((r) => r.base));
+    for (const runner of [...runners].sort((a, b) => b.base - a.base)) {
+      const nextBase = runner.base + 1;
+      if (runner.base < 3 && !occupied.has(nextBase)) {
+        occupied.delete(runner.base);
+        occupied.add(nextBase);
+        destinations.set(runner, nextBase);
+      } else {
+        destinations.set(runner, runner.base);
+      }
+    }
+    return destinations;
+  }
+
+  for (const runner of runners) {
+    const minBase = forced.get(runner) || runner.base;
+    let toBase = runner.base;
+
+    if (isError || result === "安打" || result === "エラー") {
+      // 単打・失策：1つ進塁
+      toBase = Math.max(minBase, runner.base + 1);
+    } else if (result === "二塁打") {
+      toBase = Math.max(minBase, runner.base + 2);
+    } else if (result === "三塁打" || result === "本塁打") {
+      toBase = 4;
+    } else if (result === "犠飛") {
+      // 犠飛：三塁ランナーのみ生還
+      toBase = runner.base === 3 ? 4 : runner.base;
+    } else if (
+      FORCE_ONLY_RESULTS.includes(result) ||
+      result === "フィールダースチョイス"
+    ) {
+      toBase = minBase;
+    }
+
+    destinations.set(runner, Math.min(toBase, 4));
+  }
+
+  // フィールダースチョイス：既定では押し出された先頭のランナーをアウト
+  if (result === "フィールダースチョイス" && !isError) {
+    const forcedRunners = runners
+      .filter((r) => (forced.get(r) || r.base) > r.base)
+      .sort((a, b) => a.base - b.base);
+    if (forcedRunners.length > 0) {
+      destinations.set(forcedRunners[0], 0);
+    }
+  }
+
+  return destinations;
+}
+
+// 既定の進塁先に例外指定を反映してランナーの移動を作成
+export function resolveRunnerMoves(
+  runners: BaseRunner[],
+  defaults: Map<BaseRunner, number>,
+  overrides: RunnerOverrides = {}
+): RunnerMove[] {
+  const moves: RunnerMove[] = [];
+
+  for (const runner of [...runners].sort((a, b) => b.base - a.base)) {
+    const override = runner.id ? overrides[runner.id] : undefined;
+    const toBase = override ?? defaults.get(runner) ?? runner.base;
+    if (toBase !== runner.base) {
+      moves.push({ runner, fromBase: runner.base, toBase });
+    }
+  }
+
+  return moves;
+}
+
+// 進塁先の検証（問題があればエラーメッセージを返す）
+export function validateRunnerMoves(
+  runners: BaseRunner[],
+  overrides: RunnerOverrides,
+  result: string,
+  batterBase: number,
+  isError: boolean = false
+): string | null {
+  const forced = getForcedBases(runners, batterBase);
+  const defaults = getDefaultAdvances(runners, result, batterBase, isError);
+  const occupied = new Set<number>();
+  if (batterBase >= 1 && batterBase <= 3) occupied.add(batterBase);
+
+  for (const runner of runners) {
+    const toBase =
+      (runner.id ? overrides[runner.id] : undefined) ??
+      defaults.get(runner) ??
+      runner.base;
+
+    if (toBase === 0 || toBase === 4) continue;
+
+    if (toBase < runner.base) {
+      return `${runner.playerName}は${runner.base}塁より前の塁には戻れません`;
+    }
+    if (toBase < (forced.get(runner) || 0)) {
+      return `${runner.playerName}は押し出しのため${forced.get(runner)}塁以上に進塁する必要があります`;
+    }
+    if (occupied.has(toBase)) {
+      return `${toBase}塁に複数のランナーがいます`;
+    }
+    occupied.add(toBase);
+  }
+
+  return null;
+}
+
+// ランナーがいる場合に進塁先の確認が必要な結果か
+export function needsRunnerPrompt(result: string): boolean {
+  return PROMPT_RESULTS.includes(result);
+}
@@ -0,0 +1,231 @@
+// 守備記録（刺殺・補殺・失策と守備イニング）
+// 打球処理の表記（例: 6-3, 4-6-3, E5）から守備機会を判定する純粋な関数のみで構成する
+
+import { ReplayStep } from "./game-events";
+
+// 守備番号と守備位置
+export const FIELDING_POSITIONS: Record<number, string> = {
+  1: "投手",
+  2: "捕手",
+  3: "一塁手",
+  4: "二塁手",
+  5: "三塁手",
+  6: "遊撃手",
+  7: "左翼手",
+  8: "中堅手",
+  9: "右翼手",
+};
+
+// 守備番号 → game_players.id（打席を記録した時点の守備位置）
+export type DefensiveAlignment = Record<number, string>;
+
+export interface FieldingNotation {
+  fielders: number[]; // 打球を処理した順の守備番号
+  errorPosition: number | null;
+}
+
+// 1プレーの守備機会（守備番号）
+export interface FieldingCredits {
+  putouts: number[];
+  assists: number[];
+  errors: number[];
+}
+
+// 選手・守備位置ごとの守備成績
+export interface FieldingLine {
+  playerId: string;
+  position: string;
+  putouts: number;
+  assists: number;
+  errors: number;
+  outsPlayed: number; // 守備についていた間のアウト数（守備イニング×3）
+}
+
+// 出場中の選手の守備位置から守備番号の対応を作成
+export function getDefensiveAlignment(
+  players: {
+    id: string;
+    position: string | null;
+    is_active?: boolean;
+  }[]
+): DefensiveAlignment {
+  const alignment: DefensiveAlignment = {};
+  for (const [number, position] of Object.entries(FIELDING_POSITIONS)) {
+    const player = players.find(
+      (p) => p.is_active !== false && p.position === position
+    );
+    if (player) alignment[Number(number)] = player.id;
+  }
+  return alignment;
+}
+
+// 打球処理の表記を解析（全角数字・全角ハイフンも可、不正な表記は null）
+export function parseFieldingNotation(
+  notation: string | null | undefined
+): FieldingNotation | null {
+  const normalized = (notation || "")
+    .trim()
+    .replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/[ーｰ－―−]/g, "-")
+    .toUpperCase();
+  if (!normalized) return null;
+
+  const error = normalized.match(/^E([1-9])$/);
+  if (error) {
+    return { fielders: [], errorPosition: Number(error[1]) };
+  }
+  if (!/^[1-9](-[1-9])*$/.test(normalized)) return null;
+
+  return {
+    fielders: normalized.split("-").map(Number),
+    errorPosition: null,
+  };
+}
+
+// 守備機会を判定（最後に処理した野手からアウト数分が刺殺、送球した野手が補殺）
+// 表記のない三振は捕手の刺殺とする
+export function getFieldingCredits(
+  notation: string | null | undefined,
+  outs: number,
+  result?: string
+): FieldingCredits {
+  const credits: FieldingCredits = { putouts: [], assists: [], errors: [] };
+  const parsed = parseFieldingNotation(notation);
+
+  if (!parsed) {
+    if (result === "三振" && outs > 0) credits.putouts.push(2);
+    return credits;
+  }
+  if (parsed.errorPosition) {
+    credits.errors.push(parsed.errorPosition);
+    return credits;
+  }
+
+  // アウトにならなかったプレー（安打など）は守備機会にしない
+  if (outs <= 0) return credits;
+
+  const { fielders } = parsed;
+  credits.putouts = fielders.slice(Math.max(fielders.length - outs, 0));
+  // 同じ野手の補殺は1プレーにつき1つ
+  credits.assists = Array.from(new Set(fielders.slice(0, -1)));
+  return credits;
+}
+
+// 守備率（刺殺＋補殺）÷（刺殺＋補殺＋失策）、守備機会がなければ null
+export function getFieldingPercentage(
+  putouts: number,
+  assists: number,
+  errors: number
+): number | null {
+  const chances = putouts + assists + errors;
+  return chances > 0 ? (putouts + assists) / chances : null;
+}
+
+// リプレイの手順から自チームの守備成績を集計
+// 相手の攻撃回のイベントに記録した守備位置（defense）と打球処理（fielding）を使う
+export function buildFieldingLines(steps: ReplayStep[]): FieldingLine[] {
+  const lines = new Map<string, FieldingLine>();
+
+  const getLine = (playerId: string, number: number) => {
+    const position = FIELDING_POSITIONS[number];
+    const key = `${playerId}:${position}`;
+    let line = lines.get(key);
+    if (!line) {
+      line = {
+        playerId,
+        position,
+        putouts: 0,
+        assists: 0,
+        errors: 0,
+        outsPlayed: 0,
+      };
+      lines.set(key, line);
+    }
+    return line;
+  };
+
+  for (const { event, transition } of steps) {
+    // 守備位置は相手の打席・走塁・暴投のイベントに記録されている
+    const payload = event.payload;
+    if (!event.is_opponent || !transition || !("defense" in payload)) continue;
+    const defense = payload.defense;
+    if (!defense) continue;
+
+    for (const [number, playerId] of Object.entries(defense)) {
+      getLine(playerId, Number(number)).outsPlayed += transition.outsRecorded;
+    }
+
+    const credits = getFieldingCredits(
+      payload.fielding,
+      transition.outsRecorded,
+      event.event_type === "plate_appearance" ? event.payload.result : undefined
+    );
+    const credit = (
+      numbers: number[],
+      field: "putouts" | "assists" | "errors"
+    ) => {
+      for (const number of numbers) {
+        const playerId = defense[number];
+        if (playerId) getLine(playerId, number)[field] += 1;
+      }
+    };
+    credit(credits.putouts, "putouts");
+    credit(credits.assists, "assists");
+    credit(credits.errors, "errors");
+  }
+
+  return Array.from(lines.values());
+}
+
+// 守備記録（game_fielding_records の行）を通算
+export interface FieldingSummary {
+  games: number;
+  putouts: number;
+  assists: number;
+  errors: number;
+  fieldingPercentage: number | null;
+  outsByPosition: Record<string, number>;
+}
+
+export function summarizeFielding(
+  records: {
+    game_id: string;
+    position: string;
+    putouts: number;
+    assists: number;
+    errors: number;
+    outs_played: number;
+  }[]
+): FieldingSummary {
+  const outsByPosition: Record<string, number> = {};
+  let putouts = 0;
+  let assists = 0;
+  let errors = 0;
+
+  for (const record of records) {
+    putouts += record.putouts || 0;
+    assists += record.assists || 0;
+    errors += record.errors || 0;
+    outsByPosition[record.position] =
+      (outsByPosition[record.position] || 0) + (record.outs_played || 0);
+  }
+
+  return {
+    games: new Set(records.map((r) => r.game_id)).size,
+    putouts,
+    assists,
+    errors,
+    fieldingPercentage: getFieldingPercentage(putouts, assists, errors),
+    outsByPosition,
+  };
+}
+
+// アウト数を守備イニング表記に変換（例: 37 → "12.1"）
+export function formatOutsAsInnings(outs: number): string {
+  return `${Math.floor(outs / 3)}.${outs % 3}`;
+}
+
+// 守備率の表示（守備機会がなければ "-"）
+export function formatFieldingPercentage(percentage: number | null): string {
+  return percentage === null ? "-" : percentage.toFixed(3);
+}
@@ -0,0 +1,318 @@
+// 試合進行の状態遷移エンジン
+// DBに依存しない純粋な関数のみで構成し、保存処理は game-logic.ts 側で行う
+
+import {
+  getBatterBase,
+  getDefaultAdvances,
+  isBatterOut,
+  OUT_RESULTS,
+  resolveRunnerMoves,
+  RunnerOverrides,
+} from "./baserunning-rules";
+
+export { OUT_RESULTS };
+
+// 塁上のランナー（base: 1〜3）
+export interface BaseRunner {
+  id?: string; // game_runners.id（新規ランナーは未設定）
+  playerId: string;
+  playerName: string;
+  base: number;
+  pitcherId?: string | null; // 出塁を許した（責任を負う）投手
+  isUnearned?: boolean; // 失策による出塁（生還しても自責点にならない）
+  isTiebreakRunner?: boolean; // タイブレークで置かれた走者
+}
+
+// 1イニング（自チーム攻撃回）の状態
+export interface HalfInningState {
+  inning: number;
+  outs: number;
+  runs: number;
+  runners: BaseRunner[];
+  batterIndex: number;
+  pitcherId: string | null; // 現在の守備側投手
+  reconstructedOuts: number; // 失策がなければ取れていたアウトを含むアウト数（自責点判定用）
+}
+
+// 打席結果イベント
+export interface PlateAppearanceEvent {
+  batterId: string;
+  batterName: string;
+  result: string;
+  baseReached: number;
+  runnersOut?: string[]; // 併殺などでアウトになったランナーの game_runners.id
+  runnerOverrides?: RunnerOverrides; // 既定と異なる進塁先・走塁死
+  isError?: boolean;
+}
+
+// ランナーの移動（toBase: 0=アウト, 4=ホームイン）
+export interface RunnerMove {
+  runner: BaseRunner;
+  fromBase: number;
+  toBase: number;
+}
+
+// 得点
+export interface ScoredRun {
+  playerId: string;
+  playerName: string;
+  runnerId?: string;
+  pitcherId: string | null; // 失点が記録される投手
+  isEarned: boolean;
+}
+
+// 状態遷移の結果
+export interface TransitionResult {
+  state: HalfInningState;
+  moves: RunnerMove[];
+  runsScored: ScoredRun[];
+  rbi: number;
+  outsRecorded: number;
+  isInningOver: boolean;
+}
+
+// 打点がつかない打撃結果
+const NO_RBI_RESULTS = ["エラー"];
+
+// 併殺打（打点がつかない）
+function isDoublePlay(event: PlateAppearanceEvent): boolean {
+  return event.result === "ゴロ" && (event.runnersOut?.length || 0) > 0;
+}
+
+// イニングの初期状態
+export function createHalfInningState(
+  inning: number,
+  runners: BaseRunner[] = [],
+  outs: number = 0,
+  batterIndex: number = 0,
+  pitcherId: string | null = null
+): HalfInningState {
+  return {
+    inning,
+    outs,
+    runs: 0,
+    runners: sortRunners(runners),
+    batterIndex,
+    pitcherId,
+    reconstructedOuts: outs,
+  };
+}
+
+// 打撃記録1件あたりのアウト数（併殺・三重殺を考慮）
+// 保存時のアウト数（outs_recorded、走塁死を含む）があればそれを使う
+export function countOutsForRecord(
+  result: string,
+  notes?: string | null,
+  outsRecorded?: number | null
+): number {
+  if (outsRecorded !== null && outsRecorded !== undefined) return outsRecorded;
+  if (!OUT_RESULTS.includes(result)) return 0;
+  if (notes?.includes("三重殺")) return 3;
+  if (notes?.includes("併殺")) return 2;
+  return 1;
+}
+
+// 指定塁のランナーを取得
+export function getRunnerAtBase(
+  state: HalfInningState,
+  base: number
+): BaseRunner | undefined {
+  return state.runners.find((r) => r.base === base);
+}
+
+// 打席結果を適用して次の状態を返す
+export function applyPlateAppearance(
+  state: HalfInningState,
+  event: PlateAppearanceEvent,
+  lineupSize: number = 0
+): TransitionResult {
+  const batterBase = getBatterBase(
+    event.result,
+    event.baseReached,
+    event.isError
+  );
+
+  // 既定の進塁先に例外指定（走塁死・併殺を含む）を反映
+  const overrides: RunnerOverrides = { ...(event.runnerOverrides || {}) };
+  for (const runnerId of event.runnersOut || []) {
+    overrides[runnerId] = 0;
+  }
+  let moves = resolveRunnerMoves(
+    state.runners,
+    getDefaultAdvances(state.runners, event.result, batterBase, event.isError),
+    overrides
+  );
+
+  const outsRecorded =
+    (isBatterOut(event.result, event.isError) ? 1 : 0) +
+    moves.filter((m) => m.toBase === 0).length;
+
+  // 3アウト目のプレーでの生還は得点にならない
+  const isInningOver = state.outs + outsRecorded >= 3;
+  if (isInningOver) {
+    moves = moves.filter((m) => m.toBase !== 4);
+  }
+
+  const reachedOnError = !!event.isError || event.result === "エラー";
+  if (batterBase > 0 && !isInningOver) {
+    moves.push({
+      runner: {
+        playerId: event.batterId,
+        playerName: event.batterName,
+        base: 0,
+        pitcherId: state.pitcherId,
+        isUnearned: reachedOnError,
+      },
+      fromBase: 0,
+      toBase: batterBase,
+    });
+  }
+
+  const next = applyMoves(state, moves);
+  next.outs = state.outs + outsRecorded;
+  // 失策がなければ打者はアウトだった
+  next.reconstructedOuts =
+    state.reconstructedOuts + outsRecorded + (reachedOnError ? 1 : 0);
+  next.batterIndex =
+    lineupSize > 0 ? (state.batterIndex + 1) % lineupSize : state.batterIndex;
+
+  const runsScored = toScoredRuns(state, moves);
+  const rbi =
+    NO_RBI_RESULTS.includes(event.result) ||
+    event.isError ||
+    isDoublePlay(event)
+      ? 0
+      : runsScored.length;
+
+  return buildResult(next, moves, runsScored, rbi, outsRecorded);
+}
+
+// ランナー単独の進塁（盗塁・進塁・得点）を適用
+export function applyRunnerAdvance(
+  state: HalfInningState,
+  runnerId: string,
+  toBase: number
+): TransitionResult {
+  const runner = state.runners.find((r) => r.id === runnerId);
+  if (!runner) {
+    return buildResult(cloneState(state), [], [], 0, 0);
+  }
+
+  const occupant = getRunnerAtBase(state, toBase);
+  if (toBase > 0 && toBase < 4 && occupant && occupant !== runner) {
+    throw new Error(`${toBase}塁には既にランナーがいます`);
+  }
+
+  const moves: RunnerMove[] = [{ runner, fromBase: runner.base, toBase }];
+  const next = applyMoves(state, moves);
+  const outsRecorded = toBase === 0 ? 1 : 0;
+  next.outs = state.outs + outsRecorded;
+  next.reconstructedOuts = state.reconstructedOuts + outsRecorded;
+
+  return buildResult(next, moves, toScoredRuns(state, moves), 0, outsRecorded);
+}
+
+// 暴投・捕逸（全ランナーが1つ進塁）を適用
+export function applyWildPitch(state: HalfInningState): TransitionResult {
+  const moves: RunnerMove[] = sortRunners(state.runners)
+    .reverse()
+    .map((runner) => ({
+      runner,
+      fromBase: runner.base,
+      toBase: runner.base + 1,
+    }));
+  const next = applyMoves(state, moves);
+
+  return buildResult(next, moves, toScoredRuns(state, moves), 0, 0);
+}
+
+// タイブレークの走者を塁に置く（生還しても自責点にならない）
+export function placeTiebreakRunners(
+  state: HalfInningState,
+  runners: { playerId: string; playerName: string; base: number }[]
+): HalfInningState {
+  const next = cloneState(state);
+  const bases = new Set(runners.map((r) => r.base));
+  next.runners = sortRunners([
+    ...next.runners.filter((r) => !bases.has(r.base)),
+    ...runners.map((r) => ({
+      ...r,
+      pitcherId: state.pitcherId,
+      isUnearned: true,
+      isTiebreakRunner: true,
+    })),
+  ]);
+  return next;
+}
+
+// 投手交代（塁上のランナーは前の投手の責任のまま引き継ぐ）
+export function applyPitchingChange(
+  state: HalfInningState,
+  pitcherId: string
+): HalfInningState {
+  return { ...cloneState(state), pitcherId };
+}
+
+// 移動を状態に反映
+function applyMoves(
+  state: HalfInningState,
+  moves: RunnerMove[]
+): HalfInningState {
+  const next = cloneState(state);
+  const movedKeys = new Set(moves.map((m) => runnerKey(m.runner)));
+
+  next.runners = next.runners.filter((r) => !movedKeys.has(runnerKey(r)));
+  for (const move of moves) {
+    if (move.toBase >= 1 && move.toBase <= 3) {
+      next.runners.push({ ...move.runner, base: move.toBase });
+    }
+  }
+  next.runners = sortRunners(next.runners);
+  next.runs = state.runs + moves.filter((m) => m.toBase === 4).length;
+
+  return next;
+}
+
+function buildResult(
+  state: HalfInningState,
+  moves: RunnerMove[],
+  runsScored: ScoredRun[],
+  rbi: number,
+  outsRecorded: number
+): TransitionResult {
+  const isInningOver = state.outs >= 3;
+  if (isInningOver) {
+    // 3アウトでランナーは残らない
+    state.runners = [];
+  }
+  return { state, moves, runsScored, rbi, outsRecorded, isInningOver };
+}
+
+// 生還したランナーを得点として記録（責任投手と自責点の判定を含む）
+function toScoredRuns(
+  before: HalfInningState,
+  moves: RunnerMove[]
+): ScoredRun[] {
+  return moves
+    .filter((m) => m.toBase === 4)
+    .map((m) => ({
+      playerId: m.runner.playerId,
+      playerName: m.runner.playerName,
+      runnerId: m.runner.id,
+      pitcherId: m.runner.pitcherId ?? before.pitcherId,
+      // 失策で出塁したランナー、または失策がなければ3アウトだった後の得点は自責点にならない
+      isEarned: !m.runner.isUnearned && before.reconstructedOuts < 3,
+    }));
+}
+
+function cloneState(state: HalfInningState): HalfInningState {
+  return { ...state, runners: state.runners.map((r) => ({ ...r })) };
+}
+
+function sortRunners(runners: BaseRunner[]): BaseRunner[] {
+  return [...runners].sort((a, b) => a.base - b.base);
+}
+
+function runnerKey(runner: BaseRunner): string {
+  return runner.id || `batter:${runner.playerId}`;
+}
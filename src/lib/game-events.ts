@@ -0,0 +1,667 @@
+// 試合イベントログ（追記のみ）とリプレイ
+// game_events の内容から、ランナー・イニング別得点・打撃記録を決定的に再構築する
+
+import {
+  applyPitchingChange,
+  applyPlateAppearance,
+  applyRunnerAdvance,
+  applyWildPitch,
+  createHalfInningState,
+  HalfInningState,
+  placeTiebreakRunners,
+  TransitionResult,
+} from "./game-engine";
+import { BattedBallType, HitLocation } from "./spray-chart";
+import { getPlateAppearanceContext } from "./splits";
+
+// 打席結果
+export interface PlateAppearancePayload {
+  batterId: string;
+  batterName: string;
+  battingOrder?: number;
+  result: string;
+  baseReached: number;
+  runnersOut?: string[]; // アウトになったランナーの player_id
+  runnerOverrides?: Record<string, number>; // player_id → 進塁先
+  isError?: boolean;
+  notes?: string | null;
+  rbi?: number; // 手入力の打点（未入力は自動計算）
+  fielding?: string | null; // 打球処理（例: 6-3, E5）
+  defense?: Record<number, string>; // 守備番号 → 守備側の選手（自チームの守備時のみ）
+  hitLocation?: HitLocation | null; // フィールド図でタップした打球方向
+  battedBallType?: BattedBallType | null;
+}
+
+// ランナー単独の進塁（盗塁・盗塁死・進塁）
+export interface RunnerEventPayload {
+  playerId: string;
+  playerName?: string;
+  toBase: number;
+  fielding?: string | null; // 盗塁死などの守備（例: 2-6）
+  defense?: Record<number, string>;
+}
+
+// 暴投・捕逸（相手の攻撃回は記録時点の守備位置を残す）
+export type WildPitchPayload = Pick<RunnerEventPayload, "fielding" | "defense">;
+
+// 投手交代（isOpponent=true は相手チームの投手）
+export interface PitchingChangePayload {
+  pitcherId: string;
+  pitcherName: string;
+  isOpponent?: boolean;
+}
+
+// タイブレークで置いた走者
+export interface TiebreakRunnersPayload {
+  runners: { playerId: string; playerName: string; base: number }[];
+}
+
+// 選手交代
+export interface SubstitutionPayload {
+  outPlayerId: string;
+  outPlayerName: string;
+  inPlayerId: string;
+  inPlayerName: string;
+  battingOrder?: number | null;
+  position?: string | null;
+  substitutionType?: string;
+}
+
+// 攻撃終了（auto=true は3アウトによる自動の攻撃終了）
+export interface InningEndPayload {
+  isTopBottom?: "top" | "bottom";
+  auto?: boolean;
+}
+
+// 打席記録の訂正（plateAppearance=null は打席の削除）
+export interface CorrectionPayload {
+  targetSequence: number; // 訂正する打席イベントの sequence
+  plateAppearance: PlateAppearancePayload | null;
+}
+
+// イベントの種類ごとの payload
+export interface GameEventPayloadMap {
+  plate_appearance: PlateAppearancePayload;
+  stolen_base: RunnerEventPayload;
+  caught_stealing: RunnerEventPayload;
+  wild_pitch: WildPitchPayload;
+  runner_advance: RunnerEventPayload;
+  substitution: SubstitutionPayload;
+  pitching_change: PitchingChangePayload;
+  tiebreak_runners: TiebreakRunnersPayload;
+  inning_end: InningEndPayload;
+  correction: CorrectionPayload;
+}
+
+export type GameEventType = keyof GameEventPayloadMap;
+
+interface GameEventRow {
+  id?: string;
+  game_id: string;
+  sequence: number;
+  inning: number;
+  is_opponent?: boolean; // 相手チームの攻撃回のイベント
+  undone_at?: string | null; // 取り消し済み（やり直し可能）
+  created_at?: string;
+}
+
+// event_type で payload の型が決まる
+export type GameEvent = {
+  [T in GameEventType]: GameEventRow & {
+    event_type: T;
+    payload: GameEventPayloadMap[T];
+  };
+}[GameEventType];
+
+export type GameEventOf<T extends GameEventType> = Extract<
+  GameEvent,
+  { event_type: T }
+>;
+
+// 種類でイベントを絞り込む（filter などで payload の型を確定させる）
+export function isGameEventType<T extends GameEventType>(
+  event: GameEvent,
+  eventType: T
+): event is GameEventOf<T> {
+  return event.event_type === eventType;
+}
+
+// リプレイで再構築される打撃記録
+export interface ReplayedBattingRecord {
+  player_id: string;
+  player_name: string;
+  inning: number;
+  batting_order: number;
+  result: string;
+  rbi: number;
+  run_scored: boolean;
+  stolen_base: boolean;
+  stolen_bases_detail: number[];
+  base_reached: number;
+  outs_recorded: number; // この打席のプレーでのアウト数（走塁死・併殺を含む）
+  notes: string | null;
+  fielding: string | null;
+  hit_x: number | null;
+  hit_y: number | null;
+  hit_direction: string | null;
+  hit_depth: string | null;
+  batted_ball_type: string | null;
+  runners_before: number;
+  outs_before: number;
+}
+
+// タイブレークで置かれた走者（生還したかを含む）
+export interface ReplayedTiebreakRunner {
+  inning: number;
+  playerId: string;
+  playerName: string;
+  base: number;
+  isOpponent: boolean;
+  runnerId: string;
+  runScored: boolean;
+}
+
+// 打撃成績（ボックススコア1行）
+export interface BoxScoreLine {
+  playerId: string;
+  playerName: string;
+  battingOrder: number;
+  plateAppearances: number;
+  atBats: number;
+  hits: number;
+  doubles: number;
+  triples: number;
+  homeRuns: number;
+  walks: number;
+  hitByPitch: number;
+  strikeouts: number;
+  rbi: number;
+  runs: number;
+  stolenBases: number;
+}
+
+export interface ReplayStep {
+  event: GameEvent;
+  description: string;
+  state: HalfInningState;
+  transition: TransitionResult | null;
+}
+
+// 投手ごとの失点・自責点
+export interface PitcherRuns {
+  runs: number;
+  earnedRuns: number;
+}
+
+// 相手打席から集計した自チーム投手の成績
+export interface PitcherEventStats {
+  battersFaced: number;
+  outs: number;
+  hits: number;
+  walks: number;
+  strikeouts: number;
+  homeRuns: number;
+}
+
+export interface ReplayResult {
+  steps: ReplayStep[];
+  state: HalfInningState;
+  lineScore: Record<number, number>;
+  opponentLineScore: Record<number, number>;
+  pitcherRuns: Record<string, PitcherRuns>;
+  pitcherStats: Record<string, PitcherEventStats>;
+  battingRecords: ReplayedBattingRecord[];
+  opponentBattingRecords: ReplayedBattingRecord[];
+  tiebreakRunners: ReplayedTiebreakRunner[];
+  boxScore: BoxScoreLine[];
+  opponentBoxScore: BoxScoreLine[];
+}
+
+// 打数に含めない結果
+const NON_AT_BAT_RESULTS = ["四球", "死球", "犠打", "犠飛"];
+const HIT_RESULTS = ["安打", "二塁打", "三塁打", "本塁打"];
+
+const BASE_LABELS: Record<number, string> = {
+  0: "アウト",
+  1: "一塁",
+  2: "二塁",
+  3: "三塁",
+  4: "本塁",
+};
+
+// 投手交代（既定は自チームの投手）を記録順に
+export function filterPitchingChanges(
+  events: GameEvent[],
+  isOpponent: boolean = false
+): GameEventOf<"pitching_change">[] {
+  return events.filter(
+    (e): e is GameEventOf<"pitching_change"> =>
+      e.event_type === "pitching_change" && !!e.payload.isOpponent === isOpponent
+  );
+}
+
+// 訂正イベントを対象の打席ごとにまとめる（後の訂正が優先、null は削除）
+export function collectCorrections(
+  events: GameEvent[]
+): Map<number, PlateAppearancePayload | null> {
+  const corrections = new Map<number, PlateAppearancePayload | null>();
+  for (const event of [...events].sort((a, b) => a.sequence - b.sequence)) {
+    if (event.event_type === "correction") {
+      corrections.set(
+        event.payload.targetSequence,
+        event.payload.plateAppearance
+      );
+    }
+  }
+  return corrections;
+}
+
+// イベントを順番に適用して試合を再構築（uptoStepを指定するとその手順まで）
+// 訂正イベントは対象の打席の位置で反映する
+export function replayGame(
+  events: GameEvent[],
+  uptoStep: number = events.length
+): ReplayResult {
+  const sorted = [...events].sort((a, b) => a.sequence - b.sequence);
+  const steps: ReplayStep[] = [];
+  const lineScore: Record<number, number> = {};
+  const opponentLineScore: Record<number, number> = {};
+  const pitcherRuns: Record<string, PitcherRuns> = {};
+  const pitcherStats: Record<string, PitcherEventStats> = {};
+  const battingRecords: ReplayedBattingRecord[] = [];
+  const opponentBattingRecords: ReplayedBattingRecord[] = [];
+  const tiebreakRunners: ReplayedTiebreakRunner[] = [];
+  // 守備側の投手（自チームの攻撃回は相手投手、相手の攻撃回は自チーム投手）
+  const pitchers = { my: null as string | null, opponent: null as string | null };
+  let isOpponentHalf = !!sorted[0]?.is_opponent;
+  let state = createHalfInningState(
+    sorted[0]?.inning || 1,
+    [],
+    0,
+    0,
+    isOpponentHalf ? pitchers.my : pitchers.opponent
+  );
+  const batterIndexes = { my: 0, opponent: 0 };
+  const corrections = collectCorrections(sorted);
+
+  for (const logged of sorted.slice(0, uptoStep)) {
+    if (logged.event_type === "correction") continue;
+
+    let event: GameEvent = logged;
+    if (
+      logged.event_type === "plate_appearance" &&
+      corrections.has(logged.sequence)
+    ) {
+      const corrected = corrections.get(logged.sequence);
+      if (!corrected) continue; // 削除された打席
+      event = { ...logged, payload: corrected };
+    }
+
+    // 投手交代は守備側の状態にのみ反映
+    if (event.event_type === "pitching_change") {
+      const payload = event.payload;
+      if (payload.isOpponent) {
+        pitchers.opponent = payload.pitcherId;
+      } else {
+        pitchers.my = payload.pitcherId;
+      }
+      if (!!payload.isOpponent !== isOpponentHalf) {
+        state = applyPitchingChange(state, payload.pitcherId);
+      }
+      steps.push({
+        event,
+        description: `${event.inning}回 投手交代: ${payload.pitcherName}`,
+        state,
+        transition: null,
+      });
+      continue;
+    }
+
+    // イニング（表裏）が変わったら状態をリセット
+    if (
+      event.inning !== state.inning ||
+      !!event.is_opponent !== isOpponentHalf
+    ) {
+      if (isOpponentHalf) {
+        batterIndexes.opponent = state.batterIndex;
+      } else {
+        batterIndexes.my = state.batterIndex;
+      }
+      isOpponentHalf = !!event.is_opponent;
+      state = createHalfInningState(
+        event.inning,
+        [],
+        0,
+        isOpponentHalf ? batterIndexes.opponent : batterIndexes.my,
+        isOpponentHalf ? pitchers.my : pitchers.opponent
+      );
+    }
+
+    let transition: TransitionResult | null = null;
+    let description = "";
+    // 攻撃側の打撃記録（相手の攻撃回は相手打者の記録）
+    const records = isOpponentHalf ? opponentBattingRecords : battingRecords;
+
+    switch (event.event_type) {
+      case "plate_appearance": {
+        const payload = event.payload;
+        const context = getPlateAppearanceContext(state);
+        transition = applyPlateAppearance(state, {
+          batterId: payload.batterId,
+          batterName: payload.batterName,
+          result: payload.result,
+          baseReached: payload.baseReached,
+          runnersOut: toRunnerIds(state, payload.runnersOut || []),
+          runnerOverrides: toRunnerOverrides(
+            state,
+            payload.runnerOverrides || {}
+          ),
+          isError: payload.isError,
+        });
+        if (isOpponentHalf && state.pitcherId) {
+          addPitcherStats(pitcherStats, state.pitcherId, payload.result);
+        }
+        records.push({
+          player_id: payload.batterId,
+          player_name: payload.batterName,
+          inning: event.inning,
+          batting_order: payload.battingOrder || 0,
+          result: payload.result,
+          rbi: payload.rbi ?? transition.rbi,
+          run_scored: false,
+          stolen_base: false,
+          stolen_bases_detail: [],
+          base_reached: payload.baseReached,
+          outs_recorded: transition.outsRecorded,
+          notes: payload.notes || null,
+          fielding: payload.fielding || null,
+          hit_x: payload.hitLocation?.x ?? null,
+          hit_y: payload.hitLocation?.y ?? null,
+          hit_direction: payload.hitLocation?.direction || null,
+          hit_depth: payload.hitLocation?.depth || null,
+          batted_ball_type: payload.battedBallType || null,
+          ...context,
+        });
+        description = `${payload.batterName}: ${payload.result}${
+          payload.fielding ? `（${payload.fielding}）` : ""
+        }`;
+        break;
+      }
+      case "stolen_base":
+      case "caught_stealing":
+      case "runner_advance": {
+        const payload = event.payload;
+        const runner = state.runners.find(
+          (r) => r.playerId === payload.playerId
+        );
+        if (runner?.id) {
+          transition = applyRunnerAdvance(state, runner.id, payload.toBase);
+          if (event.event_type === "stolen_base") {
+            const record = findLastRecord(
+              records,
+              payload.playerId,
+              event.inning
+            );
+            if (record) {
+              record.stolen_base = true;
+              record.stolen_bases_detail.push(payload.toBase);
+            }
+          }
+        }
+        const name = payload.playerName || runner?.playerName || "";
+        description =
+          event.event_type === "stolen_base"
+            ? `${name}: 盗塁（${BASE_LABELS[payload.toBase]}）`
+            : event.event_type === "caught_stealing"
+            ? `${name}: 盗塁死`
+            : `${name}: 進塁（${BASE_LABELS[payload.toBase]}）`;
+        break;
+      }
+      case "wild_pitch":
+        transition = applyWildPitch(state);
+        description = "暴投・捕逸";
+        break;
+      case "tiebreak_runners": {
+        const payload = event.payload;
+        state = withRunnerIds(
+          placeTiebreakRunners(state, payload.runners),
+          event.sequence
+        );
+        for (const runner of payload.runners) {
+          tiebreakRunners.push({
+            ...runner,
+            inning: event.inning,
+            isOpponent: isOpponentHalf,
+            runnerId: `${event.sequence}:${runner.playerId}`,
+            runScored: false,
+          });
+        }
+        description = `タイブレーク: ${payload.runners
+          .map((r) => `${BASE_LABELS[r.base]} ${r.playerName}`)
+          .join("、")}`;
+        break;
+      }
+      case "substitution": {
+        const payload = event.payload;
+        description = `選手交代: ${payload.outPlayerName} → ${payload.inPlayerName}`;
+        break;
+      }
+      case "inning_end":
+        description = "攻撃終了";
+        break;
+    }
+
+    if (transition) {
+      // 相手の攻撃回で取ったアウトは登板中の投手の投球回
+      if (isOpponentHalf && state.pitcherId && transition.outsRecorded > 0) {
+        getPitcherStats(pitcherStats, state.pitcherId).outs +=
+          transition.outsRecorded;
+      }
+      state = withRunnerIds(transition.state, event.sequence);
+
+      // 得点の反映
+      for (const run of transition.runsScored) {
+        const tiebreakRunner = tiebreakRunners.find(
+          (r) => r.runnerId === run.runnerId
+        );
+        if (tiebreakRunner) tiebreakRunner.runScored = true;
+
+        const record = tiebreakRunner
+          ? undefined
+          : findLastRecord(records, run.playerId, event.inning);
+        if (record) record.run_scored = true;
+        const score = isOpponentHalf ? opponentLineScore : lineScore;
+        score[event.inning] = (score[event.inning] || 0) + 1;
+
+        // 責任投手への失点・自責点の記録
+        if (run.pitcherId) {
+          const totals = pitcherRuns[run.pitcherId] || {
+            runs: 0,
+            earnedRuns: 0,
+          };
+          totals.runs++;
+          if (run.isEarned) totals.earnedRuns++;
+          pitcherRuns[run.pitcherId] = totals;
+        }
+      }
+    }
+
+    if (event.event_type === "inning_end") {
+      state = { ...state, runners: [], outs: 3 };
+    }
+
+    steps.push({
+      event,
+      description: `${event.inning}回 ${description}`,
+      state,
+      transition,
+    });
+  }
+
+  return {
+    steps,
+    state,
+    lineScore,
+    opponentLineScore,
+    pitcherRuns,
+    pitcherStats,
+    battingRecords,
+    opponentBattingRecords,
+    tiebreakRunners,
+    boxScore: buildBoxScore(
+      battingRecords,
+      tiebreakRunners.filter((r) => !r.isOpponent)
+    ),
+    opponentBoxScore: buildBoxScore(
+      opponentBattingRecords,
+      tiebreakRunners.filter((r) => r.isOpponent)
+    ),
+  };
+}
+
+// 半イニングの最新の状態（記録がなければ初期状態）
+export function findHalfInningState(
+  replay: ReplayResult,
+  inning: number,
+  isOpponent: boolean
+): HalfInningState {
+  for (let i = replay.steps.length - 1; i >= 0; i--) {
+    const { event, state } = replay.steps[i];
+    if (
+      event.inning === inning &&
+      !!event.is_opponent === isOpponent &&
+      event.event_type !== "pitching_change"
+    ) {
+      return state;
+    }
+  }
+  return createHalfInningState(inning);
+}
+
+// 再構築した打撃記録からボックススコアを作成（タイブレーク走者の得点を含む）
+export function buildBoxScore(
+  records: ReplayedBattingRecord[],
+  tiebreakRunners: ReplayedTiebreakRunner[] = []
+): BoxScoreLine[] {
+  const lines = new Map<string, BoxScoreLine>();
+
+  for (const record of records) {
+    const line = lines.get(record.player_id) || {
+      playerId: record.player_id,
+      playerName: record.player_name,
+      battingOrder: record.batting_order,
+      plateAppearances: 0,
+      atBats: 0,
+      hits: 0,
+      doubles: 0,
+      triples: 0,
+      homeRuns: 0,
+      walks: 0,
+      hitByPitch: 0,
+      strikeouts: 0,
+      rbi: 0,
+      runs: 0,
+      stolenBases: 0,
+    };
+
+    line.plateAppearances++;
+    if (!NON_AT_BAT_RESULTS.includes(record.result)) line.atBats++;
+    if (HIT_RESULTS.includes(record.result)) line.hits++;
+    if (record.result === "二塁打") line.doubles++;
+    if (record.result === "三塁打") line.triples++;
+    if (record.result === "本塁打") line.homeRuns++;
+    if (record.result === "四球") line.walks++;
+    if (record.result === "死球") line.hitByPitch++;
+    if (record.result === "三振") line.strikeouts++;
+    line.rbi += record.rbi;
+    if (record.run_scored) line.runs++;
+    line.stolenBases += record.stolen_bases_detail.length;
+
+    lines.set(record.player_id, line);
+  }
+
+  for (const runner of tiebreakRunners) {
+    const line = lines.get(runner.playerId);
+    if (line && runner.runScored) line.runs++;
+  }
+
+  return Array.from(lines.values()).sort(
+    (a, b) => a.battingOrder - b.battingOrder
+  );
+}
+
+// player_id をリプレイ中のランナーIDに変換
+function toRunnerIds(state: HalfInningState, playerIds: string[]): string[] {
+  return state.runners
+    .filter((r) => r.id && playerIds.includes(r.playerId))
+    .map((r) => r.id!);
+}
+
+// player_id をキーにした進塁先をリプレイ中のランナーIDに変換
+function toRunnerOverrides(
+  state: HalfInningState,
+  overrides: Record<string, number>
+): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const runner of state.runners) {
+    if (runner.id && overrides[runner.playerId] !== undefined) {
+      result[runner.id] = overrides[runner.playerId];
+    }
+  }
+  return result;
+}
+
+// 新しく出塁したランナーにリプレイ用のIDを付与
+function withRunnerIds(
+  state: HalfInningState,
+  sequence: number
+): HalfInningState {
+  return {
+    ...state,
+    runners: state.runners.map((r) =>
+      r.id ? r : { ...r, id: `${sequence}:${r.playerId}` }
+    ),
+  };
+}
+
+function getPitcherStats(
+  stats: Record<string, PitcherEventStats>,
+  pitcherId: string
+): PitcherEventStats {
+  stats[pitcherId] = stats[pitcherId] || {
+    battersFaced: 0,
+    outs: 0,
+    hits: 0,
+    walks: 0,
+    strikeouts: 0,
+    homeRuns: 0,
+  };
+  return stats[pitcherId];
+}
+
+// 相手打席の結果を投手成績に加算
+function addPitcherStats(
+  stats: Record<string, PitcherEventStats>,
+  pitcherId: string,
+  result: string
+) {
+  const line = getPitcherStats(stats, pitcherId);
+  line.battersFaced++;
+  if (HIT_RESULTS.includes(result)) line.hits++;
+  if (result === "四球") line.walks++;
+  if (result === "三振") line.strikeouts++;
+  if (result === "本塁打") line.homeRuns++;
+}
+
+function findLastRecord(
+  records: ReplayedBattingRecord[],
+  playerId: string,
+  inning: number
+): ReplayedBattingRecord | undefined {
+  for (let i = records.length - 1; i >= 0; i--) {
+    if (records[i].player_id === playerId && records[i].inning === inning) {
+      return records[i];
+    }
+  }
+  return undefined;
+}
@@ -1,75 +1,945 @@
 import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  applyPlateAppearance,
+  applyRunnerAdvance,
+  applyWildPitch,
+  countOutsForRecord,
+  createHalfInningState,
+  HalfInningState,
+  OUT_RESULTS,
+  PlateAppearanceEvent,
+  TransitionResult,
+} from './game-engine';
+import {
+  collectCorrections,
+  filterPitchingChanges,
+  GameEvent,
+  GameEventOf,
+  GameEventPayloadMap,
+  GameEventType,
+  PitchingChangePayload,
+  PlateAppearancePayload,
+  replayGame,
+  RunnerEventPayload,
+  TiebreakRunnersPayload,
+} from './game-events';
+import { GameRules, isTiebreakInning, resolveGameRules } from './game-rules';
+import { buildFieldingLines } from './fielding';
+import { getPlateAppearanceContext, PlateAppearanceContext } from './splits';
+import {
+  decidePitchingResults,
+  outsToInnings,
+  PitcherAppearance,
+  PitchingDecision,
+} from './pitching-decisions';
 
-// ランナー進塁ロジック
-export async function advanceRunners(
+// 現在のイニング状態をDBから読み込み
+export async function loadHalfInningState(
   supabase: SupabaseClient,
   gameId: string,
-  inning: number,
-  batterBaseReached: number,
-  batterId: string
-) {
-  if (batterBaseReached <= 0) return;
-
+  inning: number
+): Promise<HalfInningState> {
   const { data: currentRunners } = await supabase
     .from("game_runners")
     .select("*")
     .eq("game_id", gameId)
     .eq("inning", inning)
     .eq("is_active", true)
-    .order("current_base", { ascending: false });
-
-  if (!currentRunners || currentRunners.length === 0) return;
-
-  const basesOccupied = new Set(currentRunners.map((r) => r.current_base));
-
-  for (const runner of currentRunners) {
-    let newBase = runner.current_base;
-
-    if (batterBaseReached === 1) {
-      if (runner.current_base === 1) {
-        newBase = 2;
-      } else if (runner.current_base === 2 && basesOccupied.has(1)) {
-        newBase = 3;
-      } else if (
-        runner.current_base === 3 &&
-        basesOccupied.has(2) &&
-        basesOccupied.has(1)
-      ) {
-        newBase = 4;
-      }
-    } else if (batterBaseReached === 2) {
-      newBase = Math.min(runner.current_base + 2, 4);
-    } else if (batterBaseReached === 3) {
-      newBase = 4;
-    } else if (batterBaseReached === 4) {
-      newBase = 4;
+    .in("current_base", [1, 2, 3]);
+
+  const outs = (await fetchOutsByInning(supabase, gameId, inning))[inning] || 0;
+
+  return createHalfInningState(
+    inning,
+    (currentRunners || []).map((r) => ({
+      id: r.id,
+      playerId: r.player_id,
+      playerName: r.player_name,
+      base: r.current_base,
+      isUnearned: !!r.is_tiebreak_runner,
+      isTiebreakRunner: !!r.is_tiebreak_runner,
+    })),
+    outs
+  );
+}
+
+// 自チームの攻撃回のイニングごとのアウト数（inning を指定するとその回のみ）
+// 打席でのアウト（走塁死・併殺を含む outs_recorded）と、盗塁死などランナー単独のアウトを合計する
+// アウト数を数える処理はすべてここを通す
+export async function fetchOutsByInning(
+  supabase: SupabaseClient,
+  gameId: string,
+  inning?: number
+): Promise<Record<number, number>> {
+  let recordsQuery = supabase
+    .from("game_batting_records")
+    .select("inning, result, notes, outs_recorded")
+    .eq("game_id", gameId);
+  // 相手の攻撃回と取り消したイベントは除く
+  let eventsQuery = supabase
+    .from("game_events")
+    .select("inning, payload")
+    .eq("game_id", gameId)
+    .in("event_type", ["caught_stealing", "runner_advance"])
+    .eq("is_opponent", false)
+    .is("undone_at", null);
+  if (inning !== undefined) {
+    recordsQuery = recordsQuery.eq("inning", inning);
+    eventsQuery = eventsQuery.eq("inning", inning);
+  }
+
+  const [{ data: records }, { data: runnerEvents }] = await Promise.all([
+    recordsQuery,
+    eventsQuery,
+  ]);
+
+  const outs: Record<number, number> = {};
+  for (const record of records || []) {
+    outs[record.inning] =
+      (outs[record.inning] || 0) +
+      countOutsForRecord(record.result, record.notes, record.outs_recorded);
+  }
+  for (const event of runnerEvents || []) {
+    if ((event.payload as RunnerEventPayload).toBase === 0) {
+      outs[event.inning] = (outs[event.inning] || 0) + 1;
     }
+  }
+  return outs;
+}
 
-    if (newBase !== runner.current_base) {
-      if (newBase === 4) {
-        await supabase
-          .from("game_runners")
-          .update({ current_base: 4, is_active: false })
-          .eq("id", runner.id);
+// エンジンの遷移結果をDBに保存
+export async function persistTransition(
+  supabase: SupabaseClient,
+  gameId: string,
+  inning: number,
+  transition: TransitionResult
+) {
+  for (const move of transition.moves) {
+    const { runner, toBase } = move;
 
+    if (!runner.id) {
+      // 新規ランナー（打者）の登録（ホームインの場合は登録しない）
+      if (toBase >= 1 && toBase <= 3) {
+        // 同じ選手の古いランナー記録は削除
         await supabase
-          .from("game_batting_records")
-          .update({ run_scored: true })
+          .from("game_runners")
+          .delete()
           .eq("game_id", gameId)
-          .eq("player_id", runner.player_id)
+          .eq("player_id", runner.playerId)
           .eq("inning", inning);
-      } else {
-        await supabase
-          .from("game_runners")
-          .update({ current_base: newBase })
-          .eq("id", runner.id);
+
+        await supabase.from("game_runners").insert({
+          game_id: gameId,
+          inning,
+          player_id: runner.playerId,
+          player_name: runner.playerName,
+          current_base: toBase,
+          is_active: true,
+        });
       }
+    } else if (toBase === 0) {
+      // アウト
+      await supabase
+        .from("game_runners")
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq("id", runner.id);
+    } else if (toBase === 4) {
+      // ホームイン
+      await supabase
+        .from("game_runners")
+        .update({
+          current_base: 4,
+          is_active: false,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", runner.id);
+    } else {
+      // 進塁
+      await supabase
+        .from("game_runners")
+        .update({ current_base: toBase, updated_at: new Date().toISOString() })
+        .eq("id", runner.id);
+    }
+
+    // 得点記録を更新（打者自身の得点は打撃記録の保存時に設定する）
+    // タイブレークの走者はこのイニングの打撃記録がないため更新しない
+    if (toBase === 4 && runner.id && !runner.isTiebreakRunner) {
+      await supabase
+        .from("game_batting_records")
+        .update({ run_scored: true })
+        .eq("game_id", gameId)
+        .eq("player_id", runner.playerId)
+        .eq("inning", inning);
+    }
+  }
+
+  // 3アウトでランナーをクリア
+  if (transition.isInningOver) {
+    await supabase
+      .from("game_runners")
+      .update({ is_active: false })
+      .eq("game_id", gameId)
+      .eq("inning", inning);
+  }
+}
+
+// 打席結果の保存結果（context は打撃記録に保存する打席開始時の状況）
+export interface RecordedPlateAppearance extends TransitionResult {
+  context: PlateAppearanceContext;
+}
+
+// 打席結果を状態エンジンに通して保存
+// 打撃記録の保存前に呼び出すこと（保存済みの記録はアウト数に含まれるため）
+export async function recordPlateAppearance(
+  supabase: SupabaseClient,
+  gameId: string,
+  inning: number,
+  event: PlateAppearanceEvent,
+  details: Pick<
+    PlateAppearancePayload,
+    | "battingOrder"
+    | "notes"
+    | "rbi"
+    | "fielding"
+    | "hitLocation"
+    | "battedBallType"
+  > = {}
+): Promise<RecordedPlateAppearance> {
+  const state = await loadHalfInningState(supabase, gameId, inning);
+  const context = getPlateAppearanceContext(state);
+  const transition = applyPlateAppearance(state, event);
+
+  // イベントログにはランナーを player_id で記録
+  const runnersOut = state.runners
+    .filter((r) => r.id && event.runnersOut?.includes(r.id))
+    .map((r) => r.playerId);
+  const runnerOverrides: Record<string, number> = {};
+  for (const runner of state.runners) {
+    if (runner.id && event.runnerOverrides?.[runner.id] !== undefined) {
+      runnerOverrides[runner.playerId] = event.runnerOverrides[runner.id];
+    }
+  }
+  const payload: PlateAppearancePayload = {
+    ...event,
+    ...details,
+    runnersOut,
+    runnerOverrides,
+  };
+  // ログに残せなかった打席は盤面にも反映しない
+  await appendGameEvent(supabase, gameId, inning, "plate_appearance", payload);
+  await persistTransition(supabase, gameId, inning, transition);
+
+  return { ...transition, context };
+}
+
+// ランナー単独の進塁（盗塁・盗塁死・進塁・得点）を状態エンジンに通して保存
+export async function recordRunnerAdvance(
+  supabase: SupabaseClient,
+  gameId: string,
+  inning: number,
+  runnerId: string,
+  toBase: number,
+  eventType: "stolen_base" | "caught_stealing" | "runner_advance" = "runner_advance"
+): Promise<TransitionResult> {
+  const state = await loadHalfInningState(supabase, gameId, inning);
+  const transition = applyRunnerAdvance(state, runnerId, toBase);
+
+  const runner = state.runners.find((r) => r.id === runnerId);
+  if (runner) {
+    await appendGameEvent(supabase, gameId, inning, eventType, {
+      playerId: runner.playerId,
+      playerName: runner.playerName,
+      toBase,
+    });
+  }
+  await persistTransition(supabase, gameId, inning, transition);
+
+  return transition;
+}
+
+// 暴投・捕逸を状態エンジンに通して保存
+export async function recordWildPitch(
+  supabase: SupabaseClient,
+  gameId: string,
+  inning: number
+): Promise<TransitionResult> {
+  const state = await loadHalfInningState(supabase, gameId, inning);
+  const transition = applyWildPitch(state);
+  await appendGameEvent(supabase, gameId, inning, "wild_pitch", {});
+  await persistTransition(supabase, gameId, inning, transition);
+  return transition;
+}
+
+// タイブレークの走者を塁に置いて記録
+export async function recordTiebreakRunners(
+  supabase: SupabaseClient,
+  gameId: string,
+  inning: number,
+  runners: TiebreakRunnersPayload["runners"]
+) {
+  const payload: TiebreakRunnersPayload = { runners };
+  await appendGameEvent(supabase, gameId, inning, "tiebreak_runners", payload);
+
+  const { error } = await supabase.from("game_runners").insert(
+    runners.map((r) => ({
+      game_id: gameId,
+      inning,
+      player_id: r.playerId,
+      player_name: r.playerName,
+      current_base: r.base,
+      is_active: true,
+      is_tiebreak_runner: true,
+    }))
+  );
+
+  if (error) {
+    console.error("タイブレーク走者登録エラー:", error);
+  }
+}
+
+// イニングごとのタイブレーク走者の得点（打撃記録の run_scored に含まれない分）
+export async function fetchTiebreakRuns(
+  supabase: SupabaseClient,
+  gameId: string
+): Promise<Record<number, number>> {
+  const events = await fetchGameEvents(supabase, gameId);
+  if (!events.some((e) => e.event_type === "tiebreak_runners")) return {};
+
+  const runs: Record<number, number> = {};
+  for (const runner of replayGame(events).tiebreakRunners) {
+    if (runner.runScored && !runner.isOpponent) {
+      runs[runner.inning] = (runs[runner.inning] || 0) + 1;
+    }
+  }
+  return runs;
+}
+
+// 自動で作成する投手記録の初期値
+const EMPTY_PITCHING_RECORD = {
+  innings_pitched: 0,
+  hits_allowed: 0,
+  runs_allowed: 0,
+  earned_runs: 0,
+  strikeouts: 0,
+  walks: 0,
+  home_runs_allowed: 0,
+  pitches_thrown: 0,
+  strikes_thrown: 0,
+};
+
+// 投手交代を記録（以降の失点は新しい投手、塁上のランナーは前の投手の責任）
+export async function recordPitchingChange(
+  supabase: SupabaseClient,
+  gameId: string,
+  inning: number,
+  pitcherId: string,
+  pitcherName: string,
+  isOpponent: boolean = false
+) {
+  const payload: PitchingChangePayload = { pitcherId, pitcherName, isOpponent };
+  await appendGameEvent(supabase, gameId, inning, "pitching_change", payload);
+}
+
+// 球数・ストライク数を投手記録に加算（取り消し時は負の値を渡す）
+// 四球・三振は打席イベントから集計するためここでは加算しない
+export async function addPitchTotals(
+  supabase: SupabaseClient,
+  gameId: string,
+  pitcherId: string,
+  delta: {
+    pitches: number;
+    strikes: number;
+  }
+) {
+  const { data: existing } = await supabase
+    .from("game_pitching_records")
+    .select("id, pitches_thrown, strikes_thrown")
+    .eq("game_id", gameId)
+    .eq("player_id", pitcherId)
+    .maybeSingle();
+
+  const current = existing || EMPTY_PITCHING_RECORD;
+  const values = {
+    pitches_thrown: Math.max(0, (current.pitches_thrown || 0) + delta.pitches),
+    strikes_thrown: Math.max(0, (current.strikes_thrown || 0) + delta.strikes),
+  };
+
+  const { error } = existing
+    ? await supabase
+        .from("game_pitching_records")
+        .update(values)
+        .eq("id", existing.id)
+    : await supabase.from("game_pitching_records").insert({
+        ...EMPTY_PITCHING_RECORD,
+        game_id: gameId,
+        player_id: pitcherId,
+        ...values,
+      });
+
+  if (error) throw error;
+  return values;
+}
+
+// 投手ごとの失点・自責点をイベントログから計算して投手記録に反映
+// 相手の打席記録がない回は、その回の相手得点を最後に登板していた投手の失点（自責点）とする
+// （タイブレークの回は置かれた走者の人数分を自責点から除く）
+// 相手打席を記録した投手は、投球回・被安打・与四球・奪三振・被本塁打もイベントログから集計する
+export async function syncPitchingRunsFromEvents(
+  supabase: SupabaseClient,
+  gameId: string
+) {
+  const events = await fetchGameEvents(supabase, gameId);
+  const pitchingChanges = filterPitchingChanges(events);
+  if (pitchingChanges.length === 0) return null;
+
+  const replay = replayGame(events);
+  const totals: Record<string, { runs: number; earnedRuns: number }> = {};
+  for (const change of pitchingChanges) {
+    totals[change.payload.pitcherId] = { runs: 0, earnedRuns: 0 };
+  }
+  for (const [pitcherId, runs] of Object.entries(replay.pitcherRuns)) {
+    if (totals[pitcherId]) totals[pitcherId] = { ...runs };
+  }
+
+  const { data: scoreRows } = await supabase
+    .from("game_scores")
+    .select("*")
+    .eq("game_id", gameId);
+  const rules = await fetchGameRules(supabase, gameId);
+
+  const loggedInnings = new Set(
+    events
+      .filter((e) => e.is_opponent && e.event_type === "plate_appearance")
+      .map((e) => e.inning)
+  );
+  for (const row of scoreRows || []) {
+    if (loggedInnings.has(row.inning)) continue;
+    const opponentRuns =
+      (row.is_my_team_bat_first ? row.bottom_score : row.top_score) || 0;
+    const pitcher = [...pitchingChanges]
+      .reverse()
+      .find((e) => e.inning <= row.inning);
+    if (!pitcher || opponentRuns === 0) continue;
+    totals[pitcher.payload.pitcherId].runs += opponentRuns;
+    totals[pitcher.payload.pitcherId].earnedRuns += isTiebreakInning(
+      rules,
+      row.inning
+    )
+      ? Math.max(0, opponentRuns - rules.tiebreakBases.length)
+      : opponentRuns;
+  }
+
+  const { data: records } = await supabase
+    .from("game_pitching_records")
+    .select("id, player_id")
+    .eq("game_id", gameId);
+
+  for (const [pitcherId, runs] of Object.entries(totals)) {
+    const existing = records?.find((r) => r.player_id === pitcherId);
+    const stats = replay.pitcherStats[pitcherId];
+    const values = {
+      runs_allowed: runs.runs,
+      earned_runs: runs.earnedRuns,
+      ...(stats && {
+        innings_pitched: outsToInnings(stats.outs),
+        hits_allowed: stats.hits,
+        walks: stats.walks,
+        strikeouts: stats.strikeouts,
+        home_runs_allowed: stats.homeRuns,
+      }),
+    };
+    const { error } = existing
+      ? await supabase
+          .from("game_pitching_records")
+          .update(values)
+          .eq("id", existing.id)
+      : await supabase
+          .from("game_pitching_records")
+          .insert({
+            ...EMPTY_PITCHING_RECORD,
+            game_id: gameId,
+            player_id: pitcherId,
+            ...values,
+          });
+
+    if (error) {
+      console.error("投手失点更新エラー:", error);
+    }
+  }
+
+  return totals;
+}
+
+// 相手チームの攻撃回のイベント（打席・進塁・攻撃終了）を記録
+// 状態はイベントログのリプレイで求め、相手得点と投手成績を更新する
+export async function recordOpponentEvent<T extends GameEventType>(
+  supabase: SupabaseClient,
+  gameId: string,
+  inning: number,
+  eventType: T,
+  payload: GameEventPayloadMap[T]
+): Promise<TransitionResult | null> {
+  const events = await fetchGameEvents(supabase, gameId);
+  const replay = replayGame([
+    ...events,
+    {
+      game_id: gameId,
+      sequence: (events[events.length - 1]?.sequence || 0) + 1,
+      inning,
+      event_type: eventType,
+      is_opponent: true,
+      payload,
+    } as GameEvent,
+  ]);
+  const transition = replay.steps[replay.steps.length - 1].transition;
+
+  await appendGameEvent(supabase, gameId, inning, eventType, payload, true);
+  await syncOpponentScoresFromEvents(supabase, gameId);
+  await syncPitchingRunsFromEvents(supabase, gameId);
+  await syncFieldingFromEvents(supabase, gameId);
+
+  return transition;
+}
+
+// 相手打席を記録した回のイニング得点と試合の相手得点をイベントログから更新
+export async function syncOpponentScoresFromEvents(
+  supabase: SupabaseClient,
+  gameId: string
+) {
+  const allEvents = await fetchGameEvents(supabase, gameId, true);
+  const replay = replayGame(allEvents.filter((e) => !e.undone_at));
+
+  const { data: scoreRows } = await supabase
+    .from("game_scores")
+    .select("*")
+    .eq("game_id", gameId);
+
+  const isMyTeamBatFirst = scoreRows?.[0]?.is_my_team_bat_first ?? true;
+  // 取り消したイベントのイニングも0点に戻すため全イベントを対象にする
+  const innings = new Set(
+    allEvents
+      .filter((e) => e.is_opponent && e.event_type !== "pitching_change")
+      .map((e) => e.inning)
+  );
+  if (innings.size === 0) return;
+
+  const opponentScores = new Map<number, number>();
+  for (const row of scoreRows || []) {
+    opponentScores.set(
+      row.inning,
+      (isMyTeamBatFirst ? row.bottom_score : row.top_score) || 0
+    );
+  }
+
+  for (const inning of innings) {
+    const existing = scoreRows?.find((r) => r.inning === inning);
+    const runs = replay.opponentLineScore[inning] || 0;
+    opponentScores.set(inning, runs);
+    await supabase.from("game_scores").upsert(
+      {
+        game_id: gameId,
+        inning,
+        top_score: isMyTeamBatFirst ? existing?.top_score ?? null : runs,
+        bottom_score: isMyTeamBatFirst ? runs : existing?.bottom_score ?? null,
+        is_my_team_bat_first: isMyTeamBatFirst,
+      },
+      { onConflict: "game_id,inning" }
+    );
+  }
+
+  const totalRuns = Array.from(opponentScores.values()).reduce(
+    (sum, runs) => sum + runs,
+    0
+  );
+  await supabase
+    .from("games")
+    .update({ opponent_score: totalRuns, updated_at: new Date().toISOString() })
+    .eq("id", gameId);
+}
+
+// 自チームの守備成績（刺殺・補殺・失策・守備イニング）をイベントログから再集計
+export async function syncFieldingFromEvents(
+  supabase: SupabaseClient,
+  gameId: string
+) {
+  const events = await fetchGameEvents(supabase, gameId);
+  const lines = buildFieldingLines(replayGame(events).steps);
+
+  await supabase.from("game_fielding_records").delete().eq("game_id", gameId);
+  if (lines.length === 0) return;
+
+  const { error } = await supabase.from("game_fielding_records").insert(
+    lines.map((line) => ({
+      game_id: gameId,
+      player_id: line.playerId,
+      position: line.position,
+      putouts: line.putouts,
+      assists: line.assists,
+      errors: line.errors,
+      outs_played: line.outsPlayed,
+    }))
+  );
+  if (error) {
+    console.error("守備記録保存エラー:", error);
+  }
+}
+
+// 連番の重複（同時に記録した）ときに採番し直す回数
+const APPEND_EVENT_ATTEMPTS = 3;
+
+// イベントログに追記
+// (game_id, sequence) の一意制約で重複を検出して採番し直す
+// 記録できなければ例外を投げる（呼び出し側はテーブルへの保存を行わない）
+export async function appendGameEvent<T extends GameEventType>(
+  supabase: SupabaseClient,
+  gameId: string,
+  inning: number,
+  eventType: T,
+  payload: GameEventPayloadMap[T],
+  isOpponent: boolean = false
+) {
+  for (let attempt = 0; attempt < APPEND_EVENT_ATTEMPTS; attempt++) {
+    const { data: lastEvents, error: fetchError } = await supabase
+      .from("game_events")
+      .select("sequence")
+      .eq("game_id", gameId)
+      .order("sequence", { ascending: false })
+      .limit(1);
+
+    if (fetchError) throw fetchError;
+
+    const sequence = (lastEvents?.[0]?.sequence || 0) + 1;
+
+    const { error } = await supabase.from("game_events").insert({
+      game_id: gameId,
+      sequence,
+      inning,
+      event_type: eventType,
+      is_opponent: isOpponent,
+      payload,
+    });
+
+    if (!error) return;
+    // 一意制約違反（23505）以外はそのまま失敗にする
+    if (error.code !== "23505") {
+      console.error("イベント記録エラー:", error);
+      throw error;
     }
   }
+
+  throw new Error("イベントを記録できませんでした（同時に記録されています）");
+}
+
+// 試合結果から勝利投手・敗戦投手・セーブ投手を提案
+// 投手交代の記録がない試合は、投手記録が1人のときのみ完投として判定する
+export async function proposePitchingDecisions(
+  supabase: SupabaseClient,
+  gameId: string
+): Promise<PitchingDecision> {
+  const [events, { data: scoreRows }, { data: records }, { data: players }] =
+    await Promise.all([
+      fetchGameEvents(supabase, gameId),
+      supabase.from("game_scores").select("*").eq("game_id", gameId),
+      supabase
+        .from("game_pitching_records")
+        .select("player_id, innings_pitched")
+        .eq("game_id", gameId),
+      supabase
+        .from("game_players")
+        .select("id, player_name")
+        .eq("game_id", gameId),
+    ]);
+
+  let appearances: PitcherAppearance[] = filterPitchingChanges(events)
+    .map((e) => ({
+      pitcherId: e.payload.pitcherId,
+      pitcherName: e.payload.pitcherName,
+      entryInning: e.inning,
+    }));
+  if (appearances.length === 0 && records?.length === 1) {
+    appearances = [
+      {
+        pitcherId: records[0].player_id,
+        pitcherName:
+          players?.find((p) => p.id === records[0].player_id)?.player_name ||
+          "",
+        entryInning: 1,
+      },
+    ];
+  }
+
+  const isMyTeamBatFirst = scoreRows?.[0]?.is_my_team_bat_first ?? true;
+  const inningsPitched: Record<string, number> = {};
+  for (const record of records || []) {
+    inningsPitched[record.player_id] = record.innings_pitched || 0;
+  }
+
+  const rules = await fetchGameRules(supabase, gameId);
+
+  return decidePitchingResults({
+    scheduledInnings: rules.innings,
+    scores: (scoreRows || []).map((row) => ({
+      inning: row.inning,
+      myRuns: isMyTeamBatFirst ? row.top_score : row.bottom_score,
+      opponentRuns: isMyTeamBatFirst ? row.bottom_score : row.top_score,
+    })),
+    isMyTeamBatFirst,
+    appearances,
+    inningsPitched,
+  });
+}
+
+// 判定した勝敗・セーブを投手記録に反映（記録がない投手は作成）
+export async function applyPitchingDecisions(
+  supabase: SupabaseClient,
+  gameId: string,
+  decision: PitchingDecision
+) {
+  const { data: records, error } = await supabase
+    .from("game_pitching_records")
+    .select("id, player_id")
+    .eq("game_id", gameId);
+  if (error) throw error;
+
+  const pitcherIds = new Set([
+    ...(records || []).map((r) => r.player_id),
+    ...[
+      decision.winPitcherId,
+      decision.lossPitcherId,
+      decision.savePitcherId,
+    ].filter((id): id is string => !!id),
+  ]);
+
+  for (const pitcherId of pitcherIds) {
+    const values = {
+      win: pitcherId === decision.winPitcherId,
+      loss: pitcherId === decision.lossPitcherId,
+      save: pitcherId === decision.savePitcherId,
+    };
+    const existing = records?.find((r) => r.player_id === pitcherId);
+    const { error: saveError } = existing
+      ? await supabase
+          .from("game_pitching_records")
+          .update(values)
+          .eq("id", existing.id)
+      : await supabase
+          .from("game_pitching_records")
+          .insert({
+            ...EMPTY_PITCHING_RECORD,
+            game_id: gameId,
+            player_id: pitcherId,
+            ...values,
+          });
+    if (saveError) throw saveError;
+  }
+}
+
+// 試合のルールを取得（未設定ならチームの既定ルール）
+export async function fetchGameRules(
+  supabase: SupabaseClient,
+  gameId: string
+): Promise<GameRules> {
+  const { data: game, error } = await supabase
+    .from("games")
+    .select("rules, home_team_id")
+    .eq("id", gameId)
+    .single();
+
+  if (error) {
+    console.error("試合ルール取得エラー:", error);
+  }
+  if (game?.rules || !game?.home_team_id) {
+    return resolveGameRules(game?.rules);
+  }
+
+  const { data: team } = await supabase
+    .from("teams")
+    .select("default_rules")
+    .eq("id", game.home_team_id)
+    .single();
+
+  return resolveGameRules(null, team?.default_rules);
+}
+
+// イベントログを取得（取り消し済みのイベントは既定で除外）
+export async function fetchGameEvents(
+  supabase: SupabaseClient,
+  gameId: string,
+  includeUndone: boolean = false
+): Promise<GameEvent[]> {
+  let query = supabase
+    .from("game_events")
+    .select("*")
+    .eq("game_id", gameId);
+
+  if (!includeUndone) {
+    query = query.is("undone_at", null);
+  }
+
+  const { data, error } = await query.order("sequence", { ascending: true });
+
+  if (error) {
+    console.error("イベント取得エラー:", error);
+    return [];
+  }
+  return data || [];
+}
+
+// イベントログから打撃記録・ランナー・イニング得点を再構築
+export async function rebuildFromEvents(
+  supabase: SupabaseClient,
+  gameId: string
+) {
+  const allEvents = await fetchGameEvents(supabase, gameId, true);
+  if (allEvents.length === 0) return null;
+
+  const events = allEvents.filter((e) => !e.undone_at);
+  const replay = replayGame(events);
+
+  // 打撃記録（作成順で次打者を判定しているため1件ずつ挿入）
+  await supabase.from("game_batting_records").delete().eq("game_id", gameId);
+  for (const record of replay.battingRecords) {
+    const { player_name, fielding, ...row } = record;
+    await supabase
+      .from("game_batting_records")
+      .insert({ ...row, game_id: gameId });
+  }
+
+  // ランナー（攻撃中の自チームのイニングのみ）
+  await supabase.from("game_runners").delete().eq("game_id", gameId);
+  const isOpponentHalf = !!replay.steps
+    .filter((s) => s.event.event_type !== "pitching_change")
+    .pop()?.event.is_opponent;
+  if (
+    !isOpponentHalf &&
+    replay.state.outs < 3 &&
+    replay.state.runners.length > 0
+  ) {
+    await supabase.from("game_runners").insert(
+      replay.state.runners.map((r) => ({
+        game_id: gameId,
+        inning: replay.state.inning,
+        player_id: r.playerId,
+        player_name: r.playerName,
+        current_base: r.base,
+        is_active: true,
+        is_tiebreak_runner: !!r.isTiebreakRunner,
+      }))
+    );
+  }
+
+  // イニング得点（自チームの攻撃回のみ上書き）
+  const { data: scoreRows } = await supabase
+    .from("game_scores")
+    .select("*")
+    .eq("game_id", gameId);
+
+  const isMyTeamBatFirst = scoreRows?.[0]?.is_my_team_bat_first ?? true;
+  // 取り消したイベントのイニングも0点に戻すため全イベントを対象にする
+  const innings = new Set(
+    allEvents
+      .filter((e) => !e.is_opponent && e.event_type !== "pitching_change")
+      .map((e) => e.inning)
+  );
+
+  for (const inning of innings) {
+    const existing = scoreRows?.find((r) => r.inning === inning);
+    const runs = replay.lineScore[inning] || 0;
+    await supabase.from("game_scores").upsert(
+      {
+        game_id: gameId,
+        inning,
+        top_score: isMyTeamBatFirst ? runs : existing?.top_score ?? null,
+        bottom_score: isMyTeamBatFirst ? existing?.bottom_score ?? null : runs,
+        is_my_team_bat_first: isMyTeamBatFirst,
+      },
+      { onConflict: "game_id,inning" }
+    );
+  }
+
+  // 試合の合計得点
+  const totalRuns = Object.values(replay.lineScore).reduce(
+    (sum, runs) => sum + runs,
+    0
+  );
+  await supabase
+    .from("games")
+    .update({ home_score: totalRuns, updated_at: new Date().toISOString() })
+    .eq("id", gameId);
+
+  // 相手の攻撃回の得点と投手の失点・自責点、守備成績
+  await syncOpponentScoresFromEvents(supabase, gameId);
+  await syncPitchingRunsFromEvents(supabase, gameId);
+  await syncFieldingFromEvents(supabase, gameId);
+
+  return replay;
+}
+
+// 打撃記録に対応する打席イベントと訂正後の内容
+// 記録は打席イベントと同じ順に作成されるため、作成順で対応を取る
+// ログ導入前の記録が残っている試合は対応が取れないため null
+async function findPlateAppearanceEvent(
+  supabase: SupabaseClient,
+  gameId: string,
+  recordId: string
+): Promise<{
+  event: GameEventOf<"plate_appearance">;
+  payload: PlateAppearancePayload;
+} | null> {
+  const [events, { data: records }] = await Promise.all([
+    fetchGameEvents(supabase, gameId),
+    supabase
+      .from("game_batting_records")
+      .select("id")
+      .eq("game_id", gameId)
+      .order("created_at", { ascending: true }),
+  ]);
+
+  const corrections = collectCorrections(events);
+  const plateAppearances = events.filter(
+    (e): e is GameEventOf<"plate_appearance"> =>
+      e.event_type === "plate_appearance" &&
+      !e.is_opponent &&
+      corrections.get(e.sequence) !== null
+  );
+  const index = (records || []).findIndex((r) => r.id === recordId);
+  if (index < 0 || records!.length !== plateAppearances.length) return null;
+
+  const event = plateAppearances[index];
+  return { event, payload: corrections.get(event.sequence) || event.payload };
+}
+
+// 打撃記録を訂正する（changes=null は削除）
+// 訂正イベントを追記してログから再構築する。対応する打席イベントがなければ false
+export async function correctPlateAppearance(
+  supabase: SupabaseClient,
+  gameId: string,
+  recordId: string,
+  changes: Partial<PlateAppearancePayload> | null
+): Promise<boolean> {
+  const target = await findPlateAppearanceEvent(supabase, gameId, recordId);
+  if (!target) return false;
+
+  await appendGameEvent(
+    supabase,
+    gameId,
+    target.event.inning,
+    "correction",
+    {
+      targetSequence: target.event.sequence,
+      plateAppearance: changes && { ...target.payload, ...changes },
+    },
+    !!target.event.is_opponent
+  );
+  await rebuildFromEvents(supabase, gameId);
+  return true;
 }
 
 // 打撃結果からbase_reached計算
-export function calculateBaseReached(result: string): number {
+export function calculateBaseReached(
+  result: string,
+  isError: boolean = false
+): number {
   const baseReachedMap: Record<string, number> = {
     "安打": 1,
     "二塁打": 2,
@@ -87,15 +957,228 @@ export function calculateBaseReached(result: string): number {
     "犠飛": 0,
     "フィールダースチョイス": 0,
   };
-  
+
+  // 失策で出塁した場合は一塁
+  if (isError) return Math.max(baseReachedMap[result] || 0, 1);
+
   return baseReachedMap[result] || 0;
 }
 
 // アウトになる打撃結果の判定
 export function isOutResult(result: string): boolean {
-  const outResults = [
-    "三振", "ゴロ", "フライ", "ライナー", 
-    "犠打", "犠飛", "フィールダースチョイス"
-  ];
-  return outResults.includes(result);
-}
\ No newline at end of file
+  return OUT_RESULTS.includes(result);
+}
+
+// 取り消し・やり直しの単位（3アウトによる自動攻撃終了は直前の操作と、
+// タイブレークの走者配置は直前の攻撃終了とまとめる）
+function groupWithAutoInningEnd(
+  events: GameEvent[],
+  index: number,
+  direction: "back" | "forward"
+): GameEvent[] {
+  const event = events[index];
+  if (direction === "back") {
+    if (event.event_type === "tiebreak_runners" && index > 0) {
+      return [...groupWithAutoInningEnd(events, index - 1, "back"), event];
+    }
+    const prev = events[index - 1];
+    if (
+      event.event_type === "inning_end" &&
+      event.payload.auto &&
+      prev &&
+      prev.inning === event.inning
+    ) {
+      return [prev, event];
+    }
+    return [event];
+  }
+
+  const next = events[index + 1];
+  const group =
+    next &&
+    next.event_type === "inning_end" &&
+    next.payload.auto &&
+    next.inning === event.inning
+      ? [event, next]
+      : [event];
+  const following = events[index + group.length];
+  if (following?.event_type === "tiebreak_runners") {
+    return [...group, following];
+  }
+  return group;
+}
+
+// 取り消し・やり直しの状態
+export interface UndoRedoState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoTarget: GameEvent[];
+  redoTarget: GameEvent[];
+  isLogComplete: boolean;
+}
+
+export async function getUndoRedoState(
+  supabase: SupabaseClient,
+  gameId: string
+): Promise<UndoRedoState> {
+  const allEvents = await fetchGameEvents(supabase, gameId, true);
+  const active = allEvents.filter((e) => !e.undone_at);
+  const lastActiveSequence = active[active.length - 1]?.sequence || 0;
+  const redoStack = allEvents.filter(
+    (e) => e.undone_at && e.sequence > lastActiveSequence
+  );
+
+  // ログ導入前の記録が残っている試合では再構築で消えてしまうため無効にする
+  const { count: recordCount } = await supabase
+    .from("game_batting_records")
+    .select("id", { count: "exact", head: true })
+    .eq("game_id", gameId);
+  const corrections = collectCorrections(active);
+  const plateAppearances = active.filter(
+    (e) =>
+      e.event_type === "plate_appearance" &&
+      !e.is_opponent &&
+      corrections.get(e.sequence) !== null
+  ).length;
+  const isLogComplete = (recordCount || 0) === plateAppearances;
+
+  const undoTarget =
+    active.length > 0
+      ? groupWithAutoInningEnd(active, active.length - 1, "back")
+      : [];
+  const redoTarget =
+    redoStack.length > 0 ? groupWithAutoInningEnd(redoStack, 0, "forward") : [];
+
+  return {
+    canUndo: isLogComplete && undoTarget.length > 0,
+    canRedo: isLogComplete && redoTarget.length > 0,
+    undoTarget,
+    redoTarget,
+    isLogComplete,
+  };
+}
+
+// 直前の操作を取り消し
+export async function undoLastAction(
+  supabase: SupabaseClient,
+  gameId: string
+): Promise<GameEvent[]> {
+  const { canUndo, undoTarget } = await getUndoRedoState(supabase, gameId);
+  if (!canUndo) return [];
+
+  await supabase
+    .from("game_events")
+    .update({ undone_at: new Date().toISOString() })
+    .in(
+      "id",
+      undoTarget.map((e) => e.id!)
+    );
+
+  for (const event of undoTarget) {
+    if (event.event_type === "substitution") {
+      await revertSubstitution(supabase, gameId, event);
+    }
+  }
+
+  await rebuildFromEvents(supabase, gameId);
+  return undoTarget;
+}
+
+// 取り消した操作をやり直し
+export async function redoLastAction(
+  supabase: SupabaseClient,
+  gameId: string
+): Promise<GameEvent[]> {
+  const { canRedo, redoTarget } = await getUndoRedoState(supabase, gameId);
+  if (!canRedo) return [];
+
+  await supabase
+    .from("game_events")
+    .update({ undone_at: null })
+    .in(
+      "id",
+      redoTarget.map((e) => e.id!)
+    );
+
+  for (const event of redoTarget) {
+    if (event.event_type === "substitution") {
+      await reapplySubstitution(supabase, gameId, event);
+    }
+  }
+
+  await rebuildFromEvents(supabase, gameId);
+  return redoTarget;
+}
+
+// 選手交代を取り消し（出場選手を元に戻す）
+async function revertSubstitution(
+  supabase: SupabaseClient,
+  gameId: string,
+  event: GameEventOf<"substitution">
+) {
+  const payload = event.payload;
+
+  await supabase
+    .from("game_players")
+    .update({ is_active: false, position: null, batting_order: null })
+    .eq("id", payload.inPlayerId);
+
+  await supabase
+    .from("game_players")
+    .update({
+      is_active: true,
+      position: payload.position,
+      batting_order: payload.battingOrder,
+    })
+    .eq("id", payload.outPlayerId);
+
+  const { data: substitutions } = await supabase
+    .from("game_substitutions")
+    .select("id")
+    .eq("game_id", gameId)
+    .eq("out_player_id", payload.outPlayerId)
+    .eq("in_player_id", payload.inPlayerId)
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (substitutions && substitutions.length > 0) {
+    await supabase
+      .from("game_substitutions")
+      .delete()
+      .eq("id", substitutions[0].id);
+  }
+}
+
+// 取り消した選手交代を再適用
+async function reapplySubstitution(
+  supabase: SupabaseClient,
+  gameId: string,
+  event: GameEventOf<"substitution">
+) {
+  const payload = event.payload;
+
+  await supabase.from("game_substitutions").insert({
+    game_id: gameId,
+    inning: event.inning,
+    out_player_id: payload.outPlayerId,
+    in_player_id: payload.inPlayerId,
+    substitution_type: payload.substitutionType || "player_change",
+    batting_order: payload.battingOrder,
+    new_position: payload.position,
+    description: `${payload.outPlayerName} → ${payload.inPlayerName}`,
+  });
+
+  await supabase
+    .from("game_players")
+    .update({ is_active: false, position: null, batting_order: null })
+    .eq("id", payload.outPlayerId);
+
+  await supabase
+    .from("game_players")
+    .update({
+      is_active: true,
+      position: payload.position,
+      batting_order: payload.battingOrder,
+    })
+    .eq("id", payload.inPlayerId);
+}
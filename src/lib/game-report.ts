@@ -0,0 +1,425 @@
+// 試合レポート（印刷・PDF保存用）
+// 試合データを1枚の HTML にまとめる純粋な関数のみで構成し、取得はルートハンドラー側で行う
+
+import { getStrikePercentage } from "./pitch-count";
+import {
+  calculatePitchingMetrics,
+  formatDecimal,
+  sumPitchingRows,
+} from "./sabermetrics";
+
+export interface ReportGame {
+  name: string;
+  game_date: string;
+  game_time: string | null;
+  location: string | null;
+  opponent_name: string;
+  home_score: number;
+  opponent_score: number;
+  status: string;
+}
+
+export interface ReportPlayer {
+  id: string;
+  player_name: string;
+  batting_order: number | null;
+  position: string | null;
+}
+
+export interface ReportBattingRecord {
+  player_id: string;
+  result: string;
+  rbi: number;
+  run_scored: boolean;
+  stolen_base: boolean;
+}
+
+export interface ReportScoreRow {
+  inning: number;
+  top_score: number | null;
+  bottom_score: number | null;
+  is_my_team_bat_first: boolean;
+}
+
+export interface ReportPitchingLine {
+  player_id: string;
+  player_name: string;
+  innings_pitched: number;
+  hits_allowed: number;
+  runs_allowed: number;
+  earned_runs: number;
+  strikeouts: number;
+  walks: number;
+  home_runs_allowed: number;
+  pitches_thrown?: number;
+  strikes_thrown?: number;
+  decision?: string | null; // 勝・敗・S
+}
+
+export interface ReportSubstitution {
+  inning: number;
+  out_player_id: string;
+  in_player_id: string;
+  substitution_type: string | null;
+  new_position: string | null;
+  description: string | null;
+}
+
+export interface ReportTask {
+  task_type: string;
+  person_name: string;
+}
+
+export interface GameReport {
+  game: ReportGame;
+  teamName: string;
+  players: ReportPlayer[];
+  battingRecords: ReportBattingRecord[];
+  scores: ReportScoreRow[];
+  pitchingLines: ReportPitchingLine[];
+  substitutions: ReportSubstitution[];
+  tasks: ReportTask[];
+}
+
+// 打撃成績（試合単位、StatsDisplay と同じ集計）
+export interface BattingLine {
+  player_id: string;
+  player_name: string;
+  batting_order: number | null;
+  position: string | null;
+  at_bats: number;
+  hits: number;
+  doubles: number;
+  triples: number;
+  home_runs: number;
+  rbi: number;
+  runs: number;
+  walks: number;
+  strikeouts: number;
+  stolen_bases: number;
+}
+
+const HIT_RESULTS = ["安打", "二塁打", "三塁打", "本塁打"];
+const WALK_RESULTS = ["四球", "死球"];
+const SACRIFICE_RESULTS = ["犠打", "犠飛"];
+
+const TASK_LABELS: Record<string, string> = {
+  equipment: "用具の保管・運搬",
+  scheduling: "試合を組む",
+  coordination: "対戦相手との調整",
+  ground: "グラウンドを用意",
+  attendance: "出欠を取る",
+  umpire: "審判の手配",
+  helper: "助っ人の手配",
+  media: "写真・動画撮影",
+  accounting: "会計報告",
+};
+
+export function buildBattingLines(
+  players: ReportPlayer[],
+  records: ReportBattingRecord[]
+): BattingLine[] {
+  return players
+    .filter((p) => records.some((r) => r.player_id === p.id))
+    .map((player) => {
+      const line: BattingLine = {
+        player_id: player.id,
+        player_name: player.player_name,
+        batting_order: player.batting_order,
+        position: player.position,
+        at_bats: 0,
+        hits: 0,
+        doubles: 0,
+        triples: 0,
+        home_runs: 0,
+        rbi: 0,
+        runs: 0,
+        walks: 0,
+        strikeouts: 0,
+        stolen_bases: 0,
+      };
+
+      for (const record of records.filter((r) => r.player_id === player.id)) {
+        // 打数計算（犠打・犠飛・四死球は打数に含まない）
+        if (
+          !WALK_RESULTS.includes(record.result) &&
+          !SACRIFICE_RESULTS.includes(record.result)
+        ) {
+          line.at_bats++;
+        }
+        if (HIT_RESULTS.includes(record.result)) line.hits++;
+        if (record.result === "二塁打") line.doubles++;
+        if (record.result === "三塁打") line.triples++;
+        if (record.result === "本塁打") line.home_runs++;
+        if (record.result === "三振") line.strikeouts++;
+        if (WALK_RESULTS.includes(record.result)) line.walks++;
+        if (record.run_scored) line.runs++;
+        if (record.stolen_base) line.stolen_bases++;
+        line.rbi += record.rbi || 0;
+      }
+
+      return line;
+    })
+    .sort((a, b) => (a.batting_order || 99) - (b.batting_order || 99));
+}
+
+// HTML エスケープ
+export function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// 投球回の表示（0.1=1アウト）
+function formatInningsPitched(innings: number): string {
+  return innings % 1 === 0 ? `${innings}` : innings.toFixed(1);
+}
+
+function renderTable(headers: string[], rows: string[][]): string {
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join("");
+  const body = rows
+    .map((row) => `<tr>${row.map((c) => `<td>${c}</td>`).join("")}</tr>`)
+    .join("\n");
+  return `<table>
+<thead><tr>${head}</tr></thead>
+<tbody>${body}</tbody>
+</table>`;
+}
+
+function renderLineScore(report: GameReport): string {
+  const { scores, game, teamName } = report;
+  if (scores.length === 0) return "<p>スコアの記録がありません</p>";
+
+  const isMyTeamBatFirst = scores[0].is_my_team_bat_first;
+  const innings = Math.max(...scores.map((s) => s.inning));
+  const inningNumbers = Array.from({ length: innings }, (_, i) => i + 1);
+  const cell = (inning: number, side: "top_score" | "bottom_score") => {
+    const value = scores.find((s) => s.inning === inning)?.[side];
+    return value === null || value === undefined ? "-" : String(value);
+  };
+  const teams = isMyTeamBatFirst
+    ? [
+        { name: teamName, total: game.home_score },
+        { name: game.opponent_name, total: game.opponent_score },
+      ]
+    : [
+        { name: game.opponent_name, total: game.opponent_score },
+        { name: teamName, total: game.home_score },
+      ];
+
+  return renderTable(
+    ["", ...inningNumbers.map(String), "計"],
+    teams.map((team, index) => [
+      `<span class="team">${escapeHtml(team.name)}</span>`,
+      ...inningNumbers.map((inning) =>
+        cell(inning, index === 0 ? "top_score" : "bottom_score")
+      ),
+      `<strong>${escapeHtml(team.total)}</strong>`,
+    ])
+  );
+}
+
+function renderBatting(report: GameReport): string {
+  const lines = buildBattingLines(report.players, report.battingRecords);
+  if (lines.length === 0) return "<p>打撃記録がありません</p>";
+
+  const sum = (key: keyof BattingLine) =>
+    lines.reduce((total, line) => total + (line[key] as number), 0);
+
+  return renderTable(
+    [
+      "打順",
+      "守備",
+      "選手名",
+      "打数",
+      "安打",
+      "二塁打",
+      "三塁打",
+      "本塁打",
+      "打点",
+      "得点",
+      "四死球",
+      "三振",
+      "盗塁",
+    ],
+    [
+      ...lines.map((line) => [
+        escapeHtml(line.batting_order ?? "-"),
+        escapeHtml(line.position || "-"),
+        `<span class="name">${escapeHtml(line.player_name)}</span>`,
+        ...[
+          line.at_bats,
+          line.hits,
+          line.doubles,
+          line.triples,
+          line.home_runs,
+          line.rbi,
+          line.runs,
+          line.walks,
+          line.strikeouts,
+          line.stolen_bases,
+        ].map(String),
+      ]),
+      [
+        "",
+        "",
+        "<strong>合計</strong>",
+        ...(
+          [
+            "at_bats",
+            "hits",
+            "doubles",
+            "triples",
+            "home_runs",
+            "rbi",
+            "runs",
+            "walks",
+            "strikeouts",
+            "stolen_bases",
+          ] as const
+        ).map((key) => `<strong>${sum(key)}</strong>`),
+      ],
+    ]
+  );
+}
+
+function renderPitching(report: GameReport): string {
+  const lines = report.pitchingLines;
+  if (lines.length === 0) return "<p>投手成績がありません</p>";
+
+  const hasPitchCounts = lines.some((l) => (l.pitches_thrown || 0) > 0);
+  return renderTable(
+    [
+      "選手名",
+      "",
+      "投球回",
+      "被安打",
+      "失点",
+      "自責点",
+      "奪三振",
+      "与四球",
+      "被本塁打",
+      ...(hasPitchCounts ? ["球数", "ストライク率"] : []),
+      "防御率",
+    ],
+    lines.map((line) => [
+      `<span class="name">${escapeHtml(line.player_name)}</span>`,
+      escapeHtml(line.decision || ""),
+      formatInningsPitched(line.innings_pitched),
+      String(line.hits_allowed),
+      String(line.runs_allowed),
+      String(line.earned_runs),
+      String(line.strikeouts),
+      String(line.walks),
+      String(line.home_runs_allowed),
+      ...(hasPitchCounts
+        ? [
+            String(line.pitches_thrown || 0),
+            `${getStrikePercentage(
+              line.pitches_thrown || 0,
+              line.strikes_thrown || 0
+            )}%`,
+          ]
+        : []),
+      formatDecimal(calculatePitchingMetrics(sumPitchingRows([line])).era),
+    ])
+  );
+}
+
+function renderSubstitutions(report: GameReport): string {
+  if (report.substitutions.length === 0) return "<p>選手交代はありません</p>";
+
+  const nameOf = (id: string) =>
+    report.players.find((p) => p.id === id)?.player_name || "-";
+  return `<ul>${report.substitutions
+    .map(
+      (sub) =>
+        `<li>${escapeHtml(sub.inning)}回 ${escapeHtml(
+          sub.description ||
+            `${nameOf(sub.out_player_id)} → ${nameOf(sub.in_player_id)}${
+              sub.new_position ? `（${sub.new_position}）` : ""
+            }`
+        )}</li>`
+    )
+    .join("")}</ul>`;
+}
+
+function renderContributors(report: GameReport): string {
+  const tasks = report.tasks.filter((t) => TASK_LABELS[t.task_type]);
+  if (tasks.length === 0) return "<p>登録されていません</p>";
+
+  return `<ul class="tasks">${tasks
+    .map(
+      (task) =>
+        `<li>${escapeHtml(TASK_LABELS[task.task_type])}: <strong>${escapeHtml(
+          task.person_name
+        )}</strong></li>`
+    )
+    .join("")}</ul>`;
+}
+
+// 試合レポートの HTML（A4 縦で印刷、ブラウザの「PDFに保存」で PDF 化）
+export function renderGameReportHtml(report: GameReport): string {
+  const { game, teamName } = report;
+  const date = new Date(game.game_date).toLocaleDateString("ja-JP", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    weekday: "short",
+  });
+  const meta = [date, game.game_time?.slice(0, 5), game.location]
+    .filter(Boolean)
+    .map(escapeHtml)
+    .join("　");
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(game.name)} 試合レポート</title>
+<style>
+  @page { size: A4 portrait; margin: 12mm; }
+  body { font-family: "Hiragino Sans", "Noto Sans JP", "Yu Gothic", sans-serif; color: #111827; margin: 24px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; border-left: 4px solid #2563eb; padding-left: 8px; margin: 20px 0 8px; }
+  .meta { color: #4b5563; margin: 0 0 12px; }
+  .result { font-size: 18px; font-weight: bold; margin: 8px 0 0; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #9ca3af; padding: 3px 6px; text-align: center; }
+  th { background: #f3f4f6; font-weight: 600; }
+  td .name, td .team { display: block; text-align: left; }
+  ul { margin: 0; padding-left: 20px; }
+  ul.tasks { columns: 2; }
+  .toolbar { margin-bottom: 16px; }
+  .toolbar button { padding: 6px 16px; font-size: 14px; cursor: pointer; }
+  @media print { .toolbar { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<div class="toolbar"><button onclick="window.print()">印刷 / PDFに保存</button></div>
+<h1>${escapeHtml(game.name)}</h1>
+<p class="meta">${meta}</p>
+<p class="result">${escapeHtml(teamName)} ${escapeHtml(
+    game.home_score
+  )} - ${escapeHtml(game.opponent_score)} ${escapeHtml(game.opponent_name)}</p>
+
+<h2>スコア</h2>
+${renderLineScore(report)}
+
+<h2>打撃成績</h2>
+${renderBatting(report)}
+
+<h2>投手成績</h2>
+${renderPitching(report)}
+
+<h2>選手交代</h2>
+${renderSubstitutions(report)}
+
+<h2>この試合を支えてくれた方々</h2>
+${renderContributors(report)}
+</body>
+</html>`;
+}
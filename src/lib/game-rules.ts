@@ -0,0 +1,210 @@
+// 試合ルール（イニング数・コールド・時間制限・DH・再出場など）
+// games.rules / teams.default_rules（jsonb）に保存し、試合進行・スコア入力で参照する
+
+// コールドゲーム（inning 回以降に runDifference 点差で試合終了）
+export interface MercyRule {
+  inning: number;
+  runDifference: number;
+}
+
+export interface GameRules {
+  innings: number; // 規定イニング数
+  maxInnings: number; // 延長を含めた最大イニング数（同点なら引き分け）
+  mercyRules: MercyRule[];
+  timeLimitMinutes: number | null; // 試合開始からの制限時間（経過後は新しいイニングに入らない）
+  designatedHitter: boolean; // 指名打者（打順10番）
+  extraHitters: number; // エキストラヒッター（打順に追加する人数）
+  freeReentry: boolean; // 一度退いた選手の再出場を認める
+  tiebreakStartInning: number | null; // タイブレークを開始するイニング
+  tiebreakBases: number[]; // タイブレークで走者を置く塁
+  pitchCountLimit: number | null; // 投手1人あたりの1試合の球数制限
+  rosterWarningDays: number; // 出席者が打順の人数に満たないとき、試合の何日前から警告するか
+}
+
+export const DEFAULT_GAME_RULES: GameRules = {
+  innings: 7,
+  maxInnings: 9,
+  mercyRules: [],
+  timeLimitMinutes: null,
+  designatedHitter: false,
+  extraHitters: 0,
+  freeReentry: false,
+  tiebreakStartInning: null,
+  tiebreakBases: [1, 2],
+  pitchCountLimit: null,
+  rosterWarningDays: 3,
+};
+
+// タイブレークの走者配置の選択肢
+export const TIEBREAK_BASE_OPTIONS: { label: string; bases: number[] }[] = [
+  { label: "一・二塁", bases: [1, 2] },
+  { label: "満塁", bases: [1, 2, 3] },
+  { label: "二塁のみ", bases: [2] },
+];
+
+// 半イニングの得点（isComplete=false は攻撃中）
+export interface HalfInningScore {
+  inning: number;
+  isTop: boolean;
+  runs: number;
+  isComplete: boolean;
+}
+
+export interface GameEndResult {
+  isOver: boolean;
+  reason: string | null;
+  inning: number | null;
+}
+
+// 保存されたルールを既定値で補完
+export function normalizeGameRules(raw?: Partial<GameRules> | null): GameRules {
+  const rules = { ...DEFAULT_GAME_RULES, ...(raw || {}) };
+  return {
+    ...rules,
+    maxInnings: Math.max(rules.maxInnings, rules.innings),
+    mercyRules: (rules.mercyRules || []).filter(
+      (m) => m.inning > 0 && m.runDifference > 0
+    ),
+    extraHitters: Math.max(0, rules.extraHitters || 0),
+    rosterWarningDays: Math.max(0, Number(rules.rosterWarningDays) || 0),
+    tiebreakBases: (rules.tiebreakBases || [])
+      .filter((base) => base >= 1 && base <= 3)
+      .sort((a, b) => a - b),
+  };
+}
+
+// 試合のルール（未設定ならチームの既定ルール）
+export function resolveGameRules(
+  gameRules?: Partial<GameRules> | null,
+  teamDefaultRules?: Partial<GameRules> | null
+): GameRules {
+  return normalizeGameRules(gameRules || teamDefaultRules);
+}
+
+// 打順の人数
+export function getBattingOrderLength(rules: GameRules): number {
+  return 9 + (rules.designatedHitter ? 1 : 0) + rules.extraHitters;
+}
+
+// 表示するイニング数（延長に入ったイニングまで）
+export function getInningCount(rules: GameRules, lastInning: number): number {
+  return Math.min(rules.maxInnings, Math.max(rules.innings, lastInning));
+}
+
+// タイブレークのイニングか
+export function isTiebreakInning(rules: GameRules, inning: number): boolean {
+  return (
+    rules.tiebreakStartInning !== null && inning >= rules.tiebreakStartInning
+  );
+}
+
+// タイブレークで置く走者（継続打順で先頭打者の直前の打者から一塁・二塁…の順）
+export function getTiebreakRunnerIndexes(
+  bases: number[],
+  leadoffIndex: number,
+  lineupSize: number
+): { base: number; lineupIndex: number }[] {
+  if (lineupSize === 0) return [];
+  return [...bases]
+    .sort((a, b) => a - b)
+    .map((base, i) => ({
+      base,
+      lineupIndex:
+        (((leadoffIndex - 1 - i) % lineupSize) + lineupSize) % lineupSize,
+    }));
+}
+
+// 試合終了の判定（規定回・サヨナラ・コールド・時間切れ・延長上限）
+export function checkGameEnd(
+  rules: GameRules,
+  halves: HalfInningScore[],
+  elapsedMinutes: number | null = null
+): GameEndResult {
+  const sorted = [...halves].sort(
+    (a, b) => a.inning - b.inning || Number(b.isTop) - Number(a.isTop)
+  );
+  let top = 0;
+  let bottom = 0;
+
+  for (const half of sorted) {
+    if (half.isTop) top += half.runs;
+    else bottom += half.runs;
+
+    const mercy = rules.mercyRules.find(
+      (m) => half.inning >= m.inning && Math.abs(top - bottom) >= m.runDifference
+    );
+
+    if (!half.isComplete) {
+      // 後攻の攻撃中にリードした時点で終了（サヨナラ・コールド）
+      if (!half.isTop && bottom > top) {
+        if (half.inning >= rules.innings) {
+          return end(`${half.inning}回裏サヨナラ`, half.inning);
+        }
+        if (mercy) {
+          return end(
+            `${mercy.inning}回以降${mercy.runDifference}点差のコールドゲーム`,
+            half.inning
+          );
+        }
+      }
+      break;
+    }
+
+    if (half.isTop) {
+      // 後攻がリードしていれば裏の攻撃は行わない
+      if (bottom > top && half.inning >= rules.innings) {
+        return end(`${half.inning}回表終了（後攻リード）`, half.inning);
+      }
+      if (bottom > top && mercy) {
+        return end(
+          `${mercy.inning}回以降${mercy.runDifference}点差のコールドゲーム`,
+          half.inning
+        );
+      }
+      continue;
+    }
+
+    if (mercy) {
+      return end(
+        `${mercy.inning}回以降${mercy.runDifference}点差のコールドゲーム`,
+        half.inning
+      );
+    }
+    if (half.inning >= rules.innings && top !== bottom) {
+      return end(`${half.inning}回終了`, half.inning);
+    }
+    if (half.inning >= rules.maxInnings) {
+      return end(`${half.inning}回終了（引き分け）`, half.inning);
+    }
+    if (
+      rules.timeLimitMinutes !== null &&
+      elapsedMinutes !== null &&
+      elapsedMinutes >= rules.timeLimitMinutes
+    ) {
+      return end(
+        `時間切れ（${rules.timeLimitMinutes}分）${
+          top === bottom ? "引き分け" : ""
+        }`,
+        half.inning
+      );
+    }
+  }
+
+  return { isOver: false, reason: null, inning: null };
+}
+
+// 選手交代の検証（問題があればエラーメッセージを返す）
+export function validateSubstitution(
+  rules: GameRules,
+  inPlayerId: string,
+  substitutedOutPlayerIds: string[]
+): string | null {
+  if (!rules.freeReentry && substitutedOutPlayerIds.includes(inPlayerId)) {
+    return "一度交代した選手の再出場は認められていません";
+  }
+  return null;
+}
+
+function end(reason: string, inning: number): GameEndResult {
+  return { isOver: true, reason, inning };
+}
@@ -0,0 +1,357 @@
+// リーダーボード（部門別ランキング）
+// 率の部門は規定打席・規定投球回に達した選手のみを順位の対象にし、未到達の選手は別に並べる
+
+import {
+  BattingCounts,
+  calculateBattingMetrics,
+  calculatePitchingMetrics,
+  formatDecimal,
+  formatRate,
+  PitchingCounts,
+} from "./sabermetrics";
+
+// 規定打席・規定投球回（チームの試合数あたり、teams.stats_qualification）
+export interface QualificationRules {
+  plateAppearancesPerGame: number;
+  inningsPerGame: number;
+}
+
+// NPB の規定（1試合あたり 3.1 打席・1 投球回）を 7 回制に換算した値
+export const DEFAULT_QUALIFICATION_RULES: QualificationRules = {
+  plateAppearancesPerGame: 2.4,
+  inningsPerGame: 0.8,
+};
+
+export function normalizeQualificationRules(
+  raw?: Partial<QualificationRules> | null
+): QualificationRules {
+  const rules = { ...DEFAULT_QUALIFICATION_RULES, ...(raw || {}) };
+  const toRate = (value: unknown, fallback: number) => {
+    const number = Number(value);
+    return Number.isFinite(number) && number >= 0 ? number : fallback;
+  };
+  return {
+    plateAppearancesPerGame: toRate(
+      rules.plateAppearancesPerGame,
+      DEFAULT_QUALIFICATION_RULES.plateAppearancesPerGame
+    ),
+    inningsPerGame: toRate(
+      rules.inningsPerGame,
+      DEFAULT_QUALIFICATION_RULES.inningsPerGame
+    ),
+  };
+}
+
+// 規定打席（端数切り捨て）
+export function requiredPlateAppearances(
+  teamGames: number,
+  rules: QualificationRules
+): number {
+  return Math.floor(teamGames * rules.plateAppearancesPerGame + 1e-9);
+}
+
+// 規定投球回（アウト数、端数切り上げ）
+export function requiredOuts(
+  teamGames: number,
+  rules: QualificationRules
+): number {
+  return Math.ceil(teamGames * rules.inningsPerGame * 3 - 1e-9);
+}
+
+// 規定の基準となるチームの試合数（終了済みの試合と、成績の記録がある試合）
+export function countTeamGamesPlayed(
+  games: { id: string; status?: string | null }[],
+  recordedGameIds: Set<string>
+): number {
+  return games.filter(
+    (g) => g.status === "completed" || recordedGameIds.has(g.id)
+  ).length;
+}
+
+// 部門の対象となる選手の成績
+export interface LeaderCandidate {
+  memberId: string;
+  name: string;
+  batting: BattingCounts | null;
+  rbi: number;
+  pitching: PitchingCounts | null;
+}
+
+export type LeaderCategoryKey =
+  | "battingAverage"
+  | "onBasePercentage"
+  | "ops"
+  | "hits"
+  | "homeRuns"
+  | "rbi"
+  | "stolenBases"
+  | "era"
+  | "whip"
+  | "wins"
+  | "saves"
+  | "strikeouts";
+
+interface LeaderCategory {
+  key: LeaderCategoryKey;
+  label: string;
+  kind: "batting" | "pitching";
+  rate: boolean; // 率の部門（規定到達者のみ順位を付ける）
+  ascending: boolean; // 小さいほど上位
+  value: (candidate: LeaderCandidate) => number | null;
+  format: (value: number) => string;
+}
+
+const battingMetric = (candidate: LeaderCandidate) =>
+  candidate.batting ? calculateBattingMetrics(candidate.batting) : null;
+const pitchingMetric = (candidate: LeaderCandidate) =>
+  candidate.pitching ? calculatePitchingMetrics(candidate.pitching) : null;
+const count = (value: number) => String(value);
+
+export const LEADER_CATEGORIES: LeaderCategory[] = [
+  {
+    key: "battingAverage",
+    label: "打率",
+    kind: "batting",
+    rate: true,
+    ascending: false,
+    value: (c) => battingMetric(c)?.battingAverage ?? null,
+    format: formatRate,
+  },
+  {
+    key: "onBasePercentage",
+    label: "出塁率",
+    kind: "batting",
+    rate: true,
+    ascending: false,
+    value: (c) => battingMetric(c)?.onBasePercentage ?? null,
+    format: formatRate,
+  },
+  {
+    key: "ops",
+    label: "OPS",
+    kind: "batting",
+    rate: true,
+    ascending: false,
+    value: (c) => battingMetric(c)?.ops ?? null,
+    format: formatRate,
+  },
+  {
+    key: "hits",
+    label: "安打",
+    kind: "batting",
+    rate: false,
+    ascending: false,
+    value: (c) => c.batting?.hits ?? null,
+    format: count,
+  },
+  {
+    key: "homeRuns",
+    label: "本塁打",
+    kind: "batting",
+    rate: false,
+    ascending: false,
+    value: (c) => c.batting?.homeRuns ?? null,
+    format: count,
+  },
+  {
+    key: "rbi",
+    label: "打点",
+    kind: "batting",
+    rate: false,
+    ascending: false,
+    value: (c) => (c.batting ? c.rbi : null),
+    format: count,
+  },
+  {
+    key: "stolenBases",
+    label: "盗塁",
+    kind: "batting",
+    rate: false,
+    ascending: false,
+    value: (c) => c.batting?.stolenBases ?? null,
+    format: count,
+  },
+  {
+    key: "era",
+    label: "防御率",
+    kind: "pitching",
+    rate: true,
+    ascending: true,
+    value: (c) => pitchingMetric(c)?.era ?? null,
+    format: (v) => formatDecimal(v),
+  },
+  {
+    key: "whip",
+    label: "WHIP",
+    kind: "pitching",
+    rate: true,
+    ascending: true,
+    value: (c) => pitchingMetric(c)?.whip ?? null,
+    format: (v) => formatDecimal(v),
+  },
+  {
+    key: "wins",
+    label: "勝利",
+    kind: "pitching",
+    rate: false,
+    ascending: false,
+    value: (c) => c.pitching?.wins ?? null,
+    format: count,
+  },
+  {
+    key: "saves",
+    label: "セーブ",
+    kind: "pitching",
+    rate: false,
+    ascending: false,
+    value: (c) => c.pitching?.saves ?? null,
+    format: count,
+  },
+  {
+    key: "strikeouts",
+    label: "奪三振",
+    kind: "pitching",
+    rate: false,
+    ascending: false,
+    value: (c) => c.pitching?.strikeouts ?? null,
+    format: count,
+  },
+];
+
+export interface LeaderboardEntry {
+  memberId: string;
+  name: string;
+  value: number;
+  display: string;
+  rank: number | null; // 同じ値は同順位（規定未到達は null）
+  detail: string; // 打席数・投球回など
+}
+
+export interface Leaderboard {
+  key: LeaderCategoryKey;
+  label: string;
+  kind: "batting" | "pitching";
+  rate: boolean;
+  qualified: LeaderboardEntry[];
+  unqualified: LeaderboardEntry[];
+}
+
+const isSameValue = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+function describeVolume(candidate: LeaderCandidate, kind: string): string {
+  if (kind === "batting" && candidate.batting) {
+    return `${calculateBattingMetrics(candidate.batting).plateAppearances}打席`;
+  }
+  if (kind === "pitching" && candidate.pitching) {
+    const outs = candidate.pitching.outs;
+    return `${Math.floor(outs / 3)}回${outs % 3 ? `${outs % 3}/3` : ""}`;
+  }
+  return "";
+}
+
+export function buildLeaderboard(
+  candidates: LeaderCandidate[],
+  category: LeaderCategory,
+  thresholds: { plateAppearances: number; outs: number }
+): Leaderboard {
+  const isQualified = (candidate: LeaderCandidate) => {
+    if (!category.rate) return true;
+    if (category.kind === "batting") {
+      return (
+        !!candidate.batting &&
+        calculateBattingMetrics(candidate.batting).plateAppearances >=
+          thresholds.plateAppearances
+      );
+    }
+    return !!candidate.pitching && candidate.pitching.outs >= thresholds.outs;
+  };
+
+  const entries = candidates
+    .map((candidate) => ({ candidate, value: category.value(candidate) }))
+    // 積み上げの部門は 0 の選手を除く
+    .filter(
+      (e): e is { candidate: LeaderCandidate; value: number } =>
+        e.value !== null && (category.rate || e.value > 0)
+    )
+    .sort((a, b) =>
+      category.ascending ? a.value - b.value : b.value - a.value
+    );
+
+  const toEntry = (
+    e: { candidate: LeaderCandidate; value: number },
+    rank: number | null
+  ): LeaderboardEntry => ({
+    memberId: e.candidate.memberId,
+    name: e.candidate.name,
+    value: e.value,
+    display: category.format(e.value),
+    rank,
+    detail: describeVolume(e.candidate, category.kind),
+  });
+
+  const qualified: LeaderboardEntry[] = [];
+  for (const e of entries.filter((e) => isQualified(e.candidate))) {
+    const previous = qualified[qualified.length - 1];
+    const rank =
+      previous && isSameValue(previous.value, e.value)
+        ? previous.rank
+        : qualified.length + 1;
+    qualified.push(toEntry(e, rank));
+  }
+
+  return {
+    key: category.key,
+    label: category.label,
+    kind: category.kind,
+    rate: category.rate,
+    qualified,
+    unqualified: entries
+      .filter((e) => !isQualified(e.candidate))
+      .map((e) => toEntry(e, null)),
+  };
+}
+
+export function buildLeaderboards(
+  candidates: LeaderCandidate[],
+  teamGames: number,
+  rules: QualificationRules
+): Leaderboard[] {
+  const thresholds = {
+    plateAppearances: requiredPlateAppearances(teamGames, rules),
+    outs: requiredOuts(teamGames, rules),
+  };
+  return LEADER_CATEGORIES.map((category) =>
+    buildLeaderboard(candidates, category, thresholds)
+  );
+}
+
+// シーズン（または年度）ごとの各部門1位（同率は全員）
+export interface SeasonLeaders {
+  label: string;
+  teamGames: number;
+  leaders: Partial<Record<LeaderCategoryKey, LeaderboardEntry[]>>;
+}
+
+export function buildSeasonLeaders(
+  seasons: {
+    label: string;
+    teamGames: number;
+    candidates: LeaderCandidate[];
+  }[],
+  rules: QualificationRules
+): SeasonLeaders[] {
+  return seasons
+    .filter((season) => season.teamGames > 0)
+    .map((season) => {
+      const leaders: SeasonLeaders["leaders"] = {};
+      for (const board of buildLeaderboards(
+        season.candidates,
+        season.teamGames,
+        rules
+      )) {
+        const top = board.qualified.filter((e) => e.rank === 1);
+        if (top.length > 0) leaders[board.key] = top;
+      }
+      return { label: season.label, teamGames: season.teamGames, leaders };
+    });
+}
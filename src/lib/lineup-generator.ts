@@ -0,0 +1,436 @@
+// 打順・守備位置の提案（出席者・守備位置の希望・直近の打撃成績から）
+// 提案は理由つきで表示し、メンバー管理画面で編集してから game_players に保存する
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  BattingCounts,
+  BattingStatsRow,
+  calculateBattingMetrics,
+  formatRate,
+  sumBattingStatsRows,
+} from "./sabermetrics";
+
+// 守備位置（teams.member_positions に保存する値）
+export const FIELDING_POSITIONS = [
+  "投手",
+  "捕手",
+  "一塁手",
+  "二塁手",
+  "三塁手",
+  "遊撃手",
+  "左翼手",
+  "中堅手",
+  "右翼手",
+];
+
+// 直近の成績として集計する試合数
+export const RECENT_GAME_COUNT = 10;
+
+// 打率などを打順の根拠にする最低打席数（未満は打順の下位に回す）
+export const MIN_PLATE_APPEARANCES = 5;
+
+// メンバーごとの守れる位置（先頭ほど希望が強く、先頭が第1希望）
+export type MemberPositions = Record<string, string[]>;
+
+export interface LineupCandidate {
+  memberId: string; // 助っ人など直接入力の選手は画面側で付けた仮のID
+  name: string;
+  positions: string[]; // 空なら未登録（どこでも守る）
+  batting: BattingCounts | null; // 直近の打撃成績
+  lateArrival: boolean; // 遅刻（到着まで控え）
+}
+
+export interface LineupOptions {
+  starterOrders: number[]; // スタメンの打順（DH は10番、エキストラヒッターは11番以降）
+  innings: number; // 規定イニング数
+  minInnings: number; // 全員が最低限出場するイニング数（0 なら交代を計画しない）
+}
+
+export interface SuggestedStarter {
+  battingOrder: number;
+  memberId: string;
+  name: string;
+  position: string;
+  reasons: string[];
+}
+
+export interface SuggestedBench {
+  memberId: string;
+  name: string;
+  reasons: string[];
+}
+
+// 途中出場の計画（inning 回の守備から交代）
+export interface PlannedSubstitution {
+  inning: number;
+  inMemberId: string;
+  inName: string;
+  outMemberId: string;
+  outName: string;
+  position: string;
+}
+
+export interface LineupSuggestion {
+  starters: SuggestedStarter[];
+  bench: SuggestedBench[];
+  substitutions: PlannedSubstitution[];
+  warnings: string[];
+}
+
+// 保存された守備位置を検証（不明な位置と重複を除く）
+export function normalizeMemberPositions(raw?: unknown): MemberPositions {
+  const result: MemberPositions = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return result;
+  Object.entries(raw as Record<string, unknown>).forEach(
+    ([memberId, positions]) => {
+      if (!Array.isArray(positions)) return;
+      const valid = positions.filter(
+        (position, index) =>
+          FIELDING_POSITIONS.includes(position) &&
+          positions.indexOf(position) === index
+      );
+      if (valid.length > 0) result[memberId] = valid;
+    }
+  );
+  return result;
+}
+
+interface RankedCandidate extends LineupCandidate {
+  obp: number | null;
+  slg: number | null;
+  ops: number | null;
+  plateAppearances: number;
+}
+
+function rankCandidate(candidate: LineupCandidate): RankedCandidate {
+  const metrics = candidate.batting
+    ? calculateBattingMetrics(candidate.batting)
+    : null;
+  const qualified =
+    !!metrics && metrics.plateAppearances >= MIN_PLATE_APPEARANCES;
+  return {
+    ...candidate,
+    obp: qualified ? metrics.onBasePercentage : null,
+    slg: qualified ? metrics.sluggingPercentage : null,
+    ops: qualified ? metrics.ops : null,
+    plateAppearances: metrics?.plateAppearances || 0,
+  };
+}
+
+// 並べ替え用（成績がない選手は最後）
+const score = (value: number | null) => (value === null ? -1 : value);
+
+// 守備位置の希望順（未登録はどこでも守れるが希望順は最後）
+function preferenceIndex(candidate: LineupCandidate, position: string) {
+  if (candidate.positions.length === 0) return FIELDING_POSITIONS.length;
+  const index = candidate.positions.indexOf(position);
+  return index === -1 ? null : index;
+}
+
+function describePreference(index: number): string {
+  return index === FIELDING_POSITIONS.length
+    ? "守備位置が未登録のため空いている位置"
+    : `第${index + 1}希望の守備位置`;
+}
+
+// 守備位置の割り当て（守れる選手が少ない位置から順に、希望順・守れる位置の少なさ・打撃の順で選ぶ）
+function assignFieldingPositions(
+  candidates: RankedCandidate[],
+  warnings: string[]
+): Map<string, { position: string; reason: string }> {
+  const assigned = new Map<string, { position: string; reason: string }>();
+  const eligibleCount = (position: string) =>
+    candidates.filter((c) => preferenceIndex(c, position) !== null).length;
+  const positions = [...FIELDING_POSITIONS].sort(
+    (a, b) => eligibleCount(a) - eligibleCount(b)
+  );
+
+  for (const position of positions) {
+    const remaining = candidates.filter((c) => !assigned.has(c.memberId));
+    if (remaining.length === 0) break;
+
+    const eligible = remaining
+      .filter((c) => preferenceIndex(c, position) !== null)
+      .sort(
+        (a, b) =>
+          preferenceIndex(a, position)! - preferenceIndex(b, position)! ||
+          a.positions.length - b.positions.length ||
+          score(b.ops) - score(a.ops)
+      );
+
+    if (eligible.length > 0) {
+      assigned.set(eligible[0].memberId, {
+        position,
+        reason: describePreference(preferenceIndex(eligible[0], position)!),
+      });
+      continue;
+    }
+
+    // 守れる選手が残っていない場合は、守れる位置の少ない選手を回す
+    const fallback = [...remaining].sort(
+      (a, b) => a.positions.length - b.positions.length
+    )[0];
+    assigned.set(fallback.memberId, {
+      position,
+      reason: "守れる選手がいないため割り当て",
+    });
+    warnings.push(
+      `${position}を守れる選手がいないため、${fallback.name}さんを割り当てました`
+    );
+  }
+  return assigned;
+}
+
+// 打順（1・2番は出塁率、3番は OPS、4・5番は長打率、以降は OPS の順）
+const BATTING_ROLES: {
+  label: string;
+  metric: "obp" | "slg" | "ops";
+  metricLabel: string;
+}[] = [
+  { label: "出塁重視", metric: "obp", metricLabel: "出塁率" },
+  { label: "出塁重視", metric: "obp", metricLabel: "出塁率" },
+  { label: "総合力", metric: "ops", metricLabel: "OPS" },
+  { label: "長打力", metric: "slg", metricLabel: "長打率" },
+  { label: "長打力", metric: "slg", metricLabel: "長打率" },
+];
+
+function orderBatters(
+  batters: RankedCandidate[]
+): { candidate: RankedCandidate; reason: string }[] {
+  const qualified = batters.filter((b) => b.ops !== null);
+  const unqualified = batters.filter((b) => b.ops === null);
+  const ordered: { candidate: RankedCandidate; reason: string }[] = [];
+
+  BATTING_ROLES.forEach((role, index) => {
+    const pool = qualified.filter(
+      (b) => !ordered.some((o) => o.candidate.memberId === b.memberId)
+    );
+    if (pool.length === 0) return;
+    const best = pool.sort(
+      (a, b) => score(b[role.metric]) - score(a[role.metric])
+    )[0];
+    ordered.push({
+      candidate: best,
+      reason: `${index + 1}番（${role.label}）: ${
+        role.metricLabel
+      } ${formatRate(best[role.metric])}`,
+    });
+  });
+
+  qualified
+    .filter((b) => !ordered.some((o) => o.candidate.memberId === b.memberId))
+    .sort((a, b) => score(b.ops) - score(a.ops))
+    .forEach((candidate) =>
+      ordered.push({
+        candidate,
+        reason: `OPS ${formatRate(candidate.ops)} の順`,
+      })
+    );
+
+  unqualified.forEach((candidate) =>
+    ordered.push({
+      candidate,
+      reason: `直近の打席が${MIN_PLATE_APPEARANCES}打席未満のため下位（${candidate.plateAppearances}打席）`,
+    })
+  );
+  return ordered;
+}
+
+// 控えの途中出場（全員が minInnings 回以上出場できるよう、後半の守備から交代する）
+function planSubstitutions(
+  starters: SuggestedStarter[],
+  bench: RankedCandidate[],
+  ranked: Map<string, RankedCandidate>,
+  options: LineupOptions,
+  warnings: string[]
+): PlannedSubstitution[] {
+  const { innings, minInnings } = options;
+  if (minInnings <= 0 || bench.length === 0) return [];
+
+  // 交代するイニング k: 先発は k-1 回、控えは innings-k+1 回出場する
+  const earliest = minInnings + 1;
+  const latest = innings - minInnings + 1;
+  if (earliest > latest) {
+    warnings.push(
+      `${innings}回の試合では、全員が${minInnings}イニング以上出場する交代を計画できません`
+    );
+    return [];
+  }
+  const inning = Math.min(
+    Math.max(Math.floor(innings / 2) + 1, earliest),
+    latest
+  );
+
+  const substitutions: PlannedSubstitution[] = [];
+  const replaced = new Set<string>();
+
+  for (const player of bench) {
+    // 投手は交代させず、打撃の低い選手から交代する
+    const outCandidates = starters
+      .filter((s) => s.position !== "投手" && !replaced.has(s.memberId))
+      .sort(
+        (a, b) =>
+          score(ranked.get(a.memberId)?.ops ?? null) -
+          score(ranked.get(b.memberId)?.ops ?? null)
+      );
+    if (outCandidates.length === 0) {
+      warnings.push(
+        `控えが多いため、${player.name}さんが${minInnings}イニング以上出場する交代を計画できません`
+      );
+      continue;
+    }
+
+    const out =
+      outCandidates.find(
+        (s) =>
+          !FIELDING_POSITIONS.includes(s.position) ||
+          preferenceIndex(player, s.position) !== null
+      ) || outCandidates[0];
+    if (
+      FIELDING_POSITIONS.includes(out.position) &&
+      preferenceIndex(player, out.position) === null
+    ) {
+      warnings.push(
+        `${player.name}さんが守れる位置の交代がないため、${out.position}で計画しました`
+      );
+    }
+
+    replaced.add(out.memberId);
+    substitutions.push({
+      inning,
+      inMemberId: player.memberId,
+      inName: player.name,
+      outMemberId: out.memberId,
+      outName: out.name,
+      position: out.position,
+    });
+  }
+  return substitutions;
+}
+
+export function suggestLineup(
+  candidates: LineupCandidate[],
+  options: LineupOptions
+): LineupSuggestion {
+  const warnings: string[] = [];
+  const ranked = candidates.map(rankCandidate);
+  const rankedMap = new Map(ranked.map((c) => [c.memberId, c]));
+  const available = ranked.filter((c) => !c.lateArrival);
+  const slotCount = options.starterOrders.length;
+
+  if (available.length < slotCount) {
+    warnings.push(
+      `スタメンに${slotCount}人必要ですが、試合開始から出られるのは${available.length}人です`
+    );
+  }
+
+  // 守備位置 → 残りの打撃の良い選手を DH・エキストラヒッターに
+  const fielding = assignFieldingPositions(available, warnings);
+  const hitters = available
+    .filter((c) => !fielding.has(c.memberId))
+    .sort((a, b) => score(b.ops) - score(a.ops))
+    .slice(0, Math.max(0, slotCount - fielding.size));
+  const hitterPositions = options.starterOrders
+    .filter((order) => order >= 10)
+    .map((order) => (order === 10 ? "指名打者" : "エキストラヒッター"));
+
+  const lineup = new Map<string, { position: string; reason: string }>(
+    fielding
+  );
+  hitters.forEach((hitter, index) =>
+    lineup.set(hitter.memberId, {
+      position: hitterPositions[index] || "",
+      reason:
+        hitter.ops !== null
+          ? `打撃に専念（OPS ${formatRate(hitter.ops)}）`
+          : "打撃に専念",
+    })
+  );
+
+  const starters: SuggestedStarter[] = orderBatters(
+    available.filter((c) => lineup.has(c.memberId))
+  ).map(({ candidate, reason }, index) => ({
+    battingOrder: options.starterOrders[index],
+    memberId: candidate.memberId,
+    name: candidate.name,
+    position: lineup.get(candidate.memberId)!.position,
+    reasons: [lineup.get(candidate.memberId)!.reason, reason],
+  }));
+
+  const benchPlayers = ranked.filter((c) => !lineup.has(c.memberId));
+  const bench: SuggestedBench[] = benchPlayers.map((c) => ({
+    memberId: c.memberId,
+    name: c.name,
+    reasons: [
+      c.lateArrival
+        ? "遅刻のため到着まで控え"
+        : "スタメンの人数を超えたため控え",
+    ],
+  }));
+
+  const substitutions = planSubstitutions(
+    starters,
+    benchPlayers,
+    rankedMap,
+    options,
+    warnings
+  );
+  return { starters, bench, substitutions, warnings };
+}
+
+// 直近の完了した試合（RECENT_GAME_COUNT 試合）の打撃成績をメンバーごとに集計
+export async function fetchRecentBatting(
+  supabase: SupabaseClient,
+  teamId: string,
+  memberIds: string[]
+): Promise<Map<string, BattingCounts>> {
+  const result = new Map<string, BattingCounts>();
+  if (memberIds.length === 0) return result;
+
+  const { data: games, error: gamesError } = await supabase
+    .from("games")
+    .select("id")
+    .eq("home_team_id", teamId)
+    .eq("status", "completed")
+    .order("game_date", { ascending: false })
+    .limit(RECENT_GAME_COUNT);
+
+  if (gamesError) throw gamesError;
+  if (!games || games.length === 0) return result;
+
+  const { data: players, error: playersError } = await supabase
+    .from("game_players")
+    .select("id, team_member_id")
+    .in(
+      "game_id",
+      games.map((g) => g.id)
+    )
+    .in("team_member_id", memberIds);
+
+  if (playersError) throw playersError;
+  if (!players || players.length === 0) return result;
+
+  const { data: rows, error: rowsError } = await supabase
+    .from("player_batting_stats")
+    .select("*")
+    .in(
+      "player_id",
+      players.map((p) => p.id)
+    );
+
+  if (rowsError) throw rowsError;
+
+  const memberByPlayer = new Map(
+    players.map((p) => [p.id, p.team_member_id as string])
+  );
+  const rowsByMember = new Map<string, BattingStatsRow[]>();
+  (rows || []).forEach((row) => {
+    const memberId = memberByPlayer.get(row.player_id);
+    if (!memberId) return;
+    rowsByMember.set(memberId, [...(rowsByMember.get(memberId) || []), row]);
+  });
+  rowsByMember.forEach((memberRows, memberId) =>
+    result.set(memberId, sumBattingStatsRows(memberRows))
+  );
+  return result;
+}
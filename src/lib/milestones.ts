@@ -0,0 +1,583 @@
+// 記録・達成（マイルストーン）
+// 試合終了時に、その試合での初安打・通算記録・サイクルヒット・ノーヒッター・連続試合安打・チーム記録などを判定して achievements に保存する
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  addBattingCounts,
+  BattingCounts,
+  countBattingResults,
+  EMPTY_BATTING_COUNTS,
+} from "./sabermetrics";
+import { inningsToOuts } from "./pitching-decisions";
+
+export type AchievementType =
+  | "first_hit"
+  | "first_home_run"
+  | "first_win"
+  | "first_save"
+  | "career_hits"
+  | "career_home_runs"
+  | "career_wins"
+  | "career_strikeouts"
+  | "cycle"
+  | "multi_hit"
+  | "multi_home_run"
+  | "no_hitter"
+  | "double_digit_strikeouts"
+  | "hitting_streak"
+  | "team_record_hits"
+  | "team_record_home_runs"
+  | "team_record_rbi"
+  | "team_record_strikeouts";
+
+// 通算記録の節目
+export const CAREER_MILESTONES = {
+  hits: [10, 50, 100, 150, 200, 300, 500],
+  homeRuns: [10, 20, 30, 50, 100],
+  wins: [10, 20, 30, 50, 100],
+  strikeouts: [50, 100, 200, 300, 500],
+};
+
+// 連続試合安打の節目
+export const HITTING_STREAK_MILESTONES = [5, 10, 15, 20, 25, 30];
+
+// チーム記録（1試合）として扱う最低値
+const TEAM_RECORD_MINIMUMS = {
+  hits: 3,
+  homeRuns: 2,
+  rbi: 4,
+  strikeouts: 7,
+};
+
+// ノーヒッターとして扱う最低限のアウト数（3回以上を1人で投げ切った試合）
+const NO_HITTER_MINIMUM_OUTS = 9;
+
+export interface MilestonePitchingLine {
+  outs: number;
+  hitsAllowed: number;
+  runsAllowed: number;
+  strikeouts: number;
+  win: boolean;
+  save: boolean;
+  soloPitcher: boolean; // 自チームの投手がこの選手1人だけだった試合
+}
+
+// メンバーの1試合分の記録
+export interface MilestoneGameLine {
+  gameId: string;
+  results: string[]; // 打撃結果（game_batting_records.result）
+  rbi: number;
+  pitching: MilestonePitchingLine | null;
+}
+
+export interface MemberHistory {
+  teamMemberId: string;
+  playerName: string;
+  games: MilestoneGameLine[]; // 古い試合から順
+}
+
+export interface DetectedAchievement {
+  teamMemberId: string;
+  playerName: string;
+  type: AchievementType;
+  value: number;
+  label: string;
+}
+
+export function describeAchievement(
+  type: AchievementType,
+  value: number
+): string {
+  switch (type) {
+    case "first_hit":
+      return "初安打";
+    case "first_home_run":
+      return "初本塁打";
+    case "first_win":
+      return "初勝利";
+    case "first_save":
+      return "初セーブ";
+    case "career_hits":
+      return `通算${value}安打`;
+    case "career_home_runs":
+      return `通算${value}本塁打`;
+    case "career_wins":
+      return `通算${value}勝`;
+    case "career_strikeouts":
+      return `通算${value}奪三振`;
+    case "cycle":
+      return "サイクルヒット";
+    case "multi_hit":
+      return `猛打賞（${value}安打）`;
+    case "multi_home_run":
+      return `1試合${value}本塁打`;
+    case "no_hitter":
+      return value === 0 ? "ノーヒットノーラン" : "ノーヒッター";
+    case "double_digit_strikeouts":
+      return `1試合${value}奪三振`;
+    case "hitting_streak":
+      return `${value}試合連続安打`;
+    case "team_record_hits":
+      return `チーム記録 1試合${value}安打`;
+    case "team_record_home_runs":
+      return `チーム記録 1試合${value}本塁打`;
+    case "team_record_rbi":
+      return `チーム記録 1試合${value}打点`;
+    case "team_record_strikeouts":
+      return `チーム記録 1試合${value}奪三振`;
+  }
+}
+
+export function isTeamRecord(type: string): boolean {
+  return type.startsWith("team_record_");
+}
+
+interface PitchingTotals {
+  wins: number;
+  saves: number;
+  strikeouts: number;
+}
+
+function sumLines(lines: MilestoneGameLine[]): {
+  batting: BattingCounts;
+  pitching: PitchingTotals;
+} {
+  return lines.reduce(
+    (totals, line) => ({
+      batting: addBattingCounts(
+        totals.batting,
+        countBattingResults(line.results.map((result) => ({ result })))
+      ),
+      pitching: {
+        wins: totals.pitching.wins + (line.pitching?.win ? 1 : 0),
+        saves: totals.pitching.saves + (line.pitching?.save ? 1 : 0),
+        strikeouts:
+          totals.pitching.strikeouts + (line.pitching?.strikeouts || 0),
+      },
+    }),
+    {
+      batting: { ...EMPTY_BATTING_COUNTS },
+      pitching: { wins: 0, saves: 0, strikeouts: 0 },
+    }
+  );
+}
+
+// before < 節目 <= after となった節目
+function crossedMilestones(
+  milestones: number[],
+  before: number,
+  after: number
+): number[] {
+  return milestones.filter((m) => before < m && m <= after);
+}
+
+// 連続試合安打（打数のない試合は継続扱い）
+export function calculateHittingStreak(lines: MilestoneGameLine[]): number {
+  let streak = 0;
+  for (const line of lines) {
+    if (line.results.length === 0) continue;
+    const counts = countBattingResults(
+      line.results.map((result) => ({ result }))
+    );
+    if (counts.hits > 0) {
+      streak++;
+    } else if (counts.atBats > 0) {
+      streak = 0;
+    }
+  }
+  return streak;
+}
+
+function detectMemberAchievements(
+  member: MemberHistory,
+  gameId: string
+): Omit<DetectedAchievement, "teamMemberId" | "playerName">[] {
+  const index = member.games.findIndex((g) => g.gameId === gameId);
+  if (index < 0) return [];
+
+  const current = member.games[index];
+  const before = sumLines(member.games.slice(0, index));
+  const after = sumLines(member.games.slice(0, index + 1));
+  const game = countBattingResults(
+    current.results.map((result) => ({ result }))
+  );
+  const found: { type: AchievementType; value: number }[] = [];
+
+  // 打撃: 初記録・通算記録
+  if (before.batting.hits === 0 && after.batting.hits > 0) {
+    found.push({ type: "first_hit", value: 1 });
+  }
+  if (before.batting.homeRuns === 0 && after.batting.homeRuns > 0) {
+    found.push({ type: "first_home_run", value: 1 });
+  }
+  for (const value of crossedMilestones(
+    CAREER_MILESTONES.hits,
+    before.batting.hits,
+    after.batting.hits
+  )) {
+    found.push({ type: "career_hits", value });
+  }
+  for (const value of crossedMilestones(
+    CAREER_MILESTONES.homeRuns,
+    before.batting.homeRuns,
+    after.batting.homeRuns
+  )) {
+    found.push({ type: "career_home_runs", value });
+  }
+
+  // 打撃: 1試合の記録
+  const singles = game.hits - game.doubles - game.triples - game.homeRuns;
+  if (
+    singles > 0 &&
+    game.doubles > 0 &&
+    game.triples > 0 &&
+    game.homeRuns > 0
+  ) {
+    found.push({ type: "cycle", value: game.hits });
+  }
+  if (game.hits >= 3) {
+    found.push({ type: "multi_hit", value: game.hits });
+  }
+  if (game.homeRuns >= 2) {
+    found.push({ type: "multi_home_run", value: game.homeRuns });
+  }
+  if (game.hits > 0) {
+    const streak = calculateHittingStreak(member.games.slice(0, index + 1));
+    if (HITTING_STREAK_MILESTONES.includes(streak)) {
+      found.push({ type: "hitting_streak", value: streak });
+    }
+  }
+
+  // 投手
+  const pitching = current.pitching;
+  if (before.pitching.wins === 0 && after.pitching.wins > 0) {
+    found.push({ type: "first_win", value: 1 });
+  }
+  if (before.pitching.saves === 0 && after.pitching.saves > 0) {
+    found.push({ type: "first_save", value: 1 });
+  }
+  for (const value of crossedMilestones(
+    CAREER_MILESTONES.wins,
+    before.pitching.wins,
+    after.pitching.wins
+  )) {
+    found.push({ type: "career_wins", value });
+  }
+  for (const value of crossedMilestones(
+    CAREER_MILESTONES.strikeouts,
+    before.pitching.strikeouts,
+    after.pitching.strikeouts
+  )) {
+    found.push({ type: "career_strikeouts", value });
+  }
+  if (
+    pitching?.soloPitcher &&
+    pitching.hitsAllowed === 0 &&
+    pitching.outs >= NO_HITTER_MINIMUM_OUTS
+  ) {
+    // 値は失点（0 ならノーヒットノーラン）
+    found.push({ type: "no_hitter", value: pitching.runsAllowed });
+  }
+  if (pitching && pitching.strikeouts >= 10) {
+    found.push({
+      type: "double_digit_strikeouts",
+      value: pitching.strikeouts,
+    });
+  }
+
+  return found.map((a) => ({
+    ...a,
+    label: describeAchievement(a.type, a.value),
+  }));
+}
+
+// チーム記録（1試合）: それまでのチームの最高を更新した選手
+function detectTeamRecords(
+  gameIds: string[],
+  members: MemberHistory[],
+  gameId: string
+): DetectedAchievement[] {
+  const order = new Map(gameIds.map((id, i) => [id, i]));
+  const targetOrder = order.get(gameId);
+  if (targetOrder === undefined) return [];
+
+  const metrics: {
+    type: AchievementType;
+    minimum: number;
+    value: (line: MilestoneGameLine) => number;
+  }[] = [
+    {
+      type: "team_record_hits",
+      minimum: TEAM_RECORD_MINIMUMS.hits,
+      value: (line) =>
+        countBattingResults(line.results.map((result) => ({ result }))).hits,
+    },
+    {
+      type: "team_record_home_runs",
+      minimum: TEAM_RECORD_MINIMUMS.homeRuns,
+      value: (line) =>
+        countBattingResults(line.results.map((result) => ({ result })))
+          .homeRuns,
+    },
+    {
+      type: "team_record_rbi",
+      minimum: TEAM_RECORD_MINIMUMS.rbi,
+      value: (line) => line.rbi,
+    },
+    {
+      type: "team_record_strikeouts",
+      minimum: TEAM_RECORD_MINIMUMS.strikeouts,
+      value: (line) => line.pitching?.strikeouts || 0,
+    },
+  ];
+
+  const achievements: DetectedAchievement[] = [];
+  for (const metric of metrics) {
+    let previousBest = 0;
+    const candidates: { member: MemberHistory; value: number }[] = [];
+
+    for (const member of members) {
+      for (const line of member.games) {
+        const lineOrder = order.get(line.gameId);
+        if (lineOrder === undefined || lineOrder > targetOrder) continue;
+        const value = metric.value(line);
+        if (lineOrder < targetOrder) {
+          previousBest = Math.max(previousBest, value);
+        } else {
+          candidates.push({ member, value });
+        }
+      }
+    }
+
+    for (const { member, value } of candidates) {
+      if (value >= metric.minimum && value > previousBest) {
+        achievements.push({
+          teamMemberId: member.teamMemberId,
+          playerName: member.playerName,
+          type: metric.type,
+          value,
+          label: describeAchievement(metric.type, value),
+        });
+      }
+    }
+  }
+  return achievements;
+}
+
+// 試合で達成した記録をすべて判定（gameIds はチームの試合を古い順に並べたもの）
+export function detectGameAchievements(
+  gameIds: string[],
+  members: MemberHistory[],
+  gameId: string
+): DetectedAchievement[] {
+  const personal = members.flatMap((member) =>
+    detectMemberAchievements(member, gameId).map((a) => ({
+      ...a,
+      teamMemberId: member.teamMemberId,
+      playerName: member.playerName,
+    }))
+  );
+  return [...personal, ...detectTeamRecords(gameIds, members, gameId)];
+}
+
+// 試合ごとの記録からメンバーの履歴を作る（メンバー以外の出場選手は対象外）
+export function buildMemberHistories(
+  gameIds: string[],
+  players: {
+    id: string;
+    game_id: string;
+    team_member_id: string | null;
+    player_name: string | null;
+  }[],
+  battingRecords: {
+    game_id: string;
+    player_id: string;
+    result: string;
+    rbi: number | null;
+  }[],
+  pitchingRecords: {
+    game_id: string;
+    player_id: string;
+    innings_pitched: number | null;
+    hits_allowed: number | null;
+    runs_allowed: number | null;
+    strikeouts: number | null;
+    win: boolean | null;
+    save: boolean | null;
+  }[]
+): MemberHistory[] {
+  const playerMembers = new Map(
+    players
+      .filter((p) => p.team_member_id)
+      .map((p) => [p.id, p.team_member_id as string])
+  );
+  const pitchersPerGame = new Map<string, number>();
+  for (const record of pitchingRecords) {
+    if ((record.innings_pitched || 0) > 0) {
+      pitchersPerGame.set(
+        record.game_id,
+        (pitchersPerGame.get(record.game_id) || 0) + 1
+      );
+    }
+  }
+
+  const histories = new Map<string, MemberHistory>();
+  const lines = new Map<string, MilestoneGameLine>();
+  const getLine = (memberId: string, gameId: string) => {
+    const key = `${memberId}:${gameId}`;
+    let line = lines.get(key);
+    if (!line) {
+      line = { gameId, results: [], rbi: 0, pitching: null };
+      lines.set(key, line);
+    }
+    return line;
+  };
+
+  // 表示名は最新の試合の登録名
+  const order = new Map(gameIds.map((id, i) => [id, i]));
+  const sortedPlayers = [...players].sort(
+    (a, b) => (order.get(a.game_id) ?? -1) - (order.get(b.game_id) ?? -1)
+  );
+  for (const player of sortedPlayers) {
+    if (!player.team_member_id) continue;
+    histories.set(player.team_member_id, {
+      teamMemberId: player.team_member_id,
+      playerName:
+        player.player_name ||
+        histories.get(player.team_member_id)?.playerName ||
+        "名前未設定",
+      games: [],
+    });
+  }
+
+  for (const record of battingRecords) {
+    const memberId = playerMembers.get(record.player_id);
+    if (!memberId) continue;
+    const line = getLine(memberId, record.game_id);
+    line.results.push(record.result);
+    line.rbi += record.rbi || 0;
+  }
+
+  for (const record of pitchingRecords) {
+    const memberId = playerMembers.get(record.player_id);
+    if (!memberId) continue;
+    const line = getLine(memberId, record.game_id);
+    const previous = line.pitching;
+    line.pitching = {
+      outs: (previous?.outs || 0) + inningsToOuts(record.innings_pitched || 0),
+      hitsAllowed: (previous?.hitsAllowed || 0) + (record.hits_allowed || 0),
+      runsAllowed: (previous?.runsAllowed || 0) + (record.runs_allowed || 0),
+      strikeouts: (previous?.strikeouts || 0) + (record.strikeouts || 0),
+      win: !!previous?.win || !!record.win,
+      save: !!previous?.save || !!record.save,
+      soloPitcher: (pitchersPerGame.get(record.game_id) || 0) === 1,
+    };
+  }
+
+  for (const gameId of gameIds) {
+    for (const [memberId, history] of histories) {
+      const line = lines.get(`${memberId}:${gameId}`);
+      if (line) history.games.push(line);
+    }
+  }
+
+  return Array.from(histories.values()).filter((h) => h.games.length > 0);
+}
+
+// 試合終了時に記録を判定して保存（再判定すると、その試合の記録を置き換える）
+// 判定に失敗しても試合の保存は続けられるよう、エラーはログに残して空の配列を返す
+export async function recordGameAchievements(
+  supabase: SupabaseClient,
+  gameId: string
+): Promise<DetectedAchievement[]> {
+  try {
+    const { data: game, error: gameError } = await supabase
+      .from("games")
+      .select("id, game_date, game_time, home_team_id, status")
+      .eq("id", gameId)
+      .single();
+    if (gameError) throw gameError;
+    if (!game?.home_team_id || game.status !== "completed") return [];
+
+    // この試合までのチームの終了済み試合（古い順）
+    const { data: teamGames, error: gamesError } = await supabase
+      .from("games")
+      .select("id, game_date, game_time")
+      .eq("home_team_id", game.home_team_id)
+      .eq("status", "completed")
+      .lte("game_date", game.game_date)
+      .order("game_date", { ascending: true })
+      .order("game_time", { ascending: true, nullsFirst: true });
+    if (gamesError) throw gamesError;
+
+    const gameIds = (teamGames || [])
+      .filter(
+        (g) =>
+          g.id === gameId ||
+          g.game_date < game.game_date ||
+          (g.game_time || "") < (game.game_time || "")
+      )
+      .map((g) => g.id);
+
+    const [
+      { data: players, error: playersError },
+      { data: battingRecords, error: battingError },
+      { data: pitchingRecords, error: pitchingError },
+    ] = await Promise.all([
+      supabase
+        .from("game_players")
+        .select("id, game_id, team_member_id, player_name")
+        .in("game_id", gameIds),
+      supabase
+        .from("game_batting_records")
+        .select("game_id, player_id, result, rbi")
+        .in("game_id", gameIds),
+      supabase
+        .from("game_pitching_records")
+        .select(
+          "game_id, player_id, innings_pitched, hits_allowed, runs_allowed, strikeouts, win, save"
+        )
+        .in("game_id", gameIds),
+    ]);
+    if (playersError) throw playersError;
+    if (battingError) throw battingError;
+    if (pitchingError) throw pitchingError;
+
+    const histories = buildMemberHistories(
+      gameIds,
+      players || [],
+      battingRecords || [],
+      pitchingRecords || []
+    );
+    const achievements = detectGameAchievements(gameIds, histories, gameId);
+
+    const { error: deleteError } = await supabase
+      .from("achievements")
+      .delete()
+      .eq("game_id", gameId);
+    if (deleteError) throw deleteError;
+
+    if (achievements.length > 0) {
+      const { error: insertError } = await supabase
+        .from("achievements")
+        .insert(
+          achievements.map((a) => ({
+            team_id: game.home_team_id,
+            game_id: gameId,
+            team_member_id: a.teamMemberId,
+            player_name: a.playerName,
+            achievement_type: a.type,
+            value: a.value,
+            label: a.label,
+            achieved_on: game.game_date,
+          }))
+        );
+      if (insertError) throw insertError;
+    }
+
+    return achievements;
+  } catch (error) {
+    console.error("記録判定エラー:", error);
+    return [];
+  }
+}
@@ -0,0 +1,70 @@
+// 1球ごとの投球記録（ボール・ストライク・ファウル・インプレー）
+// 打席中のカウントと、四球・三振による打席の自動完了を判定する
+
+export type PitchType = "ball" | "strike" | "foul" | "in_play";
+
+export const PITCH_LABELS: Record<PitchType, string> = {
+  ball: "ボール",
+  strike: "ストライク",
+  foul: "ファウル",
+  in_play: "インプレー",
+};
+
+export interface PitchCount {
+  balls: number;
+  strikes: number;
+}
+
+export interface PitchResult {
+  count: PitchCount;
+  completedResult: "四球" | "三振" | null; // カウントで打席が完了した場合の結果
+  isPlateAppearanceOver: boolean;
+}
+
+// 投球をカウントに適用（2ストライク後のファウルはカウントしない）
+export function applyPitch(count: PitchCount, pitch: PitchType): PitchResult {
+  switch (pitch) {
+    case "ball": {
+      const balls = count.balls + 1;
+      return {
+        count: { ...count, balls },
+        completedResult: balls >= 4 ? "四球" : null,
+        isPlateAppearanceOver: balls >= 4,
+      };
+    }
+    case "strike": {
+      const strikes = count.strikes + 1;
+      return {
+        count: { ...count, strikes },
+        completedResult: strikes >= 3 ? "三振" : null,
+        isPlateAppearanceOver: strikes >= 3,
+      };
+    }
+    case "foul":
+      return {
+        count: { ...count, strikes: Math.min(count.strikes + 1, 2) },
+        completedResult: null,
+        isPlateAppearanceOver: false,
+      };
+    case "in_play":
+      return { count, completedResult: null, isPlateAppearanceOver: true };
+  }
+}
+
+// 打席中の投球からカウントを再計算
+export function countPitches(pitches: PitchType[]): PitchCount {
+  return pitches.reduce((count, pitch) => applyPitch(count, pitch).count, {
+    balls: 0,
+    strikes: 0,
+  });
+}
+
+// ストライクとして数える投球（ファウル・インプレーを含む）
+export function isStrikeThrown(pitch: PitchType): boolean {
+  return pitch !== "ball";
+}
+
+// ストライク率（%）
+export function getStrikePercentage(pitches: number, strikes: number): number {
+  return pitches > 0 ? Math.round((strikes / pitches) * 1000) / 10 : 0;
+}
@@ -0,0 +1,226 @@
+// 勝利投手・敗戦投手・セーブ投手の判定
+// イニングごとの得点推移と登板記録から、自チーム投手の勝敗・セーブを提案する
+
+// 1イニングの得点（未実施の攻撃は null）
+export interface InningScore {
+  inning: number;
+  myRuns: number | null;
+  opponentRuns: number | null;
+}
+
+// 登板記録（entryInning の守備から登板）
+export interface PitcherAppearance {
+  pitcherId: string;
+  pitcherName: string;
+  entryInning: number;
+}
+
+export interface DecisionInput {
+  scores: InningScore[];
+  isMyTeamBatFirst: boolean;
+  appearances: PitcherAppearance[];
+  scheduledInnings?: number;
+  inningsPitched?: Record<string, number>; // 入力済みの投球回（0.1=1アウト表記）
+}
+
+export interface PitchingDecision {
+  winPitcherId: string | null;
+  lossPitcherId: string | null;
+  savePitcherId: string | null;
+  reasons: string[];
+}
+
+// 半イニング（表・裏）
+interface HalfInning {
+  inning: number;
+  isMyTeamBatting: boolean;
+  runs: number;
+  pitcherId: string | null; // その時点の自チームの責任投手
+}
+
+// 規定の試合回数
+export const DEFAULT_SCHEDULED_INNINGS = 7;
+
+// 先発投手が勝利投手になるための最低投球回（9回制の5回を試合回数で按分）
+export function getStarterMinimumInnings(
+  scheduledInnings: number = DEFAULT_SCHEDULED_INNINGS
+): number {
+  return Math.ceil((5 * scheduledInnings) / 9);
+}
+
+// 0.1=1アウト表記の投球回をアウト数に変換
+export function inningsToOuts(innings: number): number {
+  const whole = Math.floor(innings);
+  return whole * 3 + Math.round((innings - whole) * 10);
+}
+
+// アウト数を0.1=1アウト表記の投球回に変換
+export function outsToInnings(outs: number): number {
+  return Math.floor(outs / 3) + (outs % 3) / 10;
+}
+
+// 勝敗・セーブの判定
+export function decidePitchingResults(input: DecisionInput): PitchingDecision {
+  const decision: PitchingDecision = {
+    winPitcherId: null,
+    lossPitcherId: null,
+    savePitcherId: null,
+    reasons: [],
+  };
+
+  const appearances = [...input.appearances].sort(
+    (a, b) => a.entryInning - b.entryInning
+  );
+  if (appearances.length === 0) {
+    decision.reasons.push("登板記録がないため判定できません");
+    return decision;
+  }
+
+  const halves = buildHalfInnings(input, appearances);
+  const names = new Map(appearances.map((a) => [a.pitcherId, a.pitcherName]));
+  const outsByPitcher = countOuts(halves, input.inningsPitched);
+
+  // 最後にリードを奪った時点（以降リードを失っていない）
+  let my = 0;
+  let opponent = 0;
+  let leadTaken: { half: number; pitcherId: string | null } | null = null;
+  for (let index = 0; index < halves.length; index++) {
+    const half = halves[index];
+    const wasLeading = Math.sign(my - opponent);
+    if (half.isMyTeamBatting) my += half.runs;
+    else opponent += half.runs;
+    const leading = Math.sign(my - opponent);
+    if (leading !== 0 && leading !== wasLeading) {
+      leadTaken = { half: index, pitcherId: half.pitcherId };
+    }
+  }
+
+  if (my === opponent) {
+    decision.reasons.push("引き分けのため勝敗はつきません");
+    return decision;
+  }
+
+  if (!leadTaken?.pitcherId) {
+    decision.reasons.push("責任投手を特定できません");
+    return decision;
+  }
+
+  if (my < opponent) {
+    decision.lossPitcherId = leadTaken.pitcherId;
+    decision.reasons.push(
+      `${halves[leadTaken.half].inning}回に勝ち越し点を許した${names.get(
+        leadTaken.pitcherId
+      )}が敗戦投手`
+    );
+    return decision;
+  }
+
+  // 勝利投手（先発は最低投球回が必要）
+  const starterId = appearances[0].pitcherId;
+  const minimumOuts = getStarterMinimumInnings(input.scheduledInnings) * 3;
+  let winnerId = leadTaken.pitcherId;
+  decision.reasons.push(
+    `${halves[leadTaken.half].inning}回に勝ち越した時点の責任投手は${names.get(
+      winnerId
+    )}`
+  );
+  if (winnerId === starterId && (outsByPitcher[starterId] || 0) < minimumOuts) {
+    const relievers = appearances.filter((a) => a.pitcherId !== starterId);
+    if (relievers.length > 0) {
+      // 最も長く投げた救援投手
+      winnerId = relievers.reduce((best, a) =>
+        (outsByPitcher[a.pitcherId] || 0) > (outsByPitcher[best.pitcherId] || 0)
+          ? a
+          : best
+      ).pitcherId;
+      decision.reasons.push(
+        `先発が${getStarterMinimumInnings(
+          input.scheduledInnings
+        )}回に満たないため、救援の${names.get(winnerId)}が勝利投手`
+      );
+    }
+  }
+  decision.winPitcherId = winnerId;
+
+  // セーブ（勝利投手以外の最後の投手）
+  const finisher = appearances[appearances.length - 1];
+  if (finisher.pitcherId !== winnerId) {
+    const lead = getLeadBefore(halves, finisher);
+    const outs = outsByPitcher[finisher.pitcherId] || 0;
+    if ((lead >= 1 && lead <= 3 && outs >= 3) || outs >= 9) {
+      decision.savePitcherId = finisher.pitcherId;
+      decision.reasons.push(
+        outs >= 9
+          ? `${finisher.pitcherName}が3回以上を投げ切ったためセーブ`
+          : `${finisher.pitcherName}が${lead}点リードで登板し1回以上を投げ切ったためセーブ`
+      );
+    }
+  }
+
+  return decision;
+}
+
+// 得点を表・裏の順に並べ、各半イニングの責任投手を割り当てる
+function buildHalfInnings(
+  input: DecisionInput,
+  appearances: PitcherAppearance[]
+): HalfInning[] {
+  const halves: HalfInning[] = [];
+  let lastDefensivePitcher: string | null = null;
+
+  for (const score of [...input.scores].sort((a, b) => a.inning - b.inning)) {
+    const pitcherOnMound = [...appearances]
+      .reverse()
+      .find((a) => a.entryInning <= score.inning);
+    const order = input.isMyTeamBatFirst ? [true, false] : [false, true];
+
+    for (const isMyTeamBatting of order) {
+      const runs = isMyTeamBatting ? score.myRuns : score.opponentRuns;
+      if (runs === null) continue;
+
+      let pitcherId: string | null;
+      if (isMyTeamBatting) {
+        // 攻撃中は直前に守った投手（試合開始直後は先発）が責任投手
+        pitcherId = lastDefensivePitcher ?? appearances[0].pitcherId;
+      } else {
+        pitcherId = pitcherOnMound?.pitcherId ?? appearances[0].pitcherId;
+        lastDefensivePitcher = pitcherId;
+      }
+      halves.push({ inning: score.inning, isMyTeamBatting, runs, pitcherId });
+    }
+  }
+
+  return halves;
+}
+
+// 投手ごとのアウト数（入力済みの投球回を優先）
+function countOuts(
+  halves: HalfInning[],
+  inningsPitched: Record<string, number> = {}
+): Record<string, number> {
+  const outs: Record<string, number> = {};
+  for (const half of halves) {
+    if (!half.isMyTeamBatting && half.pitcherId) {
+      outs[half.pitcherId] = (outs[half.pitcherId] || 0) + 3;
+    }
+  }
+  for (const [pitcherId, innings] of Object.entries(inningsPitched)) {
+    if (innings > 0) outs[pitcherId] = inningsToOuts(innings);
+  }
+  return outs;
+}
+
+// 投手が登板する直前の自チームのリード
+function getLeadBefore(
+  halves: HalfInning[],
+  appearance: PitcherAppearance
+): number {
+  let lead = 0;
+  for (const half of halves) {
+    if (!half.isMyTeamBatting && half.inning >= appearance.entryInning) {
+      break;
+    }
+    lead += half.isMyTeamBatting ? half.runs : -half.runs;
+  }
+  return lead;
+}
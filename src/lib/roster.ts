@@ -0,0 +1,110 @@
+// 出席人数の確認と助っ人の手配
+// 出席の回答（game_attendances）を試合ルールの打順の人数と比べ、足りない試合を警告する
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { GameRules, getBattingOrderLength } from "./game-rules";
+import { isParticipatingStatus } from "./attendance";
+
+// 出欠の回答（ゲストは team_member_id がなく person_name で登録される）
+export interface RosterAttendance {
+  team_member_id: string | null;
+  person_name: string | null;
+  status: string;
+}
+
+export interface RosterStatus {
+  required: number; // 打順の人数（9人 + DH + エキストラヒッター）
+  confirmed: number; // 出席の人数（遅刻・早退・助っ人を含む）
+  members: number; // 出席のチームメンバー
+  helpers: number; // 出席の助っ人（ゲスト）
+  helperNames: string[];
+  pending: number; // 未回答のメンバー
+  tentative: number; // 未定のメンバー
+  shortage: number; // 不足している人数
+  daysUntilGame: number | null; // 試合日までの日数（当日は 0、過ぎた試合は負）
+  shouldWarn: boolean; // 不足していて、警告を出す期間に入っている
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 試合日までの日数（日付単位、ローカル時刻）
+export function daysUntilGame(
+  gameDate: string,
+  now: Date = new Date()
+): number | null {
+  const [year, month, day] = gameDate.split("-").map(Number);
+  if (!year || !month || !day) return null;
+  const game = new Date(year, month - 1, day).getTime();
+  const today = new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate()
+  ).getTime();
+  return Math.round((game - today) / DAY_MS);
+}
+
+export function evaluateRoster(
+  attendances: RosterAttendance[],
+  rules: GameRules,
+  gameDate: string,
+  now: Date = new Date()
+): RosterStatus {
+  const attending = attendances.filter((a) =>
+    isParticipatingStatus(a.status)
+  );
+  const helpers = attending.filter((a) => !a.team_member_id);
+  const required = getBattingOrderLength(rules);
+  const shortage = Math.max(0, required - attending.length);
+  const days = daysUntilGame(gameDate, now);
+
+  return {
+    required,
+    confirmed: attending.length,
+    members: attending.length - helpers.length,
+    helpers: helpers.length,
+    helperNames: helpers.map((a) => a.person_name || "助っ人"),
+    pending: attendances.filter((a) => a.status === "pending").length,
+    tentative: attendances.filter((a) => a.status === "tentative").length,
+    shortage,
+    daysUntilGame: days,
+    shouldWarn:
+      shortage > 0 &&
+      days !== null &&
+      days >= 0 &&
+      days <= rules.rosterWarningDays,
+  };
+}
+
+// 助っ人の手配を始める（運営タスク「助っ人の手配」に担当者を登録）
+// 既に担当者がいる場合はそのタスクを返す
+export async function startHelperRecruitment(
+  supabase: SupabaseClient,
+  gameId: string,
+  assignee: { teamMemberId: string | null; personName: string }
+): Promise<{ id: string; person_name: string; created: boolean }> {
+  const { data: existing, error: existingError } = await supabase
+    .from("game_operation_tasks")
+    .select("id, person_name")
+    .eq("game_id", gameId)
+    .eq("task_type", "helper")
+    .limit(1);
+
+  if (existingError) throw existingError;
+  if (existing && existing.length > 0) {
+    return { ...existing[0], created: false };
+  }
+
+  const { data, error } = await supabase
+    .from("game_operation_tasks")
+    .insert({
+      game_id: gameId,
+      task_type: "helper",
+      person_name: assignee.personName,
+      team_member_id: assignee.teamMemberId,
+    })
+    .select("id, person_name")
+    .single();
+
+  if (error) throw error;
+  return { ...data, created: true };
+}
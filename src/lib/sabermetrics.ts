@@ -0,0 +1,392 @@
+// 打撃・投手成績の指標計算（打率・防御率から wOBA・FIP などのセイバーメトリクスまで）
+// 成績を表示する画面はすべてここを通し、同じ計数から同じ値が出るようにする
+// DB のビュー（player_batting_stats / player_pitching_stats）は試合ごとの計数のみを返し、率の計算はここで行う
+
+import { DEFAULT_SCHEDULED_INNINGS, inningsToOuts } from "./pitching-decisions";
+
+// ===== 打撃 =====
+
+export interface BattingCounts {
+  atBats: number;
+  hits: number;
+  doubles: number;
+  triples: number;
+  homeRuns: number;
+  walks: number; // 四球（死球を含まない）
+  hitByPitch: number;
+  strikeouts: number;
+  sacrificeBunts: number;
+  sacrificeFlies: number;
+  stolenBases: number;
+}
+
+export interface BattingMetrics {
+  plateAppearances: number;
+  totalBases: number;
+  battingAverage: number | null;
+  onBasePercentage: number | null;
+  sluggingPercentage: number | null;
+  ops: number | null;
+  iso: number | null; // 長打率 − 打率
+  babip: number | null; // 本塁打以外のインプレー打球の安打率
+  woba: number | null;
+  walksPerStrikeout: number | null; // BB/K
+  runsCreated: number; // RC
+}
+
+export const EMPTY_BATTING_COUNTS: BattingCounts = {
+  atBats: 0,
+  hits: 0,
+  doubles: 0,
+  triples: 0,
+  homeRuns: 0,
+  walks: 0,
+  hitByPitch: 0,
+  strikeouts: 0,
+  sacrificeBunts: 0,
+  sacrificeFlies: 0,
+  stolenBases: 0,
+};
+
+// wOBA の重み（MLB の平均的な得点価値を草野球でも共通で使う）
+const WOBA_WEIGHTS = {
+  walk: 0.69,
+  hitByPitch: 0.72,
+  single: 0.89,
+  double: 1.27,
+  triple: 1.62,
+  homeRun: 2.1,
+};
+
+const HIT_RESULTS = ["安打", "二塁打", "三塁打", "本塁打"];
+// 打数に数えない結果
+const NON_AT_BAT_RESULTS = ["四球", "死球", "犠打", "犠飛"];
+
+export function addBattingCounts(
+  a: BattingCounts,
+  b: BattingCounts
+): BattingCounts {
+  return {
+    atBats: a.atBats + b.atBats,
+    hits: a.hits + b.hits,
+    doubles: a.doubles + b.doubles,
+    triples: a.triples + b.triples,
+    homeRuns: a.homeRuns + b.homeRuns,
+    walks: a.walks + b.walks,
+    hitByPitch: a.hitByPitch + b.hitByPitch,
+    strikeouts: a.strikeouts + b.strikeouts,
+    sacrificeBunts: a.sacrificeBunts + b.sacrificeBunts,
+    sacrificeFlies: a.sacrificeFlies + b.sacrificeFlies,
+    stolenBases: a.stolenBases + b.stolenBases,
+  };
+}
+
+// 打撃記録（1打席1行）から計数を集計
+export function countBattingResults(
+  records: { result: string; stolen_base?: boolean | null }[]
+): BattingCounts {
+  const counts = { ...EMPTY_BATTING_COUNTS };
+  for (const record of records) {
+    if (!NON_AT_BAT_RESULTS.includes(record.result)) counts.atBats++;
+    if (HIT_RESULTS.includes(record.result)) counts.hits++;
+    if (record.result === "二塁打") counts.doubles++;
+    if (record.result === "三塁打") counts.triples++;
+    if (record.result === "本塁打") counts.homeRuns++;
+    if (record.result === "四球") counts.walks++;
+    if (record.result === "死球") counts.hitByPitch++;
+    if (record.result === "三振") counts.strikeouts++;
+    if (record.result === "犠打") counts.sacrificeBunts++;
+    if (record.result === "犠飛") counts.sacrificeFlies++;
+    if (record.stolen_base) counts.stolenBases++;
+  }
+  return counts;
+}
+
+// player_batting_stats ビューの行（試合ごとの計数）
+export interface BattingStatsRow {
+  at_bats?: number | null;
+  hits?: number | null;
+  doubles?: number | null;
+  triples?: number | null;
+  home_runs?: number | null;
+  walks?: number | null;
+  hit_by_pitch?: number | null;
+  strikeouts?: number | null;
+  sacrifice_bunts?: number | null;
+  sacrifice_flies?: number | null;
+  stolen_bases?: number | null;
+}
+
+// player_batting_stats ビューの行（試合ごと）から計数を集計
+// ビューに死球・犠打・犠飛の列がない場合は 0 として扱う
+export function sumBattingStatsRows(rows: BattingStatsRow[]): BattingCounts {
+  return rows.reduce<BattingCounts>(
+    (counts, row) =>
+      addBattingCounts(counts, {
+        atBats: row.at_bats || 0,
+        hits: row.hits || 0,
+        doubles: row.doubles || 0,
+        triples: row.triples || 0,
+        homeRuns: row.home_runs || 0,
+        walks: row.walks || 0,
+        hitByPitch: row.hit_by_pitch || 0,
+        strikeouts: row.strikeouts || 0,
+        sacrificeBunts: row.sacrifice_bunts || 0,
+        sacrificeFlies: row.sacrifice_flies || 0,
+        stolenBases: row.stolen_bases || 0,
+      }),
+    { ...EMPTY_BATTING_COUNTS }
+  );
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+export function calculateBattingMetrics(c: BattingCounts): BattingMetrics {
+  const singles = c.hits - c.doubles - c.triples - c.homeRuns;
+  const totalBases = singles + c.doubles * 2 + c.triples * 3 + c.homeRuns * 4;
+  const plateAppearances =
+    c.atBats + c.walks + c.hitByPitch + c.sacrificeBunts + c.sacrificeFlies;
+  const onBaseDenominator =
+    c.atBats + c.walks + c.hitByPitch + c.sacrificeFlies;
+
+  const battingAverage = ratio(c.hits, c.atBats);
+  const onBasePercentage = ratio(
+    c.hits + c.walks + c.hitByPitch,
+    onBaseDenominator
+  );
+  const sluggingPercentage = ratio(totalBases, c.atBats);
+
+  const wobaNumerator =
+    WOBA_WEIGHTS.walk * c.walks +
+    WOBA_WEIGHTS.hitByPitch * c.hitByPitch +
+    WOBA_WEIGHTS.single * singles +
+    WOBA_WEIGHTS.double * c.doubles +
+    WOBA_WEIGHTS.triple * c.triples +
+    WOBA_WEIGHTS.homeRun * c.homeRuns;
+
+  // RC（盗塁・犠打を含む計算式、盗塁死・併殺打は記録がないため除く）
+  const runsCreatedDenominator = plateAppearances;
+  const runsCreated =
+    runsCreatedDenominator > 0
+      ? ((c.hits + c.walks + c.hitByPitch) *
+          (totalBases +
+            0.26 * (c.walks + c.hitByPitch) +
+            0.52 * (c.sacrificeBunts + c.sacrificeFlies + c.stolenBases))) /
+        runsCreatedDenominator
+      : 0;
+
+  return {
+    plateAppearances,
+    totalBases,
+    battingAverage,
+    onBasePercentage,
+    sluggingPercentage,
+    ops:
+      onBasePercentage !== null && sluggingPercentage !== null
+        ? onBasePercentage + sluggingPercentage
+        : null,
+    iso:
+      sluggingPercentage !== null && battingAverage !== null
+        ? sluggingPercentage - battingAverage
+        : null,
+    babip: ratio(
+      c.hits - c.homeRuns,
+      c.atBats - c.strikeouts - c.homeRuns + c.sacrificeFlies
+    ),
+    woba: ratio(wobaNumerator, onBaseDenominator),
+    walksPerStrikeout: ratio(c.walks, c.strikeouts),
+    runsCreated,
+  };
+}
+
+// OPS+（チーム全体を基準 100 とした相対値）
+export function calculateOpsPlus(
+  player: BattingMetrics,
+  league: BattingMetrics
+): number | null {
+  if (
+    player.onBasePercentage === null ||
+    player.sluggingPercentage === null ||
+    !league.onBasePercentage ||
+    !league.sluggingPercentage
+  ) {
+    return null;
+  }
+  return Math.round(
+    100 *
+      (player.onBasePercentage / league.onBasePercentage +
+        player.sluggingPercentage / league.sluggingPercentage -
+        1)
+  );
+}
+
+// ===== 投手 =====
+
+export interface PitchingCounts {
+  appearances: number;
+  outs: number;
+  hitsAllowed: number;
+  runsAllowed: number;
+  earnedRuns: number;
+  strikeouts: number;
+  walks: number;
+  homeRunsAllowed: number;
+  wins: number;
+  losses: number;
+  saves: number;
+}
+
+export interface PitchingMetrics {
+  innings: number; // 実数のイニング（5回2/3 = 5.667）
+  battersFaced: number; // 推定（アウト＋被安打＋与四球）
+  era: number | null;
+  whip: number | null;
+  strikeoutsPerGame: number | null; // K/7
+  walksPerGame: number | null; // BB/7
+  fip: number | null;
+  strikeoutMinusWalkRate: number | null; // K-BB%（対戦打者に対する割合）
+  winPercentage: number | null;
+}
+
+export const EMPTY_PITCHING_COUNTS: PitchingCounts = {
+  appearances: 0,
+  outs: 0,
+  hitsAllowed: 0,
+  runsAllowed: 0,
+  earnedRuns: 0,
+  strikeouts: 0,
+  walks: 0,
+  homeRunsAllowed: 0,
+  wins: 0,
+  losses: 0,
+  saves: 0,
+};
+
+// MLB の FIP 定数（9回換算）。チームの基準がないときに回数で按分して使う
+const DEFAULT_FIP_CONSTANT = 3.1;
+
+export function addPitchingCounts(
+  a: PitchingCounts,
+  b: PitchingCounts
+): PitchingCounts {
+  return {
+    appearances: a.appearances + b.appearances,
+    outs: a.outs + b.outs,
+    hitsAllowed: a.hitsAllowed + b.hitsAllowed,
+    runsAllowed: a.runsAllowed + b.runsAllowed,
+    earnedRuns: a.earnedRuns + b.earnedRuns,
+    strikeouts: a.strikeouts + b.strikeouts,
+    walks: a.walks + b.walks,
+    homeRunsAllowed: a.homeRunsAllowed + b.homeRunsAllowed,
+    wins: a.wins + b.wins,
+    losses: a.losses + b.losses,
+    saves: a.saves + b.saves,
+  };
+}
+
+// game_pitching_records / player_pitching_stats の行（試合ごとの計数）
+export interface PitchingStatsRow {
+  innings_pitched?: number | null;
+  hits_allowed?: number | null;
+  runs_allowed?: number | null;
+  earned_runs?: number | null;
+  strikeouts?: number | null;
+  walks?: number | null;
+  home_runs_allowed?: number | null;
+  win?: boolean | null;
+  loss?: boolean | null;
+  save?: boolean | null;
+}
+
+// game_pitching_records / player_pitching_stats の行（試合ごと）から計数を集計
+// 投球回は 0.1 = 1アウトの表記のため、アウト数に直して合計する
+export function sumPitchingRows(rows: PitchingStatsRow[]): PitchingCounts {
+  return rows.reduce<PitchingCounts>(
+    (counts, row) =>
+      addPitchingCounts(counts, {
+        appearances: 1,
+        outs: inningsToOuts(row.innings_pitched || 0),
+        hitsAllowed: row.hits_allowed || 0,
+        runsAllowed: row.runs_allowed || 0,
+        earnedRuns: row.earned_runs || 0,
+        strikeouts: row.strikeouts || 0,
+        walks: row.walks || 0,
+        homeRunsAllowed: row.home_runs_allowed || 0,
+        wins: row.win ? 1 : 0,
+        losses: row.loss ? 1 : 0,
+        saves: row.save ? 1 : 0,
+      }),
+    { ...EMPTY_PITCHING_COUNTS }
+  );
+}
+
+// FIP の本体部分（定数を足す前、scale 回換算）
+function fipCore(c: PitchingCounts, scale: number): number | null {
+  const innings = c.outs / 3;
+  if (innings === 0) return null;
+  return (
+    ((13 * c.homeRunsAllowed + 3 * c.walks - 2 * c.strikeouts) / innings) *
+    (scale / 9)
+  );
+}
+
+// チーム全体の投手成績から FIP 定数を求める（チームの FIP と防御率が一致するように）
+export function calculateFipConstant(
+  league: PitchingCounts,
+  scale: number = DEFAULT_SCHEDULED_INNINGS
+): number {
+  const core = fipCore(league, scale);
+  const innings = league.outs / 3;
+  if (core === null || innings === 0) {
+    return DEFAULT_FIP_CONSTANT * (scale / 9);
+  }
+  return (league.earnedRuns * scale) / innings - core;
+}
+
+export function calculatePitchingMetrics(
+  c: PitchingCounts,
+  fipConstant?: number,
+  scale: number = DEFAULT_SCHEDULED_INNINGS
+): PitchingMetrics {
+  const innings = c.outs / 3;
+  const battersFaced = c.outs + c.hitsAllowed + c.walks;
+  const perGame = (value: number) =>
+    innings > 0 ? (value * scale) / innings : null;
+  const core = fipCore(c, scale);
+
+  return {
+    innings,
+    battersFaced,
+    era: perGame(c.earnedRuns),
+    whip: innings > 0 ? (c.walks + c.hitsAllowed) / innings : null,
+    strikeoutsPerGame: perGame(c.strikeouts),
+    walksPerGame: perGame(c.walks),
+    fip:
+      core === null
+        ? null
+        : core + (fipConstant ?? DEFAULT_FIP_CONSTANT * (scale / 9)),
+    strikeoutMinusWalkRate: ratio(c.strikeouts - c.walks, battersFaced),
+    winPercentage: ratio(c.wins, c.wins + c.losses),
+  };
+}
+
+// ===== 表示 =====
+
+// 率（.333 形式）
+export function formatRate(value: number | null): string {
+  if (value === null) return "-";
+  const text = value.toFixed(3);
+  return text.startsWith("0.") ? text.slice(1) : text;
+}
+
+// 小数（防御率・WHIP など）
+export function formatDecimal(value: number | null, digits: number = 2): string {
+  return value === null ? "-" : value.toFixed(digits);
+}
+
+// 割合（%）
+export function formatPercent(value: number | null, digits: number = 1): string {
+  return value === null ? "-" : `${(value * 100).toFixed(digits)}%`;
+}
@@ -0,0 +1,261 @@
+// スコアブック（打順×イニングの記入欄）
+// 打撃記録とランナー記録から紙のスコアブックと同じ形式の記入内容を作る純粋な関数のみで構成する
+
+import { countOutsForRecord } from "./game-engine";
+
+export interface ScorebookPlayer {
+  id: string;
+  player_name: string;
+  batting_order: number | null;
+  position: string | null;
+}
+
+export interface ScorebookBattingRecord {
+  id: string;
+  player_id: string;
+  inning: number;
+  result: string;
+  rbi: number;
+  run_scored: boolean;
+  stolen_base: boolean;
+  base_reached?: number;
+  outs_recorded?: number | null; // 走塁死・併殺を含むプレーでのアウト数
+  notes?: string | null;
+  created_at?: string;
+}
+
+// game_runners の行（current_base は最後に到達した塁、4=生還）
+export interface ScorebookRunner {
+  player_id: string;
+  inning: number;
+  current_base: number;
+}
+
+// 1打席分の記入内容
+export interface ScorebookCell {
+  recordId: string;
+  playerId: string;
+  code: string; // 打撃結果の記号（例: 6-3 は "6G"、中前安打は "8H"）
+  isHit: boolean;
+  reachedBase: number; // 到達した塁（0〜4、4=生還）
+  outNumber: number | null; // そのイニングの何アウト目か
+  rbi: number;
+  stolenBase: boolean;
+}
+
+// 打順ごとの行（途中出場の選手は同じ打順にまとめる）
+export interface ScorebookRow {
+  battingOrder: number;
+  players: ScorebookPlayer[];
+  cells: Record<number, ScorebookCell[]>;
+  atBats: number;
+  hits: number;
+  rbi: number;
+  runs: number;
+}
+
+export interface ScorebookInningTotal {
+  runs: number;
+  hits: number;
+  walks: number; // 四死球
+  errors: number; // 相手の失策による出塁
+}
+
+export interface Scorebook {
+  rows: ScorebookRow[];
+  inningTotals: Record<number, ScorebookInningTotal>;
+  innings: number;
+}
+
+// 備考の守備位置（投・捕・一…）→ 守備番号
+const POSITION_NUMBERS: Record<string, number> = {
+  投: 1,
+  捕: 2,
+  一: 3,
+  二: 4,
+  三: 5,
+  遊: 6,
+  左: 7,
+  中: 8,
+  右: 9,
+};
+
+const HIT_RESULTS = ["安打", "二塁打", "三塁打", "本塁打"];
+const WALK_RESULTS = ["四球", "死球"];
+// 打数に数えない結果
+const NON_AT_BAT_RESULTS = ["四球", "死球", "犠打", "犠飛"];
+
+// 備考から守備番号を取得（"遊,併殺" → 6）
+function getFielderNumber(notes?: string | null): number | null {
+  const position = (notes || "")
+    .split(",")
+    .find((note) => POSITION_NUMBERS[note.trim()]);
+  return position ? POSITION_NUMBERS[position.trim()] : null;
+}
+
+// 打撃結果をスコアブックの記号に変換
+export function getScorebookCode(
+  result: string,
+  notes?: string | null
+): string {
+  const fielder = getFielderNumber(notes);
+  const prefix = fielder ? String(fielder) : "";
+
+  if (notes?.includes("失策")) return `E${prefix}`;
+
+  switch (result) {
+    case "安打":
+      return `${prefix}H`;
+    case "二塁打":
+      return `${prefix}2B`;
+    case "三塁打":
+      return `${prefix}3B`;
+    case "本塁打":
+      return "HR";
+    case "四球":
+      return "BB";
+    case "死球":
+      return "HP";
+    case "三振":
+      return "K";
+    case "ゴロ":
+      return `${prefix}G`;
+    case "フライ":
+      return `${prefix}F`;
+    case "ライナー":
+      return `${prefix}L`;
+    case "犠打":
+      return `${prefix}SH`;
+    case "犠飛":
+      return `${prefix}SF`;
+    case "フィールダースチョイス":
+    case "野選":
+      return "FC";
+    case "エラー":
+      return `E${prefix}`;
+    default:
+      return result;
+  }
+}
+
+// イニング内の打席を記録順に並べる（作成日時がなければ元の順序）
+function sortByCreatedAt(records: ScorebookBattingRecord[]) {
+  return records
+    .map((record, index) => ({ record, index }))
+    .sort((a, b) => {
+      const byTime = (a.record.created_at || "").localeCompare(
+        b.record.created_at || ""
+      );
+      return byTime !== 0 ? byTime : a.index - b.index;
+    })
+    .map(({ record }) => record);
+}
+
+export function buildScorebook(
+  players: ScorebookPlayer[],
+  records: ScorebookBattingRecord[],
+  runners: ScorebookRunner[],
+  minInnings: number = 7
+): Scorebook {
+  const innings = Math.max(minInnings, ...records.map((r) => r.inning));
+  const cellsByRecord = new Map<string, ScorebookCell>();
+  const inningTotals: Record<number, ScorebookInningTotal> = {};
+
+  for (let inning = 1; inning <= innings; inning++) {
+    const inningRecords = sortByCreatedAt(
+      records.filter((r) => r.inning === inning)
+    );
+    const totals: ScorebookInningTotal = {
+      runs: 0,
+      hits: 0,
+      walks: 0,
+      errors: 0,
+    };
+    let outs = 0;
+
+    inningRecords.forEach((record, index) => {
+      const baseReached = record.base_reached || 0;
+      // 打者が出塁したプレーでも、走塁死のアウトはアウト番号に含める
+      const outsRecorded =
+        record.outs_recorded ??
+        (baseReached > 0 ? 0 : countOutsForRecord(record.result, record.notes));
+      outs += outsRecorded;
+
+      // ランナー記録は同じイニングの最後の打席のみに対応する
+      const isLastAppearance = !inningRecords
+        .slice(index + 1)
+        .some((r) => r.player_id === record.player_id);
+      const runner = isLastAppearance
+        ? runners.find(
+            (r) => r.player_id === record.player_id && r.inning === inning
+          )
+        : undefined;
+      const reachedBase = record.run_scored
+        ? 4
+        : Math.max(baseReached, runner?.current_base || 0);
+
+      const isHit = HIT_RESULTS.includes(record.result);
+      if (reachedBase === 4) totals.runs++;
+      if (isHit) totals.hits++;
+      if (WALK_RESULTS.includes(record.result)) totals.walks++;
+      if (record.notes?.includes("失策")) totals.errors++;
+
+      cellsByRecord.set(record.id, {
+        recordId: record.id,
+        playerId: record.player_id,
+        code: getScorebookCode(record.result, record.notes),
+        isHit,
+        reachedBase,
+        outNumber:
+          baseReached === 0 && outsRecorded > 0 ? Math.min(outs, 3) : null,
+        rbi: record.rbi || 0,
+        stolenBase: record.stolen_base,
+      });
+    });
+
+    inningTotals[inning] = totals;
+  }
+
+  // 打順ごとにまとめる
+  const orders = Array.from(
+    new Set(
+      players
+        .map((p) => p.batting_order)
+        .filter((order): order is number => order !== null)
+    )
+  ).sort((a, b) => a - b);
+
+  const rows: ScorebookRow[] = orders.map((battingOrder) => {
+    const slotPlayers = players.filter((p) => p.batting_order === battingOrder);
+    const playerIds = slotPlayers.map((p) => p.id);
+    const slotRecords = records.filter((r) => playerIds.includes(r.player_id));
+
+    const cells: Record<number, ScorebookCell[]> = {};
+    for (const record of sortByCreatedAt(slotRecords)) {
+      const cell = cellsByRecord.get(record.id);
+      if (!cell) continue;
+      (cells[record.inning] = cells[record.inning] || []).push(cell);
+    }
+
+    return {
+      battingOrder,
+      players: slotPlayers,
+      cells,
+      atBats: slotRecords.filter(
+        (r) => !NON_AT_BAT_RESULTS.includes(r.result)
+      ).length,
+      hits: slotRecords.filter((r) => HIT_RESULTS.includes(r.result)).length,
+      rbi: slotRecords.reduce((sum, r) => sum + (r.rbi || 0), 0),
+      runs: Object.values(cells)
+        .flat()
+        .filter((c) => c.reachedBase === 4).length,
+    };
+  });
+
+  return { rows, inningTotals, innings };
+}
+
+// アウト番号の表記（Ⅰ・Ⅱ・Ⅲ）
+export function formatOutNumber(outNumber: number): string {
+  return ["", "Ⅰ", "Ⅱ", "Ⅲ"][outNumber] || String(outNumber);
+}
@@ -0,0 +1,266 @@
+// 状況別成績（スプリット）
+// 打席ごとに保存した状況（塁上の走者・アウト数）と試合情報から、状況別の打撃成績を集計する純粋な関数のみで構成する
+
+import { HalfInningState } from "./game-engine";
+import { calculateBattingMetrics, countBattingResults } from "./sabermetrics";
+import { isImportedRecord } from "./stats-import";
+
+// 打席開始時の状況（game_batting_records.runners_before / outs_before）
+// runners_before は塁上の走者をビットで表す（1=一塁、2=二塁、4=三塁）
+export interface PlateAppearanceContext {
+  runners_before: number;
+  outs_before: number;
+}
+
+export function encodeBaseState(runners: { base: number }[]): number {
+  return runners.reduce(
+    (bits, runner) =>
+      runner.base >= 1 && runner.base <= 3
+        ? bits | (1 << (runner.base - 1))
+        : bits,
+    0
+  );
+}
+
+export function getPlateAppearanceContext(
+  state: HalfInningState
+): PlateAppearanceContext {
+  return {
+    runners_before: encodeBaseState(state.runners),
+    outs_before: Math.min(state.outs, 2),
+  };
+}
+
+// 集計対象の打席（打撃記録＋試合情報）
+export interface SplitRecord {
+  result: string;
+  rbi: number;
+  inning: number | null; // 取り込んだ打席は実際のイニングが分からないため null
+  batting_order: number | null;
+  runners_before: number | null; // 状況の記録がない打席は null
+  outs_before: number | null;
+  opponent_name: string | null;
+  location: string | null;
+  bat_first: boolean | null; // 自チームが先攻か（スコア未入力の試合は null）
+}
+
+export interface SplitLine {
+  key: string;
+  label: string;
+  plateAppearances: number;
+  atBats: number;
+  hits: number;
+  doubles: number;
+  triples: number;
+  homeRuns: number;
+  walks: number; // 四死球
+  strikeouts: number;
+  rbi: number;
+  battingAverage: number | null;
+  onBasePercentage: number | null;
+  sluggingPercentage: number | null;
+  ops: number | null;
+}
+
+export type SplitGroupKey =
+  | "runners"
+  | "outs"
+  | "inning"
+  | "battingOrder"
+  | "opponent"
+  | "location"
+  | "homeAway";
+
+export interface SplitGroup {
+  key: SplitGroupKey;
+  label: string;
+  lines: SplitLine[];
+  untracked: number; // 状況の記録がなく集計できなかった打席数
+}
+
+export const SPLIT_GROUP_LABELS: Record<SplitGroupKey, string> = {
+  runners: "走者状況",
+  outs: "アウトカウント",
+  inning: "イニング",
+  battingOrder: "打順",
+  opponent: "対戦相手",
+  location: "球場",
+  homeAway: "先攻・後攻",
+};
+
+// 打席の集合 → 打撃成績
+export function summarizeSplit(
+  key: string,
+  label: string,
+  records: SplitRecord[]
+): SplitLine {
+  const counts = countBattingResults(records);
+  const metrics = calculateBattingMetrics(counts);
+
+  return {
+    key,
+    label,
+    plateAppearances: records.length,
+    atBats: counts.atBats,
+    hits: counts.hits,
+    doubles: counts.doubles,
+    triples: counts.triples,
+    homeRuns: counts.homeRuns,
+    walks: counts.walks + counts.hitByPitch,
+    strikeouts: counts.strikeouts,
+    rbi: records.reduce((sum, r) => sum + (r.rbi || 0), 0),
+    battingAverage: metrics.battingAverage,
+    onBasePercentage: metrics.onBasePercentage,
+    sluggingPercentage: metrics.sluggingPercentage,
+    ops: metrics.ops,
+  };
+}
+
+// 条件ごとに集計（打席のない条件は除く）
+function summarizeBy(
+  records: SplitRecord[],
+  buckets: { key: string; label: string; match: (r: SplitRecord) => boolean }[]
+): SplitLine[] {
+  return buckets
+    .map((bucket) =>
+      summarizeSplit(bucket.key, bucket.label, records.filter(bucket.match))
+    )
+    .filter((line) => line.plateAppearances > 0);
+}
+
+// 値ごとに集計（打席数の多い順）
+function summarizeByValue(
+  records: SplitRecord[],
+  getValue: (r: SplitRecord) => string
+): SplitLine[] {
+  const groups = new Map<string, SplitRecord[]>();
+  for (const record of records) {
+    const value = getValue(record);
+    groups.set(value, [...(groups.get(value) || []), record]);
+  }
+  return Array.from(groups.entries())
+    .map(([value, group]) => summarizeSplit(value, value, group))
+    .sort((a, b) => b.plateAppearances - a.plateAppearances);
+}
+
+export function buildSplits(records: SplitRecord[]): SplitGroup[] {
+  const withRunners = records.filter((r) => r.runners_before !== null);
+  const withOuts = records.filter((r) => r.outs_before !== null);
+  const withInning = records.filter((r) => r.inning !== null);
+  const withOrder = records.filter(
+    (r) => r.batting_order !== null && r.batting_order > 0
+  );
+  const withHomeAway = records.filter((r) => r.bat_first !== null);
+
+  const groups: Omit<SplitGroup, "label">[] = [
+    {
+      key: "runners",
+      lines: summarizeBy(withRunners, [
+        { key: "empty", label: "走者なし", match: (r) => r.runners_before === 0 },
+        { key: "on", label: "走者あり", match: (r) => r.runners_before! > 0 },
+        {
+          key: "risp",
+          label: "得点圏",
+          match: (r) => (r.runners_before! & 6) !== 0,
+        },
+        { key: "loaded", label: "満塁", match: (r) => r.runners_before === 7 },
+      ]),
+      untracked: records.length - withRunners.length,
+    },
+    {
+      key: "outs",
+      lines: summarizeBy(
+        withOuts,
+        ["無死", "一死", "二死"].map((label, outs) => ({
+          key: String(outs),
+          label,
+          match: (r: SplitRecord) => r.outs_before === outs,
+        }))
+      ),
+      untracked: records.length - withOuts.length,
+    },
+    {
+      key: "inning",
+      lines: summarizeBy(withInning, [
+        { key: "early", label: "1〜3回", match: (r) => r.inning! <= 3 },
+        {
+          key: "middle",
+          label: "4〜6回",
+          match: (r) => r.inning! >= 4 && r.inning! <= 6,
+        },
+        { key: "late", label: "7回以降", match: (r) => r.inning! >= 7 },
+      ]),
+      untracked: records.length - withInning.length,
+    },
+    {
+      key: "battingOrder",
+      lines: summarizeBy(
+        withOrder,
+        Array.from({ length: 10 }, (_, i) => i + 1).map((order) => ({
+          key: String(order),
+          label: order === 10 ? "10番以降" : `${order}番`,
+          match: (r: SplitRecord) =>
+            order === 10 ? r.batting_order! >= 10 : r.batting_order === order,
+        }))
+      ),
+      untracked: records.length - withOrder.length,
+    },
+    {
+      key: "opponent",
+      lines: summarizeByValue(records, (r) => r.opponent_name || "未定"),
+      untracked: 0,
+    },
+    {
+      key: "location",
+      lines: summarizeByValue(records, (r) => r.location || "未設定"),
+      untracked: 0,
+    },
+    {
+      key: "homeAway",
+      lines: summarizeBy(withHomeAway, [
+        { key: "first", label: "先攻", match: (r) => r.bat_first === true },
+        { key: "second", label: "後攻", match: (r) => r.bat_first === false },
+      ]),
+      untracked: records.length - withHomeAway.length,
+    },
+  ];
+
+  return groups.map((group) => ({
+    ...group,
+    label: SPLIT_GROUP_LABELS[group.key],
+  }));
+}
+
+// 打撃記録に試合情報を付ける
+export function toSplitRecords(
+  records: {
+    game_id: string;
+    result: string;
+    rbi: number | null;
+    inning: number;
+    batting_order: number | null;
+    runners_before?: number | null;
+    outs_before?: number | null;
+    notes?: string | null;
+  }[],
+  games: Map<
+    string,
+    { opponent_name: string | null; location: string | null }
+  >,
+  batFirst: Map<string, boolean>
+): SplitRecord[] {
+  return records.map((record) => {
+    const game = games.get(record.game_id);
+    return {
+      result: record.result,
+      rbi: record.rbi || 0,
+      inning: isImportedRecord(record.notes) ? null : record.inning,
+      batting_order: record.batting_order,
+      runners_before: record.runners_before ?? null,
+      outs_before: record.outs_before ?? null,
+      opponent_name: game?.opponent_name || null,
+      location: game?.location || null,
+      bat_first: batFirst.get(record.game_id) ?? null,
+    };
+  });
+}
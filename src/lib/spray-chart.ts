@@ -0,0 +1,166 @@
+// 打球方向・打球の種類（スプレーチャート）
+// フィールド図上の座標（0〜100、本塁が下中央）から方向と内野・外野を判定する
+
+export type HitDirection = "left" | "center" | "right";
+export type HitDepth = "infield" | "outfield";
+export type BattedBallType = "ground" | "line" | "fly";
+
+export const HIT_DIRECTION_LABELS: Record<HitDirection, string> = {
+  left: "左",
+  center: "中",
+  right: "右",
+};
+
+export const HIT_DEPTH_LABELS: Record<HitDepth, string> = {
+  infield: "内野",
+  outfield: "外野",
+};
+
+export const BATTED_BALL_TYPE_LABELS: Record<BattedBallType, string> = {
+  ground: "ゴロ",
+  line: "ライナー",
+  fly: "フライ",
+};
+
+// フィールド図の寸法（SVG の viewBox と共通）
+export const HOME_PLATE = { x: 50, y: 95 };
+export const BASE_DISTANCE = 21; // 本塁から一塁・三塁まで
+export const INFIELD_RADIUS = 36; // 本塁から内野の芝の切れ目まで
+export const FENCE_RADIUS = 68;
+
+// 中堅方向とみなす角度（本塁からの中心線との差、度）
+const CENTER_ANGLE = 15;
+
+export interface HitLocation {
+  x: number;
+  y: number;
+  direction: HitDirection;
+  depth: HitDepth;
+}
+
+// 本塁から見た角度（左翼線 -45°〜右翼線 45°）と距離
+function toPolar(x: number, y: number) {
+  const dx = x - HOME_PLATE.x;
+  const dy = HOME_PLATE.y - y;
+  return {
+    angle: (Math.atan2(dx, dy) * 180) / Math.PI,
+    distance: Math.sqrt(dx * dx + dy * dy),
+  };
+}
+
+// フェアゾーン内か
+export function isFairTerritory(x: number, y: number): boolean {
+  const { angle, distance } = toPolar(x, y);
+  return Math.abs(angle) <= 45 && distance > 0;
+}
+
+// 座標から打球方向と内野・外野を判定
+export function locateHit(x: number, y: number): HitLocation {
+  const { angle, distance } = toPolar(x, y);
+  const direction: HitDirection =
+    angle < -CENTER_ANGLE ? "left" : angle > CENTER_ANGLE ? "right" : "center";
+  const depth: HitDepth = distance <= INFIELD_RADIUS ? "infield" : "outfield";
+  return {
+    x: Math.round(x * 10) / 10,
+    y: Math.round(y * 10) / 10,
+    direction,
+    depth,
+  };
+}
+
+// 打撃結果から打球の種類を推定（安打などは入力が必要なので null）
+export function inferBattedBallType(result: string): BattedBallType | null {
+  switch (result) {
+    case "ゴロ":
+    case "犠打":
+    case "フィールダースチョイス":
+      return "ground";
+    case "ライナー":
+      return "line";
+    case "フライ":
+    case "犠飛":
+      return "fly";
+    default:
+      return null;
+  }
+}
+
+// 打球を記録できる結果（四死球・三振以外）
+export function isBattedBallResult(result: string): boolean {
+  return !!result && !["四球", "死球", "三振"].includes(result);
+}
+
+// 打者の打球傾向
+export interface HitTendency {
+  total: number;
+  byDirection: Record<HitDirection, number>;
+  byType: Record<BattedBallType, number>;
+  outfieldRate: number | null;
+}
+
+export function summarizeHitTendency(
+  records: {
+    hit_direction?: string | null;
+    hit_depth?: string | null;
+    batted_ball_type?: string | null;
+  }[]
+): HitTendency {
+  const byDirection: Record<HitDirection, number> = {
+    left: 0,
+    center: 0,
+    right: 0,
+  };
+  const byType: Record<BattedBallType, number> = {
+    ground: 0,
+    line: 0,
+    fly: 0,
+  };
+  let total = 0;
+  let outfield = 0;
+
+  for (const record of records) {
+    if (!record.hit_direction) continue;
+    total++;
+    byDirection[record.hit_direction as HitDirection]++;
+    if (record.hit_depth === "outfield") outfield++;
+    if (record.batted_ball_type) {
+      byType[record.batted_ball_type as BattedBallType]++;
+    }
+  }
+
+  return {
+    total,
+    byDirection,
+    byType,
+    outfieldRate: total > 0 ? outfield / total : null,
+  };
+}
+
+// 守備位置の傾向（一方向に半数以上なら寄せる、外野への打球が多ければ深め）
+// 打球が少ないうちは判定しない
+export function getPositioningTendency(
+  tendency: HitTendency,
+  minBattedBalls: number = 5
+): string | null {
+  if (tendency.total < minBattedBalls) return null;
+
+  const shares = tendency.byDirection;
+  const notes: string[] = [];
+  if (shares.left / tendency.total >= 0.5) notes.push("左寄り");
+  else if (shares.right / tendency.total >= 0.5) notes.push("右寄り");
+  else notes.push("定位置");
+
+  const typed =
+    tendency.byType.ground + tendency.byType.line + tendency.byType.fly;
+  if (tendency.outfieldRate !== null && tendency.outfieldRate >= 0.6) {
+    notes.push("外野深め");
+  } else if (typed > 0 && tendency.byType.ground / typed >= 0.6) {
+    notes.push("内野ゴロ警戒");
+  }
+  return notes.join("・");
+}
+
+// 割合の表示（%）
+export function formatShare(count: number, total: number): string {
+  return total > 0 ? `${Math.round((count / total) * 100)}%` : "-";
+}
@@ -0,0 +1,380 @@
+// 表計算ファイル（CSV・XLSX）の読み書き
+// 外部ライブラリを使わず、XLSX は無圧縮 ZIP で書き出し、読み込みはブラウザの DecompressionStream で展開する
+
+export type CellValue = string | number | null | undefined;
+
+export interface SheetData {
+  name: string;
+  rows: CellValue[][];
+}
+
+// ===== CSV =====
+
+function escapeCsvCell(value: CellValue): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CSV 文字列を作成（Excel で文字化けしないよう BOM 付き）
+export function toCsv(rows: CellValue[][]): string {
+  return "﻿" + rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+// CSV を解析（引用符内のカンマ・改行に対応、空行は除く）
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const source = text.replace(/^﻿/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+// ===== ZIP =====
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 無圧縮の ZIP を作成
+function buildZip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // ファイル名は UTF-8
+    local.setUint16(8, 0, true); // 無圧縮
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, file.data.length, true);
+    central.setUint32(24, file.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, file.data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + file.data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, p) => sum + p.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ZIP を展開（無圧縮・deflate のみ対応）
+async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  let endOffset = -1;
+  for (let i = buffer.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error("ZIP 形式ではありません");
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let position = view.getUint32(endOffset + 16, true);
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(position + 46, position + 46 + nameLength)
+    );
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      files.set(name, await inflateRaw(data));
+    }
+
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
+
+// ===== XLSX =====
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// 列番号（0始まり）→ 列名（A, B, …, AA）
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function columnIndex(name: string): number {
+  return (
+    name
+      .split("")
+      .reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1
+  );
+}
+
+// シート名に使えない文字を除いて31文字以内に
+function sanitizeSheetName(name: string, index: number): string {
+  const cleaned = name.replace(/[\\/?*[\]:]/g, "").slice(0, 31);
+  return cleaned || `Sheet${index + 1}`;
+}
+
+function buildSheetXml(rows: CellValue[][]): string {
+  const rowXml = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          if (value === null || value === undefined || value === "") return "";
+          const ref = `${columnName(c)}${r + 1}`;
+          if (typeof value === "number" && Number.isFinite(value)) {
+            return `<c r="${ref}"><v>${value}</v></c>`;
+          }
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+            String(value)
+          )}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowXml}</sheetData></worksheet>`;
+}
+
+// XLSX ファイルを作成
+export function buildXlsx(sheets: SheetData[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const names = sheets.map((s, i) => sanitizeSheetName(s.name, i));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheets
+    .map(
+      (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("")}</Types>`;
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+    .map(
+      (name, i) =>
+        `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+    )
+    .join("")}</sheets></workbook>`;
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+    .map(
+      (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    )
+    .join("")}</Relationships>`;
+
+  return buildZip([
+    { name: "[Content_Types].xml", data: encoder.encode(contentTypes) },
+    { name: "_rels/.rels", data: encoder.encode(rootRels) },
+    { name: "xl/workbook.xml", data: encoder.encode(workbook) },
+    { name: "xl/_rels/workbook.xml.rels", data: encoder.encode(workbookRels) },
+    ...sheets.map((sheet, i) => ({
+      name: `xl/worksheets/sheet${i + 1}.xml`,
+      data: encoder.encode(buildSheetXml(sheet.rows)),
+    })),
+  ]);
+}
+
+// セル内のテキスト（書式付き文字列は連結）
+function readTextRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g))
+    .map((m) => decodeXml(m[1]))
+    .join("");
+}
+
+// XLSX ファイルを読み込み（値のみ、数値はそのまま数値で返す）
+export async function readXlsx(buffer: ArrayBuffer): Promise<SheetData[]> {
+  const files = await readZip(buffer);
+  const decoder = new TextDecoder();
+  const text = (path: string) => {
+    const data = files.get(path);
+    return data ? decoder.decode(data) : "";
+  };
+
+  const sharedStrings = Array.from(
+    text("xl/sharedStrings.xml").matchAll(/<si>([\s\S]*?)<\/si>/g)
+  ).map((m) => readTextRuns(m[1]));
+
+  const relTargets = new Map<string, string>();
+  for (const m of text("xl/_rels/workbook.xml.rels").matchAll(
+    /<Relationship\b[^>]*>/g
+  )) {
+    const id = m[0].match(/\bId="([^"]+)"/)?.[1];
+    const target = m[0].match(/\bTarget="([^"]+)"/)?.[1];
+    if (id && target) relTargets.set(id, target.replace(/^\/?(xl\/)?/, ""));
+  }
+
+  const sheets: SheetData[] = [];
+  for (const m of text("xl/workbook.xml").matchAll(/<sheet\b[^>]*>/g)) {
+    const name = decodeXml(m[0].match(/\bname="([^"]*)"/)?.[1] || "");
+    const relId = m[0].match(/\br:id="([^"]+)"/)?.[1] || "";
+    const sheetXml = text(`xl/${relTargets.get(relId) || ""}`);
+
+    const rows: CellValue[][] = [];
+    for (const cell of sheetXml.matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const ref = cell[1].match(/\br="([A-Z]+)(\d+)"/);
+      if (!ref) continue;
+      const type = cell[1].match(/\bt="([^"]+)"/)?.[1];
+      const body = cell[2] || "";
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value: CellValue = null;
+      if (type === "s" && raw !== undefined) {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        value = readTextRuns(body);
+      } else if (type === "str" || type === "b" || type === "e") {
+        value = raw !== undefined ? decodeXml(raw) : null;
+      } else if (raw !== undefined) {
+        value = Number(raw);
+      }
+
+      const r = Number(ref[2]) - 1;
+      const c = columnIndex(ref[1]);
+      rows[r] = rows[r] || [];
+      rows[r][c] = value;
+    }
+
+    sheets.push({
+      name,
+      rows: Array.from(rows, (row) => Array.from(row || [], (v) => v ?? null)),
+    });
+  }
+
+  return sheets;
+}
+
+// Excel のシリアル値（1900年基準）→ YYYY-MM-DD
+export function excelSerialToDate(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86400 * 1000));
+  return date.toISOString().split("T")[0];
+}
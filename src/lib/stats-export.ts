@@ -0,0 +1,291 @@
+// 成績のエクスポート（CSV・XLSX 用の表データ作成）
+// 打撃・投手・運営タスクの成績をメンバー単位で集計する（対象の試合は呼び出し側で絞り込む）
+
+import { CellValue } from "./spreadsheet";
+import { outsToInnings } from "./pitching-decisions";
+import {
+  calculateBattingMetrics,
+  calculateFipConstant,
+  calculatePitchingMetrics,
+  formatDecimal,
+  formatPercent,
+  formatRate,
+  sumBattingStatsRows,
+  sumPitchingRows,
+} from "./sabermetrics";
+
+export interface ExportGame {
+  id: string;
+  game_date: string;
+}
+
+export interface ExportPlayer {
+  id: string;
+  game_id: string;
+  player_name: string;
+  team_member_id: string | null;
+}
+
+// player_batting_stats ビューの1試合分
+export interface ExportBattingRow {
+  game_id: string;
+  player_id: string;
+  at_bats: number | null;
+  hits: number | null;
+  doubles: number | null;
+  triples: number | null;
+  home_runs: number | null;
+  rbi: number | null;
+  runs: number | null;
+  walks: number | null;
+  strikeouts?: number | null;
+  stolen_bases: number | null;
+}
+
+// game_pitching_records の1試合分
+export interface ExportPitchingRow {
+  game_id: string;
+  player_id: string;
+  innings_pitched: number | null;
+  hits_allowed: number | null;
+  runs_allowed: number | null;
+  earned_runs: number | null;
+  strikeouts: number | null;
+  walks: number | null;
+  home_runs_allowed: number | null;
+  win: boolean | null;
+  loss: boolean | null;
+  save: boolean | null;
+}
+
+export interface ExportTaskRow {
+  game_id: string;
+  task_type: string;
+  person_name: string;
+}
+
+export const TASK_TYPE_LABELS: Record<string, string> = {
+  equipment: "用具の保管・運搬",
+  scheduling: "試合を組む",
+  coordination: "対戦相手との調整",
+  ground: "グラウンドを用意",
+  attendance: "出欠を取る",
+  umpire: "審判の手配",
+  helper: "助っ人の手配",
+  media: "写真・動画撮影",
+  accounting: "会計報告",
+};
+
+export const BATTING_EXPORT_HEADERS = [
+  "期間",
+  "選手名",
+  "試合",
+  "打席",
+  "打数",
+  "安打",
+  "二塁打",
+  "三塁打",
+  "本塁打",
+  "打点",
+  "得点",
+  "四球",
+  "三振",
+  "盗塁",
+  "打率",
+  "出塁率",
+  "長打率",
+  "OPS",
+  "wOBA",
+  "ISO",
+  "BABIP",
+  "BB/K",
+  "RC",
+];
+
+export const PITCHING_EXPORT_HEADERS = [
+  "期間",
+  "選手名",
+  "登板",
+  "投球回",
+  "被安打",
+  "失点",
+  "自責点",
+  "奪三振",
+  "与四球",
+  "被本塁打",
+  "勝",
+  "敗",
+  "S",
+  "防御率",
+  "WHIP",
+  "FIP",
+  "K-BB%",
+];
+
+// 選手の表示名（メンバーは登録名、未登録は試合時の名前）を game_players ごとに決める
+function buildPlayerKeys(
+  players: ExportPlayer[],
+  memberNames: Map<string, string>
+): Map<string, string> {
+  return new Map(
+    players.map((p) => [
+      p.id,
+      (p.team_member_id && memberNames.get(p.team_member_id)) ||
+        p.player_name ||
+        "名前未設定",
+    ])
+  );
+}
+
+function toGameIds(games: ExportGame[]): Set<string> {
+  return new Set(games.map((g) => g.id));
+}
+
+// 対象期間の行を選手名ごとにまとめる
+function groupRowsByName<T extends { game_id: string; player_id: string }>(
+  games: ExportGame[],
+  players: ExportPlayer[],
+  memberNames: Map<string, string>,
+  rows: T[]
+): Map<string, { games: Set<string>; rows: T[] }> {
+  const gameIds = toGameIds(games);
+  const playerNames = buildPlayerKeys(players, memberNames);
+  const groups = new Map<string, { games: Set<string>; rows: T[] }>();
+
+  for (const row of rows) {
+    const name = playerNames.get(row.player_id);
+    if (!name || !gameIds.has(row.game_id)) continue;
+
+    const entry = groups.get(name) || { games: new Set(), rows: [] };
+    entry.games.add(row.game_id);
+    entry.rows.push(row);
+    groups.set(name, entry);
+  }
+  return groups;
+}
+
+export function buildBattingExportRows(
+  periodLabel: string,
+  games: ExportGame[],
+  players: ExportPlayer[],
+  memberNames: Map<string, string>,
+  rows: ExportBattingRow[]
+): CellValue[][] {
+  const groups = groupRowsByName(games, players, memberNames, rows);
+
+  const body = Array.from(groups.entries()).map(([name, group]) => {
+    const counts = sumBattingStatsRows(group.rows);
+    const metrics = calculateBattingMetrics(counts);
+    const sum = (key: "rbi" | "runs" | "strikeouts") =>
+      group.rows.reduce((total, row) => total + (row[key] || 0), 0);
+
+    return [
+      periodLabel,
+      name,
+      group.games.size,
+      metrics.plateAppearances,
+      counts.atBats,
+      counts.hits,
+      counts.doubles,
+      counts.triples,
+      counts.homeRuns,
+      sum("rbi"),
+      sum("runs"),
+      counts.walks,
+      sum("strikeouts"),
+      counts.stolenBases,
+      formatRate(metrics.battingAverage),
+      formatRate(metrics.onBasePercentage),
+      formatRate(metrics.sluggingPercentage),
+      formatRate(metrics.ops),
+      formatRate(metrics.woba),
+      formatRate(metrics.iso),
+      formatRate(metrics.babip),
+      formatDecimal(metrics.walksPerStrikeout),
+      formatDecimal(metrics.runsCreated, 1),
+    ];
+  });
+
+  return [BATTING_EXPORT_HEADERS, ...body];
+}
+
+export function buildPitchingExportRows(
+  periodLabel: string,
+  games: ExportGame[],
+  players: ExportPlayer[],
+  memberNames: Map<string, string>,
+  rows: ExportPitchingRow[],
+  regulationInnings: number = 7
+): CellValue[][] {
+  const groups = groupRowsByName(games, players, memberNames, rows);
+  // FIP 定数は対象期間のチーム全体の成績から求める
+  const fipConstant = calculateFipConstant(
+    sumPitchingRows(Array.from(groups.values()).flatMap((g) => g.rows)),
+    regulationInnings
+  );
+
+  const body = Array.from(groups.entries()).map(([name, group]) => {
+    const counts = sumPitchingRows(group.rows);
+    const metrics = calculatePitchingMetrics(
+      counts,
+      fipConstant,
+      regulationInnings
+    );
+
+    return [
+      periodLabel,
+      name,
+      group.games.size,
+      outsToInnings(counts.outs),
+      counts.hitsAllowed,
+      counts.runsAllowed,
+      counts.earnedRuns,
+      counts.strikeouts,
+      counts.walks,
+      counts.homeRunsAllowed,
+      counts.wins,
+      counts.losses,
+      counts.saves,
+      formatDecimal(metrics.era),
+      formatDecimal(metrics.whip),
+      formatDecimal(metrics.fip),
+      formatPercent(metrics.strikeoutMinusWalkRate),
+    ];
+  });
+
+  return [PITCHING_EXPORT_HEADERS, ...body];
+}
+
+export function buildTaskExportRows(
+  periodLabel: string,
+  games: ExportGame[],
+  tasks: ExportTaskRow[]
+): CellValue[][] {
+  const gameIds = toGameIds(games);
+  const taskTypes = Object.keys(TASK_TYPE_LABELS);
+  const counts = new Map<string, Record<string, number>>();
+
+  for (const task of tasks) {
+    if (!gameIds.has(task.game_id)) continue;
+    const entry = counts.get(task.person_name) || {};
+    entry[task.task_type] = (entry[task.task_type] || 0) + 1;
+    counts.set(task.person_name, entry);
+  }
+
+  const header = [
+    "期間",
+    "名前",
+    "合計",
+    ...taskTypes.map((type) => TASK_TYPE_LABELS[type]),
+  ];
+  const body = Array.from(counts.entries())
+    .map(([name, entry]) => [
+      periodLabel,
+      name,
+      Object.values(entry).reduce((sum, n) => sum + n, 0),
+      ...taskTypes.map((type) => entry[type] || 0),
+    ])
+    .sort((a, b) => Number(b[2]) - Number(a[2]));
+
+  return [header, ...body];
+}
@@ -0,0 +1,912 @@
+// 過去成績の取り込み（表計算ソフトからの移行用）
+// 試合ごとの打撃・投手成績の行を検証し、試合・出場選手・打撃記録・投手記録として登録する
+
+import { SupabaseClient } from "@supabase/supabase-js";
+import { CellValue, excelSerialToDate } from "./spreadsheet";
+import {
+  GAME_CATEGORIES,
+  GAME_CATEGORY_LABELS,
+  GameCategory,
+} from "./stats-period";
+
+export type ImportSheetKind = "batting" | "pitching";
+
+// 取り込み先のチームメンバー（名前は user_profiles.display_name）
+export interface ImportMember {
+  id: string;
+  name: string;
+}
+
+// 既に登録されているチームの試合（重複取り込みの検出用）
+export interface ExistingGame {
+  game_date: string;
+  opponent_name: string;
+}
+
+interface ImportLineBase {
+  rowNumber: number;
+  date: string;
+  opponent: string;
+  category: GameCategory;
+  memberId: string;
+  playerName: string;
+}
+
+export interface ImportBattingLine extends ImportLineBase {
+  battingOrder: number | null;
+  position: string | null;
+  atBats: number;
+  hits: number;
+  doubles: number;
+  triples: number;
+  homeRuns: number;
+  rbi: number;
+  runs: number;
+  walks: number;
+  hitByPitch: number;
+  strikeouts: number;
+  sacrificeBunts: number;
+  sacrificeFlies: number;
+  stolenBases: number;
+}
+
+export interface ImportPitchingLine extends ImportLineBase {
+  inningsPitched: number; // 5.2 = 5回2/3（game_pitching_records と同じ表記）
+  hitsAllowed: number;
+  runsAllowed: number;
+  earnedRuns: number;
+  strikeouts: number;
+  walks: number;
+  homeRunsAllowed: number;
+  win: boolean;
+  loss: boolean;
+  save: boolean;
+}
+
+export interface ImportIssue {
+  sheet: ImportSheetKind;
+  rowNumber: number;
+  message: string;
+}
+
+export interface ImportGamePlan {
+  date: string;
+  opponent: string;
+  category: GameCategory;
+  batting: ImportBattingLine[];
+  pitching: ImportPitchingLine[];
+  teamScore: number;
+  opponentScore: number;
+}
+
+export interface ImportPreview {
+  games: ImportGamePlan[];
+  errors: ImportIssue[];
+}
+
+// 取り込み用に作る打撃記録（1打席1行）
+export interface ExpandedBattingRecord {
+  inning: number;
+  result: string;
+  rbi: number;
+  run_scored: boolean;
+  stolen_base: boolean;
+  base_reached: number;
+  notes: string;
+}
+
+interface ColumnSpec {
+  header: string;
+  key: string;
+  required: boolean;
+}
+
+const BATTING_COLUMNS: ColumnSpec[] = [
+  { header: "日付", key: "date", required: true },
+  { header: "対戦相手", key: "opponent", required: true },
+  { header: "種別", key: "category", required: false },
+  { header: "選手名", key: "playerName", required: true },
+  { header: "打順", key: "battingOrder", required: false },
+  { header: "守備", key: "position", required: false },
+  { header: "打数", key: "atBats", required: true },
+  { header: "安打", key: "hits", required: true },
+  { header: "二塁打", key: "doubles", required: false },
+  { header: "三塁打", key: "triples", required: false },
+  { header: "本塁打", key: "homeRuns", required: false },
+  { header: "打点", key: "rbi", required: false },
+  { header: "得点", key: "runs", required: false },
+  { header: "四球", key: "walks", required: false },
+  { header: "死球", key: "hitByPitch", required: false },
+  { header: "三振", key: "strikeouts", required: false },
+  { header: "犠打", key: "sacrificeBunts", required: false },
+  { header: "犠飛", key: "sacrificeFlies", required: false },
+  { header: "盗塁", key: "stolenBases", required: false },
+];
+
+const PITCHING_COLUMNS: ColumnSpec[] = [
+  { header: "日付", key: "date", required: true },
+  { header: "対戦相手", key: "opponent", required: true },
+  { header: "種別", key: "category", required: false },
+  { header: "選手名", key: "playerName", required: true },
+  { header: "投球回", key: "inningsPitched", required: true },
+  { header: "被安打", key: "hitsAllowed", required: false },
+  { header: "失点", key: "runsAllowed", required: true },
+  { header: "自責点", key: "earnedRuns", required: false },
+  { header: "奪三振", key: "strikeouts", required: false },
+  { header: "与四球", key: "walks", required: false },
+  { header: "被本塁打", key: "homeRunsAllowed", required: false },
+  { header: "勝", key: "win", required: false },
+  { header: "敗", key: "loss", required: false },
+  { header: "S", key: "save", required: false },
+];
+
+const SHEET_LABELS: Record<ImportSheetKind, string> = {
+  batting: "打撃",
+  pitching: "投手",
+};
+
+export const IMPORT_NOTE = "取込";
+
+// 取り込みで作った打席か（イニング・打席順は実際のものではない）
+export function isImportedRecord(notes: string | null | undefined): boolean {
+  return !!notes?.includes(IMPORT_NOTE);
+}
+
+// テンプレート（見出し＋記入例）
+export function buildImportTemplate(kind: ImportSheetKind): CellValue[][] {
+  if (kind === "batting") {
+    return [
+      BATTING_COLUMNS.map((c) => c.header),
+      [
+        "2024-04-14",
+        "レッドスターズ",
+        "公式戦",
+        "山田太郎",
+        1,
+        "遊撃手",
+        4,
+        2,
+        1,
+        0,
+        0,
+        1,
+        1,
+        1,
+        0,
+        1,
+        0,
+        0,
+        1,
+      ],
+    ];
+  }
+  return [
+    PITCHING_COLUMNS.map((c) => c.header),
+    [
+      "2024-04-14",
+      "レッドスターズ",
+      "公式戦",
+      "佐藤次郎",
+      5.2,
+      6,
+      3,
+      2,
+      4,
+      2,
+      0,
+      1,
+      0,
+      0,
+    ],
+  ];
+}
+
+// 名前の照合用（空白の有無・全角半角の違いを無視）
+function normalizeName(name: string): string {
+  return name.normalize("NFKC").replace(/\s+/g, "");
+}
+
+function cellText(value: CellValue): string {
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+// 日付セル（"2024-04-14"・"2024/4/14"・Excel のシリアル値）→ YYYY-MM-DD
+export function parseImportDate(value: CellValue): string | null {
+  if (typeof value === "number") {
+    return value > 0 ? excelSerialToDate(value) : null;
+  }
+  const match = cellText(value).match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+// 試合の種別（"公式戦" などの表示名か "official" などの値、空欄は公式戦）
+function parseCategory(value: CellValue): GameCategory | null {
+  const text = cellText(value);
+  if (text === "") return "official";
+  return (
+    GAME_CATEGORIES.find(
+      (category) =>
+        category === text.toLowerCase() ||
+        GAME_CATEGORY_LABELS[category] === text
+    ) || null
+  );
+}
+
+function parseCount(value: CellValue): number | null {
+  const text = cellText(value);
+  if (text === "") return 0;
+  const number = Number(text);
+  return Number.isInteger(number) && number >= 0 ? number : null;
+}
+
+// 投球回（"5.2" = 5回2/3、小数部は 0〜2 のみ）
+function parseInnings(value: CellValue): number | null {
+  const text = cellText(value);
+  if (!/^\d+(\.\d)?$/.test(text)) return null;
+  const [whole, fraction = "0"] = text.split(".");
+  if (Number(fraction) > 2) return null;
+  return Number(whole) + Number(fraction) / 10;
+}
+
+function parseFlag(value: CellValue): boolean | null {
+  const text = cellText(value).toLowerCase();
+  if (["", "0", "false", "×", "-"].includes(text)) return false;
+  if (["1", "true", "○", "〇", "●"].includes(text)) return true;
+  return null;
+}
+
+// 見出し行から列の位置を決める（列の並び順は問わない）
+function mapColumns(
+  header: CellValue[],
+  columns: ColumnSpec[]
+): { indexes: Record<string, number>; missing: string[] } {
+  const headers = header.map((h) => cellText(h));
+  const indexes: Record<string, number> = {};
+  const missing: string[] = [];
+
+  for (const column of columns) {
+    const index = headers.indexOf(column.header);
+    if (index >= 0) {
+      indexes[column.key] = index;
+    } else if (column.required) {
+      missing.push(column.header);
+    }
+  }
+  return { indexes, missing };
+}
+
+interface ParsedSheet<T> {
+  lines: T[];
+  errors: ImportIssue[];
+}
+
+// 日付・対戦相手・種別・選手名の共通部分を検証
+function parseLineBase(
+  kind: ImportSheetKind,
+  row: CellValue[],
+  rowNumber: number,
+  indexes: Record<string, number>,
+  membersByName: Map<string, ImportMember[]>,
+  errors: ImportIssue[]
+): ImportLineBase | null {
+  const issue = (message: string) =>
+    errors.push({ sheet: kind, rowNumber, message });
+
+  const date = parseImportDate(row[indexes.date]);
+  const opponent = cellText(row[indexes.opponent]);
+  const categoryCell =
+    indexes.category === undefined ? "" : row[indexes.category];
+  const category = parseCategory(categoryCell);
+  const playerName = cellText(row[indexes.playerName]);
+
+  if (!date) issue(`日付「${cellText(row[indexes.date])}」を読み取れません`);
+  if (!opponent) issue("対戦相手が空欄です");
+  if (!category) {
+    issue(
+      `種別「${cellText(categoryCell)}」は${GAME_CATEGORIES.map(
+        (c) => GAME_CATEGORY_LABELS[c]
+      ).join("・")}のいずれかで入力してください`
+    );
+  }
+
+  const candidates = membersByName.get(normalizeName(playerName)) || [];
+  if (!playerName) {
+    issue("選手名が空欄です");
+  } else if (candidates.length === 0) {
+    issue(`「${playerName}」はチームメンバーに見つかりません`);
+  } else if (candidates.length > 1) {
+    issue(`「${playerName}」と同じ名前のメンバーが複数います`);
+  }
+
+  if (!date || !opponent || !category || candidates.length !== 1) return null;
+  return {
+    rowNumber,
+    date,
+    opponent,
+    category,
+    memberId: candidates[0].id,
+    playerName,
+  };
+}
+
+function groupMembersByName(
+  members: ImportMember[]
+): Map<string, ImportMember[]> {
+  const map = new Map<string, ImportMember[]>();
+  for (const member of members) {
+    const key = normalizeName(member.name);
+    map.set(key, [...(map.get(key) || []), member]);
+  }
+  return map;
+}
+
+function parseSheet<T>(
+  kind: ImportSheetKind,
+  rows: CellValue[][],
+  members: ImportMember[],
+  columns: ColumnSpec[],
+  parseRow: (
+    row: CellValue[],
+    base: ImportLineBase,
+    indexes: Record<string, number>,
+    issue: (message: string) => void
+  ) => T | null
+): ParsedSheet<T> {
+  const errors: ImportIssue[] = [];
+  if (rows.length === 0) {
+    return {
+      lines: [],
+      errors: [{ sheet: kind, rowNumber: 1, message: "データがありません" }],
+    };
+  }
+
+  const { indexes, missing } = mapColumns(rows[0], columns);
+  if (missing.length > 0) {
+    return {
+      lines: [],
+      errors: [
+        {
+          sheet: kind,
+          rowNumber: 1,
+          message: `必須の列がありません: ${missing.join("、")}`,
+        },
+      ],
+    };
+  }
+
+  const membersByName = groupMembersByName(members);
+  const lines: T[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    if (row.every((cell) => cellText(cell) === "")) return;
+    const rowNumber = index + 2;
+    const issue = (message: string) =>
+      errors.push({ sheet: kind, rowNumber, message });
+
+    const base = parseLineBase(
+      kind,
+      row,
+      rowNumber,
+      indexes,
+      membersByName,
+      errors
+    );
+    const line = base ? parseRow(row, base, indexes, issue) : null;
+    if (line) lines.push(line);
+  });
+
+  return { lines, errors };
+}
+
+// 数値列をまとめて読み取る（不正な値があれば null）
+function readCounts<K extends string>(
+  row: CellValue[],
+  indexes: Record<string, number>,
+  keys: K[],
+  columns: ColumnSpec[],
+  issue: (message: string) => void
+): Record<K, number> | null {
+  const counts = {} as Record<K, number>;
+  let valid = true;
+  for (const key of keys) {
+    const raw = indexes[key] === undefined ? "" : row[indexes[key]];
+    const value = parseCount(raw);
+    if (value === null) {
+      const header = columns.find((c) => c.key === key)?.header || key;
+      issue(`${header}「${cellText(raw)}」は0以上の整数で入力してください`);
+      valid = false;
+    } else {
+      counts[key] = value;
+    }
+  }
+  return valid ? counts : null;
+}
+
+export function parseBattingSheet(
+  rows: CellValue[][],
+  members: ImportMember[]
+): ParsedSheet<ImportBattingLine> {
+  return parseSheet(
+    "batting",
+    rows,
+    members,
+    BATTING_COLUMNS,
+    (row, base, indexes, issue) => {
+      const counts = readCounts(
+        row,
+        indexes,
+        [
+          "atBats",
+          "hits",
+          "doubles",
+          "triples",
+          "homeRuns",
+          "rbi",
+          "runs",
+          "walks",
+          "hitByPitch",
+          "strikeouts",
+          "sacrificeBunts",
+          "sacrificeFlies",
+          "stolenBases",
+        ],
+        BATTING_COLUMNS,
+        issue
+      );
+      if (!counts) return null;
+
+      const orderText =
+        indexes.battingOrder === undefined
+          ? ""
+          : cellText(row[indexes.battingOrder]);
+      const battingOrder = orderText === "" ? null : Number(orderText);
+      if (
+        battingOrder !== null &&
+        !(Number.isInteger(battingOrder) && battingOrder >= 1)
+      ) {
+        issue(`打順「${orderText}」は1以上の整数で入力してください`);
+        return null;
+      }
+
+      const extraBaseHits = counts.doubles + counts.triples + counts.homeRuns;
+      const plateAppearances =
+        counts.atBats +
+        counts.walks +
+        counts.hitByPitch +
+        counts.sacrificeBunts +
+        counts.sacrificeFlies;
+      let valid = true;
+      const check = (condition: boolean, message: string) => {
+        if (!condition) {
+          issue(message);
+          valid = false;
+        }
+      };
+      check(counts.hits <= counts.atBats, "安打が打数を超えています");
+      check(
+        extraBaseHits <= counts.hits,
+        "二塁打・三塁打・本塁打の合計が安打を超えています"
+      );
+      check(
+        counts.strikeouts <= counts.atBats - counts.hits,
+        "三振が凡打の数（打数−安打）を超えています"
+      );
+      check(plateAppearances > 0, "打席がありません");
+      check(counts.runs <= plateAppearances, "得点が打席数を超えています");
+      check(
+        counts.runs >= counts.homeRuns,
+        "得点が本塁打より少なくなっています"
+      );
+      check(
+        counts.stolenBases <= plateAppearances,
+        "盗塁が打席数を超えています"
+      );
+      if (!valid) return null;
+
+      return {
+        ...base,
+        ...counts,
+        battingOrder,
+        position:
+          indexes.position === undefined
+            ? null
+            : cellText(row[indexes.position]) || null,
+      };
+    }
+  );
+}
+
+export function parsePitchingSheet(
+  rows: CellValue[][],
+  members: ImportMember[]
+): ParsedSheet<ImportPitchingLine> {
+  return parseSheet(
+    "pitching",
+    rows,
+    members,
+    PITCHING_COLUMNS,
+    (row, base, indexes, issue) => {
+      const inningsPitched = parseInnings(row[indexes.inningsPitched]);
+      if (inningsPitched === null) {
+        issue(
+          `投球回「${cellText(
+            row[indexes.inningsPitched]
+          )}」は 5.2（5回2/3）の形式で入力してください`
+        );
+      }
+
+      const counts = readCounts(
+        row,
+        indexes,
+        [
+          "hitsAllowed",
+          "runsAllowed",
+          "earnedRuns",
+          "strikeouts",
+          "walks",
+          "homeRunsAllowed",
+        ],
+        PITCHING_COLUMNS,
+        issue
+      );
+
+      const flags: Record<"win" | "loss" | "save", boolean> = {
+        win: false,
+        loss: false,
+        save: false,
+      };
+      let flagsValid = true;
+      for (const key of ["win", "loss", "save"] as const) {
+        if (indexes[key] === undefined) continue;
+        const value = parseFlag(row[indexes[key]]);
+        if (value === null) {
+          const header = PITCHING_COLUMNS.find((c) => c.key === key)?.header;
+          issue(`${header}は 1 か空欄で入力してください`);
+          flagsValid = false;
+        } else {
+          flags[key] = value;
+        }
+      }
+
+      if (inningsPitched === null || !counts || !flagsValid) return null;
+
+      let valid = true;
+      const check = (condition: boolean, message: string) => {
+        if (!condition) {
+          issue(message);
+          valid = false;
+        }
+      };
+      check(
+        counts.earnedRuns <= counts.runsAllowed,
+        "自責点が失点を超えています"
+      );
+      check(
+        counts.homeRunsAllowed <= counts.hitsAllowed,
+        "被本塁打が被安打を超えています"
+      );
+      check(
+        [flags.win, flags.loss, flags.save].filter(Boolean).length <= 1,
+        "勝・敗・S は1つだけ指定してください"
+      );
+      if (!valid) return null;
+
+      return { ...base, ...counts, ...flags, inningsPitched };
+    }
+  );
+}
+
+function gameKey(date: string, opponent: string): string {
+  return `${date}|${normalizeName(opponent)}`;
+}
+
+// 日付と対戦相手が同じ行を1試合にまとめ、重複を検証した取り込み内容
+export function buildImportPreview(
+  batting: ParsedSheet<ImportBattingLine>,
+  pitching: ParsedSheet<ImportPitchingLine>,
+  existingGames: ExistingGame[]
+): ImportPreview {
+  const errors = [...batting.errors, ...pitching.errors];
+  const games = new Map<string, ImportGamePlan>();
+  const getGame = (line: ImportLineBase) => {
+    const key = gameKey(line.date, line.opponent);
+    const game = games.get(key) || {
+      date: line.date,
+      opponent: line.opponent,
+      category: line.category,
+      batting: [],
+      pitching: [],
+      teamScore: 0,
+      opponentScore: 0,
+    };
+    games.set(key, game);
+    return game;
+  };
+
+  // 同じ試合の行で種別が食い違う場合
+  const categoryIssue = (sheet: ImportSheetKind, line: ImportLineBase) => ({
+    sheet,
+    rowNumber: line.rowNumber,
+    message: `${line.date} ${line.opponent}戦の種別が他の行と異なります`,
+  });
+
+  for (const line of batting.lines) {
+    const game = getGame(line);
+    if (game.category !== line.category) {
+      errors.push(categoryIssue("batting", line));
+      continue;
+    }
+    if (game.batting.some((l) => l.memberId === line.memberId)) {
+      errors.push({
+        sheet: "batting",
+        rowNumber: line.rowNumber,
+        message: `${line.playerName} が同じ試合に2回入力されています`,
+      });
+      continue;
+    }
+    game.batting.push(line);
+    game.teamScore += line.runs;
+  }
+
+  for (const line of pitching.lines) {
+    const game = getGame(line);
+    if (game.category !== line.category) {
+      errors.push(categoryIssue("pitching", line));
+      continue;
+    }
+    if (game.pitching.some((l) => l.memberId === line.memberId)) {
+      errors.push({
+        sheet: "pitching",
+        rowNumber: line.rowNumber,
+        message: `${line.playerName} が同じ試合に2回入力されています`,
+      });
+      continue;
+    }
+    game.pitching.push(line);
+    game.opponentScore += line.runsAllowed;
+  }
+
+  const existingKeys = new Set(
+    existingGames.map((g) => gameKey(g.game_date, g.opponent_name))
+  );
+  for (const [key, game] of games) {
+    if (existingKeys.has(key)) {
+      const firstLine = game.batting[0] || game.pitching[0];
+      errors.push({
+        sheet: game.batting.length > 0 ? "batting" : "pitching",
+        rowNumber: firstLine.rowNumber,
+        message: `${game.date} ${game.opponent}戦は既に登録されています`,
+      });
+    }
+  }
+
+  return {
+    games: Array.from(games.values()).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    ),
+    errors: errors.sort(
+      (a, b) =>
+        a.sheet.localeCompare(b.sheet) || a.rowNumber - b.rowNumber
+    ),
+  };
+}
+
+export function formatImportIssue(issue: ImportIssue): string {
+  return `${SHEET_LABELS[issue.sheet]} ${issue.rowNumber}行目: ${issue.message}`;
+}
+
+// 1試合分の打撃成績を1打席ずつの記録に展開する
+// 打席の順序は分からないため、イニングは1から順に振る
+export function expandBattingLine(
+  line: ImportBattingLine
+): ExpandedBattingRecord[] {
+  const singles = line.hits - line.doubles - line.triples - line.homeRuns;
+  const groundOuts = line.atBats - line.hits - line.strikeouts;
+  const plan: { result: string; base: number; count: number }[] = [
+    { result: "本塁打", base: 4, count: line.homeRuns },
+    { result: "三塁打", base: 3, count: line.triples },
+    { result: "二塁打", base: 2, count: line.doubles },
+    { result: "安打", base: 1, count: singles },
+    { result: "四球", base: 1, count: line.walks },
+    { result: "死球", base: 1, count: line.hitByPitch },
+    { result: "犠飛", base: 0, count: line.sacrificeFlies },
+    { result: "犠打", base: 0, count: line.sacrificeBunts },
+    { result: "三振", base: 0, count: line.strikeouts },
+    { result: "ゴロ", base: 0, count: groundOuts },
+  ];
+
+  const records: ExpandedBattingRecord[] = plan.flatMap(
+    ({ result, base, count }) =>
+      Array.from({ length: count }, () => ({
+        inning: 0,
+        result,
+        rbi: 0,
+        run_scored: base === 4,
+        stolen_base: false,
+        base_reached: base,
+        notes: IMPORT_NOTE,
+      }))
+  );
+
+  // 得点: 本塁打の残りは出塁した打席から順に
+  let runs = line.runs - line.homeRuns;
+  for (const record of records) {
+    if (runs <= 0) break;
+    if (!record.run_scored && record.base_reached > 0) {
+      record.run_scored = true;
+      runs--;
+    }
+  }
+  for (const record of records) {
+    if (runs <= 0) break;
+    if (!record.run_scored) {
+      record.run_scored = true;
+      runs--;
+    }
+  }
+
+  // 打点: 本塁打・犠飛に1点ずつ、残りは先頭の打席から
+  let rbi = line.rbi;
+  for (const record of records) {
+    if (rbi <= 0) break;
+    if (record.result === "本塁打" || record.result === "犠飛") {
+      record.rbi = 1;
+      rbi--;
+    }
+  }
+  if (rbi > 0 && records.length > 0) {
+    const target =
+      records.find((r) => r.result !== "四球" && r.result !== "死球") ||
+      records[0];
+    target.rbi += rbi;
+  }
+
+  // 盗塁: 本塁打以外で出塁した打席から順に
+  let stolenBases = line.stolenBases;
+  for (const pass of [true, false]) {
+    for (const record of records) {
+      if (stolenBases <= 0) break;
+      const reached = record.base_reached > 0 && record.base_reached < 4;
+      if (!record.stolen_base && (reached || !pass)) {
+        record.stolen_base = true;
+        stolenBases--;
+      }
+    }
+  }
+
+  return records.map((record, index) => ({ ...record, inning: index + 1 }));
+}
+
+// 1試合分を登録（途中で失敗した場合はその試合を削除して中断）
+async function importGame(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string,
+  game: ImportGamePlan
+): Promise<void> {
+  const { data: createdGame, error: gameError } = await supabase
+    .from("games")
+    .insert({
+      name: `${game.opponent}戦`,
+      game_date: game.date,
+      opponent_name: game.opponent,
+      home_team_id: teamId,
+      status: "completed",
+      record_type: "team",
+      category: game.category,
+      home_score: game.teamScore,
+      opponent_score: game.opponentScore,
+      description: "過去成績の取り込み",
+      created_by: userId,
+    })
+    .select("id")
+    .single();
+
+  if (gameError || !createdGame) {
+    throw (
+      gameError ||
+      new Error(`${game.date} ${game.opponent}戦を登録できません`)
+    );
+  }
+  const gameId = createdGame.id;
+
+  try {
+    // 出場選手（打撃・投手のどちらかに記録があるメンバー）
+    const memberIds = Array.from(
+      new Set([
+        ...game.batting.map((l) => l.memberId),
+        ...game.pitching.map((l) => l.memberId),
+      ])
+    );
+    const playersToInsert = memberIds.map((memberId) => {
+      const batting = game.batting.find((l) => l.memberId === memberId);
+      const pitching = game.pitching.find((l) => l.memberId === memberId);
+      return {
+        game_id: gameId,
+        player_name: (batting || pitching)!.playerName,
+        team_member_id: memberId,
+        is_starter: batting?.battingOrder != null,
+        batting_order: batting?.battingOrder ?? null,
+        position: batting?.position || (pitching ? "投手" : null),
+        is_active: true,
+      };
+    });
+
+    const { data: players, error: playersError } = await supabase
+      .from("game_players")
+      .insert(playersToInsert)
+      .select("id, team_member_id");
+    if (playersError || !players) {
+      throw playersError || new Error("出場選手を登録できません");
+    }
+
+    const playerIds = new Map(
+      players.map((p) => [p.team_member_id as string, p.id as string])
+    );
+
+    const battingRecords = game.batting.flatMap((line) =>
+      expandBattingLine(line).map((record) => ({
+        ...record,
+        game_id: gameId,
+        player_id: playerIds.get(line.memberId),
+        batting_order: line.battingOrder || 0,
+      }))
+    );
+    if (battingRecords.length > 0) {
+      const { error } = await supabase
+        .from("game_batting_records")
+        .insert(battingRecords);
+      if (error) throw error;
+    }
+
+    const pitchingRecords = game.pitching.map((line) => ({
+      game_id: gameId,
+      player_id: playerIds.get(line.memberId),
+      innings_pitched: line.inningsPitched,
+      hits_allowed: line.hitsAllowed,
+      runs_allowed: line.runsAllowed,
+      earned_runs: line.earnedRuns,
+      strikeouts: line.strikeouts,
+      walks: line.walks,
+      home_runs_allowed: line.homeRunsAllowed,
+      win: line.win,
+      loss: line.loss,
+      save: line.save,
+    }));
+    if (pitchingRecords.length > 0) {
+      const { error } = await supabase
+        .from("game_pitching_records")
+        .insert(pitchingRecords);
+      if (error) throw error;
+    }
+  } catch (error) {
+    await supabase.from("games").delete().eq("id", gameId);
+    throw error;
+  }
+}
+
+// 検証済みの取り込み内容を登録し、登録した試合数を返す
+export async function executeImport(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string,
+  preview: ImportPreview
+): Promise<number> {
+  if (preview.errors.length > 0) {
+    throw new Error("エラーのある行を修正してから取り込んでください");
+  }
+
+  let imported = 0;
+  for (const game of preview.games) {
+    await importGame(supabase, teamId, userId, game);
+    imported++;
+  }
+  return imported;
+}
@@ -0,0 +1,147 @@
+// 成績の集計期間（年度・チーム独自のシーズン・日付範囲）と試合種別の絞り込み
+
+export type GameCategory = "official" | "practice" | "scrimmage";
+
+export const GAME_CATEGORIES: GameCategory[] = [
+  "official",
+  "practice",
+  "scrimmage",
+];
+
+export const GAME_CATEGORY_LABELS: Record<GameCategory, string> = {
+  official: "公式戦",
+  practice: "練習試合",
+  scrimmage: "紅白戦",
+};
+
+// チームごとのシーズン区切り（teams.seasons に保存）
+export interface TeamSeason {
+  name: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD（当日を含む）
+}
+
+export type StatsPeriodMode = "all" | "year" | "season" | "range";
+
+export interface StatsFilter {
+  mode: StatsPeriodMode;
+  year: number;
+  seasonName: string;
+  startDate: string;
+  endDate: string;
+  categories: GameCategory[];
+}
+
+export interface PeriodGame {
+  game_date: string;
+  category?: string | null;
+}
+
+export function createDefaultStatsFilter(): StatsFilter {
+  return {
+    mode: "all",
+    year: new Date().getFullYear(),
+    seasonName: "",
+    startDate: "",
+    endDate: "",
+    categories: [...GAME_CATEGORIES],
+  };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// DB の値（未設定・不正な値を含む）→ 新しい順のシーズン一覧
+export function normalizeTeamSeasons(value: unknown): TeamSeason[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(
+      (s): s is TeamSeason =>
+        !!s &&
+        typeof s.name === "string" &&
+        s.name.trim() !== "" &&
+        DATE_PATTERN.test(s.start_date) &&
+        DATE_PATTERN.test(s.end_date) &&
+        s.start_date <= s.end_date
+    )
+    .map((s) => ({
+      name: s.name.trim(),
+      start_date: s.start_date,
+      end_date: s.end_date,
+    }))
+    .sort((a, b) => b.start_date.localeCompare(a.start_date));
+}
+
+// 絞り込み条件 → 対象の日付範囲（null は制限なし）
+export function resolveDateRange(
+  filter: StatsFilter,
+  seasons: TeamSeason[]
+): { start: string | null; end: string | null } {
+  switch (filter.mode) {
+    case "year":
+      return { start: `${filter.year}-01-01`, end: `${filter.year}-12-31` };
+    case "season": {
+      const season = seasons.find((s) => s.name === filter.seasonName);
+      return season
+        ? { start: season.start_date, end: season.end_date }
+        : { start: null, end: null };
+    }
+    case "range":
+      return { start: filter.startDate || null, end: filter.endDate || null };
+    default:
+      return { start: null, end: null };
+  }
+}
+
+// 試合が絞り込み条件に当てはまるか
+// 種別が未設定の試合は、すべての種別を選んでいるときのみ含める
+export function isGameInPeriod(
+  game: PeriodGame,
+  filter: StatsFilter,
+  seasons: TeamSeason[]
+): boolean {
+  const { start, end } = resolveDateRange(filter, seasons);
+  const date = game.game_date.slice(0, 10);
+  if (start && date < start) return false;
+  if (end && date > end) return false;
+
+  if (filter.categories.length === GAME_CATEGORIES.length) return true;
+  return filter.categories.includes(game.category as GameCategory);
+}
+
+export function filterGamesByPeriod<T extends PeriodGame>(
+  games: T[],
+  filter: StatsFilter,
+  seasons: TeamSeason[]
+): T[] {
+  return games.filter((game) => isGameInPeriod(game, filter, seasons));
+}
+
+// 試合がある年の一覧（新しい順）
+export function listGameYears(games: PeriodGame[]): number[] {
+  return Array.from(new Set(games.map((g) => Number(g.game_date.slice(0, 4)))))
+    .filter((year) => !Number.isNaN(year))
+    .sort((a, b) => b - a);
+}
+
+// 絞り込み条件の表示（例: "2024年・公式戦"）
+export function describeStatsFilter(
+  filter: StatsFilter,
+  seasons: TeamSeason[]
+): string {
+  const { start, end } = resolveDateRange(filter, seasons);
+  let period = "全期間";
+  if (filter.mode === "year") {
+    period = `${filter.year}年`;
+  } else if (filter.mode === "season" && filter.seasonName) {
+    period = filter.seasonName;
+  } else if (filter.mode === "range" && (start || end)) {
+    period = `${start || ""}〜${end || ""}`;
+  }
+
+  if (filter.categories.length === GAME_CATEGORIES.length) return period;
+  const categories = filter.categories
+    .map((c) => GAME_CATEGORY_LABELS[c])
+    .join("・");
+  return `${period}・${categories || "種別なし"}`;
+}